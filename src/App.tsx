@@ -8,6 +8,11 @@ import { Auth } from './components/Auth'
 import { Layout } from './components/Layout'
 import { Dashboard } from './components/Dashboard'
 import { RecipeManager } from './components/RecipeManager'
+import { CollectionsView } from './components/CollectionsView'
+import { ShoppingListsView } from './components/ShoppingListsView'
+import { MealPlannerView } from './components/MealPlannerView'
+import { PantryView } from './components/PantryView'
+import { ProductionPlannerView } from './components/ProductionPlannerView'
 import { LearningHub } from './components/LearningHub'
 import { CommunityForum } from './components/CommunityForum'
 import { ChatAssistant } from './components/ChatAssistant'
@@ -23,7 +28,10 @@ import { supabase } from './utils/supabase/client'
 
 function AppContent() {
   const { user, loading } = useAuth()
-  const [activeTab, setActiveTab] = useState('dashboard')
+  // Shared recipe links (?recipe=<id>) open straight into the recipes tab
+  const [activeTab, setActiveTab] = useState(() =>
+    new URLSearchParams(window.location.search).has('recipe') ? 'recipes' : 'dashboard'
+  )
   const [databaseReady, setDatabaseReady] = useState<boolean | null>(null)
 
   useEffect(() => {
@@ -127,6 +135,36 @@ function AppContent() {
             <RecipeManager />
           </ErrorBoundary>
         )
+      case 'collections':
+        return (
+          <ErrorBoundary>
+            <CollectionsView />
+          </ErrorBoundary>
+        )
+      case 'planner':
+        return (
+          <ErrorBoundary>
+            <MealPlannerView />
+          </ErrorBoundary>
+        )
+      case 'pantry':
+        return (
+          <ErrorBoundary>
+            <PantryView />
+          </ErrorBoundary>
+        )
+      case 'timeline':
+        return (
+          <ErrorBoundary>
+            <ProductionPlannerView />
+          </ErrorBoundary>
+        )
+      case 'shopping':
+        return (
+          <ErrorBoundary>
+            <ShoppingListsView />
+          </ErrorBoundary>
+        )
       case 'portfolio':
         return (
           <ErrorBoundary>
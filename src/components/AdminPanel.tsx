@@ -32,7 +32,8 @@ export function AdminPanel() {
     totalUsers: 0,
     activeToday: 0,
     totalRecipes: 0,
-    totalPosts: 0
+    totalPosts: 0,
+    recipeViews: 0
   })
 
   useEffect(() => {
@@ -50,6 +51,7 @@ export function AdminPanel() {
       let recipesCount = 0
       let postsCount = 0
       let activeCount = 0
+      let viewsCount = 0
       let usersSample = []
 
       // Fetch users count with error handling
@@ -117,11 +119,25 @@ export function AdminPanel() {
         console.warn('Activities table not available:', error)
       }
 
+      // Count recipe views with error handling
+      try {
+        const { count, error: viewsError } = await supabase
+          .from('recipe_views')
+          .select('*', { count: 'exact', head: true })
+        
+        if (!viewsError || (viewsError.code !== 'PGRST205' && viewsError.code !== '42P01')) {
+          viewsCount = count || 0
+        }
+      } catch (error) {
+        console.warn('Recipe views table not available:', error)
+      }
+
       setStats({
         totalUsers: usersCount,
         activeToday: activeCount,
         totalRecipes: recipesCount,
-        totalPosts: postsCount
+        totalPosts: postsCount,
+        recipeViews: viewsCount
       })
 
       setUsers(usersSample)
@@ -337,7 +353,7 @@ export function AdminPanel() {
                         </div>
                         <div className="flex justify-between">
                           <span>Recipe Views</span>
-                          <span className="font-medium">1,234</span>
+                          <span className="font-medium">{stats.recipeViews.toLocaleString()}</span>
                         </div>
                         <div className="flex justify-between">
                           <span>Forum Interactions</span>
@@ -15,6 +15,9 @@ import {
   Clock,
   Lightbulb
 } from 'lucide-react'
+import { findSubstitutions } from './hooks/useSubstitutions'
+import { SubstitutionQuestion, describeRatio, parseSubstitutionQuestion } from '../utils/recipes/substitutions'
+import { DIETARY_LABELS, dietaryLabel } from '../utils/recipes/dietary'
 
 interface Message {
   id: string
@@ -54,8 +57,35 @@ export function ChatAssistant() {
     scrollToBottom()
   }, [messages])
 
-  const generateBotResponse = (userMessage: string): string => {
+  // Answers from the substitutions knowledge base
+  const generateSubstitutionResponse = async ({ ingredient, context, dietary }: SubstitutionQuestion): Promise<string> => {
+    if (!ingredient) {
+      return "Which ingredient do you need to replace? Try something like \"substitute for eggs in baking\" or \"dairy-free swap for butter\"."
+    }
+
+    try {
+      const substitutions = await findSubstitutions(ingredient, { context, dietary })
+      if (substitutions.length === 0) {
+        return `I don't know a good substitute for ${ingredient}${dietary ? ` that is ${dietaryLabel(dietary).toLowerCase()}` : ''} yet. Try asking without the extra details, or look for the Substitute button next to ingredients in a recipe.`
+      }
+
+      const options = substitutions.slice(0, 3).map(substitution =>
+        `• ${substitution.substitute} (${describeRatio(substitution).toLowerCase()})${substitution.notes ? ` – ${substitution.notes}` : ''}`
+      )
+      return [`Instead of ${ingredient}, you could use:`, ...options].join('\n')
+    } catch (error) {
+      console.error('Error fetching substitutions:', error)
+      return "I couldn't look up substitutions just now. Please try again in a moment."
+    }
+  }
+
+  const generateBotResponse = async (userMessage: string): Promise<string> => {
     const message = userMessage.toLowerCase()
+
+    const substitutionQuestion = parseSubstitutionQuestion(message, DIETARY_LABELS.map(label => label.id))
+    if (substitutionQuestion) {
+      return generateSubstitutionResponse(substitutionQuestion)
+    }
     
     // Recipe suggestions
     if (message.includes('recipe') || message.includes('cook') || message.includes('make')) {
@@ -79,17 +109,6 @@ export function ChatAssistant() {
       return techniques[Math.floor(Math.random() * techniques.length)]
     }
     
-    // Ingredients and substitutions
-    if (message.includes('ingredient') || message.includes('substitute') || message.includes('replace')) {
-      const substitutions = [
-        "No eggs? Try using 1/4 cup applesauce or 1 mashed banana per egg in baking recipes.",
-        "Out of butter? Use equal amounts of coconut oil or vegetable oil in most recipes.",
-        "No heavy cream? Mix 3/4 cup milk with 1/4 cup melted butter for a good substitute.",
-        "Missing garlic? Use 1/8 teaspoon garlic powder for each clove of fresh garlic."
-      ]
-      return substitutions[Math.floor(Math.random() * substitutions.length)]
-    }
-    
     // Platform help
     if (message.includes('platform') || message.includes('help') || message.includes('how') || message.includes('use')) {
       const platformHelp = [
@@ -104,7 +123,7 @@ export function ChatAssistant() {
     // Meal planning
     if (message.includes('plan') || message.includes('meal') || message.includes('week')) {
       const planningTips = [
-        "Start by planning 3-4 meals for the week, then make a grocery list based on those recipes.",
+        "Start by planning 3-4 meals for the week in the Meal Planner, then turn those days into a shopping list.",
         "Prep ingredients on Sunday - wash vegetables, cook grains, and marinate proteins for the week.",
         "Choose one-pot or sheet-pan meals for busy weeknights to minimize cleanup time.",
         "Cook double portions and freeze half for future meals when you're short on time."
@@ -138,10 +157,10 @@ export function ChatAssistant() {
     setIsTyping(true)
 
     // Simulate bot typing delay
-    setTimeout(() => {
+    setTimeout(async () => {
       const botResponse: Message = {
         id: (Date.now() + 1).toString(),
-        content: generateBotResponse(content),
+        content: await generateBotResponse(content),
         sender: 'bot',
         timestamp: new Date()
       }
@@ -255,7 +274,7 @@ export function ChatAssistant() {
                         : 'bg-accent'
                     }`}
                   >
-                    <p className="text-sm">{message.content}</p>
+                    <p className="text-sm whitespace-pre-line">{message.content}</p>
                     <p className={`text-xs mt-1 ${
                       message.sender === 'user' ? 'text-primary-foreground/70' : 'text-muted-foreground'
                     }`}>
@@ -0,0 +1,352 @@
+import React, { useState } from 'react'
+import { useAuth } from './AuthContext'
+import { Button } from './ui/button'
+import { Badge } from './ui/badge'
+import { Card, CardContent } from './ui/card'
+import { Textarea } from './ui/textarea'
+import { Skeleton } from './ui/skeleton'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog'
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from './ui/alert-dialog'
+import { useNotifications } from './ui/notification'
+import {
+  ArrowLeft,
+  ArrowUp,
+  ArrowDown,
+  BookOpen,
+  ChefHat,
+  Edit,
+  Globe,
+  Lock,
+  LogOut,
+  ShoppingCart,
+  StickyNote,
+  Trash2,
+  UserPlus,
+  Users,
+  X
+} from 'lucide-react'
+import { CollectionForm } from './CollectionForm'
+import { CollectionMembersDialog } from './CollectionMembersDialog'
+import { CookbookView } from './CookbookView'
+import { RecipeDetailDialog } from './RecipeDetailDialog'
+import { RecipeCardImage } from './OptimizedImage'
+import { RecipeDietaryBadges } from './RecipeDietaryBadges'
+import { ShoppingListBuilder } from './ShoppingListBuilder'
+import { useCollectionEntries } from './hooks/useCollections'
+import { useShoppingLists, ShoppingListDraft } from './hooks/useShoppingLists'
+import { CollectionDraft, RecipeCollection, canEditCollection } from '../utils/recipes/collections'
+
+interface CollectionDetailProps {
+  collection: RecipeCollection
+  onBack: () => void
+  onUpdate: (updates: Partial<CollectionDraft>) => Promise<void>
+  onDelete: () => Promise<void>
+  onLeft: () => void
+}
+
+export function CollectionDetail({ collection, onBack, onUpdate, onDelete, onLeft }: CollectionDetailProps) {
+  const { user } = useAuth()
+  const { addNotification } = useNotifications()
+  const {
+    entries,
+    members,
+    loading,
+    moveEntry,
+    updateNote,
+    removeEntry,
+    addMembers,
+    removeMember
+  } = useCollectionEntries(collection.id)
+  const { createList } = useShoppingLists(false)
+
+  const [showCookbook, setShowCookbook] = useState(false)
+  const [showSettings, setShowSettings] = useState(false)
+  const [showMembers, setShowMembers] = useState(false)
+  const [showDelete, setShowDelete] = useState(false)
+  const [showShopping, setShowShopping] = useState(false)
+  const [editingNoteId, setEditingNoteId] = useState<string | null>(null)
+  const [noteDraft, setNoteDraft] = useState('')
+  const [selectedRecipe, setSelectedRecipe] = useState<any>(null)
+
+  const isOwner = user?.id === collection.owner_id
+  const canEdit = canEditCollection(collection, user?.id)
+
+  const notifyError = (message: string) => (error: unknown) => {
+    console.error(message, error)
+    addNotification({ title: 'Error', message, type: 'error' })
+  }
+
+  const createShoppingList = async (draft: ShoppingListDraft) => {
+    await createList(draft)
+    addNotification({ title: 'Shopping list created', message: `"${draft.title}" is in Shopping Lists.`, type: 'success' })
+  }
+
+  const saveNote = async (entryId: string) => {
+    try {
+      await updateNote(entryId, noteDraft)
+      setEditingNoteId(null)
+    } catch (error) {
+      notifyError('Failed to save the note. Please try again.')(error)
+    }
+  }
+
+  if (showCookbook) {
+    return <CookbookView collection={collection} entries={entries} onBack={() => setShowCookbook(false)} />
+  }
+
+  return (
+    <div className="space-y-6">
+      <Button variant="ghost" onClick={onBack} className="gap-2">
+        <ArrowLeft className="h-4 w-4" />
+        All collections
+      </Button>
+
+      <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4">
+        <div className="space-y-1">
+          <h1 className="text-2xl font-bold">{collection.title}</h1>
+          <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+            <span>by {collection.profiles?.name || 'Unknown'}</span>
+            <Badge variant="outline" className="gap-1">
+              {collection.visibility === 'public' ? <Globe className="h-3 w-3" /> : <Lock className="h-3 w-3" />}
+              {collection.visibility === 'public' ? 'Public' : 'Private'}
+            </Badge>
+            {collection.is_collaborative && (
+              <Badge variant="outline" className="gap-1">
+                <Users className="h-3 w-3" />
+                Collaborative
+              </Badge>
+            )}
+            {members.length > 0 && <span>{members.length} members</span>}
+          </div>
+          {collection.description && <p className="text-muted-foreground">{collection.description}</p>}
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" onClick={() => setShowCookbook(true)} className="gap-2">
+            <BookOpen className="h-4 w-4" />
+            Cookbook
+          </Button>
+          <Button variant="outline" onClick={() => setShowShopping(true)} disabled={entries.length === 0} className="gap-2">
+            <ShoppingCart className="h-4 w-4" />
+            Shopping list
+          </Button>
+          {isOwner && (
+            <>
+              <Button variant="outline" onClick={() => setShowMembers(true)} className="gap-2">
+                <UserPlus className="h-4 w-4" />
+                Share
+              </Button>
+              <Button variant="outline" size="icon" onClick={() => setShowSettings(true)} aria-label="Edit collection">
+                <Edit className="h-4 w-4" />
+              </Button>
+              <Button variant="outline" size="icon" onClick={() => setShowDelete(true)} aria-label="Delete collection">
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </>
+          )}
+          {!isOwner && members.some(member => member.user_id === user?.id) && (
+            <Button variant="outline" onClick={() => removeMember(user!.id).then(onLeft).catch(notifyError('Failed to leave the collection.'))} className="gap-2">
+              <LogOut className="h-4 w-4" />
+              Leave
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {loading && entries.length === 0 ? (
+        <div className="space-y-3">
+          {[...Array(3)].map((_, i) => <Skeleton key={i} className="h-24 w-full" />)}
+        </div>
+      ) : entries.length === 0 ? (
+        <div className="text-center py-12">
+          <ChefHat className="h-16 w-16 mx-auto text-muted-foreground mb-4" />
+          <h3 className="text-lg font-semibold mb-2">No recipes yet</h3>
+          <p className="text-muted-foreground">
+            {canEdit ? 'Use the Save button on any recipe to add it here.' : 'Recipes added to this collection will appear here.'}
+          </p>
+        </div>
+      ) : (
+        <ol className="space-y-3">
+          {entries.map((entry, index) => (
+            <li key={entry.id}>
+              <Card className="glass-card">
+                <CardContent className="p-4 flex gap-4">
+                  <span className="text-lg font-semibold text-muted-foreground w-6 text-right flex-shrink-0">{index + 1}</span>
+
+                  <button
+                    type="button"
+                    className="w-20 h-20 rounded-md overflow-hidden bg-accent flex-shrink-0"
+                    onClick={() => entry.recipe && setSelectedRecipe(entry.recipe)}
+                    disabled={!entry.recipe}
+                  >
+                    {entry.recipe?.image_url && entry.recipe.media_type !== 'video' ? (
+                      <RecipeCardImage src={entry.recipe.image_url} alt={entry.recipe.title} className="w-full h-full object-cover" />
+                    ) : (
+                      <ChefHat className="h-8 w-8 m-auto text-muted-foreground" />
+                    )}
+                  </button>
+
+                  <div className="flex-1 min-w-0 space-y-2">
+                    {entry.recipe ? (
+                      <button type="button" onClick={() => setSelectedRecipe(entry.recipe)} className="text-left">
+                        <h3 className="font-semibold hover:text-primary">{entry.recipe.title}</h3>
+                        <p className="text-xs text-muted-foreground">
+                          by {entry.recipe.author} • {(entry.recipe.prep_time || 0) + (entry.recipe.cook_time || 0)} min • serves {entry.recipe.servings}
+                        </p>
+                        <RecipeDietaryBadges recipe={entry.recipe} className="mt-1" />
+                      </button>
+                    ) : (
+                      <p className="text-sm text-muted-foreground italic">This recipe is private or no longer available.</p>
+                    )}
+
+                    {editingNoteId === entry.id ? (
+                      <div className="space-y-2">
+                        <Textarea
+                          value={noteDraft}
+                          onChange={(e) => setNoteDraft(e.target.value)}
+                          placeholder="Why is this recipe here? Tips, substitutions, grading notes..."
+                          rows={2}
+                        />
+                        <div className="flex gap-2">
+                          <Button size="sm" onClick={() => saveNote(entry.id)}>Save note</Button>
+                          <Button size="sm" variant="ghost" onClick={() => setEditingNoteId(null)}>Cancel</Button>
+                        </div>
+                      </div>
+                    ) : entry.note ? (
+                      <p className="text-sm border-l-2 border-primary/40 pl-2 whitespace-pre-wrap">{entry.note}</p>
+                    ) : null}
+                  </div>
+
+                  {canEdit && (
+                    <div className="flex flex-col gap-1 flex-shrink-0">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 w-7 p-0"
+                        disabled={index === 0}
+                        onClick={() => moveEntry(index, index - 1).catch(notifyError('Failed to reorder the collection.'))}
+                        aria-label="Move up"
+                      >
+                        <ArrowUp className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 w-7 p-0"
+                        disabled={index === entries.length - 1}
+                        onClick={() => moveEntry(index, index + 1).catch(notifyError('Failed to reorder the collection.'))}
+                        aria-label="Move down"
+                      >
+                        <ArrowDown className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 w-7 p-0"
+                        onClick={() => {
+                          setEditingNoteId(entry.id)
+                          setNoteDraft(entry.note || '')
+                        }}
+                        aria-label="Edit note"
+                      >
+                        <StickyNote className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 w-7 p-0 text-destructive"
+                        onClick={() => removeEntry(entry.id).catch(notifyError('Failed to remove the recipe.'))}
+                        aria-label="Remove from collection"
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      <ShoppingListBuilder
+        open={showShopping}
+        onOpenChange={setShowShopping}
+        initialTitle={collection.title}
+        initialEntries={entries
+          .filter(entry => entry.recipe)
+          .map(entry => ({ recipe: entry.recipe, servings: entry.recipe.servings || 1 }))}
+        onSave={createShoppingList}
+      />
+
+      {/* Settings Dialog */}
+      <Dialog open={showSettings} onOpenChange={setShowSettings}>
+        <DialogContent className="max-w-lg glass-modal">
+          <DialogHeader>
+            <DialogTitle>Edit collection</DialogTitle>
+            <DialogDescription>Change the title, description and who can see it</DialogDescription>
+          </DialogHeader>
+          <CollectionForm
+            initial={{
+              title: collection.title,
+              description: collection.description || '',
+              visibility: collection.visibility,
+              is_collaborative: collection.is_collaborative
+            }}
+            submitLabel="Save changes"
+            onCancel={() => setShowSettings(false)}
+            onSubmit={async (draft) => {
+              try {
+                await onUpdate(draft)
+                setShowSettings(false)
+              } catch (error) {
+                notifyError('Failed to update the collection. Please try again.')(error)
+              }
+            }}
+          />
+        </DialogContent>
+      </Dialog>
+
+      {isOwner && (
+        <CollectionMembersDialog
+          open={showMembers}
+          onOpenChange={setShowMembers}
+          collection={collection}
+          members={members}
+          onAddMembers={addMembers}
+          onRemoveMember={removeMember}
+        />
+      )}
+
+      {/* Delete Confirmation Dialog */}
+      <AlertDialog open={showDelete} onOpenChange={setShowDelete}>
+        <AlertDialogContent className="glass-modal">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Collection</AlertDialogTitle>
+            <AlertDialogDescription>
+              Are you sure you want to delete "{collection.title}"? The recipes themselves are not affected.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => onDelete().catch(notifyError('Failed to delete the collection. Please try again.'))}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {selectedRecipe && (
+        <RecipeDetailDialog
+          key={selectedRecipe.id}
+          recipe={selectedRecipe}
+          onClose={() => setSelectedRecipe(null)}
+          onOpenRecipe={setSelectedRecipe}
+        />
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,97 @@
+import React, { useState } from 'react'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Textarea } from './ui/textarea'
+import { Switch } from './ui/switch'
+import { CollectionDraft, EMPTY_COLLECTION_DRAFT, VISIBILITY_OPTIONS } from '../utils/recipes/collections'
+
+interface CollectionFormProps {
+  initial?: CollectionDraft
+  submitLabel: string
+  onSubmit: (draft: CollectionDraft) => Promise<void>
+  onCancel: () => void
+}
+
+export function CollectionForm({ initial = EMPTY_COLLECTION_DRAFT, submitLabel, onSubmit, onCancel }: CollectionFormProps) {
+  const [draft, setDraft] = useState<CollectionDraft>(initial)
+  const [saving, setSaving] = useState(false)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!draft.title.trim()) return
+
+    setSaving(true)
+    try {
+      await onSubmit(draft)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="collection-title">Title *</Label>
+        <Input
+          id="collection-title"
+          value={draft.title}
+          onChange={(e) => setDraft(prev => ({ ...prev, title: e.target.value }))}
+          placeholder="e.g., Midterm practical"
+          required
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="collection-description">Description</Label>
+        <Textarea
+          id="collection-description"
+          value={draft.description}
+          onChange={(e) => setDraft(prev => ({ ...prev, description: e.target.value }))}
+          placeholder="What is this collection for?"
+          rows={3}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label>Visibility</Label>
+        <div className="grid grid-cols-2 gap-2">
+          {VISIBILITY_OPTIONS.map(option => (
+            <button
+              key={option.value}
+              type="button"
+              onClick={() => setDraft(prev => ({ ...prev, visibility: option.value }))}
+              className={`p-3 rounded-md border text-left ${
+                draft.visibility === option.value ? 'border-primary bg-primary/10' : 'border-border'
+              }`}
+            >
+              <p className="text-sm font-medium">{option.label}</p>
+              <p className="text-xs text-muted-foreground">{option.description}</p>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex items-start gap-3">
+        <Switch
+          id="collection-collaborative"
+          checked={draft.is_collaborative}
+          onCheckedChange={(checked) => setDraft(prev => ({ ...prev, is_collaborative: checked }))}
+        />
+        <div>
+          <Label htmlFor="collection-collaborative">Collaborative</Label>
+          <p className="text-xs text-muted-foreground">Members can add, reorder and annotate recipes</p>
+        </div>
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="submit" disabled={saving || !draft.title.trim()}>
+          {saving ? 'Saving...' : submitLabel}
+        </Button>
+      </div>
+    </form>
+  )
+}
@@ -0,0 +1,230 @@
+import React, { useState, useEffect } from 'react'
+import { useAuth } from './AuthContext'
+import { supabase } from '../utils/supabase/client'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Badge } from './ui/badge'
+import { Avatar, AvatarFallback, AvatarImage } from './ui/avatar'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { useNotifications } from './ui/notification'
+import { Search, UserPlus, Users, X } from 'lucide-react'
+import { CollectionMember, RecipeCollection } from '../utils/recipes/collections'
+
+interface CollectionMembersDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  collection: RecipeCollection
+  members: CollectionMember[]
+  onAddMembers: (userIds: string[]) => Promise<void>
+  onRemoveMember: (userId: string) => Promise<void>
+}
+
+const initials = (name?: string) => (name || '?').split(' ').map(n => n[0]).join('').toUpperCase()
+
+export function CollectionMembersDialog({
+  open,
+  onOpenChange,
+  collection,
+  members,
+  onAddMembers,
+  onRemoveMember
+}: CollectionMembersDialogProps) {
+  const { user } = useAuth()
+  const { addNotification } = useNotifications()
+  const [query, setQuery] = useState('')
+  const [matches, setMatches] = useState<any[]>([])
+  const [yearLevels, setYearLevels] = useState<string[]>([])
+  const [yearLevel, setYearLevel] = useState('')
+  const [busy, setBusy] = useState(false)
+
+  const canShareWithClass = user?.role === 'instructor' || user?.role === 'admin'
+  const memberIds = new Set(members.map(member => member.user_id))
+
+  useEffect(() => {
+    if (!open || !canShareWithClass) return
+
+    supabase
+      .from('profiles')
+      .select('year_level')
+      .eq('role', 'student')
+      .not('year_level', 'is', null)
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('Error fetching year levels:', error)
+          return
+        }
+        setYearLevels(Array.from(new Set((data || []).map(profile => profile.year_level))).sort())
+      })
+  }, [open, canShareWithClass])
+
+  useEffect(() => {
+    const term = query.trim()
+    if (term.length < 2) {
+      setMatches([])
+      return
+    }
+
+    const timer = setTimeout(async () => {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('id, name, avatar_url, role, year_level')
+        .ilike('name', `%${term}%`)
+        .limit(8)
+
+      if (error) {
+        console.error('Error searching people:', error)
+        return
+      }
+      setMatches((data || []).filter(profile => profile.id !== collection.owner_id))
+    }, 300)
+
+    return () => clearTimeout(timer)
+  }, [query, collection.owner_id])
+
+  const run = async (action: () => Promise<void>, success: string) => {
+    setBusy(true)
+    try {
+      await action()
+      addNotification({ title: 'Members updated', message: success, type: 'success' })
+    } catch (error) {
+      console.error('Error updating members:', error)
+      addNotification({
+        title: 'Error',
+        message: 'Failed to update members. Please try again.',
+        type: 'error'
+      })
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleAddPerson = (profile: any) =>
+    run(() => onAddMembers([profile.id]), `${profile.name} can now see "${collection.title}".`)
+
+  const handleAddClass = () =>
+    run(async () => {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('id')
+        .eq('role', 'student')
+        .eq('year_level', yearLevel)
+
+      if (error) throw error
+      await onAddMembers((data || []).map(profile => profile.id).filter(id => id !== collection.owner_id))
+    }, `Shared with ${yearLevel} students.`)
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg glass-modal">
+        <DialogHeader>
+          <DialogTitle>Share "{collection.title}"</DialogTitle>
+          <DialogDescription>
+            {collection.is_collaborative
+              ? 'Members can view this collection and add, reorder and annotate recipes.'
+              : 'Members can view this collection. Make it collaborative to let them edit it.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {canShareWithClass && yearLevels.length > 0 && (
+            <div className="space-y-2">
+              <Label>Share with a class</Label>
+              <div className="flex gap-2">
+                <Select value={yearLevel} onValueChange={setYearLevel}>
+                  <SelectTrigger className="glass-input">
+                    <SelectValue placeholder="Choose a year level" />
+                  </SelectTrigger>
+                  <SelectContent className="glass-card border-glass-border">
+                    {yearLevels.map(level => (
+                      <SelectItem key={level} value={level}>{level}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button onClick={handleAddClass} disabled={!yearLevel || busy} className="gap-1">
+                  <Users className="h-4 w-4" />
+                  Add class
+                </Button>
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="member-search">Add people</Label>
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                id="member-search"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder="Search by name"
+                className="pl-10"
+              />
+            </div>
+            {matches.length > 0 && (
+              <ul className="border rounded-md divide-y">
+                {matches.map(profile => (
+                  <li key={profile.id} className="flex items-center justify-between p-2">
+                    <div className="flex items-center gap-2">
+                      <Avatar className="w-7 h-7">
+                        <AvatarImage src={profile.avatar_url} />
+                        <AvatarFallback className="bg-calm-gradient text-white text-xs">{initials(profile.name)}</AvatarFallback>
+                      </Avatar>
+                      <span className="text-sm">{profile.name}</span>
+                      <Badge variant="outline" className="text-xs">{profile.role}</Badge>
+                    </div>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="h-7 gap-1"
+                      disabled={busy || memberIds.has(profile.id)}
+                      onClick={() => handleAddPerson(profile)}
+                    >
+                      <UserPlus className="h-3 w-3" />
+                      {memberIds.has(profile.id) ? 'Added' : 'Add'}
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Members ({members.length})</Label>
+            {members.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No members yet.</p>
+            ) : (
+              <ul className="max-h-60 overflow-y-auto space-y-1">
+                {members.map(member => (
+                  <li key={member.user_id} className="flex items-center justify-between p-1">
+                    <div className="flex items-center gap-2">
+                      <Avatar className="w-7 h-7">
+                        <AvatarImage src={member.profiles?.avatar_url || undefined} />
+                        <AvatarFallback className="bg-calm-gradient text-white text-xs">{initials(member.profiles?.name)}</AvatarFallback>
+                      </Avatar>
+                      <span className="text-sm">{member.profiles?.name || 'Unknown'}</span>
+                      {member.profiles?.year_level && (
+                        <span className="text-xs text-muted-foreground">{member.profiles.year_level}</span>
+                      )}
+                    </div>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="h-7 w-7 p-0"
+                      disabled={busy}
+                      onClick={() => run(() => onRemoveMember(member.user_id), `${member.profiles?.name || 'Member'} was removed.`)}
+                      aria-label="Remove member"
+                    >
+                      <X className="h-3 w-3" />
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
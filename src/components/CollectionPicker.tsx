@@ -0,0 +1,159 @@
+import React, { useState, useEffect } from 'react'
+import { useAuth } from './AuthContext'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from './ui/dropdown-menu'
+import { useNotifications } from './ui/notification'
+import { Bookmark, BookmarkCheck, Plus } from 'lucide-react'
+import { useCollections } from './hooks/useCollections'
+import { EMPTY_COLLECTION_DRAFT, canEditCollection } from '../utils/recipes/collections'
+
+interface CollectionPickerProps {
+  recipe: any
+  compact?: boolean
+}
+
+// "Save" menu listing the collections the user can add to. Collections are
+// only loaded once the menu is opened so recipe grids stay cheap.
+export function CollectionPicker({ recipe, compact = false }: CollectionPickerProps) {
+  const { user } = useAuth()
+  const { addNotification } = useNotifications()
+  const [open, setOpen] = useState(false)
+  const [savedIn, setSavedIn] = useState<Set<string>>(new Set())
+  const [newTitle, setNewTitle] = useState('')
+  const {
+    collections,
+    loading,
+    available,
+    createCollection,
+    addRecipeToCollection,
+    removeRecipeFromCollection,
+    getCollectionIdsForRecipe
+  } = useCollections(open)
+
+  useEffect(() => {
+    if (open) getCollectionIdsForRecipe(recipe.id).then(setSavedIn)
+  }, [open, recipe.id])
+
+  if (!user) return null
+
+  const editable = collections.filter(collection => canEditCollection(collection, user.id))
+
+  const toggleCollection = async (collectionId: string, title: string) => {
+    const saved = savedIn.has(collectionId)
+    try {
+      if (saved) {
+        await removeRecipeFromCollection(collectionId, recipe.id)
+      } else {
+        await addRecipeToCollection(collectionId, recipe.id)
+      }
+      setSavedIn(prev => {
+        const next = new Set(prev)
+        if (saved) next.delete(collectionId)
+        else next.add(collectionId)
+        return next
+      })
+      addNotification({
+        title: saved ? 'Removed from collection' : 'Saved to collection',
+        message: `"${recipe.title}" ${saved ? 'was removed from' : 'was added to'} ${title}.`,
+        type: 'success'
+      })
+    } catch (error) {
+      console.error('Error updating collection:', error)
+      addNotification({
+        title: 'Error',
+        message: 'Failed to update the collection. Please try again.',
+        type: 'error'
+      })
+    }
+  }
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!newTitle.trim()) return
+
+    try {
+      const collection = await createCollection({ ...EMPTY_COLLECTION_DRAFT, title: newTitle })
+      setNewTitle('')
+      await toggleCollection(collection.id, collection.title)
+    } catch (error) {
+      console.error('Error creating collection:', error)
+      addNotification({
+        title: 'Error',
+        message: 'Failed to create the collection. Please try again.',
+        type: 'error'
+      })
+    }
+  }
+
+  const isSaved = savedIn.size > 0
+
+  return (
+    <DropdownMenu open={open} onOpenChange={setOpen}>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant={compact ? 'ghost' : 'outline'}
+          size="sm"
+          onClick={(e) => e.stopPropagation()}
+          className={compact ? 'h-8 px-2 text-muted-foreground hover:text-primary' : 'gap-1'}
+          title="Save to a collection"
+        >
+          {isSaved ? <BookmarkCheck className="h-4 w-4 text-primary" /> : <Bookmark className="h-4 w-4" />}
+          {!compact && (isSaved ? 'Saved' : 'Save')}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent
+        align="end"
+        className="glass-modal border-glass-border w-64"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <DropdownMenuLabel>Save to collection</DropdownMenuLabel>
+        <DropdownMenuSeparator className="bg-white/10" />
+        {!available ? (
+          <p className="px-2 py-1.5 text-sm text-muted-foreground">Collections require a database update.</p>
+        ) : loading && collections.length === 0 ? (
+          <p className="px-2 py-1.5 text-sm text-muted-foreground">Loading…</p>
+        ) : editable.length === 0 ? (
+          <p className="px-2 py-1.5 text-sm text-muted-foreground">No collections yet.</p>
+        ) : (
+          <div className="max-h-60 overflow-y-auto">
+            {editable.map(collection => (
+              <DropdownMenuCheckboxItem
+                key={collection.id}
+                checked={savedIn.has(collection.id)}
+                onSelect={(e) => e.preventDefault()}
+                onCheckedChange={() => toggleCollection(collection.id, collection.title)}
+              >
+                <span className="truncate">{collection.title}</span>
+              </DropdownMenuCheckboxItem>
+            ))}
+          </div>
+        )}
+        {available && (
+          <>
+            <DropdownMenuSeparator className="bg-white/10" />
+            <form onSubmit={handleCreate} className="flex gap-1 p-1">
+              <Input
+                value={newTitle}
+                onChange={(e) => setNewTitle(e.target.value)}
+                onKeyDown={(e) => e.stopPropagation()}
+                placeholder="New collection"
+                className="h-8 text-sm"
+              />
+              <Button type="submit" size="sm" className="h-8 w-8 p-0" disabled={!newTitle.trim()} aria-label="Create collection">
+                <Plus className="h-4 w-4" />
+              </Button>
+            </form>
+          </>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
@@ -0,0 +1,185 @@
+import React, { useState } from 'react'
+import { useAuth } from './AuthContext'
+import { Button } from './ui/button'
+import { Badge } from './ui/badge'
+import { Card, CardContent } from './ui/card'
+import { Skeleton } from './ui/skeleton'
+import { Alert, AlertDescription } from './ui/alert'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from './ui/dialog'
+import { useNotifications } from './ui/notification'
+import { Globe, Library, Lock, Plus, Users } from 'lucide-react'
+import { CollectionForm } from './CollectionForm'
+import { CollectionDetail } from './CollectionDetail'
+import { useCollections } from './hooks/useCollections'
+import { RecipeCollection, collectionRecipeCount, isCollectionMember } from '../utils/recipes/collections'
+
+export function CollectionsView() {
+  const { user } = useAuth()
+  const { addNotification } = useNotifications()
+  const {
+    collections,
+    loading,
+    available,
+    fetchCollections,
+    createCollection,
+    updateCollection,
+    deleteCollection
+  } = useCollections()
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [showCreateDialog, setShowCreateDialog] = useState(false)
+
+  const selected = collections.find(collection => collection.id === selectedId)
+
+  if (selected) {
+    return (
+      <CollectionDetail
+        key={selected.id}
+        collection={selected}
+        onBack={() => {
+          setSelectedId(null)
+          fetchCollections()
+        }}
+        onUpdate={async (updates) => {
+          await updateCollection(selected.id, updates)
+          addNotification({ title: 'Collection updated', message: `"${updates.title || selected.title}" was saved.`, type: 'success' })
+        }}
+        onDelete={async () => {
+          await deleteCollection(selected.id)
+          setSelectedId(null)
+          addNotification({ title: 'Collection deleted', message: `"${selected.title}" was deleted.`, type: 'success' })
+        }}
+        onLeft={() => {
+          setSelectedId(null)
+          fetchCollections()
+          addNotification({ title: 'Left collection', message: `You left "${selected.title}".`, type: 'info' })
+        }}
+      />
+    )
+  }
+
+  const mine = collections.filter(collection => collection.owner_id === user?.id)
+  const shared = collections.filter(collection => collection.owner_id !== user?.id && isCollectionMember(collection, user?.id))
+  const discover = collections.filter(collection =>
+    collection.owner_id !== user?.id && !isCollectionMember(collection, user?.id) && collection.visibility === 'public'
+  )
+
+  const renderCard = (collection: RecipeCollection) => (
+    <Card
+      key={collection.id}
+      className="glass-card cursor-pointer hover:shadow-lg transition-shadow"
+      onClick={() => setSelectedId(collection.id)}
+    >
+      <CardContent className="p-4 space-y-3">
+        <div className="flex items-start justify-between gap-2">
+          <h3 className="font-semibold line-clamp-1">{collection.title}</h3>
+          <Badge variant="outline" className="gap-1 flex-shrink-0">
+            {collection.visibility === 'public' ? <Globe className="h-3 w-3" /> : <Lock className="h-3 w-3" />}
+            {collection.visibility === 'public' ? 'Public' : 'Private'}
+          </Badge>
+        </div>
+        {collection.description && (
+          <p className="text-sm text-muted-foreground line-clamp-2">{collection.description}</p>
+        )}
+        <div className="flex items-center justify-between text-xs text-muted-foreground">
+          <span>
+            {collectionRecipeCount(collection)} recipes
+            {collection.owner_id !== user?.id && ` • by ${collection.profiles?.name || 'Unknown'}`}
+          </span>
+          {collection.is_collaborative && (
+            <span className="flex items-center gap-1">
+              <Users className="h-3 w-3" />
+              Collaborative
+            </span>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  )
+
+  const renderSection = (title: string, items: RecipeCollection[], empty?: string) => {
+    if (items.length === 0 && !empty) return null
+    return (
+      <section className="space-y-3">
+        <h2 className="text-lg font-semibold">{title}</h2>
+        {items.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{empty}</p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+            {items.map(renderCard)}
+          </div>
+        )}
+      </section>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold">Collections</h1>
+          <p className="text-muted-foreground">Group recipes into cookbooks for practicals, themes and classes</p>
+        </div>
+
+        {available && (
+          <Dialog open={showCreateDialog} onOpenChange={setShowCreateDialog}>
+            <DialogTrigger asChild>
+              <Button className="gap-2">
+                <Plus className="h-4 w-4" />
+                New Collection
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-lg glass-modal">
+              <DialogHeader>
+                <DialogTitle>New collection</DialogTitle>
+                <DialogDescription>Save recipes to it from any recipe card</DialogDescription>
+              </DialogHeader>
+              <CollectionForm
+                submitLabel="Create collection"
+                onCancel={() => setShowCreateDialog(false)}
+                onSubmit={async (draft) => {
+                  try {
+                    const collection = await createCollection(draft)
+                    setShowCreateDialog(false)
+                    setSelectedId(collection.id)
+                  } catch (error) {
+                    console.error('Error creating collection:', error)
+                    addNotification({
+                      title: 'Error',
+                      message: 'Failed to create the collection. Please try again.',
+                      type: 'error'
+                    })
+                  }
+                }}
+              />
+            </DialogContent>
+          </Dialog>
+        )}
+      </div>
+
+      {!available ? (
+        <Alert>
+          <AlertDescription>
+            Collections are not set up yet. Ask an administrator to run the latest database setup script.
+          </AlertDescription>
+        </Alert>
+      ) : loading && collections.length === 0 ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {[...Array(3)].map((_, i) => <Skeleton key={i} className="h-32 w-full" />)}
+        </div>
+      ) : collections.length === 0 ? (
+        <div className="text-center py-12">
+          <Library className="h-16 w-16 mx-auto text-muted-foreground mb-4" />
+          <h3 className="text-lg font-semibold mb-2">No collections yet</h3>
+          <p className="text-muted-foreground">Create one to start grouping recipes, e.g. "Midterm practical" or "Sauces".</p>
+        </div>
+      ) : (
+        <>
+          {renderSection('My collections', mine, 'You have not created any collections yet.')}
+          {renderSection('Shared with me', shared)}
+          {renderSection('Public collections', discover)}
+        </>
+      )}
+    </div>
+  )
+}
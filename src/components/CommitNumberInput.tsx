@@ -0,0 +1,49 @@
+import React, { useState, useEffect } from 'react'
+import { Input } from './ui/input'
+
+interface CommitNumberInputProps extends Omit<React.ComponentProps<'input'>, 'type' | 'value' | 'onChange'> {
+  value: number
+  // Only called with a positive number
+  onCommit: (value: number) => void
+}
+
+// Number field that applies what was typed on blur or Enter, so "1" on the
+// way to "1000" is never acted on and the field can be cleared to start
+// again. Empty or invalid input goes back to the current value.
+export function CommitNumberInput({ value, onCommit, onBlur, onKeyDown, ...props }: CommitNumberInputProps) {
+  const [draft, setDraft] = useState(String(value))
+  const [editing, setEditing] = useState(false)
+
+  useEffect(() => {
+    if (!editing) setDraft(String(value))
+  }, [value, editing])
+
+  const commit = () => {
+    const parsed = parseFloat(draft)
+    if (isFinite(parsed) && parsed > 0) onCommit(parsed)
+    setEditing(false)
+  }
+
+  return (
+    <Input
+      {...props}
+      type="number"
+      value={draft}
+      onChange={(e) => {
+        setEditing(true)
+        setDraft(e.target.value)
+      }}
+      onBlur={(e) => {
+        commit()
+        onBlur?.(e)
+      }}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') {
+          e.preventDefault()
+          commit()
+        }
+        onKeyDown?.(e)
+      }}
+    />
+  )
+}
@@ -0,0 +1,312 @@
+import React, { useState, useEffect, useMemo } from 'react'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Badge } from './ui/badge'
+import { Checkbox } from './ui/checkbox'
+import { Progress } from './ui/progress'
+import { Dialog, DialogContent, DialogDescription, DialogTitle } from './ui/dialog'
+import { useNotifications } from './ui/notification'
+import { useCookTimers } from './hooks/useCookTimers'
+import { useWakeLock } from './hooks/useWakeLock'
+import { StepMediaFigure } from './RecipeGallery'
+import { ChevronLeft, ChevronRight, Check, Pause, Play, Plus, Sun, Timer, X } from 'lucide-react'
+import { RecipeIngredient, formatIngredientAmount, groupIngredients } from '../utils/recipes/ingredients'
+import { StepMedia, mediaForStep } from '../utils/recipes/media'
+import { detectStepDurations, formatCountdown, ingredientsInStep } from '../utils/recipes/timers'
+
+interface CookModeProps {
+  title: string
+  ingredients: RecipeIngredient[]
+  instructions: string[]
+  stepMedia?: StepMedia[]
+  // Called when the cook reaches the last step and taps Finish
+  onFinish?: () => void
+  onClose: () => void
+}
+
+// Full-screen, one-step-at-a-time view for cooking at the counter. Large
+// type, one-tap timers for durations found in the step, and an ingredient
+// checklist. The screen is kept awake for as long as cook mode is open.
+export function CookMode({ title, ingredients, instructions, stepMedia = [], onFinish, onClose }: CookModeProps) {
+  const { addNotification } = useNotifications()
+  const [stepIndex, setStepIndex] = useState(0)
+  const [used, setUsed] = useState<Set<number>>(new Set())
+  const [customMinutes, setCustomMinutes] = useState('5')
+
+  const wakeLock = useWakeLock(true)
+  const cookTimers = useCookTimers(timer => {
+    addNotification({
+      title: 'Timer done',
+      message: `${timer.label} is up.`,
+      type: 'info'
+    })
+  })
+
+  const step = instructions[stepIndex] || ''
+  const isLastStep = stepIndex >= instructions.length - 1
+  const durations = useMemo(() => detectStepDurations(step), [step])
+  const media = mediaForStep(stepMedia, stepIndex)
+  const stepIngredients = useMemo(() => ingredientsInStep(step, ingredients), [step, ingredients])
+
+  const goTo = (index: number) => {
+    setStepIndex(Math.min(Math.max(index, 0), Math.max(instructions.length - 1, 0)))
+  }
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA') return
+      if (event.key === 'ArrowRight') setStepIndex(index => Math.min(index + 1, Math.max(instructions.length - 1, 0)))
+      if (event.key === 'ArrowLeft') setStepIndex(index => Math.max(index - 1, 0))
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [instructions.length])
+
+  const toggleUsed = (index: number) => {
+    setUsed(prev => {
+      const next = new Set(prev)
+      if (next.has(index)) next.delete(index)
+      else next.add(index)
+      return next
+    })
+  }
+
+  const handleCustomTimer = () => {
+    const minutes = parseFloat(customMinutes)
+    if (!isFinite(minutes) || minutes <= 0) return
+    cookTimers.startTimer(`${minutes} min timer`, Math.round(minutes * 60))
+  }
+
+  const ingredientLabel = (ingredient: RecipeIngredient) => (
+    <>
+      {formatIngredientAmount(ingredient) && (
+        <span className="font-medium">{formatIngredientAmount(ingredient)} </span>
+      )}
+      {ingredient.item}
+      {ingredient.note && <span className="text-muted-foreground">, {ingredient.note}</span>}
+    </>
+  )
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="top-0 left-0 translate-x-0 translate-y-0 w-screen max-w-none sm:max-w-none h-[100dvh] rounded-none p-0 gap-0 flex flex-col glass-modal">
+        {/* Header */}
+        <div className="flex items-center justify-between gap-4 px-6 py-4 pr-14 border-b border-glass-border">
+          <div className="min-w-0">
+            <DialogTitle className="text-lg truncate">{title}</DialogTitle>
+            <DialogDescription>
+              {instructions.length > 0 ? `Step ${stepIndex + 1} of ${instructions.length}` : 'No steps'}
+            </DialogDescription>
+          </div>
+          {wakeLock.supported && (
+            <Badge variant={wakeLock.active ? 'secondary' : 'outline'} className="gap-1 flex-shrink-0">
+              <Sun className="h-3 w-3" />
+              {wakeLock.active ? 'Screen stays on' : 'Screen may sleep'}
+            </Badge>
+          )}
+        </div>
+        <Progress value={instructions.length ? ((stepIndex + 1) / instructions.length) * 100 : 0} className="rounded-none h-1" />
+
+        <div className="flex-1 min-h-0 grid grid-cols-1 md:grid-cols-[1fr_22rem]">
+          {/* Current step */}
+          <div className="overflow-y-auto p-6 md:p-10 space-y-8">
+            <div>
+              <p className="text-sm font-medium uppercase tracking-wide text-primary mb-3">
+                Step {stepIndex + 1}
+              </p>
+              <p className="text-2xl md:text-4xl leading-snug">
+                {step || 'This recipe has no instructions yet.'}
+              </p>
+            </div>
+
+            {media && <StepMediaFigure key={media.url} media={media} step={stepIndex} className="max-w-2xl aspect-video" />}
+
+            {durations.length > 0 && (
+              <div className="flex flex-wrap gap-3">
+                {durations.map((duration, index) => (
+                  <Button
+                    key={index}
+                    size="lg"
+                    className="gap-2 h-12 text-base"
+                    onClick={() => cookTimers.startTimer(`Step ${stepIndex + 1} · ${duration.label}`, duration.seconds, stepIndex)}
+                  >
+                    <Timer className="h-5 w-5" />
+                    Start {duration.label} timer
+                  </Button>
+                ))}
+              </div>
+            )}
+
+            {stepIngredients.length > 0 && (
+              <div className="space-y-3">
+                <h3 className="font-semibold">Used in this step</h3>
+                <div className="flex flex-wrap gap-2">
+                  {stepIngredients.map(index => (
+                    <button
+                      key={index}
+                      type="button"
+                      onClick={() => toggleUsed(index)}
+                      className={`flex items-center gap-2 rounded-full border px-4 py-2 text-left transition-colors ${
+                        used.has(index)
+                          ? 'border-primary bg-primary/10 text-muted-foreground line-through'
+                          : 'border-glass-border hover:bg-accent'
+                      }`}
+                    >
+                      {used.has(index) && <Check className="h-4 w-4 text-primary" />}
+                      <span>{ingredientLabel(ingredients[index])}</span>
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+
+          {/* Timers and ingredient checklist */}
+          <aside className="overflow-y-auto border-t md:border-t-0 md:border-l border-glass-border p-6 space-y-8">
+            <div className="space-y-3">
+              <h3 className="font-semibold flex items-center gap-2">
+                <Timer className="h-4 w-4" />
+                Timers
+              </h3>
+
+              {cookTimers.timers.length === 0 && (
+                <p className="text-sm text-muted-foreground">
+                  Start a timer from a step, or set your own below.
+                </p>
+              )}
+
+              {cookTimers.timers.map(timer => (
+                <div
+                  key={timer.id}
+                  className={`rounded-lg p-3 glass-card ${timer.finished ? 'ring-2 ring-destructive animate-pulse' : ''}`}
+                >
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="min-w-0">
+                      <p className="text-sm text-muted-foreground truncate">{timer.label}</p>
+                      <p className="text-3xl font-semibold tabular-nums">
+                        {timer.finished ? 'Done!' : formatCountdown(cookTimers.remainingSeconds(timer))}
+                      </p>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-8 w-8 p-0"
+                      onClick={() => cookTimers.dismissTimer(timer.id)}
+                      aria-label={timer.finished ? 'Dismiss timer' : 'Cancel timer'}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  <div className="flex gap-2 mt-2">
+                    {!timer.finished && (
+                      timer.endsAt !== null ? (
+                        <Button variant="outline" size="sm" className="gap-1" onClick={() => cookTimers.pauseTimer(timer.id)}>
+                          <Pause className="h-3 w-3" />
+                          Pause
+                        </Button>
+                      ) : (
+                        <Button variant="outline" size="sm" className="gap-1" onClick={() => cookTimers.resumeTimer(timer.id)}>
+                          <Play className="h-3 w-3" />
+                          Resume
+                        </Button>
+                      )
+                    )}
+                    <Button variant="outline" size="sm" className="gap-1" onClick={() => cookTimers.extendTimer(timer.id, 60)}>
+                      <Plus className="h-3 w-3" />
+                      1 min
+                    </Button>
+                    {timer.finished && (
+                      <Button size="sm" onClick={() => cookTimers.dismissTimer(timer.id)}>
+                        Dismiss
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              ))}
+
+              <div className="flex items-center gap-2">
+                <Input
+                  type="number"
+                  min={1}
+                  step="any"
+                  value={customMinutes}
+                  onChange={(e) => setCustomMinutes(e.target.value)}
+                  className="w-20"
+                  aria-label="Timer minutes"
+                />
+                <span className="text-sm text-muted-foreground">min</span>
+                <Button variant="outline" size="sm" className="gap-1 ml-auto" onClick={handleCustomTimer}>
+                  <Plus className="h-3 w-3" />
+                  Add timer
+                </Button>
+              </div>
+            </div>
+
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <h3 className="font-semibold">Ingredients</h3>
+                <span className="text-sm text-muted-foreground">
+                  {used.size}/{ingredients.length} used
+                </span>
+              </div>
+              {groupIngredients(ingredients).map((group, groupIndex) => (
+                <div key={groupIndex} className="space-y-2">
+                  {group.group && (
+                    <h4 className="font-medium text-sm text-muted-foreground">{group.group}</h4>
+                  )}
+                  {group.items.map(({ ingredient, index }) => (
+                    <label
+                      key={index}
+                      className={`flex items-start gap-3 cursor-pointer ${used.has(index) ? 'text-muted-foreground line-through' : ''}`}
+                    >
+                      <Checkbox
+                        checked={used.has(index)}
+                        onCheckedChange={() => toggleUsed(index)}
+                        className="mt-0.5"
+                      />
+                      <span className="text-sm">{ingredientLabel(ingredient)}</span>
+                    </label>
+                  ))}
+                </div>
+              ))}
+            </div>
+          </aside>
+        </div>
+
+        {/* Step navigation */}
+        <div className="flex gap-3 px-6 py-4 border-t border-glass-border">
+          <Button
+            variant="outline"
+            size="lg"
+            className="flex-1 h-14 text-lg gap-2"
+            onClick={() => goTo(stepIndex - 1)}
+            disabled={stepIndex === 0}
+          >
+            <ChevronLeft className="h-5 w-5" />
+            Previous
+          </Button>
+          {isLastStep ? (
+            <Button
+              size="lg"
+              className="flex-1 h-14 text-lg gap-2"
+              onClick={() => {
+                onFinish?.()
+                onClose()
+              }}
+            >
+              <Check className="h-5 w-5" />
+              Finish
+            </Button>
+          ) : (
+            <Button size="lg" className="flex-1 h-14 text-lg gap-2" onClick={() => goTo(stepIndex + 1)}>
+              Next
+              <ChevronRight className="h-5 w-5" />
+            </Button>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,168 @@
+import React from 'react'
+import { Button } from './ui/button'
+import { Card, CardContent } from './ui/card'
+import { useNotifications } from './ui/notification'
+import { ArrowLeft, BookOpen, Printer, Clock, Users, FileArchive } from 'lucide-react'
+import { CollectionEntry, RecipeCollection } from '../utils/recipes/collections'
+import { formatIngredientAmount, groupIngredients } from '../utils/recipes/ingredients'
+import { printCookbook, toPrintableRecipe } from '../utils/recipes/print'
+import { buildRecipeArchive, downloadFile, slugify } from '../utils/recipes/export'
+
+interface CookbookViewProps {
+  collection: RecipeCollection
+  entries: CollectionEntry[]
+  onBack: () => void
+}
+
+// A collection laid out as a book: contents first, then one page per recipe
+export function CookbookView({ collection, entries, onBack }: CookbookViewProps) {
+  const { addNotification } = useNotifications()
+  const pages = entries
+    .filter(entry => entry.recipe)
+    .map(entry => ({ entry, recipe: toPrintableRecipe(entry.recipe) }))
+
+  const handlePrint = () => {
+    const opened = printCookbook({
+      title: collection.title,
+      description: collection.description || undefined,
+      owner: collection.profiles?.name,
+      entries: pages.map(({ entry, recipe }) => ({ recipe, note: entry.note || undefined }))
+    })
+
+    if (!opened) {
+      addNotification({
+        title: 'Print blocked',
+        message: 'Allow pop-ups for ACWhisk to print cookbooks.',
+        type: 'warning'
+      })
+    }
+  }
+
+  const handleDownload = () => {
+    downloadFile(`${slugify(collection.title)}.zip`, buildRecipeArchive(pages.map(({ recipe }) => recipe), collection.title))
+  }
+
+  const scrollToPage = (index: number) => {
+    document.getElementById(`cookbook-page-${index}`)?.scrollIntoView({ behavior: 'smooth', block: 'start' })
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <Button variant="ghost" onClick={onBack} className="gap-2">
+          <ArrowLeft className="h-4 w-4" />
+          Back to collection
+        </Button>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={handleDownload} className="gap-2" disabled={pages.length === 0}>
+            <FileArchive className="h-4 w-4" />
+            Download .zip
+          </Button>
+          <Button variant="outline" onClick={handlePrint} className="gap-2" disabled={pages.length === 0}>
+            <Printer className="h-4 w-4" />
+            Print cookbook
+          </Button>
+        </div>
+      </div>
+
+      <Card className="glass-card">
+        <CardContent className="p-8 space-y-6">
+          <div className="text-center space-y-2">
+            <BookOpen className="h-10 w-10 mx-auto text-primary" />
+            <h1 className="text-3xl font-bold">{collection.title}</h1>
+            {collection.profiles?.name && (
+              <p className="text-muted-foreground">Compiled by {collection.profiles.name}</p>
+            )}
+            {collection.description && (
+              <p className="text-muted-foreground max-w-xl mx-auto">{collection.description}</p>
+            )}
+          </div>
+
+          <div>
+            <h2 className="text-lg font-semibold border-b pb-2 mb-3">Contents</h2>
+            {pages.length === 0 ? (
+              <p className="text-sm text-muted-foreground">This collection has no recipes yet.</p>
+            ) : (
+              <ol className="space-y-1">
+                {pages.map(({ recipe }, index) => (
+                  <li key={index}>
+                    <button
+                      type="button"
+                      onClick={() => scrollToPage(index)}
+                      className="w-full flex items-baseline gap-2 py-1 text-left hover:text-primary"
+                    >
+                      <span className="text-muted-foreground w-6 text-right">{index + 1}.</span>
+                      <span className="font-medium">{recipe.title}</span>
+                      <span className="flex-1 border-b border-dotted border-muted-foreground/40" />
+                      <span className="text-sm text-muted-foreground">{recipe.author}</span>
+                    </button>
+                  </li>
+                ))}
+              </ol>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      {pages.map(({ entry, recipe }, index) => (
+        <Card key={entry.id} id={`cookbook-page-${index}`} className="glass-card scroll-mt-4">
+          <CardContent className="p-8 space-y-5">
+            <div>
+              <p className="text-xs uppercase tracking-wide text-muted-foreground">Recipe {index + 1}</p>
+              <h2 className="text-2xl font-bold">{recipe.title}</h2>
+              <div className="flex flex-wrap gap-4 text-sm text-muted-foreground mt-1">
+                {recipe.author && <span>by {recipe.author}</span>}
+                <span className="flex items-center gap-1">
+                  <Users className="h-3 w-3" />
+                  Serves {recipe.servings}
+                </span>
+                <span className="flex items-center gap-1">
+                  <Clock className="h-3 w-3" />
+                  {(recipe.prep_time || 0) + (recipe.cook_time || 0)} min
+                </span>
+              </div>
+            </div>
+
+            {recipe.description && <p className="text-muted-foreground">{recipe.description}</p>}
+
+            {entry.note && (
+              <blockquote className="border-l-4 border-primary/40 pl-3 italic text-sm">{entry.note}</blockquote>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-[1fr_2fr] gap-6">
+              <div>
+                <h3 className="font-semibold mb-2">Ingredients</h3>
+                <div className="space-y-3 text-sm">
+                  {groupIngredients(recipe.ingredients).map((group, groupIndex) => (
+                    <div key={groupIndex}>
+                      {group.group && <h4 className="font-medium text-muted-foreground">{group.group}</h4>}
+                      <ul className="space-y-1">
+                        {group.items.map(({ ingredient, index: ingredientIndex }) => (
+                          <li key={ingredientIndex}>
+                            {formatIngredientAmount(ingredient) && (
+                              <span className="font-medium">{formatIngredientAmount(ingredient)} </span>
+                            )}
+                            {ingredient.item}
+                            {ingredient.note && <span className="text-muted-foreground">, {ingredient.note}</span>}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  ))}
+                </div>
+              </div>
+              <div>
+                <h3 className="font-semibold mb-2">Method</h3>
+                <ol className="space-y-2 text-sm list-decimal pl-5">
+                  {recipe.instructions.map((step, stepIndex) => (
+                    <li key={stepIndex}>{step}</li>
+                  ))}
+                </ol>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  )
+}
@@ -28,6 +28,8 @@ import {
   Eye
 } from 'lucide-react'
 import { ImageWithFallback } from './figma/ImageWithFallback'
+import { PantryExpiringCard } from './PantryExpiringCard'
+import { RecommendedRecipesCard } from './RecommendedRecipes'
 
 interface DashboardProps {
   onTabChange: (tab: string) => void
@@ -378,6 +380,10 @@ export function Dashboard({ onTabChange }: DashboardProps) {
             </CardContent>
           </Card>
 
+          <RecommendedRecipesCard onTabChange={onTabChange} />
+
+          <PantryExpiringCard onTabChange={onTabChange} />
+
           {/* Today's Schedule */}
           <Card className="glass-card border-0 shadow-none">
             <CardHeader>
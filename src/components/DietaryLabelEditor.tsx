@@ -0,0 +1,122 @@
+import React, { useMemo } from 'react'
+import { Button } from './ui/button'
+import { Badge } from './ui/badge'
+import { AlertTriangle, Check, Sparkles } from 'lucide-react'
+import { RecipeIngredient } from '../utils/recipes/ingredients'
+import {
+  ALLERGENS,
+  DIETARY_LABELS,
+  allergenLabel,
+  analyseDietary,
+  cleanAllergens,
+  cleanDietaryLabels,
+  dietaryLabel,
+  labelConflicts
+} from '../utils/recipes/dietary'
+
+interface DietaryLabelEditorProps {
+  ingredients: RecipeIngredient[]
+  allergens: string[]
+  dietaryLabels: string[]
+  onChange: (updates: { allergens?: string[]; dietary_labels?: string[] }) => void
+}
+
+const toggle = (values: string[], value: string) =>
+  values.includes(value) ? values.filter(v => v !== value) : [...values, value]
+
+// Allergen and diet pickers for the recipe form. Suggestions from the
+// ingredient names are marked, but only what the author selects is saved as
+// confirmed; conflicts with the ingredients are flagged rather than blocked.
+export function DietaryLabelEditor({ ingredients, allergens, dietaryLabels, onChange }: DietaryLabelEditorProps) {
+  const analysis = useMemo(() => analyseDietary(ingredients), [ingredients])
+  const conflicts = useMemo(() => labelConflicts(dietaryLabels, analysis), [dietaryLabels, analysis])
+
+  const detected = new Map(analysis.allergens.map(allergen => [allergen.id as string, allergen.sources]))
+  const unconfirmed = analysis.allergens.filter(allergen => !allergens.includes(allergen.id))
+  const suggestedLabels = analysis.suggestedLabels.filter(label => !dietaryLabels.includes(label))
+
+  const applySuggestions = () => {
+    onChange({
+      allergens: cleanAllergens([...allergens, ...analysis.allergens.map(allergen => allergen.id)]),
+      dietary_labels: cleanDietaryLabels([...dietaryLabels, ...analysis.suggestedLabels])
+    })
+  }
+
+  return (
+    <div className="space-y-4 rounded-lg border border-input p-4">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+        <p className="text-sm text-muted-foreground">
+          Suggestions <Sparkles className="inline h-3 w-3" /> come from the ingredient names. Check packaged
+          ingredients such as stock, sauces and chocolate yourself.
+        </p>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          className="gap-1 flex-shrink-0"
+          onClick={applySuggestions}
+          disabled={unconfirmed.length === 0 && suggestedLabels.length === 0}
+        >
+          <Check className="h-3 w-3" />
+          Apply suggestions
+        </Button>
+      </div>
+
+      <div className="space-y-2">
+        <h4 className="text-sm font-medium">Contains</h4>
+        <div className="flex flex-wrap gap-2">
+          {ALLERGENS.map(allergen => {
+            const selected = allergens.includes(allergen.id)
+            const sources = detected.get(allergen.id)
+            return (
+              <Badge
+                key={allergen.id}
+                variant={selected ? 'destructive' : 'outline'}
+                className={`cursor-pointer gap-1 ${!selected && sources ? 'border-destructive/60 border-dashed' : ''}`}
+                onClick={() => onChange({ allergens: cleanAllergens(toggle(allergens, allergen.id)) })}
+                title={sources ? `Found in: ${sources.join(', ')}` : undefined}
+              >
+                {sources && !selected && <Sparkles className="h-3 w-3" />}
+                {allergen.label}
+              </Badge>
+            )
+          })}
+        </div>
+        {unconfirmed.length > 0 && (
+          <p className="text-xs text-muted-foreground">
+            Not confirmed yet: {unconfirmed.map(allergen =>
+              `${allergenLabel(allergen.id).toLowerCase()} (${allergen.sources.join(', ')})`
+            ).join('; ')}. Allergen filters still treat these as present.
+          </p>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <h4 className="text-sm font-medium">Suitable for</h4>
+        <div className="flex flex-wrap gap-2">
+          {DIETARY_LABELS.map(label => {
+            const selected = dietaryLabels.includes(label.id)
+            const suggested = analysis.suggestedLabels.includes(label.id)
+            return (
+              <Badge
+                key={label.id}
+                variant={selected ? 'default' : 'outline'}
+                className={`cursor-pointer gap-1 ${!selected && suggested ? 'border-primary/60 border-dashed' : ''}`}
+                onClick={() => onChange({ dietary_labels: cleanDietaryLabels(toggle(dietaryLabels, label.id)) })}
+              >
+                {suggested && !selected && <Sparkles className="h-3 w-3" />}
+                {label.label}
+              </Badge>
+            )
+          })}
+        </div>
+        {conflicts.map(conflict => (
+          <p key={conflict.label} className="text-xs text-destructive flex items-start gap-1">
+            <AlertTriangle className="h-3 w-3 mt-0.5 flex-shrink-0" />
+            Marked {dietaryLabel(conflict.label).toLowerCase()}, but the ingredients include {conflict.sources.join(', ')}.
+          </p>
+        ))}
+      </div>
+    </div>
+  )
+}
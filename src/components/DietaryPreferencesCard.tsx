@@ -0,0 +1,64 @@
+import React, { useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card'
+import { Button } from './ui/button'
+import { useNotifications } from './ui/notification'
+import { useDietaryPreferences } from './hooks/useDietaryPreferences'
+import { Leaf } from 'lucide-react'
+import { DIETARY_LABELS } from '../utils/recipes/dietary'
+
+// Profile card for the diets the user follows. Changes save straight away;
+// recommendations only suggest recipes labelled with every chosen diet.
+export function DietaryPreferencesCard() {
+  const { addNotification } = useNotifications()
+  const { preferences, loading, available, savePreferences } = useDietaryPreferences()
+  const [saving, setSaving] = useState(false)
+
+  if (!available) return null
+
+  const toggle = async (id: string) => {
+    const next = preferences.includes(id)
+      ? preferences.filter(label => label !== id)
+      : [...preferences, id]
+
+    setSaving(true)
+    try {
+      await savePreferences(next)
+    } catch (error) {
+      console.error('Error saving dietary preferences:', error)
+      addNotification({
+        title: 'Could not save',
+        message: 'Your dietary preferences were not updated. Please try again.',
+        type: 'error'
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Card className="mt-4">
+      <CardHeader>
+        <CardTitle className="text-lg">Dietary Preferences</CardTitle>
+        <CardDescription>
+          Recipes recommended for you will match every diet you choose here.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-wrap gap-2">
+        {DIETARY_LABELS.map(label => (
+          <Button
+            key={label.id}
+            type="button"
+            size="sm"
+            variant={preferences.includes(label.id) ? 'default' : 'outline'}
+            onClick={() => toggle(label.id)}
+            disabled={loading || saving}
+            className="h-8 gap-1"
+          >
+            <Leaf className="h-3 w-3" />
+            {label.label}
+          </Button>
+        ))}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,151 @@
+import React, { useMemo } from 'react'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Switch } from './ui/switch'
+import { Scale } from 'lucide-react'
+import { RecipeIngredient } from '../utils/recipes/ingredients'
+import { getUnit } from '../utils/recipes/units'
+import { scaleIngredient } from '../utils/recipes/scaling'
+import {
+  EMPTY_FORMULA,
+  RecipeFormula,
+  analyseFormula,
+  baseCandidates,
+  formatGrams,
+  formatPercent
+} from '../utils/recipes/formula'
+
+interface FormulaEditorProps {
+  ingredients: RecipeIngredient[]
+  formula: RecipeFormula | null
+  onChange: (updates: { formula?: RecipeFormula | null; ingredients?: RecipeIngredient[] }) => void
+}
+
+const FLOUR_BASE = '__flour'
+
+const selectClassName = "flex h-10 w-full rounded-md border border-input bg-input-background px-2 py-2 text-sm text-foreground ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+
+// Formula mode for the recipe form: the base ingredient, an optional piece
+// weight and a live preview of the baker's percentages. Lines measured by
+// volume can be converted to grams where their density is known.
+export function FormulaEditor({ ingredients, formula, onChange }: FormulaEditorProps) {
+  // Keep a chosen base listed even after its line is renamed or removed
+  const candidates = useMemo(() => {
+    const names = baseCandidates(ingredients)
+    const chosen = formula?.base[0]
+    return chosen && !names.includes(chosen) ? [...names, chosen] : names
+  }, [ingredients, formula])
+  const analysis = useMemo(
+    () => formula ? analyseFormula(ingredients, formula) : null,
+    [ingredients, formula]
+  )
+
+  const convertible = ingredients.filter(ingredient => {
+    const unit = getUnit(ingredient.unit)
+    return ingredient.quantity !== null && unit?.kind === 'volume'
+  })
+
+  const convertToGrams = () => {
+    onChange({
+      ingredients: ingredients.map(ingredient => {
+        if (getUnit(ingredient.unit)?.kind !== 'volume') return ingredient
+        const weighed = scaleIngredient(ingredient, { factor: 1, system: 'metric', preferWeight: true })
+        return getUnit(weighed.unit)?.kind === 'mass' ? weighed : ingredient
+      })
+    })
+  }
+
+  const updateFormula = (updates: Partial<RecipeFormula>) => {
+    onChange({ formula: { ...(formula || EMPTY_FORMULA), ...updates } })
+  }
+
+  return (
+    <div className="space-y-4 rounded-lg border border-input p-4">
+      <div className="flex items-start gap-3">
+        <Switch
+          id="formula-mode"
+          checked={!!formula}
+          onCheckedChange={(checked) => onChange({ formula: checked ? EMPTY_FORMULA : null })}
+        />
+        <div className="space-y-1">
+          <Label htmlFor="formula-mode">Baker's formula</Label>
+          <p className="text-sm text-muted-foreground">
+            Enter ingredients by weight to show them as percentages of the flour, with hydration and scaling by dough weight.
+          </p>
+        </div>
+      </div>
+
+      {formula && analysis && (
+        <>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="formula-base">Base (100%)</Label>
+              <select
+                id="formula-base"
+                className={selectClassName}
+                value={formula.base[0] || FLOUR_BASE}
+                onChange={(e) => updateFormula({ base: e.target.value === FLOUR_BASE ? [] : [e.target.value] })}
+              >
+                <option value={FLOUR_BASE}>All flours</option>
+                {candidates.map(item => (
+                  <option key={item} value={item}>{item}</option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="formula-piece-weight">Piece weight (g)</Label>
+              <Input
+                id="formula-piece-weight"
+                type="number"
+                min={1}
+                step="any"
+                value={formula.piece_weight ?? ''}
+                onChange={(e) => {
+                  const value = parseFloat(e.target.value)
+                  updateFormula({ piece_weight: value > 0 ? value : null })
+                }}
+                placeholder="e.g. 80 for rolls"
+              />
+            </div>
+          </div>
+
+          {analysis.baseWeight === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              {formula.base.length > 0 ? 'The base ingredient needs a weight.' : 'Add a flour measured in grams, or choose another base.'}
+            </p>
+          ) : (
+            <div className="space-y-1 text-sm">
+              <div className="flex flex-wrap gap-x-4 gap-y-1">
+                {analysis.lines.map(line => (
+                  <span key={line.index} className={line.isBase ? 'font-medium' : ''}>
+                    {line.ingredient.item} {formatPercent(line.percent as number)}
+                  </span>
+                ))}
+              </div>
+              <p className="text-muted-foreground">
+                {formatGrams(analysis.totalWeight)} total
+                {analysis.hydration !== null && ` · ${formatPercent(analysis.hydration)} hydration`}
+              </p>
+            </div>
+          )}
+
+          {analysis.unweighed.length > 0 && (
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 rounded-md bg-muted/40 p-3 text-sm">
+              <p>
+                Not weighed, so left out of the percentages:{' '}
+                {analysis.unweighed.map(ingredient => ingredient.item || 'unnamed line').join(', ')}
+              </p>
+              {convertible.length > 0 && (
+                <Button type="button" variant="outline" size="sm" className="gap-1 flex-shrink-0" onClick={convertToGrams}>
+                  <Scale className="h-3 w-3" />
+                  Convert to grams
+                </Button>
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
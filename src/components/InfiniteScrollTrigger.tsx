@@ -0,0 +1,45 @@
+import React, { useEffect, useRef } from 'react'
+import { Button } from './ui/button'
+import { Loader2 } from 'lucide-react'
+
+interface InfiniteScrollTriggerProps {
+  hasMore: boolean
+  loading: boolean
+  onLoadMore: () => void
+}
+
+// Sits under a list and asks for the next page as it scrolls into view.
+// The button is a fallback for browsers without IntersectionObserver.
+export function InfiniteScrollTrigger({ hasMore, loading, onLoadMore }: InfiniteScrollTriggerProps) {
+  const sentinelRef = useRef<HTMLDivElement>(null)
+  const onLoadMoreRef = useRef(onLoadMore)
+  onLoadMoreRef.current = onLoadMore
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current
+    if (!sentinel || !hasMore || typeof IntersectionObserver === 'undefined') return
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some(entry => entry.isIntersecting)) onLoadMoreRef.current()
+      },
+      { rootMargin: '400px 0px' }
+    )
+    observer.observe(sentinel)
+    return () => observer.disconnect()
+  }, [hasMore, loading])
+
+  if (!hasMore) return null
+
+  return (
+    <div ref={sentinelRef} className="flex justify-center py-4">
+      {loading ? (
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      ) : (
+        <Button variant="outline" onClick={onLoadMore}>
+          Load more
+        </Button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,276 @@
+import React, { useState, useEffect } from 'react'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Textarea } from './ui/textarea'
+import { Plus, Trash2, ClipboardPaste, FolderPlus } from 'lucide-react'
+import {
+  RecipeIngredient,
+  createEmptyIngredient,
+  formatQuantity,
+  groupIngredients,
+  parseIngredientText,
+  parseQuantity
+} from '../utils/recipes/ingredients'
+import { UNITS } from '../utils/recipes/units'
+
+interface IngredientEditorProps {
+  value: RecipeIngredient[]
+  onChange: (ingredients: RecipeIngredient[]) => void
+}
+
+const selectClassName = "flex h-10 w-full rounded-md border border-input bg-input-background px-2 py-2 text-sm text-foreground ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+
+export function IngredientEditor({ value, onChange }: IngredientEditorProps) {
+  const [showPaste, setShowPaste] = useState(value.length === 0)
+  const [pasteText, setPasteText] = useState('')
+
+  const updateIngredient = (index: number, updates: Partial<RecipeIngredient>) => {
+    onChange(value.map((ingredient, i) => i === index ? { ...ingredient, ...updates } : ingredient))
+  }
+
+  const removeIngredient = (index: number) => {
+    onChange(value.filter((_, i) => i !== index))
+  }
+
+  // Insert a blank row at the end of the given group
+  const addIngredient = (group: string) => {
+    let insertAt = value.length
+    value.forEach((ingredient, i) => {
+      if (ingredient.group === group) insertAt = i + 1
+    })
+    const next = [...value]
+    next.splice(insertAt, 0, createEmptyIngredient(group))
+    onChange(next)
+  }
+
+  // Renames only this section's rows, so another section with the same
+  // heading is left alone
+  const renameGroup = (indices: number[], to: string) => {
+    const rows = new Set(indices)
+    onChange(value.map((ingredient, i) => rows.has(i) ? { ...ingredient, group: to } : ingredient))
+  }
+
+  const addGroup = () => {
+    const existing = new Set(value.map(ingredient => ingredient.group))
+    let name = 'New section'
+    let counter = 2
+    while (existing.has(name)) name = `New section ${counter++}`
+    onChange([...value, createEmptyIngredient(name)])
+  }
+
+  const handlePaste = () => {
+    const lastGroup = value.length > 0 ? value[value.length - 1].group : ''
+    const parsed = parseIngredientText(pasteText, lastGroup)
+    if (parsed.length === 0) return
+    onChange([...value.filter(ingredient => ingredient.item.trim()), ...parsed])
+    setPasteText('')
+    setShowPaste(false)
+  }
+
+  const groups = groupIngredients(value)
+
+  return (
+    <div className="space-y-3">
+      {groups.length === 0 && !showPaste && (
+        <p className="text-sm text-muted-foreground">No ingredients yet. Add a row or paste a list.</p>
+      )}
+
+      {groups.map((group, groupIndex) => (
+        <div key={`${group.group}-${groupIndex}`} className="space-y-2">
+          {group.group && (
+            <GroupHeadingInput
+              value={group.group}
+              onCommit={(heading) => renameGroup(group.items.map(item => item.index), heading)}
+            />
+          )}
+
+          <div className="hidden md:grid grid-cols-[5rem_6rem_1fr_1fr_2.5rem] gap-2 text-xs text-muted-foreground px-1">
+            <span>Qty</span>
+            <span>Unit</span>
+            <span>Ingredient</span>
+            <span>Preparation</span>
+            <span />
+          </div>
+
+          {group.items.map(({ ingredient, index }) => (
+            <IngredientRow
+              key={index}
+              ingredient={ingredient}
+              onChange={(updates) => updateIngredient(index, updates)}
+              onRemove={() => removeIngredient(index)}
+            />
+          ))}
+
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => addIngredient(group.group)}
+            className="gap-1"
+          >
+            <Plus className="h-3 w-3" />
+            Add ingredient{group.group ? ` to ${group.group}` : ''}
+          </Button>
+        </div>
+      ))}
+
+      {showPaste && (
+        <div className="space-y-2 p-3 glass-card rounded-lg">
+          <Label htmlFor="ingredient-paste">Paste ingredients (one per line)</Label>
+          <Textarea
+            id="ingredient-paste"
+            value={pasteText}
+            onChange={(e) => setPasteText(e.target.value)}
+            placeholder="For the pasta:&#10;2 1/2 cups flour, sifted&#10;3 eggs&#10;For the sauce:&#10;200 g guanciale, diced"
+            rows={5}
+          />
+          <div className="flex justify-end gap-2">
+            {value.length > 0 && (
+              <Button type="button" variant="outline" size="sm" onClick={() => setShowPaste(false)}>
+                Cancel
+              </Button>
+            )}
+            <Button type="button" size="sm" onClick={handlePaste} disabled={!pasteText.trim()}>
+              Add to list
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        {groups.length === 0 && (
+          <Button type="button" variant="outline" size="sm" onClick={() => addIngredient('')} className="gap-1">
+            <Plus className="h-3 w-3" />
+            Add ingredient
+          </Button>
+        )}
+        <Button type="button" variant="outline" size="sm" onClick={addGroup} className="gap-1">
+          <FolderPlus className="h-3 w-3" />
+          Add section
+        </Button>
+        {!showPaste && (
+          <Button type="button" variant="outline" size="sm" onClick={() => setShowPaste(true)} className="gap-1">
+            <ClipboardPaste className="h-3 w-3" />
+            Paste list
+          </Button>
+        )}
+      </div>
+    </div>
+  )
+}
+
+interface GroupHeadingInputProps {
+  value: string
+  onCommit: (heading: string) => void
+}
+
+// Headings are applied on blur or Enter, so the field stays put while it is
+// cleared or retyped and only merges into a matching section once committed.
+// An empty heading goes back to the current one.
+function GroupHeadingInput({ value, onCommit }: GroupHeadingInputProps) {
+  const [draft, setDraft] = useState(value)
+
+  useEffect(() => {
+    setDraft(value)
+  }, [value])
+
+  const commit = () => {
+    const heading = draft.trim()
+    if (heading && heading !== value) onCommit(heading)
+    else setDraft(value)
+  }
+
+  return (
+    <Input
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') {
+          e.preventDefault()
+          commit()
+        }
+      }}
+      placeholder="Section heading, e.g. For the sauce"
+      className="font-medium"
+      aria-label="Section heading"
+    />
+  )
+}
+
+interface IngredientRowProps {
+  ingredient: RecipeIngredient
+  onChange: (updates: Partial<RecipeIngredient>) => void
+  onRemove: () => void
+}
+
+function IngredientRow({ ingredient, onChange, onRemove }: IngredientRowProps) {
+  // Quantities are edited as text so partial input like "1 1/" isn't lost
+  const [quantityText, setQuantityText] = useState(formatAmount(ingredient))
+
+  useEffect(() => {
+    setQuantityText(formatAmount(ingredient))
+  }, [ingredient.quantity, ingredient.quantity_max])
+
+  const commitQuantity = () => {
+    const [min, max] = quantityText.split(/\s*(?:-|–|to)\s*/)
+    onChange({
+      quantity: parseQuantity(min || ''),
+      quantity_max: max ? parseQuantity(max) : null
+    })
+  }
+
+  return (
+    <div className="grid grid-cols-[5rem_6rem_1fr_2.5rem] md:grid-cols-[5rem_6rem_1fr_1fr_2.5rem] gap-2 items-center">
+      <Input
+        value={quantityText}
+        onChange={(e) => setQuantityText(e.target.value)}
+        onBlur={commitQuantity}
+        placeholder="1 1/2"
+        aria-label="Quantity"
+      />
+      <select
+        value={ingredient.unit || ''}
+        onChange={(e) => onChange({ unit: e.target.value || null })}
+        className={selectClassName}
+        aria-label="Unit"
+      >
+        <option value="">—</option>
+        {Object.values(UNITS).map(unit => (
+          <option key={unit.key} value={unit.key}>{unit.label}</option>
+        ))}
+      </select>
+      <Input
+        value={ingredient.item}
+        onChange={(e) => onChange({ item: e.target.value })}
+        placeholder="flour"
+        aria-label="Ingredient"
+      />
+      <Input
+        value={ingredient.note}
+        onChange={(e) => onChange({ note: e.target.value })}
+        placeholder="sifted"
+        aria-label="Preparation note"
+        className="col-span-3 md:col-span-1 order-last md:order-none"
+      />
+      <Button
+        type="button"
+        variant="ghost"
+        size="sm"
+        onClick={onRemove}
+        className="h-8 w-8 p-0 text-muted-foreground hover:text-destructive"
+        aria-label="Remove ingredient"
+      >
+        <Trash2 className="h-4 w-4" />
+      </Button>
+    </div>
+  )
+}
+
+function formatAmount(ingredient: RecipeIngredient): string {
+  if (ingredient.quantity === null) return ''
+  return ingredient.quantity_max !== null
+    ? `${formatQuantity(ingredient.quantity)}-${formatQuantity(ingredient.quantity_max)}`
+    : formatQuantity(ingredient.quantity)
+}
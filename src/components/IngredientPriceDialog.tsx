@@ -0,0 +1,258 @@
+import React, { useState, useEffect } from 'react'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Badge } from './ui/badge'
+import { Switch } from './ui/switch'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog'
+import { useNotifications } from './ui/notification'
+import { useIngredientPrices } from './hooks/useIngredientPrices'
+import { Pencil, Search, Trash2 } from 'lucide-react'
+import { UNITS } from '../utils/recipes/units'
+import { IngredientPrice, formatUnitPrice } from '../utils/recipes/costing'
+
+interface IngredientPriceDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  priceList: ReturnType<typeof useIngredientPrices>
+  currency: string
+  // Prefills the form, e.g. from an unpriced ingredient
+  initialName?: string
+}
+
+const EACH = 'each'
+
+const emptyForm = (name = '') => ({ name, price: '', quantity: '1', unit: 'kg', yield_percent: '100', shared: false })
+
+const selectClassName = "flex h-10 w-full rounded-md border border-input bg-input-background px-2 py-2 text-sm text-foreground ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+
+export function IngredientPriceDialog({ open, onOpenChange, priceList, currency, initialName }: IngredientPriceDialogProps) {
+  const { addNotification } = useNotifications()
+  const { prices, canEditShared, savePrice, deletePrice } = priceList
+  const [form, setForm] = useState(emptyForm())
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [query, setQuery] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    if (!open) return
+    setForm(emptyForm(initialName || ''))
+    setEditingId(null)
+    setQuery('')
+  }, [open, initialName])
+
+  const canEdit = (price: IngredientPrice) => price.owner_id !== null || canEditShared
+
+  const startEditing = (price: IngredientPrice) => {
+    setEditingId(price.id)
+    setForm({
+      name: price.name,
+      price: price.price.toString(),
+      quantity: price.quantity.toString(),
+      unit: price.unit || EACH,
+      yield_percent: price.yield_percent.toString(),
+      shared: price.owner_id === null
+    })
+  }
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const price = parseFloat(form.price)
+    const quantity = parseFloat(form.quantity)
+    const yieldPercent = parseFloat(form.yield_percent)
+    if (!form.name.trim() || !(price >= 0) || !(quantity > 0) || !(yieldPercent > 0 && yieldPercent <= 100)) {
+      addNotification({
+        title: 'Check the price',
+        message: 'Enter a name, a price, a quantity above zero and a yield between 1 and 100%.',
+        type: 'error'
+      })
+      return
+    }
+
+    setSaving(true)
+    try {
+      await savePrice(
+        { name: form.name, price, quantity, unit: form.unit === EACH ? null : form.unit, yield_percent: yieldPercent },
+        { id: editingId || undefined, shared: form.shared }
+      )
+      setForm(emptyForm())
+      setEditingId(null)
+    } catch (error: any) {
+      console.error('Error saving ingredient price:', error)
+      addNotification({
+        title: 'Error',
+        message: error?.code === '23505'
+          ? `That list already has a price for "${form.name.trim()}". Edit it instead.`
+          : 'Could not save the price. Please try again.',
+        type: 'error'
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (price: IngredientPrice) => {
+    try {
+      await deletePrice(price.id)
+      if (editingId === price.id) {
+        setEditingId(null)
+        setForm(emptyForm())
+      }
+    } catch (error) {
+      console.error('Error deleting ingredient price:', error)
+      addNotification({
+        title: 'Error',
+        message: 'Could not delete the price. Please try again.',
+        type: 'error'
+      })
+    }
+  }
+
+  const visible = prices.filter(price => price.name.toLowerCase().includes(query.trim().toLowerCase()))
+  const sections = [
+    { title: 'My prices', items: visible.filter(price => price.owner_id !== null) },
+    { title: 'Programme prices', items: visible.filter(price => price.owner_id === null) }
+  ]
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto glass-modal">
+        <DialogHeader>
+          <DialogTitle>Ingredient prices</DialogTitle>
+          <DialogDescription>
+            Enter what you pay as purchased. Your own prices are used before the programme list.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSave} className="space-y-3 rounded-lg border border-input p-4">
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+            <div className="space-y-1 col-span-2">
+              <Label htmlFor="price-name">Ingredient</Label>
+              <Input
+                id="price-name"
+                value={form.name}
+                onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+                placeholder="butter"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="price-amount">Price ({currency})</Label>
+              <Input
+                id="price-amount"
+                type="number"
+                min={0}
+                step="0.01"
+                value={form.price}
+                onChange={(e) => setForm(prev => ({ ...prev, price: e.target.value }))}
+                placeholder="4.50"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="price-quantity">For</Label>
+              <div className="flex gap-1">
+                <Input
+                  id="price-quantity"
+                  type="number"
+                  min={0}
+                  step="any"
+                  value={form.quantity}
+                  onChange={(e) => setForm(prev => ({ ...prev, quantity: e.target.value }))}
+                  className="w-16"
+                />
+                <select
+                  value={form.unit}
+                  onChange={(e) => setForm(prev => ({ ...prev, unit: e.target.value }))}
+                  className={selectClassName}
+                  aria-label="Purchase unit"
+                >
+                  <option value={EACH}>each</option>
+                  {Object.values(UNITS).filter(unit => unit.key !== 'piece').map(unit => (
+                    <option key={unit.key} value={unit.key}>{unit.label}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="price-yield">Yield %</Label>
+              <Input
+                id="price-yield"
+                type="number"
+                min={1}
+                max={100}
+                value={form.yield_percent}
+                onChange={(e) => setForm(prev => ({ ...prev, yield_percent: e.target.value }))}
+              />
+            </div>
+          </div>
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            {canEditShared && !editingId ? (
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="price-shared"
+                  checked={form.shared}
+                  onCheckedChange={(shared) => setForm(prev => ({ ...prev, shared }))}
+                />
+                <Label htmlFor="price-shared" className="text-sm font-normal">Add to the programme list</Label>
+              </div>
+            ) : <span />}
+            <div className="flex gap-2">
+              {editingId && (
+                <Button type="button" variant="ghost" onClick={() => { setEditingId(null); setForm(emptyForm()) }}>
+                  Cancel
+                </Button>
+              )}
+              <Button type="submit" disabled={saving}>
+                {saving ? 'Saving...' : editingId ? 'Update price' : 'Add price'}
+              </Button>
+            </div>
+          </div>
+        </form>
+
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search prices"
+            className="pl-10"
+          />
+        </div>
+
+        {sections.map(section => (
+          <div key={section.title} className="space-y-2">
+            <h4 className="text-sm font-medium">
+              {section.title} <span className="text-muted-foreground">({section.items.length})</span>
+            </h4>
+            {section.items.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No prices yet.</p>
+            ) : (
+              <ul className="border rounded-md divide-y">
+                {section.items.map(price => (
+                  <li key={price.id} className="flex items-center justify-between gap-2 p-2">
+                    <div className="min-w-0">
+                      <span className="text-sm font-medium">{price.name}</span>
+                      <span className="ml-2 text-sm text-muted-foreground">{formatUnitPrice(price, currency)}</span>
+                      {price.yield_percent < 100 && (
+                        <Badge variant="outline" className="ml-2 text-xs">{price.yield_percent}% yield</Badge>
+                      )}
+                    </div>
+                    {canEdit(price) && (
+                      <div className="flex gap-1 flex-shrink-0">
+                        <Button size="sm" variant="ghost" className="h-7 w-7 p-0" onClick={() => startEditing(price)} aria-label="Edit price">
+                          <Pencil className="h-3 w-3" />
+                        </Button>
+                        <Button size="sm" variant="ghost" className="h-7 w-7 p-0" onClick={() => handleDelete(price)} aria-label="Delete price">
+                          <Trash2 className="h-3 w-3" />
+                        </Button>
+                      </div>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        ))}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,131 @@
+import React, { useState } from 'react'
+import { Button } from './ui/button'
+import { Badge } from './ui/badge'
+import { Skeleton } from './ui/skeleton'
+import { Alert, AlertDescription } from './ui/alert'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { useSubstitutions } from './hooks/useSubstitutions'
+import { ArrowRight, Check } from 'lucide-react'
+import { RecipeIngredient, formatIngredient } from '../utils/recipes/ingredients'
+import { DIETARY_LABELS, dietaryLabel } from '../utils/recipes/dietary'
+import {
+  SUBSTITUTION_CONTEXTS,
+  Substitution,
+  SubstitutionContext,
+  applySubstitution,
+  contextLabel,
+  describeRatio
+} from '../utils/recipes/substitutions'
+
+interface IngredientSubstitutionDialogProps {
+  // The line as currently shown, so previews match the scaled recipe
+  ingredient: RecipeIngredient | null
+  selected: Substitution | null
+  onSelect: (substitution: Substitution | null) => void
+  onClose: () => void
+}
+
+const ANY_DIETARY = 'any'
+
+export function IngredientSubstitutionDialog({ ingredient, selected, onSelect, onClose }: IngredientSubstitutionDialogProps) {
+  const [context, setContext] = useState<SubstitutionContext>('any')
+  const [dietary, setDietary] = useState(ANY_DIETARY)
+  const { substitutions, loading, available } = useSubstitutions(ingredient?.item || null, {
+    context,
+    dietary: dietary === ANY_DIETARY ? undefined : dietary
+  })
+
+  return (
+    <Dialog open={!!ingredient} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg max-h-[85vh] overflow-y-auto glass-modal">
+        <DialogHeader>
+          <DialogTitle>Substitutes for {ingredient?.item}</DialogTitle>
+          <DialogDescription>
+            Pick one to see it in the recipe. Save an adapted copy to keep your changes.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-2">
+          <Select value={context} onValueChange={(value) => setContext(value as SubstitutionContext)}>
+            <SelectTrigger className="glass-input" aria-label="Used in">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="glass-card border-glass-border">
+              {SUBSTITUTION_CONTEXTS.map(option => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.value === 'any' ? 'Any use' : option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={dietary} onValueChange={setDietary}>
+            <SelectTrigger className="glass-input" aria-label="Dietary need">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="glass-card border-glass-border">
+              <SelectItem value={ANY_DIETARY}>Any diet</SelectItem>
+              {DIETARY_LABELS.map(label => (
+                <SelectItem key={label.id} value={label.id}>{label.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {!available ? (
+          <Alert>
+            <AlertDescription>
+              Substitutions are not set up yet. Ask an administrator to run the latest database setup script.
+            </AlertDescription>
+          </Alert>
+        ) : loading ? (
+          <div className="space-y-2">
+            {[...Array(3)].map((_, i) => <Skeleton key={i} className="h-20 w-full" />)}
+          </div>
+        ) : substitutions.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-6 text-center">
+            No substitutes known for this ingredient{context !== 'any' || dietary !== ANY_DIETARY ? ' with these filters' : ''}.
+          </p>
+        ) : (
+          <ul className="space-y-2">
+            {ingredient && substitutions.map(substitution => {
+              const isSelected = selected?.id === substitution.id
+              return (
+                <li key={substitution.id} className={`rounded-lg border p-3 space-y-2 ${isSelected ? 'border-primary bg-primary/5' : ''}`}>
+                  <div className="flex items-start justify-between gap-2">
+                    <div>
+                      <p className="font-medium capitalize">{substitution.substitute}</p>
+                      <p className="text-xs text-muted-foreground">{describeRatio(substitution)}</p>
+                    </div>
+                    <Button
+                      size="sm"
+                      variant={isSelected ? 'default' : 'outline'}
+                      className="gap-1 shrink-0"
+                      onClick={() => onSelect(isSelected ? null : substitution)}
+                    >
+                      {isSelected && <Check className="h-3 w-3" />}
+                      {isSelected ? 'Using' : 'Use'}
+                    </Button>
+                  </div>
+                  <div className="flex flex-wrap gap-1">
+                    {substitution.context !== 'any' && (
+                      <Badge variant="outline" className="text-xs">{contextLabel(substitution.context)}</Badge>
+                    )}
+                    {substitution.dietary.map(label => (
+                      <Badge key={label} variant="secondary" className="text-xs">{dietaryLabel(label)}</Badge>
+                    ))}
+                  </div>
+                  {substitution.notes && <p className="text-sm text-muted-foreground">{substitution.notes}</p>}
+                  <p className="flex items-center gap-2 text-sm">
+                    <ArrowRight className="h-3 w-3 shrink-0 text-muted-foreground" />
+                    {formatIngredient(applySubstitution(ingredient, substitution))}
+                  </p>
+                </li>
+              )
+            })}
+          </ul>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -36,7 +36,12 @@ import {
   Wifi,
   WifiOff,
   Edit,
-  User
+  User,
+  Library,
+  ShoppingCart,
+  CalendarDays,
+  Package,
+  ChartGantt
 } from 'lucide-react'
 import { ACWhiskLogo } from './ACWhiskLogo'
 
@@ -64,6 +69,11 @@ export function Layout({ children, activeTab, onTabChange }: LayoutProps) {
     const baseItems = [
       { id: 'dashboard', label: 'Dashboard', icon: Home },
       { id: 'recipes', label: 'Recipes', icon: ChefHat },
+      { id: 'collections', label: 'Collections', icon: Library },
+      { id: 'planner', label: 'Meal Planner', icon: CalendarDays },
+      { id: 'shopping', label: 'Shopping Lists', icon: ShoppingCart },
+      { id: 'pantry', label: 'Pantry', icon: Package },
+      { id: 'timeline', label: 'Production Timeline', icon: ChartGantt },
       { id: 'portfolio', label: 'Portfolio', icon: FileText },
       { id: 'learning', label: 'Learning Hub', icon: BookOpen },
       { id: 'forum', label: 'Community Forum', icon: MessageCircle },
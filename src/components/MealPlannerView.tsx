@@ -0,0 +1,428 @@
+import React, { useState, useEffect, useRef } from 'react'
+import { DateRange } from 'react-day-picker'
+import { useAuth } from './AuthContext'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Card, CardContent } from './ui/card'
+import { Skeleton } from './ui/skeleton'
+import { Calendar } from './ui/calendar'
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover'
+import { Alert, AlertDescription } from './ui/alert'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog'
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from './ui/alert-dialog'
+import { useNotifications } from './ui/notification'
+import { useMealPlan } from './hooks/useMealPlan'
+import { useShoppingLists, ShoppingListDraft } from './hooks/useShoppingLists'
+import { ShoppingListBuilder, ShoppingEntry } from './ShoppingListBuilder'
+import { CalendarDays, ChevronLeft, ChevronRight, CopyPlus, GripVertical, Plus, Search, ShoppingCart, X } from 'lucide-react'
+import { supabase } from '../utils/supabase/client'
+import { formatNutrient } from '../utils/recipes/nutrition'
+import {
+  MEAL_PLAN_RECIPE_COLUMNS,
+  MEAL_SLOTS,
+  MealPlanEntry,
+  MealPlanRecipe,
+  MealSlot,
+  addDays,
+  dailyNutrition,
+  formatDayRange,
+  fromDateKey,
+  mealPlanShoppingEntries,
+  startOfWeek,
+  toDateKey,
+  weekDays
+} from '../utils/recipes/mealPlans'
+
+type Dragged = { kind: 'recipe'; recipe: MealPlanRecipe } | { kind: 'entry'; id: string }
+
+interface SlotTarget {
+  date: string
+  slot: MealSlot
+}
+
+const TOTAL_NUTRIENTS = ['calories', 'protein', 'carbs', 'fat'] as const
+
+export function MealPlannerView() {
+  const { user } = useAuth()
+  const { addNotification } = useNotifications()
+  const [weekStart, setWeekStart] = useState(() => startOfWeek(new Date()))
+  const days = weekDays(weekStart)
+  const from = toDateKey(days[0])
+  const to = toDateKey(days[6])
+  const { entries, loading, available, loadRange, addEntry, moveEntry, updateServings, removeEntry, copyEntries } = useMealPlan(from, to)
+  const { createList } = useShoppingLists(false)
+
+  const [query, setQuery] = useState('')
+  const [recipes, setRecipes] = useState<MealPlanRecipe[]>([])
+  const [target, setTarget] = useState<SlotTarget | null>(null)
+  const [dropTarget, setDropTarget] = useState<string | null>(null)
+  const [pickingWeek, setPickingWeek] = useState(false)
+  const [confirmCopy, setConfirmCopy] = useState(false)
+  const [rangeOpen, setRangeOpen] = useState(false)
+  const [range, setRange] = useState<DateRange | undefined>()
+  const [shopping, setShopping] = useState<{ entries: ShoppingEntry[]; title: string } | null>(null)
+  const dragged = useRef<Dragged | null>(null)
+
+  const today = toDateKey(new Date())
+
+  const reportError = (message: string) => (error: unknown) => {
+    console.error(message, error)
+    addNotification({ title: 'Error', message, type: 'error' })
+  }
+
+  // Recipes to plan with: the user's own by default, or a title search, debounced
+  useEffect(() => {
+    if (!user) return
+
+    const timer = setTimeout(async () => {
+      const request = supabase.from('recipes').select(MEAL_PLAN_RECIPE_COLUMNS)
+      const { data, error } = await (query.trim()
+        ? request.ilike('title', `%${query.trim()}%`).order('title')
+        : request.eq('author_id', user.id).order('updated_at', { ascending: false })
+      ).limit(12)
+
+      if (error) {
+        console.error('Error loading recipes for the planner:', error)
+        return
+      }
+      setRecipes(data || [])
+    }, query ? 300 : 0)
+
+    return () => clearTimeout(timer)
+  }, [query, user?.id])
+
+  const slotEntries = (date: string, slot: MealSlot) =>
+    entries.filter(entry => entry.plan_date === date && entry.slot === slot)
+
+  const planRecipe = (recipe: MealPlanRecipe, date: string, slot: MealSlot) =>
+    addEntry(date, slot, recipe).catch(reportError('Could not add the recipe to your plan. Please try again.'))
+
+  const handleDrop = (e: React.DragEvent, date: string, slot: MealSlot) => {
+    e.preventDefault()
+    setDropTarget(null)
+    const item = dragged.current
+    dragged.current = null
+    if (!item) return
+
+    if (item.kind === 'recipe') {
+      planRecipe(item.recipe, date, slot)
+    } else {
+      moveEntry(item.id, date, slot).catch(reportError('Could not move the meal. Please try again.'))
+    }
+  }
+
+  const startDrag = (e: React.DragEvent, item: Dragged) => {
+    dragged.current = item
+    e.dataTransfer.effectAllowed = item.kind === 'recipe' ? 'copy' : 'move'
+    // Some browsers only start a drag when data is set
+    e.dataTransfer.setData('text/plain', item.kind === 'recipe' ? item.recipe.title : item.id)
+  }
+
+  const saveServings = (entry: MealPlanEntry, value: string) => {
+    const servings = Math.min(Math.max(parseInt(value) || 1, 1), 100)
+    if (servings === entry.servings) return
+    updateServings(entry.id, servings).catch(reportError('Could not update the servings. Please try again.'))
+  }
+
+  const handleCopyWeek = async () => {
+    try {
+      const copied = await copyEntries(entries, 7)
+      setWeekStart(addDays(weekStart, 7))
+      addNotification({ title: 'Week copied', message: `${copied} meal${copied === 1 ? '' : 's'} added to next week.`, type: 'success' })
+    } catch (error) {
+      reportError('Could not copy the week. Please try again.')(error)
+    } finally {
+      setConfirmCopy(false)
+    }
+  }
+
+  const openRange = () => {
+    setRange({ from: days[0], to: days[6] })
+    setRangeOpen(true)
+  }
+
+  const buildShoppingList = async () => {
+    if (!range?.from) return
+    const rangeTo = range.to || range.from
+
+    try {
+      const planned = mealPlanShoppingEntries(await loadRange(toDateKey(range.from), toDateKey(rangeTo)))
+      if (planned.length === 0) {
+        addNotification({ title: 'Nothing planned', message: 'There are no meals planned in those dates.', type: 'info' })
+        return
+      }
+      setRangeOpen(false)
+      setShopping({ entries: planned, title: `Meals ${formatDayRange(range.from, rangeTo)}` })
+    } catch (error) {
+      reportError('Could not load your plan. Please try again.')(error)
+    }
+  }
+
+  const createShoppingList = async (draft: ShoppingListDraft) => {
+    await createList(draft)
+    addNotification({ title: 'Shopping list created', message: `"${draft.title}" is in Shopping Lists.`, type: 'success' })
+  }
+
+  const renderSlot = (day: Date, slot: { id: MealSlot; label: string }) => {
+    const date = toDateKey(day)
+    const key = `${date}-${slot.id}`
+    const isTarget = target?.date === date && target.slot === slot.id
+
+    return (
+      <div
+        key={slot.id}
+        onDragOver={(e) => {
+          e.preventDefault()
+          setDropTarget(key)
+        }}
+        onDragLeave={() => setDropTarget(prev => prev === key ? null : prev)}
+        onDrop={(e) => handleDrop(e, date, slot.id)}
+        className={`rounded-md border border-dashed p-2 space-y-1 min-h-16 transition-colors ${
+          dropTarget === key ? 'border-primary bg-primary/10' : isTarget ? 'border-primary' : 'border-border'
+        }`}
+      >
+        <div className="flex items-center justify-between">
+          <span className="text-xs font-medium text-muted-foreground">{slot.label}</span>
+          <Button
+            size="sm"
+            variant={isTarget ? 'secondary' : 'ghost'}
+            className="h-5 w-5 p-0"
+            onClick={() => setTarget(isTarget ? null : { date, slot: slot.id })}
+            aria-label={`Add to ${slot.label.toLowerCase()} on ${day.toLocaleDateString(undefined, { weekday: 'long' })}`}
+            aria-pressed={isTarget}
+          >
+            <Plus className="h-3 w-3" />
+          </Button>
+        </div>
+        {slotEntries(date, slot.id).map(entry => (
+          <div
+            key={entry.id}
+            draggable
+            onDragStart={(e) => startDrag(e, { kind: 'entry', id: entry.id })}
+            className="group flex items-center gap-1 rounded bg-muted/60 px-1 py-0.5 text-xs cursor-grab"
+          >
+            <GripVertical className="h-3 w-3 shrink-0 text-muted-foreground" />
+            <span className="flex-1 min-w-0 truncate" title={entry.recipe?.title}>
+              {entry.recipe?.title || 'Recipe unavailable'}
+            </span>
+            <Input
+              key={`${entry.id}-${entry.servings}`}
+              type="number"
+              min={1}
+              max={100}
+              defaultValue={entry.servings}
+              onBlur={(e) => saveServings(entry, e.target.value)}
+              className="h-5 w-10 px-1 text-xs"
+              aria-label={`Servings of ${entry.recipe?.title || 'recipe'}`}
+            />
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-5 w-5 p-0"
+              onClick={() => removeEntry(entry.id).catch(reportError('Could not remove the meal. Please try again.'))}
+              aria-label={`Remove ${entry.recipe?.title || 'recipe'}`}
+            >
+              <X className="h-3 w-3" />
+            </Button>
+          </div>
+        ))}
+      </div>
+    )
+  }
+
+  const renderDay = (day: Date) => {
+    const date = toDateKey(day)
+    const dayEntries = entries.filter(entry => entry.plan_date === date)
+    const nutrition = dailyNutrition(dayEntries)
+
+    return (
+      <Card key={date} className={`glass-card ${date === today ? 'ring-2 ring-primary/50' : ''}`}>
+        <CardContent className="p-3 space-y-2">
+          <div>
+            <p className="text-sm font-semibold">{day.toLocaleDateString(undefined, { weekday: 'short' })}</p>
+            <p className="text-xs text-muted-foreground">{day.toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}</p>
+          </div>
+          {MEAL_SLOTS.map(slot => renderSlot(day, slot))}
+          {dayEntries.length > 0 && (
+            <div className="border-t pt-2 text-xs text-muted-foreground space-y-0.5">
+              {nutrition.estimated > 0 && (
+                <p>{TOTAL_NUTRIENTS.map(key => formatNutrient(nutrition.totals[key], key)).join(' · ')}</p>
+              )}
+              {nutrition.missing > 0 && (
+                <p>{nutrition.missing} without a nutrition estimate</p>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold">Meal Planner</h1>
+          <p className="text-muted-foreground">Drag recipes into the week. Daily totals are per person, one serving of each meal.</p>
+        </div>
+        {available && (
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" className="gap-2" onClick={() => setConfirmCopy(true)} disabled={entries.length === 0}>
+              <CopyPlus className="h-4 w-4" />
+              Copy to next week
+            </Button>
+            <Button className="gap-2" onClick={openRange}>
+              <ShoppingCart className="h-4 w-4" />
+              Shopping list
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {!available ? (
+        <Alert>
+          <AlertDescription>
+            The meal planner is not set up yet. Ask an administrator to run the latest database setup script.
+          </AlertDescription>
+        </Alert>
+      ) : (
+        <>
+          <div className="flex flex-wrap items-center gap-2">
+            <Button variant="outline" size="icon" onClick={() => setWeekStart(addDays(weekStart, -7))} aria-label="Previous week">
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Popover open={pickingWeek} onOpenChange={setPickingWeek}>
+              <PopoverTrigger asChild>
+                <Button variant="outline" className="gap-2">
+                  <CalendarDays className="h-4 w-4" />
+                  {formatDayRange(days[0], days[6])}
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-auto p-0" align="start">
+                <Calendar
+                  mode="single"
+                  selected={days[0]}
+                  defaultMonth={days[0]}
+                  weekStartsOn={1}
+                  onSelect={(date) => {
+                    if (!date) return
+                    setWeekStart(startOfWeek(date))
+                    setPickingWeek(false)
+                  }}
+                />
+              </PopoverContent>
+            </Popover>
+            <Button variant="outline" size="icon" onClick={() => setWeekStart(addDays(weekStart, 7))} aria-label="Next week">
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+            {toDateKey(startOfWeek(new Date())) !== from && (
+              <Button variant="ghost" onClick={() => setWeekStart(startOfWeek(new Date()))}>This week</Button>
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 xl:grid-cols-[16rem_1fr] gap-4">
+            <Card className="glass-card h-fit">
+              <CardContent className="p-3 space-y-3">
+                <div className="relative">
+                  <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                  <Input
+                    value={query}
+                    onChange={(e) => setQuery(e.target.value)}
+                    placeholder="Find a recipe"
+                    className="pl-10"
+                    aria-label="Find a recipe"
+                  />
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {target
+                    ? `Adding to ${MEAL_SLOTS.find(slot => slot.id === target.slot)?.label.toLowerCase()} on ${fromDateKey(target.date).toLocaleDateString(undefined, { weekday: 'long' })}`
+                    : query.trim() ? 'Drag a recipe onto a meal, or press + on a meal first' : 'Your recipes. Drag one onto a meal, or press + on a meal first'}
+                </p>
+                <ul className="space-y-1">
+                  {recipes.map(recipe => (
+                    <li
+                      key={recipe.id}
+                      draggable
+                      onDragStart={(e) => startDrag(e, { kind: 'recipe', recipe })}
+                      className="flex items-center gap-2 rounded-md border p-2 text-sm cursor-grab bg-background/50"
+                    >
+                      <GripVertical className="h-3 w-3 shrink-0 text-muted-foreground" />
+                      <span className="flex-1 min-w-0 truncate">{recipe.title}</span>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="h-6 w-6 p-0"
+                        disabled={!target}
+                        onClick={() => target && planRecipe(recipe, target.date, target.slot)}
+                        aria-label={`Add ${recipe.title}`}
+                      >
+                        <Plus className="h-3 w-3" />
+                      </Button>
+                    </li>
+                  ))}
+                  {recipes.length === 0 && (
+                    <li className="text-sm text-muted-foreground">No recipes found.</li>
+                  )}
+                </ul>
+              </CardContent>
+            </Card>
+
+            {loading && entries.length === 0 ? (
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 2xl:grid-cols-7 gap-3">
+                {days.map(day => <Skeleton key={day.toISOString()} className="h-64 w-full" />)}
+              </div>
+            ) : (
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 2xl:grid-cols-7 gap-3">
+                {days.map(renderDay)}
+              </div>
+            )}
+          </div>
+        </>
+      )}
+
+      <Dialog open={rangeOpen} onOpenChange={setRangeOpen}>
+        <DialogContent className="max-w-sm glass-modal">
+          <DialogHeader>
+            <DialogTitle>Shopping list from your plan</DialogTitle>
+            <DialogDescription>Choose the days to shop for.</DialogDescription>
+          </DialogHeader>
+          <Calendar
+            mode="range"
+            selected={range}
+            onSelect={setRange}
+            defaultMonth={days[0]}
+            weekStartsOn={1}
+            className="mx-auto"
+          />
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" onClick={() => setRangeOpen(false)}>Cancel</Button>
+            <Button onClick={buildShoppingList} disabled={!range?.from}>Continue</Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <ShoppingListBuilder
+        open={shopping !== null}
+        onOpenChange={(open) => !open && setShopping(null)}
+        initialEntries={shopping?.entries}
+        initialTitle={shopping?.title}
+        onSave={createShoppingList}
+      />
+
+      <AlertDialog open={confirmCopy} onOpenChange={setConfirmCopy}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Copy this week forward?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {entries.length} meal{entries.length === 1 ? '' : 's'} will be added to {formatDayRange(addDays(weekStart, 7), addDays(weekStart, 13))}, next to anything already planned there.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleCopyWeek}>Copy</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
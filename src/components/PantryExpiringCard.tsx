@@ -0,0 +1,66 @@
+import React from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card'
+import { Button } from './ui/button'
+import { Badge } from './ui/badge'
+import { usePantry } from './hooks/usePantry'
+import { Package } from 'lucide-react'
+import { EXPIRING_SOON_DAYS, daysUntil, expiringSoon, expiryLabel } from '../utils/recipes/pantry'
+
+interface PantryExpiringCardProps {
+  onTabChange: (tab: string) => void
+}
+
+// Dashboard card for pantry items that are expired or expire within a few days
+export function PantryExpiringCard({ onTabChange }: PantryExpiringCardProps) {
+  const { items, loading, available } = usePantry()
+
+  if (!available || loading) return null
+
+  const expiring = expiringSoon(items)
+
+  return (
+    <Card className="glass-card border-0 shadow-none">
+      <CardHeader>
+        <div className="flex items-center gap-3">
+          <div className="p-2 rounded-xl bg-gradient-to-r from-amber-500/20 to-orange-500/20">
+            <Package className="h-5 w-5 text-amber-400" />
+          </div>
+          <div>
+            <CardTitle className="text-lg text-foreground">Use Soon</CardTitle>
+            <CardDescription className="text-muted-foreground">
+              Pantry items expiring in the next {EXPIRING_SOON_DAYS} days
+            </CardDescription>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {expiring.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            {items.length === 0 ? 'Add what you have on hand to get reminders before it spoils.' : 'Nothing is about to expire.'}
+          </p>
+        ) : (
+          <ul className="space-y-2">
+            {expiring.slice(0, 5).map(item => (
+              <li key={item.id} className="flex items-center justify-between gap-2 text-sm">
+                <span className="truncate text-foreground">{item.name}</span>
+                <Badge variant={daysUntil(item.expires_on!) < 0 ? 'destructive' : 'secondary'} className="shrink-0">
+                  {expiryLabel(item.expires_on!)}
+                </Badge>
+              </li>
+            ))}
+            {expiring.length > 5 && (
+              <li className="text-xs text-muted-foreground">and {expiring.length - 5} more</li>
+            )}
+          </ul>
+        )}
+        <Button
+          variant="ghost"
+          className="w-full glass-input rounded-2xl text-amber-400 hover:bg-white/20 transition-colors"
+          onClick={() => onTabChange('pantry')}
+        >
+          {expiring.length > 0 ? 'Find recipes that use them' : 'Open pantry'}
+        </Button>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,360 @@
+import React, { useState, useEffect, useMemo, useId } from 'react'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Badge } from './ui/badge'
+import { Switch } from './ui/switch'
+import { Progress } from './ui/progress'
+import { Card, CardContent } from './ui/card'
+import { Skeleton } from './ui/skeleton'
+import { Alert, AlertDescription } from './ui/alert'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs'
+import { useNotifications } from './ui/notification'
+import { usePantry } from './hooks/usePantry'
+import { RecipeDetailDialog } from './RecipeDetailDialog'
+import { Check, Package, Plus, Save, Trash2, X } from 'lucide-react'
+import { supabase } from '../utils/supabase/client'
+import { RECIPE_SELECT, enrichRecipe } from '../utils/recipes/records'
+import { formatQuantity, parseQuantity } from '../utils/recipes/ingredients'
+import {
+  EMPTY_PANTRY_DRAFT,
+  EXPIRING_SOON_DAYS,
+  PANTRY_BASICS,
+  PantryDraft,
+  PantryItem,
+  daysUntil,
+  expiryLabel,
+  pantryKeys,
+  rankByPantry
+} from '../utils/recipes/pantry'
+
+// The finder loads just what the result cards show; the full recipe is
+// loaded when one is opened
+const CANDIDATE_COLUMNS = 'id, title, ingredients, profiles:author_id (name, avatar_url)'
+const CANDIDATE_LIMIT = 30
+const FALLBACK_CANDIDATE_LIMIT = 200
+
+const expiryVariant = (dateKey: string) => {
+  const days = daysUntil(dateKey)
+  return days < 0 ? 'destructive' : days <= EXPIRING_SOON_DAYS ? 'secondary' : 'outline'
+}
+
+function PantryItemForm({ initial, submitLabel, onSubmit, onCancel }: {
+  initial: PantryDraft
+  submitLabel: string
+  onSubmit: (draft: PantryDraft) => Promise<void>
+  onCancel?: () => void
+}) {
+  const [name, setName] = useState(initial.name)
+  const [quantity, setQuantity] = useState(initial.quantity !== null ? formatQuantity(initial.quantity) : '')
+  const [unit, setUnit] = useState(initial.unit || '')
+  const [expiresOn, setExpiresOn] = useState(initial.expires_on || '')
+  const [saving, setSaving] = useState(false)
+  const { addNotification } = useNotifications()
+  // The add form and an edit form can be on screen together
+  const id = useId()
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!name.trim()) return
+
+    setSaving(true)
+    try {
+      await onSubmit({ name, quantity: parseQuantity(quantity), unit, expires_on: expiresOn || null })
+      if (!onCancel) {
+        setName('')
+        setQuantity('')
+        setUnit('')
+        setExpiresOn('')
+      }
+    } catch (error) {
+      console.error('Error saving pantry item:', error)
+      addNotification({ title: 'Error', message: 'Could not save the item. Please try again.', type: 'error' })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="grid grid-cols-2 sm:grid-cols-[1fr_5rem_6rem_10rem_auto] gap-2 items-end">
+      <div className="col-span-2 sm:col-span-1 space-y-1">
+        <Label htmlFor={`${id}-name`} className="text-xs">Ingredient</Label>
+        <Input id={`${id}-name`} value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. eggs" maxLength={100} />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor={`${id}-quantity`} className="text-xs">Amount</Label>
+        <Input id={`${id}-quantity`} value={quantity} onChange={(e) => setQuantity(e.target.value)} placeholder="6" inputMode="decimal" />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor={`${id}-unit`} className="text-xs">Unit</Label>
+        <Input id={`${id}-unit`} value={unit} onChange={(e) => setUnit(e.target.value)} placeholder="g, cups…" />
+      </div>
+      <div className="col-span-2 sm:col-span-1 space-y-1">
+        <Label htmlFor={`${id}-expiry`} className="text-xs">Use by</Label>
+        <Input id={`${id}-expiry`} type="date" value={expiresOn} onChange={(e) => setExpiresOn(e.target.value)} />
+      </div>
+      <div className="col-span-2 sm:col-span-1 flex gap-1">
+        <Button type="submit" className="gap-1 flex-1" disabled={saving || !name.trim()}>
+          {onCancel ? <Save className="h-4 w-4" /> : <Plus className="h-4 w-4" />}
+          {submitLabel}
+        </Button>
+        {onCancel && (
+          <Button type="button" variant="ghost" size="icon" onClick={onCancel} aria-label="Cancel">
+            <X className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+    </form>
+  )
+}
+
+export function PantryView() {
+  const { addNotification } = useNotifications()
+  const { items, loading, available, addItem, updateItem, removeItem } = usePantry()
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [includeBasics, setIncludeBasics] = useState(true)
+  const [candidates, setCandidates] = useState<any[]>([])
+  const [loadingCandidates, setLoadingCandidates] = useState(false)
+  const [selectedRecipe, setSelectedRecipe] = useState<any>(null)
+
+  const keys = useMemo(() => pantryKeys(items), [items])
+  const keyList = keys.join('|')
+
+  // Only the best matches come back from the database, then get checked
+  // here to show what is on hand and what to buy
+  useEffect(() => {
+    if (keys.length === 0) {
+      setCandidates([])
+      return
+    }
+
+    let cancelled = false
+    const fetchCandidates = async () => {
+      setLoadingCandidates(true)
+      try {
+        const { data: matches, error } = await supabase.rpc('find_pantry_recipes', {
+          pantry_keys: keys,
+          basic_keys: includeBasics ? PANTRY_BASICS : [],
+          result_limit: CANDIDATE_LIMIT
+        })
+
+        let result
+        if (error) {
+          if (error.code !== 'PGRST202' && error.code !== '42883') throw error
+          // Databases without the finder function rank the newest recipes
+          result = await supabase
+            .from('recipes')
+            .select(CANDIDATE_COLUMNS)
+            .eq('is_public', true)
+            .order('created_at', { ascending: false })
+            .limit(FALLBACK_CANDIDATE_LIMIT)
+        } else {
+          const ids = (matches || []).map((match: any) => match.recipe_id)
+          result = ids.length > 0
+            ? await supabase.from('recipes').select(CANDIDATE_COLUMNS).in('id', ids)
+            : { data: [], error: null }
+        }
+
+        const { data, error: recipesError } = result
+        if (recipesError) throw recipesError
+        if (!cancelled) setCandidates((data || []).map(enrichRecipe))
+      } catch (error) {
+        console.error('Error loading recipes for the pantry finder:', error)
+      } finally {
+        if (!cancelled) setLoadingCandidates(false)
+      }
+    }
+
+    fetchCandidates()
+    return () => {
+      cancelled = true
+    }
+  }, [keyList, includeBasics])
+
+  const openRecipe = async (id: string) => {
+    try {
+      const { data, error } = await supabase.from('recipes').select(RECIPE_SELECT).eq('id', id).single()
+      if (error) throw error
+      setSelectedRecipe(enrichRecipe(data))
+    } catch (error) {
+      console.error('Error loading recipe:', error)
+      addNotification({ title: 'Error', message: 'Could not open the recipe. Please try again.', type: 'error' })
+    }
+  }
+
+  const ranked = useMemo(
+    () => rankByPantry(candidates, keys, includeBasics),
+    [candidates, keys, includeBasics]
+  )
+
+  const renderItem = (item: PantryItem) => {
+    if (editingId === item.id) {
+      return (
+        <li key={item.id} className="p-3">
+          <PantryItemForm
+            initial={item}
+            submitLabel="Save"
+            onSubmit={async (draft) => {
+              await updateItem(item.id, draft)
+              setEditingId(null)
+            }}
+            onCancel={() => setEditingId(null)}
+          />
+        </li>
+      )
+    }
+
+    return (
+      <li key={item.id} className="flex items-center gap-3 p-3">
+        <button type="button" className="flex-1 min-w-0 text-left" onClick={() => setEditingId(item.id)}>
+          <span className="font-medium">{item.name}</span>
+          {item.quantity !== null && (
+            <span className="text-sm text-muted-foreground"> · {formatQuantity(item.quantity)}{item.unit ? ` ${item.unit}` : ''}</span>
+          )}
+        </button>
+        {item.expires_on && (
+          <Badge variant={expiryVariant(item.expires_on)} className="shrink-0">{expiryLabel(item.expires_on)}</Badge>
+        )}
+        <Button
+          size="sm"
+          variant="ghost"
+          className="h-7 w-7 p-0"
+          onClick={() => removeItem(item.id).catch(error => {
+            console.error('Error removing pantry item:', error)
+            addNotification({ title: 'Error', message: 'Could not remove the item. Please try again.', type: 'error' })
+          })}
+          aria-label={`Remove ${item.name}`}
+        >
+          <Trash2 className="h-3 w-3" />
+        </Button>
+      </li>
+    )
+  }
+
+  const renderFinder = () => {
+    if (items.length === 0) {
+      return (
+        <p className="text-center text-muted-foreground py-12">Add what you have on hand to see recipes you can make.</p>
+      )
+    }
+    if (loadingCandidates && candidates.length === 0) {
+      return (
+        <div className="space-y-3">
+          {[...Array(3)].map((_, i) => <Skeleton key={i} className="h-24 w-full" />)}
+        </div>
+      )
+    }
+    if (ranked.length === 0 && !loadingCandidates) {
+      return (
+        <p className="text-center text-muted-foreground py-12">No recipes use what's in your pantry yet.</p>
+      )
+    }
+
+    return (
+      <ul className="space-y-3">
+        {ranked.slice(0, CANDIDATE_LIMIT).map(recipe => (
+          <li key={recipe.id}>
+            <Card className="glass-card cursor-pointer hover:shadow-lg transition-shadow" onClick={() => openRecipe(recipe.id)}>
+              <CardContent className="p-4 space-y-2">
+                <div className="flex items-start justify-between gap-3">
+                  <div className="min-w-0">
+                    <h3 className="font-semibold line-clamp-1">{recipe.title}</h3>
+                    <p className="text-xs text-muted-foreground">by {recipe.author}</p>
+                  </div>
+                  <span className="text-sm font-medium shrink-0">
+                    {recipe.match.missing.length === 0 ? 'Ready to cook' : `${recipe.match.missing.length} to buy`}
+                  </span>
+                </div>
+                <Progress value={recipe.match.coverage * 100} className="h-1.5" />
+                <div className="flex flex-wrap gap-1">
+                  {recipe.match.have.map((item: string) => (
+                    <Badge key={`have-${item}`} variant="secondary" className="gap-1 text-xs">
+                      <Check className="h-3 w-3" />
+                      {item}
+                    </Badge>
+                  ))}
+                  {recipe.match.missing.map((item: string) => (
+                    <Badge key={`missing-${item}`} variant="outline" className="text-xs text-muted-foreground">
+                      {item}
+                    </Badge>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          </li>
+        ))}
+      </ul>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold">Pantry</h1>
+        <p className="text-muted-foreground">Keep track of what you have and find recipes that use it</p>
+      </div>
+
+      {!available ? (
+        <Alert>
+          <AlertDescription>
+            The pantry is not set up yet. Ask an administrator to run the latest database setup script.
+          </AlertDescription>
+        </Alert>
+      ) : (
+        <Tabs defaultValue="pantry">
+          <TabsList>
+            <TabsTrigger value="pantry">On hand ({items.length})</TabsTrigger>
+            <TabsTrigger value="cook">What can I cook?</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="pantry" className="space-y-4">
+            <Card className="glass-card">
+              <CardContent className="p-4">
+                <PantryItemForm
+                  initial={EMPTY_PANTRY_DRAFT}
+                  submitLabel="Add"
+                  onSubmit={addItem}
+                />
+              </CardContent>
+            </Card>
+
+            {loading && items.length === 0 ? (
+              <div className="space-y-2">
+                {[...Array(4)].map((_, i) => <Skeleton key={i} className="h-12 w-full" />)}
+              </div>
+            ) : items.length === 0 ? (
+              <div className="text-center py-12">
+                <Package className="h-16 w-16 mx-auto text-muted-foreground mb-4" />
+                <h3 className="text-lg font-semibold mb-2">Your pantry is empty</h3>
+                <p className="text-muted-foreground">Add ingredients you have on hand, with a use-by date if they spoil.</p>
+              </div>
+            ) : (
+              <Card className="glass-card">
+                <ul className="divide-y">{items.map(renderItem)}</ul>
+              </Card>
+            )}
+          </TabsContent>
+
+          <TabsContent value="cook" className="space-y-4">
+            <div className="flex items-center gap-2">
+              <Switch id="pantry-basics" checked={includeBasics} onCheckedChange={setIncludeBasics} />
+              <Label htmlFor="pantry-basics" className="text-sm font-normal">
+                Count {PANTRY_BASICS.slice(0, 4).join(', ')} and oil as on hand
+              </Label>
+            </div>
+            {renderFinder()}
+          </TabsContent>
+        </Tabs>
+      )}
+
+      {selectedRecipe && (
+        <RecipeDetailDialog
+          key={selectedRecipe.id}
+          recipe={selectedRecipe}
+          onClose={() => setSelectedRecipe(null)}
+          onOpenRecipe={setSelectedRecipe}
+        />
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,331 @@
+import React, { useState, useEffect, useMemo } from 'react'
+import { useAuth } from './AuthContext'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Badge } from './ui/badge'
+import { Switch } from './ui/switch'
+import { Checkbox } from './ui/checkbox'
+import { Card, CardContent } from './ui/card'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs'
+import { useNotifications } from './ui/notification'
+import { ChartGantt, Plus, Printer, Search, X } from 'lucide-react'
+import { supabase } from '../utils/supabase/client'
+import { fromDateTimeLocal, toDateTimeLocal } from '../utils/recipes/lifecycle'
+import { formatDuration } from '../utils/recipes/timers'
+import { printProductionPlan } from '../utils/recipes/print'
+import {
+  TIMELINE_RECIPE_COLUMNS,
+  TimelineRecipe,
+  TimelineTask,
+  buildMiseEnPlace,
+  buildTimeline,
+  formatClock,
+  stationLabel,
+  toTimelineRecipe
+} from '../utils/recipes/timeline'
+
+const RECIPE_COLORS = ['bg-orange-500', 'bg-sky-500', 'bg-emerald-500', 'bg-violet-500', 'bg-rose-500', 'bg-amber-500']
+
+// Hands-off steps are drawn striped
+const PASSIVE_STYLE: React.CSSProperties = {
+  backgroundImage: 'repeating-linear-gradient(45deg, rgba(255, 255, 255, 0.45) 0 4px, transparent 4px 8px)'
+}
+
+// A few hours from now, on the hour
+const defaultServeAt = () => {
+  const date = new Date(Date.now() + 3 * 3600 * 1000)
+  date.setMinutes(0, 0, 0)
+  return toDateTimeLocal(date.toISOString())
+}
+
+// Hour marks across the chart, or half hours for short plans
+function chartTicks(start: number, end: number): number[] {
+  const step = end - start > 4 * 3600 * 1000 ? 3600 * 1000 : 1800 * 1000
+  const ticks: number[] = []
+  for (let tick = Math.ceil(start / step) * step; tick <= end; tick += step) ticks.push(tick)
+  return ticks
+}
+
+export function ProductionPlannerView() {
+  const { user } = useAuth()
+  const { addNotification } = useNotifications()
+  const [query, setQuery] = useState('')
+  const [results, setResults] = useState<any[]>([])
+  const [recipes, setRecipes] = useState<TimelineRecipe[]>([])
+  const [serveAt, setServeAt] = useState(defaultServeAt)
+  const [singleCook, setSingleCook] = useState(true)
+  const [checked, setChecked] = useState<Set<string>>(new Set())
+
+  // The user's own recipes by default, or a title search, debounced
+  useEffect(() => {
+    if (!user) return
+
+    const timer = setTimeout(async () => {
+      const request = supabase.from('recipes').select(TIMELINE_RECIPE_COLUMNS)
+      const { data, error } = await (query.trim()
+        ? request.ilike('title', `%${query.trim()}%`).order('title')
+        : request.eq('author_id', user.id).order('updated_at', { ascending: false })
+      ).limit(12)
+
+      if (error) {
+        console.error('Error loading recipes for the production planner:', error)
+        return
+      }
+      setResults(data || [])
+    }, query ? 300 : 0)
+
+    return () => clearTimeout(timer)
+  }, [query, user?.id])
+
+  const serveDate = useMemo(() => {
+    const iso = fromDateTimeLocal(serveAt)
+    return iso ? new Date(iso) : null
+  }, [serveAt])
+
+  const tasks = useMemo(
+    () => serveDate ? buildTimeline(recipes, serveDate, { singleCook }) : [],
+    [recipes, serveDate, singleCook]
+  )
+  const miseEnPlace = useMemo(() => buildMiseEnPlace(recipes), [recipes])
+
+  const colorFor = (recipeId: string) =>
+    RECIPE_COLORS[Math.max(recipes.findIndex(recipe => recipe.id === recipeId), 0) % RECIPE_COLORS.length]
+
+  const addRecipe = (recipe: any) => {
+    if (recipes.some(existing => existing.id === recipe.id)) return
+    const timeline = toTimelineRecipe(recipe)
+    if (timeline.instructions.length === 0) {
+      addNotification({ title: 'No steps', message: `"${recipe.title}" has no instructions to schedule.`, type: 'warning' })
+      return
+    }
+    setRecipes(prev => [...prev, timeline])
+  }
+
+  const removeRecipe = (id: string) => {
+    setRecipes(prev => prev.filter(recipe => recipe.id !== id))
+  }
+
+  const toggleChecked = (key: string) => {
+    setChecked(prev => {
+      const next = new Set(prev)
+      if (next.has(key)) next.delete(key)
+      else next.add(key)
+      return next
+    })
+  }
+
+  const handlePrint = () => {
+    if (!serveDate) return
+    const opened = printProductionPlan({
+      title: recipes.length === 1 ? `${recipes[0].title} production plan` : 'Production plan',
+      serveAt: serveDate,
+      tasks,
+      miseEnPlace
+    })
+
+    if (!opened) {
+      addNotification({
+        title: 'Print blocked',
+        message: 'Allow pop-ups for ACWhisk to print the plan.',
+        type: 'warning'
+      })
+    }
+  }
+
+  const renderChart = () => {
+    const start = tasks[0].start.getTime()
+    const end = serveDate!.getTime()
+    const span = Math.max(end - start, 1)
+    const position = (time: number) => `${(time - start) / span * 100}%`
+
+    const renderBar = (task: TimelineTask) => (
+      <div
+        className={`absolute top-1 bottom-1 rounded ${colorFor(task.recipeId)} ${task.passive ? 'opacity-50' : ''} ${task.parallel ? 'ring-2 ring-foreground/40' : ''}`}
+        style={{
+          left: position(task.start.getTime()),
+          width: `max(${(task.end.getTime() - task.start.getTime()) / span * 100}%, 4px)`,
+          ...(task.passive ? PASSIVE_STYLE : {})
+        }}
+        title={`${formatClock(task.start)}–${formatClock(task.end)}: ${task.text}`}
+      />
+    )
+
+    return (
+      <div className="space-y-1">
+        <div className="grid grid-cols-[minmax(0,14rem)_1fr] gap-3">
+          <div />
+          <div className="relative h-5 text-xs text-muted-foreground">
+            {chartTicks(start, end).map(tick => (
+              <span key={tick} className="absolute -translate-x-1/2" style={{ left: position(tick) }}>
+                {formatClock(new Date(tick))}
+              </span>
+            ))}
+          </div>
+        </div>
+
+        {tasks.map(task => (
+          <div key={task.id} className="grid grid-cols-[minmax(0,14rem)_1fr] gap-3 items-center">
+            <div className="min-w-0 text-sm">
+              <p className="truncate" title={task.text}>
+                <span className="text-muted-foreground">{task.step + 1}.</span> {task.text}
+              </p>
+              <p className="text-xs text-muted-foreground truncate">
+                {formatClock(task.start)} · {task.estimated ? '~' : ''}{formatDuration(task.seconds)} · {stationLabel(task.station)}
+              </p>
+            </div>
+            <div className="relative h-8 rounded bg-muted/40">{renderBar(task)}</div>
+          </div>
+        ))}
+      </div>
+    )
+  }
+
+  const renderTimeline = () => {
+    if (!serveDate) {
+      return <p className="text-center text-muted-foreground py-12">Choose when you want to serve.</p>
+    }
+
+    const leadTime = (serveDate.getTime() - tasks[0].start.getTime()) / 1000
+    const startsInPast = tasks[0].start.getTime() < Date.now()
+
+    return (
+      <Card className="glass-card">
+        <CardContent className="p-4 space-y-4">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <p className="text-sm">
+              Start at <strong>{formatClock(tasks[0].start)}</strong>, {formatDuration(leadTime)} before service.
+              {startsInPast && <span className="text-destructive"> That's already passed; choose a later serve time.</span>}
+            </p>
+            <div className="flex flex-wrap gap-3 text-xs text-muted-foreground">
+              <span className="flex items-center gap-1"><span className="inline-block h-3 w-5 rounded bg-primary" /> Hands-on</span>
+              <span className="flex items-center gap-1"><span className="inline-block h-3 w-5 rounded bg-primary opacity-50" style={PASSIVE_STYLE} /> Hands-off</span>
+              <span className="flex items-center gap-1"><span className="inline-block h-3 w-5 rounded bg-primary ring-2 ring-foreground/40" /> Alongside another recipe</span>
+            </div>
+          </div>
+          {renderChart()}
+          <p className="text-xs text-muted-foreground">
+            Times marked ~ are estimated from the recipe's prep and cook time.
+          </p>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  const renderMiseEnPlace = () => (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      {miseEnPlace.map(({ station, items }) => (
+        <Card key={station.id} className="glass-card">
+          <CardContent className="p-4 space-y-3">
+            <h3 className="font-semibold">{station.label}</h3>
+            <ul className="space-y-2">
+              {items.map((item, index) => {
+                const key = `${station.id}-${index}`
+                return (
+                  <li key={key} className="flex items-start gap-2 text-sm">
+                    <Checkbox
+                      id={`mise-${key}`}
+                      checked={checked.has(key)}
+                      onCheckedChange={() => toggleChecked(key)}
+                      className="mt-0.5"
+                    />
+                    <Label htmlFor={`mise-${key}`} className={`font-normal leading-snug ${checked.has(key) ? 'line-through text-muted-foreground' : ''}`}>
+                      {item.text}
+                      {recipes.length > 1 && <span className="text-muted-foreground"> ({item.recipeTitle})</span>}
+                    </Label>
+                  </li>
+                )
+              })}
+            </ul>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  )
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <h1 className="text-2xl font-bold">Production Timeline</h1>
+          <p className="text-muted-foreground">Plan backwards from service and set up your mise en place</p>
+        </div>
+        <Button variant="outline" className="gap-1" onClick={handlePrint} disabled={tasks.length === 0}>
+          <Printer className="h-4 w-4" />
+          Print plan
+        </Button>
+      </div>
+
+      <Card className="glass-card">
+        <CardContent className="p-4 grid grid-cols-1 lg:grid-cols-[1fr_18rem] gap-6">
+          <div className="space-y-3">
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder="Search recipes to add..."
+                className="pl-9"
+                aria-label="Search recipes"
+              />
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {results.filter(recipe => !recipes.some(added => added.id === recipe.id)).map(recipe => (
+                <Button key={recipe.id} variant="outline" size="sm" className="gap-1" onClick={() => addRecipe(recipe)}>
+                  <Plus className="h-3 w-3" />
+                  {recipe.title}
+                </Button>
+              ))}
+              {results.length === 0 && (
+                <p className="text-sm text-muted-foreground">{query ? 'No recipes found.' : 'Your recipes will appear here.'}</p>
+              )}
+            </div>
+            {recipes.length > 0 && (
+              <div className="flex flex-wrap gap-2 pt-2 border-t">
+                {recipes.map(recipe => (
+                  <Badge key={recipe.id} variant="secondary" className="gap-2 py-1">
+                    <span className={`inline-block h-2 w-2 rounded-full ${colorFor(recipe.id)}`} />
+                    {recipe.title}
+                    <button type="button" onClick={() => removeRecipe(recipe.id)} aria-label={`Remove ${recipe.title}`}>
+                      <X className="h-3 w-3" />
+                    </button>
+                  </Badge>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="serve-at">Serve at</Label>
+              <Input id="serve-at" type="datetime-local" value={serveAt} onChange={(e) => setServeAt(e.target.value)} />
+            </div>
+            <div className="flex items-start gap-2">
+              <Switch id="single-cook" checked={singleCook} onCheckedChange={setSingleCook} />
+              <Label htmlFor="single-cook" className="text-sm font-normal leading-snug">
+                Working alone (one hands-on step at a time)
+              </Label>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {recipes.length === 0 ? (
+        <div className="text-center py-12">
+          <ChartGantt className="h-16 w-16 mx-auto text-muted-foreground mb-4" />
+          <h3 className="text-lg font-semibold mb-2">Add recipes to plan</h3>
+          <p className="text-muted-foreground">Each step is scheduled back from your serve time so everything is ready together.</p>
+        </div>
+      ) : (
+        <Tabs defaultValue="timeline">
+          <TabsList>
+            <TabsTrigger value="timeline">Timeline</TabsTrigger>
+            <TabsTrigger value="mise">Mise en place</TabsTrigger>
+          </TabsList>
+          <TabsContent value="timeline">{renderTimeline()}</TabsContent>
+          <TabsContent value="mise">{renderMiseEnPlace()}</TabsContent>
+        </Tabs>
+      )}
+    </div>
+  )
+}
@@ -8,6 +8,7 @@ import { Textarea } from './ui/textarea'
 import { Avatar, AvatarFallback, AvatarImage } from './ui/avatar'
 import { Badge } from './ui/badge'
 import { Alert, AlertDescription } from './ui/alert'
+import { DietaryPreferencesCard } from './DietaryPreferencesCard'
 import { 
   User, 
   Mail, 
@@ -344,6 +345,8 @@ export function ProfileSettings() {
               )}
             </CardContent>
           </Card>
+
+          <DietaryPreferencesCard />
         </div>
       </div>
     </div>
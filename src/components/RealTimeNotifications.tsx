@@ -1,7 +1,7 @@
 import React, { useEffect } from 'react'
 import { useRealtime } from './hooks/useRealtime'
 import { useNotifications } from './ui/notification'
-import { ChefHat, MessageCircle, Heart, Users, Star } from 'lucide-react'
+import { ChefHat, MessageCircle, Heart, Users, Star, GitFork } from 'lucide-react'
 
 interface RealTimeNotificationsProps {
   onTabChange: (tab: string) => void
@@ -54,7 +54,7 @@ export function RealTimeNotifications({ onTabChange }: RealTimeNotificationsProp
               activity.description,
               {
                 label: 'View Details',
-                onClick: () => getActivityAction(activity.type, onTabChange)
+                onClick: () => getActivityAction(activity, onTabChange)
               }
             )
           }, index * 500) // Stagger notifications
@@ -116,6 +116,8 @@ function getActivityIcon(type: string) {
       return MessageCircle
     case 'recipe_liked':
       return Heart
+    case 'recipe_remixed':
+      return GitFork
     case 'user_joined':
       return Users
     case 'achievement_earned':
@@ -125,14 +127,18 @@ function getActivityIcon(type: string) {
   }
 }
 
-function getActivityAction(type: string, onTabChange: (tab: string) => void) {
-  switch (type) {
+function getActivityAction(activity: { type: string; metadata?: any }, onTabChange: (tab: string) => void) {
+  switch (activity.type) {
     case 'recipe_created':
     case 'recipe_liked':
+    case 'recipe_remixed':
       onTabChange('recipes')
       break
-    case 'post_created':
     case 'comment_added':
+      // Comments on recipes carry the recipe; others are forum replies
+      onTabChange(activity.metadata?.recipe_id ? 'recipes' : 'forum')
+      break
+    case 'post_created':
       onTabChange('forum')
       break
     case 'achievement_earned':
@@ -0,0 +1,147 @@
+import React, { useState, useMemo } from 'react'
+import { Area, AreaChart, Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts'
+import { Button } from './ui/button'
+import { Skeleton } from './ui/skeleton'
+import { Alert, AlertDescription } from './ui/alert'
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from './ui/sheet'
+import { ChartConfig, ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent } from './ui/chart'
+import { useRecipeAnalytics } from './hooks/useRecipeAnalytics'
+import { ANALYTICS_PERIODS, analyticsTotals, formatAnalyticsDay } from '../utils/recipes/analytics'
+
+interface RecipeAnalyticsSheetProps {
+  recipe: any | null
+  onClose: () => void
+}
+
+const viewsConfig = {
+  views: { label: 'Views', color: 'var(--chart-1)' }
+} satisfies ChartConfig
+
+const engagementConfig = {
+  likes: { label: 'Likes', color: 'var(--chart-2)' },
+  ratings: { label: 'Ratings', color: 'var(--chart-3)' },
+  remixes: { label: 'Remixes', color: 'var(--chart-4)' }
+} satisfies ChartConfig
+
+// Side drawer with one recipe's views, likes, ratings and remixes per day,
+// for its author
+export function RecipeAnalyticsSheet({ recipe, onClose }: RecipeAnalyticsSheetProps) {
+  const [days, setDays] = useState(30)
+  const { series, loading, available } = useRecipeAnalytics(recipe?.id || null, days)
+
+  const totals = useMemo(() => analyticsTotals(series), [series])
+  const chartData = useMemo(
+    () => series.map(day => ({ ...day, label: formatAnalyticsDay(day.day) })),
+    [series]
+  )
+
+  const summary = [
+    { label: 'Views', value: totals.views.toLocaleString() },
+    { label: 'Likes', value: totals.likes.toLocaleString() },
+    {
+      label: 'Ratings',
+      value: totals.averageRating !== null
+        ? `${totals.ratings} · ${totals.averageRating.toFixed(1)}★`
+        : totals.ratings.toLocaleString()
+    },
+    { label: 'Remixes', value: totals.remixes.toLocaleString() }
+  ]
+
+  const renderBody = () => {
+    if (!available) {
+      return (
+        <Alert>
+          <AlertDescription>
+            Recipe analytics are not set up yet. Ask an administrator to run the latest database setup script.
+          </AlertDescription>
+        </Alert>
+      )
+    }
+
+    if (loading && series.length === 0) {
+      return (
+        <div className="space-y-3">
+          <Skeleton className="h-20 w-full" />
+          <Skeleton className="h-48 w-full" />
+          <Skeleton className="h-48 w-full" />
+        </div>
+      )
+    }
+
+    return (
+      <div className="space-y-6">
+        <div className="grid grid-cols-2 gap-3">
+          {summary.map(item => (
+            <div key={item.label} className="rounded-lg bg-muted/40 p-3 text-center">
+              <p className="text-xs text-muted-foreground">{item.label}</p>
+              <p className="font-semibold">{item.value}</p>
+            </div>
+          ))}
+        </div>
+        <p className="text-xs text-muted-foreground">
+          All time: {(recipe.likes_count || 0).toLocaleString()} likes, {(recipe.rating_count || 0).toLocaleString()} ratings
+        </p>
+
+        <section className="space-y-2">
+          <h3 className="text-sm font-medium">Views</h3>
+          <ChartContainer config={viewsConfig} className="aspect-auto h-48 w-full">
+            <AreaChart data={chartData} margin={{ left: -20, right: 8 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={24} />
+              <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={40} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <Area dataKey="views" type="monotone" fill="var(--color-views)" fillOpacity={0.3} stroke="var(--color-views)" />
+            </AreaChart>
+          </ChartContainer>
+        </section>
+
+        <section className="space-y-2">
+          <h3 className="text-sm font-medium">Likes, ratings and remixes</h3>
+          <ChartContainer config={engagementConfig} className="aspect-auto h-48 w-full">
+            <BarChart data={chartData} margin={{ left: -20, right: 8 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={24} />
+              <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={40} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <ChartLegend content={<ChartLegendContent />} />
+              <Bar dataKey="likes" stackId="engagement" fill="var(--color-likes)" />
+              <Bar dataKey="ratings" stackId="engagement" fill="var(--color-ratings)" />
+              <Bar dataKey="remixes" stackId="engagement" fill="var(--color-remixes)" radius={[2, 2, 0, 0]} />
+            </BarChart>
+          </ChartContainer>
+        </section>
+
+        <p className="text-xs text-muted-foreground">
+          Each viewer counts once a day. Your own visits are not counted.
+        </p>
+      </div>
+    )
+  }
+
+  return (
+    <Sheet open={!!recipe} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className="w-full sm:max-w-lg p-6 overflow-y-auto glass-modal">
+        <SheetHeader className="p-0">
+          <SheetTitle>Analytics</SheetTitle>
+          <SheetDescription className="line-clamp-2">{recipe?.title}</SheetDescription>
+        </SheetHeader>
+
+        <div className="flex gap-1">
+          {ANALYTICS_PERIODS.map(period => (
+            <Button
+              key={period.days}
+              variant={days === period.days ? 'default' : 'outline'}
+              size="sm"
+              className="h-8 px-3 text-xs"
+              onClick={() => setDays(period.days)}
+            >
+              {period.label}
+            </Button>
+          ))}
+        </div>
+
+        {recipe && renderBody()}
+      </SheetContent>
+    </Sheet>
+  )
+}
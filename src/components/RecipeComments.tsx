@@ -0,0 +1,269 @@
+import React, { useState } from 'react'
+import { useAuth } from './AuthContext'
+import { Button } from './ui/button'
+import { Badge } from './ui/badge'
+import { Textarea } from './ui/textarea'
+import { Avatar, AvatarFallback, AvatarImage } from './ui/avatar'
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from './ui/alert-dialog'
+import { useNotifications } from './ui/notification'
+import { useRecipeComments } from './hooks/useRecipeComments'
+import { Edit3, MessageCircle, Reply, Trash2 } from 'lucide-react'
+import { CommentThread, MAX_COMMENT_LENGTH, MAX_THREAD_DEPTH, isEdited, threadSize } from '../utils/recipes/comments'
+
+interface RecipeCommentsProps {
+  recipeId: string
+  authorId: string
+}
+
+interface CommentFormProps {
+  initialBody?: string
+  placeholder: string
+  submitLabel: string
+  onSubmit: (body: string) => Promise<void>
+  onCancel?: () => void
+}
+
+function CommentForm({ initialBody = '', placeholder, submitLabel, onSubmit, onCancel }: CommentFormProps) {
+  const [body, setBody] = useState(initialBody)
+  const [submitting, setSubmitting] = useState(false)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!body.trim()) return
+
+    setSubmitting(true)
+    try {
+      await onSubmit(body)
+      setBody('')
+    } catch {
+      // The caller reports the error; keep the text so nothing is lost
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <Textarea
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        placeholder={placeholder}
+        className="glass-input min-h-16"
+        maxLength={MAX_COMMENT_LENGTH}
+        autoFocus={!!onCancel}
+      />
+      <div className="flex justify-end gap-2">
+        {onCancel && (
+          <Button type="button" size="sm" variant="ghost" onClick={onCancel}>
+            Cancel
+          </Button>
+        )}
+        <Button type="submit" size="sm" disabled={!body.trim() || submitting}>
+          {submitting ? 'Saving...' : submitLabel}
+        </Button>
+      </div>
+    </form>
+  )
+}
+
+// Threaded comments on a recipe: questions, tips and "I tried this with..."
+// notes. The recipe author's replies are marked, and they can remove
+// comments on their recipe.
+export function RecipeComments({ recipeId, authorId }: RecipeCommentsProps) {
+  const { user } = useAuth()
+  const { addNotification } = useNotifications()
+  const { threads, count, loading, available, addComment, updateComment, deleteComment } = useRecipeComments(recipeId)
+  const [replyingTo, setReplyingTo] = useState<string | null>(null)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [pendingDelete, setPendingDelete] = useState<CommentThread | null>(null)
+
+  const reportError = (verb: string, error: unknown) => {
+    console.error(`Error trying to ${verb} comment:`, error)
+    addNotification({
+      title: 'Error',
+      message: `Could not ${verb} the comment. Please try again.`,
+      type: 'error'
+    })
+  }
+
+  const handleAdd = async (body: string, parentId: string | null = null) => {
+    try {
+      await addComment(body, parentId)
+      setReplyingTo(null)
+    } catch (error) {
+      reportError('post', error)
+      throw error
+    }
+  }
+
+  const handleUpdate = async (id: string, body: string) => {
+    try {
+      await updateComment(id, body)
+      setEditingId(null)
+    } catch (error) {
+      reportError('update', error)
+      throw error
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!pendingDelete) return
+    try {
+      await deleteComment(pendingDelete.id)
+    } catch (error) {
+      reportError('delete', error)
+    } finally {
+      setPendingDelete(null)
+    }
+  }
+
+  const renderComment = (comment: CommentThread, depth: number): React.ReactNode => {
+    const name = comment.profiles?.name || 'Unknown cook'
+    const isOwn = user?.id === comment.author_id
+    const canDelete = isOwn || user?.id === authorId
+
+    return (
+      <li key={comment.id} className="space-y-3">
+        <div className="flex items-start gap-3">
+          <Avatar className="w-8 h-8">
+            <AvatarImage src={comment.profiles?.avatar_url || undefined} />
+            <AvatarFallback className="bg-calm-gradient text-white text-xs">
+              {name.split(' ').map(n => n[0]).join('').toUpperCase()}
+            </AvatarFallback>
+          </Avatar>
+          <div className="flex-1 min-w-0 space-y-1">
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <span className="font-medium">{name}</span>
+              {comment.author_id === authorId && <Badge variant="secondary" className="text-xs">Recipe author</Badge>}
+              <span className="text-muted-foreground">
+                {new Date(comment.created_at).toLocaleDateString()}
+                {isEdited(comment) && ' (edited)'}
+              </span>
+            </div>
+
+            {editingId === comment.id ? (
+              <CommentForm
+                initialBody={comment.body}
+                placeholder="Update your comment..."
+                submitLabel="Save"
+                onSubmit={(body) => handleUpdate(comment.id, body)}
+                onCancel={() => setEditingId(null)}
+              />
+            ) : (
+              <p className="text-sm leading-relaxed whitespace-pre-wrap break-words">{comment.body}</p>
+            )}
+
+            {user && editingId !== comment.id && (
+              <div className="flex gap-1 -ml-2">
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="h-7 gap-1 px-2 text-xs"
+                  onClick={() => setReplyingTo(replyingTo === comment.id ? null : comment.id)}
+                >
+                  <Reply className="h-3 w-3" />
+                  Reply
+                </Button>
+                {isOwn && (
+                  <Button size="sm" variant="ghost" className="h-7 gap-1 px-2 text-xs" onClick={() => setEditingId(comment.id)}>
+                    <Edit3 className="h-3 w-3" />
+                    Edit
+                  </Button>
+                )}
+                {canDelete && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="h-7 gap-1 px-2 text-xs text-destructive"
+                    onClick={() => setPendingDelete(comment)}
+                  >
+                    <Trash2 className="h-3 w-3" />
+                    Delete
+                  </Button>
+                )}
+              </div>
+            )}
+
+            {replyingTo === comment.id && (
+              <CommentForm
+                placeholder={`Reply to ${name}...`}
+                submitLabel="Reply"
+                onSubmit={(body) => handleAdd(body, comment.id)}
+                onCancel={() => setReplyingTo(null)}
+              />
+            )}
+          </div>
+        </div>
+
+        {comment.replies.length > 0 && (
+          <ul className={`space-y-3 ${depth < MAX_THREAD_DEPTH ? 'ml-5 pl-4 border-l border-border' : ''}`}>
+            {comment.replies.map(reply => renderComment(reply, depth + 1))}
+          </ul>
+        )}
+      </li>
+    )
+  }
+
+  if (!available) {
+    return (
+      <div className="p-4 glass-card rounded-lg">
+        <h3 className="font-semibold flex items-center gap-2">
+          <MessageCircle className="h-4 w-4" />
+          Comments
+        </h3>
+        <p className="text-sm text-muted-foreground mt-2">
+          Comments need the recipe comments table. Run the database setup to enable them.
+        </p>
+      </div>
+    )
+  }
+
+  const pendingReplies = pendingDelete ? threadSize(pendingDelete) - 1 : 0
+
+  return (
+    <div className="p-4 glass-card rounded-lg space-y-4">
+      <h3 className="font-semibold flex items-center gap-2">
+        <MessageCircle className="h-4 w-4" />
+        Comments {count > 0 && <span className="text-muted-foreground font-normal">({count})</span>}
+      </h3>
+
+      {user && (
+        <CommentForm
+          placeholder="Ask a question, share a tip or tell others how it went..."
+          submitLabel="Post comment"
+          onSubmit={(body) => handleAdd(body)}
+        />
+      )}
+
+      {loading ? (
+        <div className="animate-pulse space-y-3">
+          <div className="h-4 bg-muted rounded w-1/3" />
+          <div className="h-12 bg-muted rounded" />
+        </div>
+      ) : threads.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No comments yet. Start the conversation.</p>
+      ) : (
+        <ul className="space-y-5">
+          {threads.map(thread => renderComment(thread, 1))}
+        </ul>
+      )}
+
+      <AlertDialog open={!!pendingDelete} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete comment?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingReplies > 0
+                ? `This also deletes ${pendingReplies} ${pendingReplies === 1 ? 'reply' : 'replies'}. This cannot be undone.`
+                : 'This cannot be undone.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
@@ -0,0 +1,205 @@
+import React, { useState, useEffect, useMemo } from 'react'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table'
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from './ui/collapsible'
+import { useIngredientPrices } from './hooks/useIngredientPrices'
+import { IngredientPriceDialog } from './IngredientPriceDialog'
+import { Calculator, ChevronDown, Download, Receipt } from 'lucide-react'
+import { RecipeIngredient, formatIngredientAmount } from '../utils/recipes/ingredients'
+import { downloadFile, slugify } from '../utils/recipes/export'
+import {
+  COST_STATUS_LABELS,
+  CURRENCY_OPTIONS,
+  DEFAULT_CURRENCY,
+  DEFAULT_FOOD_COST_PERCENT,
+  calculateCosting,
+  costingToCsv,
+  formatMoney,
+  formatUnitPrice
+} from '../utils/recipes/costing'
+
+interface RecipeCostingPanelProps {
+  title: string
+  // The ingredients as currently scaled, and the servings they make
+  ingredients: RecipeIngredient[]
+  servings: number
+}
+
+const CURRENCY_KEY = 'acwhisk-costing-currency'
+const TARGET_KEY = 'acwhisk-food-cost-target'
+
+const selectClassName = "h-8 rounded-md border border-input bg-input-background px-2 text-xs text-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+
+// Recipe cost, cost per portion and the menu price that meets a target
+// food-cost percentage, from the ingredient price list. Follows the
+// recipe view's scaling, since the caller passes the scaled ingredients.
+export function RecipeCostingPanel({ title, ingredients, servings }: RecipeCostingPanelProps) {
+  const priceList = useIngredientPrices()
+  const [currency, setCurrency] = useState(() => localStorage.getItem(CURRENCY_KEY) || DEFAULT_CURRENCY)
+  const [target, setTarget] = useState(() => localStorage.getItem(TARGET_KEY) || String(DEFAULT_FOOD_COST_PERCENT))
+  const [showSheet, setShowSheet] = useState(false)
+  const [priceDialog, setPriceDialog] = useState<{ open: boolean; name?: string }>({ open: false })
+
+  useEffect(() => { localStorage.setItem(CURRENCY_KEY, currency) }, [currency])
+  useEffect(() => { localStorage.setItem(TARGET_KEY, target) }, [target])
+
+  const costing = useMemo(
+    () => calculateCosting(ingredients, priceList.prices, servings, parseFloat(target)),
+    [ingredients, priceList.prices, servings, target]
+  )
+
+  const handleExport = () => {
+    downloadFile(
+      `${slugify(title)}-costing.csv`,
+      costingToCsv(title, ingredients, costing, currency),
+      'text/csv'
+    )
+  }
+
+  if (ingredients.length === 0) return null
+
+  if (!priceList.available) {
+    return (
+      <div className="p-4 glass-card rounded-lg">
+        <h3 className="font-semibold flex items-center gap-2">
+          <Calculator className="h-4 w-4" />
+          Food cost
+        </h3>
+        <p className="text-sm text-muted-foreground mt-2">
+          Food costing needs the ingredient price list. Run the database setup to enable it.
+        </p>
+      </div>
+    )
+  }
+
+  const summary = [
+    { label: 'Recipe cost', value: formatMoney(costing.total, currency) },
+    { label: 'Per portion', value: formatMoney(costing.perPortion, currency) },
+    { label: 'Suggested menu price', value: formatMoney(costing.menuPrice, currency) }
+  ]
+
+  return (
+    <div className="p-4 glass-card rounded-lg space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="font-semibold flex items-center gap-2">
+          <Calculator className="h-4 w-4" />
+          Food cost
+        </h3>
+        <div className="flex gap-1">
+          <Button variant="outline" size="sm" className="h-8 gap-1 text-xs" onClick={() => setPriceDialog({ open: true })}>
+            <Receipt className="h-3 w-3" />
+            Prices
+          </Button>
+          <Button variant="outline" size="sm" className="h-8 gap-1 text-xs" onClick={handleExport} disabled={costing.priced === 0}>
+            <Download className="h-3 w-3" />
+            CSV
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        {summary.map(item => (
+          <div key={item.label} className="rounded-lg bg-muted/40 p-3 text-center">
+            <p className="text-xs text-muted-foreground">{item.label}</p>
+            <p className="font-semibold">{item.value}</p>
+          </div>
+        ))}
+        <div className="rounded-lg bg-muted/40 p-3 text-center space-y-1">
+          <Label htmlFor="food-cost-target" className="text-xs text-muted-foreground justify-center">Target food cost</Label>
+          <div className="flex items-center justify-center gap-1">
+            <Input
+              id="food-cost-target"
+              type="number"
+              min={1}
+              max={100}
+              value={target}
+              onChange={(e) => setTarget(e.target.value)}
+              className="h-7 w-16 text-center"
+            />
+            <span className="text-sm">%</span>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-2 text-xs text-muted-foreground">
+        <span>
+          Costed {costing.priced} of {ingredients.length} ingredients for {costing.servings} {costing.servings === 1 ? 'portion' : 'portions'}.
+        </span>
+        <select
+          value={currency}
+          onChange={(e) => setCurrency(e.target.value)}
+          className={selectClassName}
+          aria-label="Currency"
+        >
+          {CURRENCY_OPTIONS.map(code => (
+            <option key={code} value={code}>{code}</option>
+          ))}
+        </select>
+      </div>
+
+      <Collapsible open={showSheet} onOpenChange={setShowSheet}>
+        <CollapsibleTrigger asChild>
+          <Button variant="ghost" size="sm" className="gap-1 px-2">
+            <ChevronDown className={`h-3 w-3 transition-transform ${showSheet ? 'rotate-180' : ''}`} />
+            Costing sheet
+          </Button>
+        </CollapsibleTrigger>
+        <CollapsibleContent className="pt-2">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Ingredient</TableHead>
+                <TableHead>Amount</TableHead>
+                <TableHead>Price</TableHead>
+                <TableHead className="text-right">Cost</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {costing.lines.map(line => {
+                const ingredient = ingredients[line.index]
+                return (
+                  <TableRow key={line.index}>
+                    <TableCell className="whitespace-normal">{ingredient.item}</TableCell>
+                    <TableCell>{formatIngredientAmount(ingredient)}</TableCell>
+                    <TableCell className="whitespace-normal">
+                      {line.price ? (
+                        <span className="text-muted-foreground">
+                          {formatUnitPrice(line.price, currency)}
+                          {line.price.yield_percent < 100 && `, ${line.price.yield_percent}% yield`}
+                        </span>
+                      ) : (
+                        <Button
+                          variant="link"
+                          size="sm"
+                          className="h-auto p-0 text-xs"
+                          onClick={() => setPriceDialog({ open: true, name: ingredient.item })}
+                        >
+                          Set price
+                        </Button>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {line.cost !== null
+                        ? formatMoney(line.cost, currency)
+                        : line.price && <span className="text-xs text-destructive">{COST_STATUS_LABELS[line.status]}</span>}
+                    </TableCell>
+                  </TableRow>
+                )
+              })}
+            </TableBody>
+          </Table>
+        </CollapsibleContent>
+      </Collapsible>
+
+      <IngredientPriceDialog
+        open={priceDialog.open}
+        onOpenChange={(open) => setPriceDialog(prev => ({ ...prev, open }))}
+        priceList={priceList}
+        currency={currency}
+        initialName={priceDialog.name}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,456 @@
+import React, { useState, useEffect, useMemo } from 'react'
+import { Button } from './ui/button'
+import { Label } from './ui/label'
+import { Badge } from './ui/badge'
+import { Switch } from './ui/switch'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog'
+import { CommitNumberInput } from './CommitNumberInput'
+import { RecipeRatingReview } from './RecipeRatingReview'
+import { RecipeComments } from './RecipeComments'
+import { RecipeHistoryPanel } from './RecipeHistoryPanel'
+import { RecipeAttribution, RecipeRemixList } from './RecipeRemixes'
+import { CollectionPicker } from './CollectionPicker'
+import { RecipeExportMenu } from './RecipeExportMenu'
+import { CookMode } from './CookMode'
+import { RecipeNutritionPanel } from './RecipeNutritionPanel'
+import { RecipeAllergenSummary } from './RecipeDietaryBadges'
+import { RecipeCostingPanel } from './RecipeCostingPanel'
+import { RecipeFormulaPanel } from './RecipeFormulaPanel'
+import { RecipeGallery, StepMediaFigure } from './RecipeGallery'
+import { IngredientSubstitutionDialog } from './IngredientSubstitutionDialog'
+import { recordRecipeView } from './hooks/useRecipeAnalytics'
+import { recordRecipeCooked } from './hooks/useRecommendations'
+import { useNotifications } from './ui/notification'
+import { ArrowLeftRight, Clock, Users, ChefHat, CookingPot, GitFork, Minus, Plus, Printer, RotateCcw, Scale, X } from 'lucide-react'
+import { RecipeIngredient, formatIngredientAmount, groupIngredients, normalizeIngredients } from '../utils/recipes/ingredients'
+import { normalizeInstructions } from '../utils/recipes/instructions'
+import { mediaForStep, normalizeStepMedia, recipeGallery } from '../utils/recipes/media'
+import { MeasurementSystem, scaleIngredients } from '../utils/recipes/scaling'
+import { PrintableRecipe, printRecipe, toPrintableRecipe } from '../utils/recipes/print'
+import { Substitution, adaptIngredients, sharedDietary } from '../utils/recipes/substitutions'
+import { dietaryLabel } from '../utils/recipes/dietary'
+import { storedFormula } from '../utils/recipes/formula'
+
+export interface RemixChanges {
+  title: string
+  ingredients: RecipeIngredient[]
+  // Diets the substitutions were chosen for
+  dietary?: string[]
+}
+
+interface RecipeDetailDialogProps {
+  recipe: any
+  onClose: () => void
+  onRecipeUpdated?: (recipe: any) => void
+  onOpenRecipe?: (recipe: any) => void
+  // Saves a draft copy of the recipe with the given changes
+  onRemix?: (recipe: any, changes: RemixChanges) => void
+}
+
+const MULTIPLIERS = [0.5, 1, 2, 3]
+
+const MEASUREMENT_SYSTEMS: { value: MeasurementSystem; label: string }[] = [
+  { value: 'original', label: 'Original' },
+  { value: 'metric', label: 'Metric' },
+  { value: 'imperial', label: 'Imperial' }
+]
+
+export function RecipeDetailDialog({ recipe, onClose, onRecipeUpdated, onOpenRecipe, onRemix }: RecipeDetailDialogProps) {
+  const { addNotification } = useNotifications()
+  const baseServings = recipe.servings || 1
+
+  const [servings, setServings] = useState<number>(baseServings)
+  const [system, setSystem] = useState<MeasurementSystem>('original')
+  const [preferWeight, setPreferWeight] = useState(false)
+  const [cooking, setCooking] = useState(false)
+  // Chosen substitutions by ingredient index
+  const [swaps, setSwaps] = useState<Record<number, Substitution>>({})
+  const [substituting, setSubstituting] = useState<number | null>(null)
+
+  useEffect(() => {
+    recordRecipeView(recipe.id)
+  }, [recipe.id])
+
+  const ingredients = useMemo(() => normalizeIngredients(recipe.ingredients), [recipe.ingredients])
+  const instructions = useMemo(() => normalizeInstructions(recipe.instructions), [recipe.instructions])
+  const gallery = useMemo(() => recipeGallery(recipe), [recipe])
+  const stepMedia = useMemo(() => normalizeStepMedia(recipe.step_media), [recipe.step_media])
+  const formula = useMemo(() => storedFormula(recipe.formula), [recipe.formula])
+
+  // The scaled list is what the user sees, prints and exports from this view
+  const scaledIngredients: RecipeIngredient[] = useMemo(
+    () => scaleIngredients(ingredients, { factor: servings / baseServings, system, preferWeight }),
+    [ingredients, servings, baseServings, system, preferWeight]
+  )
+
+  // Substitutions are applied after scaling so their ratios use the scaled amounts
+  const shownIngredients: RecipeIngredient[] = useMemo(
+    () => adaptIngredients(scaledIngredients, swaps),
+    [scaledIngredients, swaps]
+  )
+
+  const isScaled = servings !== baseServings || system !== 'original' || preferWeight
+  const swapCount = Object.keys(swaps).length
+
+  const chooseSwap = (index: number, substitution: Substitution | null) => {
+    setSwaps(prev => {
+      const { [index]: _removed, ...rest } = prev
+      return substitution ? { ...rest, [index]: substitution } : rest
+    })
+    if (substitution) setSubstituting(null)
+  }
+
+  const handleSaveAdapted = () => {
+    const labels = sharedDietary(Object.values(swaps))
+    onRemix?.(recipe, {
+      title: `${recipe.title} (${labels.length ? labels.map(dietaryLabel).join(', ') : 'adapted'})`,
+      ingredients: adaptIngredients(ingredients, swaps),
+      dietary: labels
+    })
+  }
+
+  const updateServings = (value: number) => {
+    if (!isFinite(value) || value <= 0) return
+    setServings(Math.round(value * 100) / 100)
+  }
+
+  // Dough weight and piece count scaling from the formula panel aren't
+  // rounded, so the weights come out as asked
+  const scaleBy = (factor: number) => {
+    setServings(baseServings * factor)
+  }
+
+  const resetScaling = () => {
+    setServings(baseServings)
+    setSystem('original')
+    setPreferWeight(false)
+  }
+
+  // What print and export produce: the recipe as currently scaled
+  const printable: PrintableRecipe = {
+    ...toPrintableRecipe(recipe),
+    servings: parseFloat(servings.toFixed(2)),
+    ingredients: shownIngredients,
+    instructions
+  }
+
+  const handlePrint = () => {
+    const opened = printRecipe(printable)
+
+    if (!opened) {
+      addNotification({
+        title: 'Print blocked',
+        message: 'Allow pop-ups for ACWhisk to print recipes.',
+        type: 'warning'
+      })
+    }
+  }
+
+  return (
+    <Dialog open={!!recipe} onOpenChange={onClose}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto glass-modal">
+        <DialogHeader>
+          <DialogTitle className="text-2xl">{recipe.title}</DialogTitle>
+          <DialogDescription>
+            by {recipe.author} • {recipe.difficulty} •
+            {(recipe.prep_time || 0) + (recipe.cook_time || 0)} minutes
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <RecipeAttribution recipe={recipe} onOpenRecipe={onOpenRecipe} />
+
+          {/* Recipe Image/Video */}
+          <RecipeGallery media={gallery} title={recipe.title} />
+
+          {/* Recipe Info */}
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="text-center p-4 glass-card rounded-lg">
+              <Clock className="h-6 w-6 mx-auto mb-2 text-primary" />
+              <p className="text-sm text-muted-foreground">Prep Time</p>
+              <p className="font-semibold">{recipe.prep_time || 0} min</p>
+            </div>
+            <div className="text-center p-4 glass-card rounded-lg">
+              <ChefHat className="h-6 w-6 mx-auto mb-2 text-primary" />
+              <p className="text-sm text-muted-foreground">Cook Time</p>
+              <p className="font-semibold">{recipe.cook_time || 0} min</p>
+            </div>
+            <div className="text-center p-4 glass-card rounded-lg">
+              <Users className="h-6 w-6 mx-auto mb-2 text-primary" />
+              <p className="text-sm text-muted-foreground">Servings</p>
+              <p className="font-semibold">
+                {parseFloat(servings.toFixed(2))}
+                {servings !== baseServings && (
+                  <span className="text-xs text-muted-foreground font-normal"> (from {baseServings})</span>
+                )}
+              </p>
+            </div>
+          </div>
+
+          {/* Description */}
+          <div>
+            <h3 className="text-lg font-semibold mb-2">Description</h3>
+            <p className="text-muted-foreground">{recipe.description}</p>
+          </div>
+
+          {/* Tags */}
+          {recipe.tags && recipe.tags.length > 0 && (
+            <div>
+              <h3 className="text-lg font-semibold mb-2">Tags</h3>
+              <div className="flex flex-wrap gap-2">
+                {recipe.tags.map((tag: string, index: number) => (
+                  <Badge key={index} variant="outline">
+                    {tag}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Scaling Controls */}
+          <div className="p-4 glass-card rounded-lg space-y-4">
+            <div className="flex items-center justify-between">
+              <h3 className="font-semibold flex items-center gap-2">
+                <Scale className="h-4 w-4" />
+                Scale & Convert
+              </h3>
+              <div className="flex gap-2">
+                {isScaled && (
+                  <Button variant="ghost" size="sm" onClick={resetScaling} className="gap-1">
+                    <RotateCcw className="h-3 w-3" />
+                    Reset
+                  </Button>
+                )}
+                <CollectionPicker recipe={recipe} />
+                <RecipeExportMenu recipe={printable} />
+                <Button variant="outline" size="sm" onClick={handlePrint} className="gap-1">
+                  <Printer className="h-3 w-3" />
+                  Print
+                </Button>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="scale-servings">Servings</Label>
+                <div className="flex items-center gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="h-9 w-9 p-0"
+                    onClick={() => updateServings(servings - 1)}
+                    disabled={servings <= 1}
+                    aria-label="Fewer servings"
+                  >
+                    <Minus className="h-4 w-4" />
+                  </Button>
+                  <CommitNumberInput
+                    id="scale-servings"
+                    min={0.25}
+                    step="any"
+                    value={parseFloat(servings.toFixed(2))}
+                    onCommit={updateServings}
+                    className="w-20 text-center"
+                  />
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="h-9 w-9 p-0"
+                    onClick={() => updateServings(servings + 1)}
+                    aria-label="More servings"
+                  >
+                    <Plus className="h-4 w-4" />
+                  </Button>
+                  <div className="flex gap-1 ml-2">
+                    {MULTIPLIERS.map(multiplier => (
+                      <Button
+                        key={multiplier}
+                        variant={servings === baseServings * multiplier ? 'default' : 'ghost'}
+                        size="sm"
+                        className="h-8 px-2 text-xs"
+                        onClick={() => updateServings(baseServings * multiplier)}
+                      >
+                        {multiplier === 0.5 ? '½' : multiplier}×
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Units</Label>
+                <div className="flex flex-wrap items-center gap-3">
+                  <div className="flex gap-1">
+                    {MEASUREMENT_SYSTEMS.map(option => (
+                      <Button
+                        key={option.value}
+                        variant={system === option.value ? 'default' : 'outline'}
+                        size="sm"
+                        className="h-8 px-3 text-xs"
+                        onClick={() => setSystem(option.value)}
+                      >
+                        {option.label}
+                      </Button>
+                    ))}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Switch id="prefer-weight" checked={preferWeight} onCheckedChange={setPreferWeight} />
+                    <Label htmlFor="prefer-weight" className="text-sm font-normal">Weigh dry goods</Label>
+                  </div>
+                </div>
+              </div>
+            </div>
+          </div>
+
+          {/* Ingredients, with the baker's formula alongside */}
+          <div className={formula ? 'grid grid-cols-1 md:grid-cols-2 gap-6 items-start' : ''}>
+            <div>
+              <h3 className="text-lg font-semibold mb-3">Ingredients</h3>
+              <div className="space-y-4">
+                {groupIngredients(shownIngredients).map((group, groupIndex) => (
+                  <div key={groupIndex} className="space-y-2">
+                    {group.group && (
+                      <h4 className="font-medium text-sm text-muted-foreground">{group.group}</h4>
+                    )}
+                    <ul className="space-y-2">
+                      {group.items.map(({ ingredient, index }) => (
+                        <li key={index} className="group flex items-start gap-2">
+                          <span className="w-2 h-2 bg-primary rounded-full mt-2 flex-shrink-0" />
+                          <span className="flex-1">
+                            {formatIngredientAmount(ingredient) && (
+                              <span className="font-medium">{formatIngredientAmount(ingredient)} </span>
+                            )}
+                            {ingredient.item}
+                            {ingredient.note && (
+                              <span className="text-muted-foreground">, {ingredient.note}</span>
+                            )}
+                          </span>
+                          {swaps[index] ? (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="h-7 gap-1 text-xs"
+                              onClick={() => chooseSwap(index, null)}
+                              aria-label={`Undo substitution for ${scaledIngredients[index].item}`}
+                            >
+                              <X className="h-3 w-3" />
+                              Undo
+                            </Button>
+                          ) : (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="h-7 gap-1 text-xs opacity-60 group-hover:opacity-100 focus-visible:opacity-100"
+                              onClick={() => setSubstituting(index)}
+                              aria-label={`Substitute ${ingredient.item}`}
+                            >
+                              <ArrowLeftRight className="h-3 w-3" />
+                              Substitute
+                            </Button>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {formula && (
+              <RecipeFormulaPanel
+                ingredients={adaptIngredients(ingredients, swaps)}
+                formula={formula}
+                baseServings={baseServings}
+                factor={servings / baseServings}
+                onScale={scaleBy}
+              />
+            )}
+          </div>
+
+          {swapCount > 0 && (
+            <div className="flex flex-wrap items-center justify-between gap-2 p-3 glass-card rounded-lg">
+              <p className="text-sm">
+                Showing {swapCount} substitution{swapCount === 1 ? '' : 's'}. Nutrition and allergens below are for the original recipe.
+              </p>
+              <div className="flex gap-2">
+                <Button variant="ghost" size="sm" onClick={() => setSwaps({})}>Undo all</Button>
+                {onRemix && (
+                  <Button size="sm" className="gap-1" onClick={handleSaveAdapted}>
+                    <GitFork className="h-3 w-3" />
+                    Save adapted copy
+                  </Button>
+                )}
+              </div>
+            </div>
+          )}
+
+          <RecipeAllergenSummary recipe={recipe} ingredients={ingredients} />
+
+          <RecipeNutritionPanel recipe={recipe} ingredients={ingredients} onRecipeUpdated={onRecipeUpdated} />
+
+          <RecipeCostingPanel title={recipe.title} ingredients={shownIngredients} servings={servings} />
+
+          {/* Instructions */}
+          <div>
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="text-lg font-semibold">Instructions</h3>
+              {instructions.length > 0 && (
+                <Button size="sm" onClick={() => setCooking(true)} className="gap-1">
+                  <CookingPot className="h-3 w-3" />
+                  Cook mode
+                </Button>
+              )}
+            </div>
+            <ol className="space-y-3">
+              {instructions.map((instruction, index) => {
+                const media = mediaForStep(stepMedia, index)
+                return (
+                  <li key={index} className="flex gap-3">
+                    <span className="flex-shrink-0 w-6 h-6 bg-primary text-primary-foreground rounded-full flex items-center justify-center text-sm font-medium">
+                      {index + 1}
+                    </span>
+                    <div className="flex-1 space-y-2">
+                      <p>{instruction}</p>
+                      {media && <StepMediaFigure media={media} step={index} className="max-w-md aspect-video" />}
+                    </div>
+                  </li>
+                )
+              })}
+            </ol>
+          </div>
+
+          <RecipeRemixList recipe={recipe} onOpenRecipe={onOpenRecipe} />
+
+          <RecipeHistoryPanel recipe={recipe} onRestored={onRecipeUpdated} />
+
+          {/* Rating and Reviews */}
+          <RecipeRatingReview
+            recipeId={recipe.id}
+            recipeTitle={recipe.title}
+            authorId={recipe.author_id}
+          />
+
+          <RecipeComments recipeId={recipe.id} authorId={recipe.author_id} />
+        </div>
+
+        <IngredientSubstitutionDialog
+          ingredient={substituting !== null ? scaledIngredients[substituting] : null}
+          selected={substituting !== null ? swaps[substituting] || null : null}
+          onSelect={(substitution) => substituting !== null && chooseSwap(substituting, substitution)}
+          onClose={() => setSubstituting(null)}
+        />
+
+        {cooking && (
+          <CookMode
+            title={recipe.title}
+            ingredients={shownIngredients}
+            instructions={instructions}
+            stepMedia={stepMedia}
+            onFinish={() => recordRecipeCooked(recipe.id)}
+            onClose={() => setCooking(false)}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
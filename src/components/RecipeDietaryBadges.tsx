@@ -0,0 +1,101 @@
+import React, { useMemo } from 'react'
+import { Badge } from './ui/badge'
+import { AlertTriangle, Leaf } from 'lucide-react'
+import { RecipeIngredient } from '../utils/recipes/ingredients'
+import { allergenLabel, analyseDietary, cleanAllergens, cleanDietaryLabels, dietaryLabel } from '../utils/recipes/dietary'
+
+interface RecipeDietaryBadgesProps {
+  recipe: any
+  // Dietary labels shown before collapsing the rest into "+N"
+  limit?: number
+  className?: string
+}
+
+// Diet and allergen badges for recipe cards. Detected allergens the author
+// hasn't confirmed are included, so a card never looks safer than the
+// allergen filters treat it.
+export function RecipeDietaryBadges({ recipe, limit = 2, className = '' }: RecipeDietaryBadgesProps) {
+  const labels = cleanDietaryLabels(recipe.dietary_labels)
+  const allergens = cleanAllergens([...(recipe.allergens || []), ...(recipe.detected_allergens || [])])
+
+  if (labels.length === 0 && allergens.length === 0) return null
+
+  return (
+    <div className={`flex flex-wrap gap-1 ${className}`}>
+      {labels.slice(0, limit).map(label => (
+        <Badge key={label} className="gap-1 bg-green-600 text-white hover:bg-green-600 border-transparent">
+          <Leaf className="h-3 w-3" />
+          {dietaryLabel(label)}
+        </Badge>
+      ))}
+      {labels.length > limit && (
+        <Badge className="bg-green-600 text-white hover:bg-green-600 border-transparent">+{labels.length - limit}</Badge>
+      )}
+      {allergens.length > 0 && (
+        <Badge
+          variant="destructive"
+          className="gap-1"
+          title={`Contains ${allergens.map(allergenLabel).join(', ').toLowerCase()}`}
+        >
+          <AlertTriangle className="h-3 w-3" />
+          Contains {allergens.length > 2
+            ? `${allergens.slice(0, 2).map(allergenLabel).join(', ').toLowerCase()} +${allergens.length - 2}`
+            : allergens.map(allergenLabel).join(', ').toLowerCase()}
+        </Badge>
+      )}
+    </div>
+  )
+}
+
+// "Allergens & diet" section of the recipe view. Allergens found in the
+// ingredients but not confirmed by the author are listed as "may contain".
+export function RecipeAllergenSummary({ recipe, ingredients }: { recipe: any; ingredients: RecipeIngredient[] }) {
+  const analysis = useMemo(() => analyseDietary(ingredients), [ingredients])
+  const labels = cleanDietaryLabels(recipe.dietary_labels)
+  const confirmed = cleanAllergens(recipe.allergens)
+  const possible = cleanAllergens([
+    ...(recipe.detected_allergens || []),
+    ...analysis.allergens.map(allergen => allergen.id)
+  ]).filter(id => !confirmed.includes(id))
+
+  const sourcesOf = (id: string) => analysis.allergens.find(allergen => allergen.id === id)?.sources || []
+
+  if (labels.length === 0 && confirmed.length === 0 && possible.length === 0) return null
+
+  return (
+    <div className="p-4 glass-card rounded-lg space-y-3">
+      <h3 className="font-semibold flex items-center gap-2">
+        <Leaf className="h-4 w-4" />
+        Allergens & diet
+      </h3>
+      {labels.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {labels.map(label => (
+            <Badge key={label} className="gap-1 bg-green-600 text-white hover:bg-green-600 border-transparent">
+              <Leaf className="h-3 w-3" />
+              {dietaryLabel(label)}
+            </Badge>
+          ))}
+        </div>
+      )}
+      {confirmed.length > 0 && (
+        <p className="text-sm">
+          <span className="font-medium text-destructive">Contains:</span>{' '}
+          {confirmed.map(allergenLabel).join(', ')}
+        </p>
+      )}
+      {possible.length > 0 && (
+        <p className="text-sm">
+          <span className="font-medium">May contain:</span>{' '}
+          {possible.map(id => sourcesOf(id).length > 0
+            ? `${allergenLabel(id)} (${sourcesOf(id).join(', ')})`
+            : allergenLabel(id)
+          ).join(', ')}
+        </p>
+      )}
+      <p className="text-xs text-muted-foreground">
+        Allergen information is a guide. Always check the labels of the ingredients you use.
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,56 @@
+import React from 'react'
+import { Button } from './ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger
+} from './ui/dropdown-menu'
+import { useNotifications } from './ui/notification'
+import { Download, FileCode, FileText, IdCard } from 'lucide-react'
+import { PrintableRecipe, printRecipeCard } from '../utils/recipes/print'
+import { downloadFile, recipeToJsonLdString, recipeToMarkdown, slugify } from '../utils/recipes/export'
+
+interface RecipeExportMenuProps {
+  recipe: PrintableRecipe
+}
+
+export function RecipeExportMenu({ recipe }: RecipeExportMenuProps) {
+  const { addNotification } = useNotifications()
+  const fileName = slugify(recipe.title)
+
+  const handleCard = () => {
+    if (!printRecipeCard(recipe)) {
+      addNotification({
+        title: 'Print blocked',
+        message: 'Allow pop-ups for ACWhisk to print recipe cards.',
+        type: 'warning'
+      })
+    }
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-1">
+          <Download className="h-3 w-3" />
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="glass-modal border-glass-border">
+        <DropdownMenuItem onClick={handleCard}>
+          <IdCard className="mr-2 h-4 w-4" />
+          Print recipe card
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => downloadFile(`${fileName}.md`, recipeToMarkdown(recipe), 'text/markdown')}>
+          <FileText className="mr-2 h-4 w-4" />
+          Markdown
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => downloadFile(`${fileName}.jsonld`, recipeToJsonLdString(recipe), 'application/ld+json')}>
+          <FileCode className="mr-2 h-4 w-4" />
+          JSON-LD
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
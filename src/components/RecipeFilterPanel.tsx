@@ -0,0 +1,268 @@
+import React from 'react'
+import { Button } from './ui/button'
+import { Badge } from './ui/badge'
+import { Card, CardContent } from './ui/card'
+import { Ban, Flame, Leaf, Star, X } from 'lucide-react'
+import { ALLERGENS, DIETARY_LABELS, allergenLabel, dietaryLabel } from '../utils/recipes/dietary'
+import {
+  AUTHOR_ROLE_OPTIONS,
+  CALORIE_OPTIONS,
+  DIFFICULTY_OPTIONS,
+  PROTEIN_OPTIONS,
+  RATING_OPTIONS,
+  RecipeSearchFacets,
+  RecipeSearchFilters,
+  TIME_BUCKETS,
+  countActiveFilters,
+  toggleValue
+} from '../utils/recipes/search'
+
+interface RecipeFilterPanelProps {
+  filters: RecipeSearchFilters
+  facets: RecipeSearchFacets | null
+  onChange: (updates: Partial<RecipeSearchFilters>) => void
+  onReset: () => void
+}
+
+function FacetCount({ count }: { count?: number }) {
+  if (count === undefined) return null
+  return <span className="ml-1 text-xs opacity-70">({count})</span>
+}
+
+function FilterSection({ title, children }: { title: string, children: React.ReactNode }) {
+  return (
+    <div className="space-y-2">
+      <h4 className="text-sm font-medium">{title}</h4>
+      <div className="flex flex-wrap gap-2">{children}</div>
+    </div>
+  )
+}
+
+export function RecipeFilterPanel({ filters, facets, onChange, onReset }: RecipeFilterPanelProps) {
+  // Always offer tags the user already picked, even if they fall out of the top list
+  const tagOptions = Array.from(new Set([...filters.tags, ...Object.keys(facets?.tags || {})]))
+
+  return (
+    <Card className="glass-card">
+      <CardContent className="p-4 space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <FilterSection title="Difficulty">
+            {DIFFICULTY_OPTIONS.map(option => (
+              <Button
+                key={option.value}
+                type="button"
+                size="sm"
+                variant={filters.difficulties.includes(option.value) ? 'default' : 'outline'}
+                onClick={() => onChange({ difficulties: toggleValue(filters.difficulties, option.value) })}
+                className="h-8"
+              >
+                {option.label}
+                <FacetCount count={facets ? facets.difficulty[option.value] || 0 : undefined} />
+              </Button>
+            ))}
+          </FilterSection>
+
+          <FilterSection title="Total time">
+            {TIME_BUCKETS.map(option => (
+              <Button
+                key={option.value}
+                type="button"
+                size="sm"
+                variant={filters.time === option.value ? 'default' : 'outline'}
+                onClick={() => onChange({ time: filters.time === option.value ? null : option.value })}
+                className="h-8"
+              >
+                {option.label}
+                <FacetCount count={facets?.time[option.value]} />
+              </Button>
+            ))}
+          </FilterSection>
+
+          <FilterSection title="Minimum rating">
+            {RATING_OPTIONS.map(rating => (
+              <Button
+                key={rating}
+                type="button"
+                size="sm"
+                variant={filters.minRating === rating ? 'default' : 'outline'}
+                onClick={() => onChange({ minRating: filters.minRating === rating ? null : rating })}
+                className="h-8 gap-1"
+              >
+                <Star className="h-3 w-3 fill-yellow-400 text-yellow-400" />
+                {rating}+
+                <FacetCount count={facets?.rating[rating]} />
+              </Button>
+            ))}
+          </FilterSection>
+
+          <FilterSection title="Shared by">
+            {AUTHOR_ROLE_OPTIONS.map(option => (
+              <Button
+                key={option.value}
+                type="button"
+                size="sm"
+                variant={filters.authorRoles.includes(option.value) ? 'default' : 'outline'}
+                onClick={() => onChange({ authorRoles: toggleValue(filters.authorRoles, option.value) })}
+                className="h-8"
+              >
+                {option.label}
+                <FacetCount count={facets ? facets.author_role[option.value] || 0 : undefined} />
+              </Button>
+            ))}
+          </FilterSection>
+
+          <FilterSection title="Calories per serving">
+            {CALORIE_OPTIONS.map(calories => (
+              <Button
+                key={calories}
+                type="button"
+                size="sm"
+                variant={filters.maxCalories === calories ? 'default' : 'outline'}
+                onClick={() => onChange({ maxCalories: filters.maxCalories === calories ? null : calories })}
+                className="h-8 gap-1"
+              >
+                <Flame className="h-3 w-3" />
+                Under {calories} kcal
+                <FacetCount count={facets?.calories?.[calories]} />
+              </Button>
+            ))}
+          </FilterSection>
+
+          <FilterSection title="Protein per serving">
+            {PROTEIN_OPTIONS.map(protein => (
+              <Button
+                key={protein}
+                type="button"
+                size="sm"
+                variant={filters.minProtein === protein ? 'default' : 'outline'}
+                onClick={() => onChange({ minProtein: filters.minProtein === protein ? null : protein })}
+                className="h-8"
+              >
+                {protein} g+
+                <FacetCount count={facets?.protein?.[protein]} />
+              </Button>
+            ))}
+          </FilterSection>
+        </div>
+
+        <FilterSection title="Diet">
+          {DIETARY_LABELS.map(label => (
+            <Button
+              key={label.id}
+              type="button"
+              size="sm"
+              variant={filters.dietaryLabels.includes(label.id) ? 'default' : 'outline'}
+              onClick={() => onChange({ dietaryLabels: toggleValue(filters.dietaryLabels, label.id) })}
+              className="h-8 gap-1"
+            >
+              <Leaf className="h-3 w-3" />
+              {label.label}
+              <FacetCount count={facets?.dietary ? facets.dietary[label.id] || 0 : undefined} />
+            </Button>
+          ))}
+        </FilterSection>
+
+        <FilterSection title="Leave out allergens">
+          {ALLERGENS.map(allergen => (
+            <Badge
+              key={allergen.id}
+              variant={filters.excludedAllergens.includes(allergen.id) ? 'destructive' : 'outline'}
+              className="cursor-pointer gap-1"
+              onClick={() => onChange({ excludedAllergens: toggleValue(filters.excludedAllergens, allergen.id) })}
+            >
+              {filters.excludedAllergens.includes(allergen.id) && <Ban className="h-3 w-3" />}
+              {allergen.label}
+            </Badge>
+          ))}
+        </FilterSection>
+
+        {tagOptions.length > 0 && (
+          <FilterSection title="Tags">
+            {tagOptions.map(tag => (
+              <Badge
+                key={tag}
+                variant={filters.tags.includes(tag) ? 'default' : 'outline'}
+                className="cursor-pointer"
+                onClick={() => onChange({ tags: toggleValue(filters.tags, tag) })}
+              >
+                {tag}
+                <FacetCount count={facets?.tags[tag]} />
+              </Badge>
+            ))}
+          </FilterSection>
+        )}
+
+        {countActiveFilters(filters) > 0 && (
+          <div className="flex justify-end">
+            <Button type="button" variant="ghost" size="sm" onClick={onReset} className="gap-1">
+              <X className="h-3 w-3" />
+              Clear filters
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+// Summary chips for the active filters, shown under the search bar
+export function ActiveFilterChips({ filters, onChange }: Pick<RecipeFilterPanelProps, 'filters' | 'onChange'>) {
+  const chips: { label: string; remove: () => void }[] = [
+    ...filters.difficulties.map(value => ({
+      label: DIFFICULTY_OPTIONS.find(option => option.value === value)?.label || value,
+      remove: () => onChange({ difficulties: filters.difficulties.filter(v => v !== value) })
+    })),
+    ...(filters.time ? [{
+      label: TIME_BUCKETS.find(option => option.value === filters.time)?.label || filters.time,
+      remove: () => onChange({ time: null })
+    }] : []),
+    ...(filters.minRating ? [{
+      label: `${filters.minRating}+ stars`,
+      remove: () => onChange({ minRating: null })
+    }] : []),
+    ...(filters.maxCalories ? [{
+      label: `Under ${filters.maxCalories} kcal`,
+      remove: () => onChange({ maxCalories: null })
+    }] : []),
+    ...(filters.minProtein ? [{
+      label: `${filters.minProtein} g+ protein`,
+      remove: () => onChange({ minProtein: null })
+    }] : []),
+    ...filters.dietaryLabels.map(value => ({
+      label: dietaryLabel(value),
+      remove: () => onChange({ dietaryLabels: filters.dietaryLabels.filter(v => v !== value) })
+    })),
+    ...filters.excludedAllergens.map(value => ({
+      label: `No ${allergenLabel(value).toLowerCase()}`,
+      remove: () => onChange({ excludedAllergens: filters.excludedAllergens.filter(v => v !== value) })
+    })),
+    ...filters.authorRoles.map(value => ({
+      label: AUTHOR_ROLE_OPTIONS.find(option => option.value === value)?.label || value,
+      remove: () => onChange({ authorRoles: filters.authorRoles.filter(v => v !== value) })
+    })),
+    ...filters.tags.map(tag => ({
+      label: `#${tag}`,
+      remove: () => onChange({ tags: filters.tags.filter(t => t !== tag) })
+    }))
+  ]
+
+  if (chips.length === 0) return null
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {chips.map(chip => (
+        <Badge key={chip.label} variant="secondary" className="gap-1 pr-1">
+          {chip.label}
+          <button
+            type="button"
+            onClick={chip.remove}
+            className="rounded-full hover:bg-black/10 p-0.5"
+            aria-label={`Remove ${chip.label} filter`}
+          >
+            <X className="h-3 w-3" />
+          </button>
+        </Badge>
+      ))}
+    </div>
+  )
+}
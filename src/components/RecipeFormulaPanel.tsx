@@ -0,0 +1,161 @@
+import React, { useState, useMemo } from 'react'
+import { Button } from './ui/button'
+import { Label } from './ui/label'
+import { CommitNumberInput } from './CommitNumberInput'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table'
+import { Percent } from 'lucide-react'
+import { RecipeIngredient } from '../utils/recipes/ingredients'
+import { RecipeFormula, analyseFormula, formatGrams, formatPercent } from '../utils/recipes/formula'
+
+interface RecipeFormulaPanelProps {
+  // The recipe's own amounts; the panel applies factor itself
+  ingredients: RecipeIngredient[]
+  formula: RecipeFormula
+  baseServings: number
+  factor: number
+  onScale: (factor: number) => void
+}
+
+type ScaleMode = 'weight' | 'pieces'
+
+// Baker's percentages next to the ingredient list. Scaling by dough weight
+// or piece count sets the same factor as the servings control, so both
+// lists stay in step.
+export function RecipeFormulaPanel({ ingredients, formula, baseServings, factor, onScale }: RecipeFormulaPanelProps) {
+  const analysis = useMemo(() => analyseFormula(ingredients, formula), [ingredients, formula])
+  const [mode, setMode] = useState<ScaleMode>(formula.piece_weight ? 'pieces' : 'weight')
+  // Without a stored piece weight, assume one piece per serving
+  const [pieceWeight, setPieceWeight] = useState(
+    () => formula.piece_weight ?? Math.round(analysis.totalWeight / baseServings)
+  )
+
+  const doughWeight = analysis.totalWeight * factor
+  const pieces = pieceWeight > 0 ? doughWeight / pieceWeight : 0
+
+  const scaleToWeight = (grams: number) => {
+    if (!isFinite(grams) || grams <= 0 || analysis.totalWeight === 0) return
+    onScale(grams / analysis.totalWeight)
+  }
+
+  if (analysis.baseWeight === 0) {
+    return (
+      <div className="p-4 glass-card rounded-lg">
+        <h3 className="font-semibold flex items-center gap-2">
+          <Percent className="h-4 w-4" />
+          Baker's formula
+        </h3>
+        <p className="text-sm text-muted-foreground mt-2">
+          The base ingredient has no weight, so percentages can't be worked out.
+        </p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="p-4 glass-card rounded-lg space-y-4">
+      <h3 className="font-semibold flex items-center gap-2">
+        <Percent className="h-4 w-4" />
+        Baker's formula
+      </h3>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div className="rounded-lg bg-muted/40 p-3 text-center">
+          <p className="text-xs text-muted-foreground">Total dough</p>
+          <p className="font-semibold">{formatGrams(doughWeight)}</p>
+        </div>
+        <div className="rounded-lg bg-muted/40 p-3 text-center">
+          <p className="text-xs text-muted-foreground">Hydration</p>
+          <p className="font-semibold">{analysis.hydration !== null ? formatPercent(analysis.hydration) : '—'}</p>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex gap-1">
+          <Button
+            variant={mode === 'weight' ? 'default' : 'outline'}
+            size="sm"
+            className="h-8 px-3 text-xs"
+            onClick={() => setMode('weight')}
+          >
+            Dough weight
+          </Button>
+          <Button
+            variant={mode === 'pieces' ? 'default' : 'outline'}
+            size="sm"
+            className="h-8 px-3 text-xs"
+            onClick={() => setMode('pieces')}
+          >
+            Pieces
+          </Button>
+        </div>
+
+        {mode === 'weight' ? (
+          <div className="flex items-center gap-2">
+            <Label htmlFor="formula-target" className="text-sm font-normal">Make</Label>
+            <CommitNumberInput
+              id="formula-target"
+              min={1}
+              step="any"
+              value={Math.round(doughWeight)}
+              onCommit={scaleToWeight}
+              className="w-28 text-center"
+            />
+            <span className="text-sm text-muted-foreground">g of dough</span>
+          </div>
+        ) : (
+          <div className="flex flex-wrap items-center gap-2">
+            <Label htmlFor="formula-pieces" className="text-sm font-normal">Make</Label>
+            <CommitNumberInput
+              id="formula-pieces"
+              min={1}
+              step="any"
+              value={parseFloat(pieces.toFixed(2))}
+              onCommit={(count) => scaleToWeight(count * pieceWeight)}
+              className="w-20 text-center"
+            />
+            <Label htmlFor="formula-piece" className="text-sm font-normal">pieces of</Label>
+            <CommitNumberInput
+              id="formula-piece"
+              min={1}
+              step="any"
+              value={pieceWeight}
+              onCommit={setPieceWeight}
+              className="w-20 text-center"
+            />
+            <span className="text-sm text-muted-foreground">g</span>
+          </div>
+        )}
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Ingredient</TableHead>
+            <TableHead className="text-right">Baker's %</TableHead>
+            <TableHead className="text-right">Weight</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {analysis.lines.map(line => (
+            <TableRow key={line.index} className={line.isBase ? 'font-medium' : ''}>
+              <TableCell className="whitespace-normal">{line.ingredient.item}</TableCell>
+              <TableCell className="text-right">{formatPercent(line.percent as number)}</TableCell>
+              <TableCell className="text-right">{formatGrams(line.grams * factor)}</TableCell>
+            </TableRow>
+          ))}
+          <TableRow>
+            <TableCell className="font-medium">Total</TableCell>
+            <TableCell className="text-right font-medium">{formatPercent(analysis.totalWeight / analysis.baseWeight * 100)}</TableCell>
+            <TableCell className="text-right font-medium">{formatGrams(doughWeight)}</TableCell>
+          </TableRow>
+        </TableBody>
+      </Table>
+
+      {analysis.unweighed.length > 0 && (
+        <p className="text-xs text-muted-foreground">
+          Not weighed, so not in the formula: {analysis.unweighed.map(ingredient => ingredient.item).join(', ')}
+        </p>
+      )}
+    </div>
+  )
+}
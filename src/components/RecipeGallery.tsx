@@ -0,0 +1,65 @@
+import React, { useState, useEffect } from 'react'
+import { Carousel, CarouselApi, CarouselContent, CarouselItem, CarouselNext, CarouselPrevious } from './ui/carousel'
+import { OptimizedImage } from './OptimizedImage'
+import { RecipeMedia } from '../utils/recipes/media'
+
+function GalleryMedia({ media, alt }: { media: RecipeMedia; alt: string }) {
+  return media.type === 'video' ? (
+    <video src={media.url} controls className="w-full h-full object-cover" />
+  ) : (
+    <OptimizedImage src={media.url} alt={alt} className="w-full h-full object-cover" />
+  )
+}
+
+// Recipe photos and videos in the detail view. A single item is shown as
+// is; several become a swipeable carousel with a position counter.
+export function RecipeGallery({ media, title }: { media: RecipeMedia[]; title: string }) {
+  const [api, setApi] = useState<CarouselApi>()
+  const [current, setCurrent] = useState(0)
+
+  useEffect(() => {
+    if (!api) return
+    const update = () => setCurrent(api.selectedScrollSnap())
+    update()
+    api.on('select', update)
+    return () => { api.off('select', update) }
+  }, [api])
+
+  if (media.length === 0) return null
+
+  if (media.length === 1) {
+    return (
+      <div className="aspect-video w-full rounded-lg overflow-hidden">
+        <GalleryMedia media={media[0]} alt={title} />
+      </div>
+    )
+  }
+
+  return (
+    <Carousel setApi={setApi} className="w-full" opts={{ loop: true }}>
+      <CarouselContent>
+        {media.map((item, index) => (
+          <CarouselItem key={item.url}>
+            <div className="aspect-video w-full rounded-lg overflow-hidden">
+              <GalleryMedia media={item} alt={`${title} (${index + 1} of ${media.length})`} />
+            </div>
+          </CarouselItem>
+        ))}
+      </CarouselContent>
+      <CarouselPrevious type="button" className="left-3" />
+      <CarouselNext type="button" className="right-3" />
+      <div className="absolute bottom-3 right-3 glass-card px-2 py-1 rounded-full text-xs font-medium">
+        {current + 1} / {media.length}
+      </div>
+    </Carousel>
+  )
+}
+
+// A technique photo or video shown with its instruction step
+export function StepMediaFigure({ media, step, className = '' }: { media: RecipeMedia; step: number; className?: string }) {
+  return (
+    <div className={`rounded-lg overflow-hidden bg-accent ${className}`}>
+      <GalleryMedia media={media} alt={`Step ${step + 1}`} />
+    </div>
+  )
+}
@@ -0,0 +1,287 @@
+import React, { useState, useEffect } from 'react'
+import { useAuth } from './AuthContext'
+import { supabase } from '../utils/supabase/client'
+import { Button } from './ui/button'
+import { Badge } from './ui/badge'
+import { Avatar, AvatarFallback, AvatarImage } from './ui/avatar'
+import { useNotifications } from './ui/notification'
+import { History, ChevronDown, ChevronUp, RotateCcw, Loader2 } from 'lucide-react'
+import {
+  DiffRow,
+  RecipeRevision,
+  diffFields,
+  diffLines,
+  hasChanges,
+  ingredientLines,
+  instructionLines
+} from '../utils/recipes/revisions'
+
+interface RecipeHistoryPanelProps {
+  recipe: any
+  onRestored?: (recipe: any) => void
+}
+
+type CompareTarget = 'previous' | 'current'
+
+const DIFF_ROW_STYLES: Record<DiffRow['kind'], { before: string; after: string }> = {
+  same: { before: '', after: '' },
+  added: { before: '', after: 'bg-green-50 text-green-800' },
+  removed: { before: 'bg-red-50 text-red-800 line-through', after: '' },
+  changed: { before: 'bg-amber-50 text-amber-900', after: 'bg-amber-50 text-amber-900' }
+}
+
+function SideBySideDiff({ title, rows, beforeLabel, afterLabel }: {
+  title: string
+  rows: DiffRow[]
+  beforeLabel: string
+  afterLabel: string
+}) {
+  if (!hasChanges(rows)) return null
+
+  return (
+    <div className="space-y-2">
+      <h5 className="text-sm font-medium">{title}</h5>
+      <div className="grid grid-cols-2 gap-x-2 text-sm">
+        <p className="text-xs text-muted-foreground pb-1">{beforeLabel}</p>
+        <p className="text-xs text-muted-foreground pb-1">{afterLabel}</p>
+        {rows.map((row, index) => (
+          <React.Fragment key={index}>
+            <div className={`px-2 py-1 rounded ${DIFF_ROW_STYLES[row.kind].before}`}>{row.before}</div>
+            <div className={`px-2 py-1 rounded ${DIFF_ROW_STYLES[row.kind].after}`}>{row.after}</div>
+          </React.Fragment>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+export function RecipeHistoryPanel({ recipe, onRestored }: RecipeHistoryPanelProps) {
+  const { user } = useAuth()
+  const { addNotification } = useNotifications()
+
+  const [open, setOpen] = useState(false)
+  const [revisions, setRevisions] = useState<RecipeRevision[]>([])
+  const [loading, setLoading] = useState(false)
+  const [unavailable, setUnavailable] = useState(false)
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [compareTo, setCompareTo] = useState<CompareTarget>('previous')
+  const [restoring, setRestoring] = useState(false)
+
+  const isAuthor = user?.id === recipe.author_id
+
+  useEffect(() => {
+    if (open) fetchRevisions()
+  }, [open, recipe.id, recipe.updated_at])
+
+  const fetchRevisions = async () => {
+    setLoading(true)
+    try {
+      const { data, error } = await supabase
+        .from('recipe_revisions')
+        .select(`
+          *,
+          profiles:editor_id (name, avatar_url)
+        `)
+        .eq('recipe_id', recipe.id)
+        .order('revision_number', { ascending: false })
+
+      if (error) {
+        // Handle missing tables gracefully
+        if (error.code === 'PGRST205' || error.code === '42P01') {
+          console.warn('Recipe revisions table not available. Database setup may be required.')
+          setUnavailable(true)
+          setRevisions([])
+          return
+        }
+        console.error('Error fetching recipe history:', error)
+        return
+      }
+
+      setRevisions(data || [])
+      setSelectedId(prev => prev && data?.some(revision => revision.id === prev) ? prev : data?.[0]?.id || null)
+    } catch (error) {
+      console.error('Error fetching recipe history:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleRestore = async (revision: RecipeRevision) => {
+    setRestoring(true)
+    try {
+      const { data, error } = await supabase
+        .rpc('restore_recipe_revision', { target_revision_id: revision.id })
+        .single()
+
+      if (error) throw error
+
+      addNotification({
+        title: 'Revision restored',
+        message: `"${recipe.title}" is back to revision ${revision.revision_number}.`,
+        type: 'success'
+      })
+      onRestored?.(data)
+      await fetchRevisions()
+    } catch (error) {
+      console.error('Error restoring revision:', error)
+      addNotification({
+        title: 'Restore failed',
+        message: 'Could not restore this revision. Please try again.',
+        type: 'error'
+      })
+    } finally {
+      setRestoring(false)
+    }
+  }
+
+  const selectedIndex = revisions.findIndex(revision => revision.id === selectedId)
+  const selected = selectedIndex >= 0 ? revisions[selectedIndex] : null
+  const latest = revisions[0]
+  // Revisions are newest first, so the previous save is the next entry
+  const baseline = compareTo === 'previous' ? revisions[selectedIndex + 1] : latest
+
+  const renderComparison = () => {
+    if (!selected) return null
+    if (!baseline || baseline.id === selected.id) {
+      return (
+        <p className="text-sm text-muted-foreground">
+          {compareTo === 'previous' ? 'This is the first saved version.' : 'This is the current version.'}
+        </p>
+      )
+    }
+
+    // Older revision on the left, newer on the right
+    const [older, newer] = baseline.revision_number < selected.revision_number
+      ? [baseline, selected]
+      : [selected, baseline]
+    const fieldChanges = diffFields(older.snapshot, newer.snapshot)
+    const ingredientRows = diffLines(ingredientLines(older.snapshot), ingredientLines(newer.snapshot))
+    const stepRows = diffLines(instructionLines(older.snapshot), instructionLines(newer.snapshot))
+    const beforeLabel = `Revision ${older.revision_number}`
+    const afterLabel = `Revision ${newer.revision_number}`
+
+    if (fieldChanges.length === 0 && !hasChanges(ingredientRows) && !hasChanges(stepRows)) {
+      return <p className="text-sm text-muted-foreground">No differences.</p>
+    }
+
+    return (
+      <div className="space-y-4">
+        {fieldChanges.length > 0 && (
+          <div className="space-y-2">
+            <h5 className="text-sm font-medium">Details</h5>
+            <div className="grid grid-cols-[auto_1fr_1fr] gap-x-3 gap-y-1 text-sm">
+              {fieldChanges.map(change => (
+                <React.Fragment key={change.field}>
+                  <span className="text-muted-foreground">{change.label}</span>
+                  <span className="px-2 rounded bg-red-50 text-red-800 break-words">{change.before || '—'}</span>
+                  <span className="px-2 rounded bg-green-50 text-green-800 break-words">{change.after || '—'}</span>
+                </React.Fragment>
+              ))}
+            </div>
+          </div>
+        )}
+        <SideBySideDiff title="Ingredients" rows={ingredientRows} beforeLabel={beforeLabel} afterLabel={afterLabel} />
+        <SideBySideDiff title="Instructions" rows={stepRows} beforeLabel={beforeLabel} afterLabel={afterLabel} />
+      </div>
+    )
+  }
+
+  return (
+    <div className="p-4 glass-card rounded-lg space-y-4">
+      <button
+        type="button"
+        className="w-full flex items-center justify-between"
+        onClick={() => setOpen(prev => !prev)}
+      >
+        <h3 className="font-semibold flex items-center gap-2">
+          <History className="h-4 w-4" />
+          Revision history
+        </h3>
+        {open ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+      </button>
+
+      {open && (
+        loading && revisions.length === 0 ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : unavailable || revisions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            {unavailable ? 'Revision history requires a database update.' : 'No saved revisions yet.'}
+          </p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-[220px_1fr] gap-4">
+            <ul className="space-y-1 max-h-80 overflow-y-auto">
+              {revisions.map(revision => (
+                <li key={revision.id}>
+                  <button
+                    type="button"
+                    onClick={() => setSelectedId(revision.id)}
+                    className={`w-full text-left p-2 rounded-md flex items-start gap-2 ${
+                      revision.id === selectedId ? 'bg-primary/10' : 'hover:bg-muted'
+                    }`}
+                  >
+                    <Avatar className="w-7 h-7">
+                      <AvatarImage src={revision.profiles?.avatar_url || undefined} />
+                      <AvatarFallback className="bg-calm-gradient text-white text-xs">
+                        {revision.profiles?.name?.split(' ').map(n => n[0]).join('').toUpperCase() || '?'}
+                      </AvatarFallback>
+                    </Avatar>
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium flex items-center gap-1">
+                        Revision {revision.revision_number}
+                        {revision.id === latest?.id && <Badge variant="secondary" className="h-4 px-1 text-[10px]">Current</Badge>}
+                      </p>
+                      <p className="text-xs text-muted-foreground truncate">
+                        {revision.profiles?.name || 'Unknown'} • {new Date(revision.created_at).toLocaleString()}
+                      </p>
+                      {revision.restored_from && (
+                        <p className="text-xs text-muted-foreground">Restored from revision {revision.restored_from}</p>
+                      )}
+                    </div>
+                  </button>
+                </li>
+              ))}
+            </ul>
+
+            <div className="space-y-4 min-w-0">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div className="flex gap-1">
+                  <Button
+                    size="sm"
+                    variant={compareTo === 'previous' ? 'default' : 'outline'}
+                    className="h-8 text-xs"
+                    onClick={() => setCompareTo('previous')}
+                  >
+                    Changes in this save
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant={compareTo === 'current' ? 'default' : 'outline'}
+                    className="h-8 text-xs"
+                    onClick={() => setCompareTo('current')}
+                  >
+                    Compare with current
+                  </Button>
+                </div>
+                {isAuthor && selected && selected.id !== latest?.id && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="h-8 gap-1"
+                    onClick={() => handleRestore(selected)}
+                    disabled={restoring}
+                  >
+                    {restoring ? <Loader2 className="h-3 w-3 animate-spin" /> : <RotateCcw className="h-3 w-3" />}
+                    Restore this version
+                  </Button>
+                )}
+              </div>
+              {renderComparison()}
+            </div>
+          </div>
+        )
+      )}
+    </div>
+  )
+}
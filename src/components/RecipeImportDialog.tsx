@@ -0,0 +1,218 @@
+import React, { useState, useRef } from 'react'
+import { Button } from './ui/button'
+import { Label } from './ui/label'
+import { Badge } from './ui/badge'
+import { Textarea } from './ui/textarea'
+import { Alert, AlertDescription } from './ui/alert'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog'
+import { AlertTriangle, ArrowLeft, FileUp, Clock, Users } from 'lucide-react'
+import { formatIngredient } from '../utils/recipes/ingredients'
+import { ImportedRecipe, RecipeImportResult, importRecipe } from '../utils/recipes/importer'
+
+interface RecipeImportDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onImport: (recipe: ImportedRecipe) => void
+}
+
+const MAX_FILE_SIZE = 2 * 1024 * 1024
+
+const FORMAT_LABELS: Record<RecipeImportResult['format'], string> = {
+  'json-ld': 'Structured recipe data',
+  html: 'Web page text',
+  text: 'Plain text'
+}
+
+export function RecipeImportDialog({ open, onOpenChange, onImport }: RecipeImportDialogProps) {
+  const [content, setContent] = useState('')
+  const [fileName, setFileName] = useState('')
+  const [result, setResult] = useState<RecipeImportResult | null>(null)
+  const [error, setError] = useState('')
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const reset = () => {
+    setContent('')
+    setFileName('')
+    setResult(null)
+    setError('')
+  }
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) reset()
+    onOpenChange(next)
+  }
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    if (file.size > MAX_FILE_SIZE) {
+      setError('That file is too large. Recipe files should be under 2 MB.')
+      return
+    }
+
+    setError('')
+    setFileName(file.name)
+    setContent(await file.text())
+  }
+
+  const handleParse = () => {
+    const parsed = importRecipe(content)
+    if (!parsed) {
+      setError('No recipe could be found. Paste the page source, a JSON-LD file, or the recipe text with its ingredients and steps.')
+      return
+    }
+    setError('')
+    setResult(parsed)
+  }
+
+  const recipe = result?.recipe
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto glass-modal">
+        <DialogHeader>
+          <DialogTitle>{recipe ? 'Review Imported Recipe' : 'Import Recipe'}</DialogTitle>
+          <DialogDescription>
+            {recipe
+              ? 'Check what was found, then continue to edit and share it'
+              : 'Paste or upload a saved recipe page, a JSON-LD file, or the recipe text'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {!recipe ? (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="import-content">Recipe content</Label>
+                <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()} className="gap-1">
+                  <FileUp className="h-3 w-3" />
+                  Upload file
+                </Button>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept=".html,.htm,.json,.jsonld,.txt,text/html,application/json,application/ld+json,text/plain"
+                  onChange={handleFile}
+                  className="hidden"
+                />
+              </div>
+              <Textarea
+                id="import-content"
+                value={content}
+                onChange={(e) => {
+                  setContent(e.target.value)
+                  setFileName('')
+                }}
+                placeholder={'Chicken Adobo\nServes 4\n\nIngredients\n2 lbs chicken thighs\n1/2 cup soy sauce\n\nInstructions\n1. Combine everything and marinate...'}
+                rows={12}
+                className="font-mono text-xs"
+              />
+              {fileName && <p className="text-xs text-muted-foreground">Loaded {fileName}</p>}
+              <p className="text-xs text-muted-foreground">
+                Content is read on this device only. Links inside it are not opened and images are not imported.
+              </p>
+            </div>
+
+            {error && (
+              <Alert>
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => handleOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button onClick={handleParse} disabled={!content.trim()}>
+                Find recipe
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-5">
+            <div className="space-y-1">
+              <div className="flex items-center gap-2">
+                <h3 className="text-xl font-semibold">{recipe.title || 'Untitled recipe'}</h3>
+                <Badge variant="outline">{FORMAT_LABELS[result.format]}</Badge>
+              </div>
+              {recipe.source && <p className="text-sm text-muted-foreground">Recipe by {recipe.source}</p>}
+              {recipe.description && <p className="text-sm text-muted-foreground">{recipe.description}</p>}
+            </div>
+
+            {result.warnings.length > 0 && (
+              <Alert>
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription>
+                  <ul className="list-disc pl-4 space-y-1">
+                    {result.warnings.map(warning => <li key={warning}>{warning}</li>)}
+                  </ul>
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <div className="flex flex-wrap gap-4 text-sm text-muted-foreground">
+              <span className="flex items-center gap-1">
+                <Clock className="h-4 w-4" />
+                Prep {recipe.prep_time ?? '?'} min • Cook {recipe.cook_time ?? '?'} min
+              </span>
+              <span className="flex items-center gap-1">
+                <Users className="h-4 w-4" />
+                Serves {recipe.servings ?? '?'}
+              </span>
+              {recipe.cuisine && <span>{recipe.cuisine}</span>}
+            </div>
+
+            {recipe.tags.length > 0 && (
+              <div className="flex flex-wrap gap-1">
+                {recipe.tags.map(tag => (
+                  <Badge key={tag} variant="secondary" className="text-xs">{tag}</Badge>
+                ))}
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div>
+                <h4 className="font-semibold mb-2">Ingredients ({recipe.ingredients.length})</h4>
+                <ul className="space-y-1 text-sm">
+                  {recipe.ingredients.map((ingredient, index) => (
+                    <li key={index}>
+                      {ingredient.group && (index === 0 || recipe.ingredients[index - 1].group !== ingredient.group) && (
+                        <span className="block font-medium text-muted-foreground mt-2">{ingredient.group}</span>
+                      )}
+                      {formatIngredient(ingredient)}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+              <div>
+                <h4 className="font-semibold mb-2">Instructions ({recipe.instructions.length})</h4>
+                <ol className="space-y-1 text-sm list-decimal pl-5">
+                  {recipe.instructions.map((step, index) => (
+                    <li key={index}>{step}</li>
+                  ))}
+                </ol>
+              </div>
+            </div>
+
+            <div className="flex justify-between gap-2">
+              <Button variant="ghost" onClick={() => setResult(null)} className="gap-1">
+                <ArrowLeft className="h-4 w-4" />
+                Back
+              </Button>
+              <Button
+                onClick={() => {
+                  onImport(recipe)
+                  reset()
+                }}
+              >
+                Continue to edit
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -14,7 +14,9 @@ import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigge
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from './ui/alert-dialog'
 import { Alert, AlertDescription } from './ui/alert'
 import { Skeleton } from './ui/skeleton'
-import { RecipeRatingReview } from './RecipeRatingReview'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from './ui/collapsible'
+import { RecipeDetailDialog, RemixChanges } from './RecipeDetailDialog'
 import { 
   Plus, 
   Clock, 
@@ -31,98 +33,219 @@ import {
   HeartOff,
   Edit,
   Trash2,
-  MoreHorizontal
+  MoreHorizontal,
+  GitFork,
+  FileUp,
+  FileArchive,
+  Link2,
+  Flame,
+  ChevronDown,
+  Images,
+  ChartColumn
 } from 'lucide-react'
 import { ImageWithFallback } from './figma/ImageWithFallback'
-import { OptimizedMediaUpload } from './OptimizedMediaUpload'
-import { OptimizedImage, RecipeCardImage } from './OptimizedImage'
+import { RecipeGalleryEditor, StepMediaEditor } from './RecipeMediaEditor'
+import { RecipeCardImage } from './OptimizedImage'
 import { useNotifications } from './ui/notification'
+import { IngredientEditor } from './IngredientEditor'
+import { DietaryLabelEditor } from './DietaryLabelEditor'
+import { FormulaEditor } from './FormulaEditor'
+import { RecipeAnalyticsSheet } from './RecipeAnalyticsSheet'
+import { RecommendedRecipeGrid } from './RecommendedRecipes'
+import { RecipeDietaryBadges } from './RecipeDietaryBadges'
+import { RecipeFilterPanel, ActiveFilterChips } from './RecipeFilterPanel'
+import { InfiniteScrollTrigger } from './InfiniteScrollTrigger'
+import { CollectionPicker } from './CollectionPicker'
+import { RecipeImportDialog } from './RecipeImportDialog'
+import { useRecipeSearch } from './hooks/useRecipeSearch'
+import { useRecipeDraftAutosave } from './hooks/useRecipeDraftAutosave'
+import { RecipeSort, SORT_OPTIONS, countActiveFilters, effectiveSort, hasActiveSearch } from '../utils/recipes/search'
+import {
+  RecipeIngredient,
+  cleanIngredients,
+  isLegacyIngredientList,
+  normalizeIngredients
+} from '../utils/recipes/ingredients'
+import { normalizeInstructions } from '../utils/recipes/instructions'
+import { ImportedRecipe } from '../utils/recipes/importer'
+import { buildRecipeArchive, downloadFile } from '../utils/recipes/export'
+import { toPrintableRecipe } from '../utils/recipes/print'
+import { RECIPE_SELECT, enrichRecipe } from '../utils/recipes/records'
+import { calculateNutrition, storedNutrition } from '../utils/recipes/nutrition'
+import { analyseDietary, cleanAllergens, cleanDietaryLabels, splitDietaryTags } from '../utils/recipes/dietary'
+import { RecipeMedia, StepMedia, normalizeStepMedia, recipeGallery, remapStepMedia } from '../utils/recipes/media'
+import { RecipeFormula, formulaForIngredients, storedFormula } from '../utils/recipes/formula'
+import {
+  RecipeStatus,
+  STATUS_GROUP_LABELS,
+  STATUS_OPTIONS,
+  fromDateTimeLocal,
+  groupRecipesByStatus,
+  recipeShareLink,
+  recipeStatus,
+  statusLabel,
+  toDateTimeLocal,
+  validateSchedule
+} from '../utils/recipes/lifecycle'
+
+const createEmptyRecipeForm = () => ({
+  title: '',
+  description: '',
+  ingredients: [] as RecipeIngredient[],
+  // Set when the ingredients are a baker's formula
+  formula: null as RecipeFormula | null,
+  instructions: '',
+  prep_time: '',
+  cook_time: '',
+  servings: '',
+  difficulty: 'Easy',
+  cuisine: '',
+  tags: '',
+  allergens: [] as string[],
+  dietary_labels: [] as string[],
+  // Cover, gallery and per-step media
+  image_url: '',
+  media: [] as RecipeMedia[],
+  step_media: [] as StepMedia[],
+  status: 'published' as RecipeStatus,
+  publish_at: ''
+})
+
+type RecipeForm = ReturnType<typeof createEmptyRecipeForm>
+
+const formSteps = (instructions: string) => instructions.split('\n').filter(i => i.trim())
+
+// Row fields shared by create, update and draft autosave. Nutrition and
+// detected allergens are recalculated on every save, keeping the author's
+// manual ingredient matches. Tags that name a diet ("veggie", "GF") become
+// dietary labels.
+const toRecipeData = (form: RecipeForm, nutritionMatches: Record<string, string> = {}) => {
+  const ingredients = cleanIngredients(form.ingredients)
+  const servings = parseInt(form.servings) || 1
+  const { tags, labels } = splitDietaryTags(form.tags.split(',').map(t => t.trim()).filter(t => t))
+  const cover = form.media.find(item => item.url === form.image_url) || form.media[0]
+
+  return {
+    title: form.title,
+    description: form.description,
+    ingredients,
+    formula: form.formula,
+    instructions: formSteps(form.instructions),
+    tags,
+    allergens: cleanAllergens(form.allergens),
+    dietary_labels: cleanDietaryLabels([...form.dietary_labels, ...labels]),
+    detected_allergens: analyseDietary(ingredients).allergens.map(allergen => allergen.id),
+    prep_time: parseInt(form.prep_time) || 0,
+    cook_time: parseInt(form.cook_time) || 0,
+    servings,
+    difficulty: form.difficulty.toLowerCase(),
+    image_url: cover?.url || '',
+    media_type: cover?.type || 'image',
+    image_urls: form.media.map(item => item.url),
+    step_media: form.step_media,
+    nutrition: calculateNutrition(ingredients, servings, nutritionMatches)
+  }
+}
+
+const STATUS_SUCCESS: Record<RecipeStatus, { title: string; message: string }> = {
+  published: { title: 'Recipe Shared! 🍳', message: 'Your recipe has been shared with the community.' },
+  unlisted: { title: 'Recipe Saved', message: 'Your recipe is unlisted. Share its link from My Recipes.' },
+  private: { title: 'Recipe Saved', message: 'Your recipe is private and only visible to you.' },
+  scheduled: { title: 'Recipe Scheduled', message: 'Your recipe will be published automatically at the chosen time.' },
+  draft: { title: 'Draft Saved', message: 'Your draft is waiting in My Recipes.' }
+}
 
 export function RecipeManager() {
   const { user, session } = useAuth()
   const { addRecipe } = useRealtime()
   const { addNotification } = useNotifications()
-  const [recipes, setRecipes] = useState([])
+  const {
+    filters,
+    updateFilters,
+    resetFilters,
+    results: recipes,
+    setResults: setRecipes,
+    facets,
+    total: totalRecipes,
+    loading,
+    loadingMore,
+    hasMore,
+    loadMore,
+    refresh: fetchRecipes
+  } = useRecipeSearch()
+  const [showFilters, setShowFilters] = useState(() => countActiveFilters(filters) > 0)
   const [myRecipes, setMyRecipes] = useState([])
   const [likedRecipes, setLikedRecipes] = useState<Set<string>>(new Set())
-  const [loading, setLoading] = useState(true)
-  const [searchTerm, setSearchTerm] = useState('')
   const [selectedRecipe, setSelectedRecipe] = useState(null)
   const [showCreateDialog, setShowCreateDialog] = useState(false)
+  const [showImportDialog, setShowImportDialog] = useState(false)
   const [showEditDialog, setShowEditDialog] = useState(false)
   const [editingRecipe, setEditingRecipe] = useState(null)
   const [showDeleteDialog, setShowDeleteDialog] = useState(false)
   const [deletingRecipe, setDeletingRecipe] = useState(null)
+  const [analyticsRecipe, setAnalyticsRecipe] = useState<any>(null)
   const [createLoading, setCreateLoading] = useState(false)
   const [editLoading, setEditLoading] = useState(false)
   const [deleteLoading, setDeleteLoading] = useState(false)
   const [error, setError] = useState('')
   const [success, setSuccess] = useState('')
 
-  const [newRecipe, setNewRecipe] = useState({
-    title: '',
-    description: '',
-    ingredients: '',
-    instructions: '',
-    prep_time: '',
-    cook_time: '',
-    servings: '',
-    difficulty: 'Easy',
-    cuisine: '',
-    tags: '',
-    image_url: '',
-    media_type: 'image' as 'image' | 'video'
-  })
+  const [newRecipe, setNewRecipe] = useState(createEmptyRecipeForm())
+  const [ingredientsUpgraded, setIngredientsUpgraded] = useState(false)
+  const [showStepMedia, setShowStepMedia] = useState(false)
+  const draft = useRecipeDraftAutosave(
+    showCreateDialog && newRecipe.title.trim() ? toRecipeData(newRecipe) : null
+  )
 
   useEffect(() => {
-    fetchRecipes()
     if (session) {
       fetchMyRecipes()
       fetchLikedRecipes()
     }
   }, [session])
 
-  const fetchRecipes = async () => {
-    try {
-      const { data, error } = await supabase
+  // Open a recipe shared by link. Unlisted recipes can't be read from the
+  // table, so they come through get_recipe; databases set up before it
+  // existed still read them directly.
+  useEffect(() => {
+    const sharedId = new URLSearchParams(window.location.search).get('recipe')
+    if (!sharedId) return
+
+    const fetchSharedRecipe = async () => {
+      const result = await supabase
+        .rpc('get_recipe', { target_recipe_id: sharedId })
+        .select(RECIPE_SELECT)
+        .maybeSingle()
+
+      if (result.error?.code !== 'PGRST202' && result.error?.code !== '42883') return result
+      return supabase
         .from('recipes')
-        .select(`
-          *,
-          profiles:author_id (name, avatar_url),
-          recipe_likes (id),
-          recipe_ratings (rating)
-        `)
-        .eq('is_public', true)
-        .order('created_at', { ascending: false })
+        .select(RECIPE_SELECT)
+        .eq('id', sharedId)
+        .maybeSingle()
+    }
 
-      if (error) {
-        // Handle missing tables gracefully
-        if (error.code === 'PGRST205' || error.code === '42P01') {
-          console.warn('Recipes table not available. Database setup may be required.')
-          setRecipes([])
+    fetchSharedRecipe()
+      .then(({ data, error }) => {
+        if (error || !data) {
+          if (error) console.error('Error fetching shared recipe:', error)
+          addNotification({
+            title: 'Recipe unavailable',
+            message: 'This recipe link is invalid or the recipe is no longer shared.',
+            type: 'warning'
+          })
           return
         }
-        console.error('Error fetching recipes:', error)
-        return
-      }
-
-      const enrichedRecipes = data?.map(recipe => ({
-        ...recipe,
-        author: recipe.profiles?.name || 'Unknown Chef',
-        author_avatar: recipe.profiles?.avatar_url,
-        likes_count: recipe.recipe_likes?.length || 0,
-        rating_count: recipe.recipe_ratings?.length || 0,
-        average_rating: recipe.recipe_ratings?.length > 0 
-          ? recipe.recipe_ratings.reduce((sum: number, r: any) => sum + r.rating, 0) / recipe.recipe_ratings.length 
-          : 0
-      })) || []
-
-      setRecipes(enrichedRecipes)
-    } catch (error) {
-      console.error('Error fetching recipes:', error)
-      setRecipes([])
-    } finally {
-      setLoading(false)
+        setSelectedRecipe(enrichRecipe(data))
+      })
+  }, [])
+
+  const closeRecipeDetail = () => {
+    setSelectedRecipe(null)
+    const url = new URL(window.location.href)
+    if (url.searchParams.has('recipe')) {
+      url.searchParams.delete('recipe')
+      window.history.replaceState(null, '', url.toString())
     }
   }
 
@@ -132,11 +255,7 @@ export function RecipeManager() {
     try {
       const { data, error } = await supabase
         .from('recipes')
-        .select(`
-          *,
-          recipe_likes (id),
-          recipe_ratings (rating)
-        `)
+        .select('*')
         .eq('author_id', user.id)
         .order('created_at', { ascending: false })
 
@@ -155,11 +274,9 @@ export function RecipeManager() {
         ...recipe,
         author: user.name,
         author_avatar: user.avatar_url,
-        likes_count: recipe.recipe_likes?.length || 0,
-        rating_count: recipe.recipe_ratings?.length || 0,
-        average_rating: recipe.recipe_ratings?.length > 0 
-          ? recipe.recipe_ratings.reduce((sum: number, r: any) => sum + r.rating, 0) / recipe.recipe_ratings.length 
-          : 0
+        likes_count: recipe.like_count || 0,
+        rating_count: recipe.rating_count || 0,
+        average_rating: Number(recipe.average_rating) || 0
       })) || []
 
       setMyRecipes(enrichedRecipes)
@@ -201,51 +318,43 @@ export function RecipeManager() {
     e.preventDefault()
     if (!user) return
 
+    if (cleanIngredients(newRecipe.ingredients).length === 0) {
+      setError('Add at least one ingredient')
+      return
+    }
+
+    const scheduleError = validateSchedule(newRecipe.status, newRecipe.publish_at)
+    if (scheduleError) {
+      setError(scheduleError)
+      return
+    }
+
     setCreateLoading(true)
     setError('')
     setSuccess('')
 
     try {
+      // Finish any pending autosave so the draft row is reused, not duplicated
+      const draftId = await draft.flush()
       const recipeData = {
-        title: newRecipe.title,
-        description: newRecipe.description,
-        ingredients: newRecipe.ingredients.split('\n').filter(i => i.trim()),
-        instructions: newRecipe.instructions.split('\n').filter(i => i.trim()),
-        tags: newRecipe.tags.split(',').map(t => t.trim()).filter(t => t),
-        prep_time: parseInt(newRecipe.prep_time) || 0,
-        cook_time: parseInt(newRecipe.cook_time) || 0,
-        servings: parseInt(newRecipe.servings) || 1,
-        difficulty: newRecipe.difficulty.toLowerCase(),
-        image_url: newRecipe.image_url,
-        media_type: newRecipe.media_type,
-        author_id: user.id,
-        is_public: true
+        ...toRecipeData(newRecipe),
+        status: newRecipe.status,
+        publish_at: fromDateTimeLocal(newRecipe.publish_at),
+        ...(draftId && { id: draftId })
       }
 
       // Use the real-time hook to add recipe (which will handle Supabase insert)
-      await addRecipe(recipeData)
+      const saved = await addRecipe(recipeData)
+      if (!saved) throw new Error('Recipe was not saved')
 
       // Reset form
-      setNewRecipe({
-        title: '',
-        description: '',
-        ingredients: '',
-        instructions: '',
-        prep_time: '',
-        cook_time: '',
-        servings: '',
-        difficulty: 'Easy',
-        cuisine: '',
-        tags: '',
-        image_url: '',
-        media_type: 'image'
-      })
+      setNewRecipe(createEmptyRecipeForm())
+      draft.reset()
       
       setShowCreateDialog(false)
       
       addNotification({
-        title: 'Recipe Shared! 🍳',
-        message: 'Your recipe has been shared with the community.',
+        ...STATUS_SUCCESS[newRecipe.status],
         type: 'success'
       })
 
@@ -266,12 +375,79 @@ export function RecipeManager() {
     }
   }
 
+  const handleExportAll = () => {
+    const archive = buildRecipeArchive(myRecipes.map(toPrintableRecipe), `${user?.name || 'My'} recipes`)
+    downloadFile(`acwhisk-recipes-${new Date().toISOString().slice(0, 10)}.zip`, archive)
+    addNotification({
+      title: 'Export ready',
+      message: `${myRecipes.length} recipes were exported as Markdown, JSON-LD and recipe cards.`,
+      type: 'success'
+    })
+  }
+
+  // Closing the create dialog keeps an autosaved draft in My Recipes and
+  // clears the form so the next recipe starts fresh
+  const handleCreateDialogChange = async (open: boolean) => {
+    setShowCreateDialog(open)
+    if (open) return
+
+    const draftId = await draft.flush()
+    if (!draftId) return
+
+    draft.reset()
+    setNewRecipe(createEmptyRecipeForm())
+    addNotification({
+      title: 'Draft saved',
+      message: 'Your unfinished recipe is under Drafts in My Recipes.',
+      type: 'info'
+    })
+    fetchMyRecipes()
+  }
+
+  const handleCopyLink = async (recipe: any) => {
+    try {
+      await navigator.clipboard.writeText(recipeShareLink(recipe.id))
+      addNotification({
+        title: 'Link copied',
+        message: recipeStatus(recipe) === 'published'
+          ? 'Anyone can open this recipe with the link.'
+          : 'Anyone with this link can view the recipe, even though it is not listed.',
+        type: 'success'
+      })
+    } catch (error) {
+      console.error('Copy link error:', error)
+      addNotification({ title: 'Error', message: 'Could not copy the link.', type: 'error' })
+    }
+  }
+
+  // Prefill the share form with an imported recipe so it can be edited before saving
+  const handleImportedRecipe = (recipe: ImportedRecipe) => {
+    setNewRecipe({
+      ...createEmptyRecipeForm(),
+      title: recipe.title,
+      description: [recipe.description, recipe.source && `Recipe by ${recipe.source}.`].filter(Boolean).join('\n\n'),
+      ingredients: recipe.ingredients,
+      instructions: recipe.instructions.join('\n'),
+      prep_time: recipe.prep_time?.toString() || '',
+      cook_time: recipe.cook_time?.toString() || '',
+      servings: recipe.servings?.toString() || '',
+      cuisine: recipe.cuisine,
+      tags: splitDietaryTags(recipe.tags).tags.join(', '),
+      dietary_labels: splitDietaryTags(recipe.tags).labels
+    })
+    setError('')
+    setSuccess('')
+    setShowImportDialog(false)
+    setShowCreateDialog(true)
+  }
+
   const handleEditRecipe = async (recipe: any) => {
     setEditingRecipe(recipe)
     setNewRecipe({
       title: recipe.title,
       description: recipe.description,
-      ingredients: Array.isArray(recipe.ingredients) ? recipe.ingredients.join('\n') : recipe.ingredients,
+      ingredients: normalizeIngredients(recipe.ingredients),
+      formula: storedFormula(recipe.formula),
       instructions: Array.isArray(recipe.instructions) ? recipe.instructions.join('\n') : recipe.instructions,
       prep_time: recipe.prep_time?.toString() || '',
       cook_time: recipe.cook_time?.toString() || '',
@@ -279,33 +455,110 @@ export function RecipeManager() {
       difficulty: recipe.difficulty || 'Easy',
       cuisine: recipe.cuisine || '',
       tags: Array.isArray(recipe.tags) ? recipe.tags.join(', ') : recipe.tags || '',
+      allergens: cleanAllergens(recipe.allergens),
+      dietary_labels: cleanDietaryLabels(recipe.dietary_labels),
       image_url: recipe.image_url || '',
-      media_type: recipe.media_type || 'image'
+      media: recipeGallery(recipe),
+      step_media: normalizeStepMedia(recipe.step_media),
+      status: recipeStatus(recipe),
+      publish_at: toDateTimeLocal(recipe.publish_at)
     })
+    setIngredientsUpgraded(isLegacyIngredientList(recipe.ingredients))
+    setError('')
     setShowEditDialog(true)
   }
 
+  // Copy a recipe into the current user's private drafts and open it for
+  // editing. changes carries an adapted title and ingredients, e.g. from
+  // substitutions chosen in the detail view.
+  const handleRemixRecipe = async (recipe: any, changes?: RemixChanges) => {
+    if (!user) return
+
+    try {
+      const ingredients = cleanIngredients(changes?.ingredients || normalizeIngredients(recipe.ingredients))
+      const formula = storedFormula(recipe.formula)
+      // Changed ingredients need their allergens and labels worked out again:
+      // confirmed allergens become what the new list contains, and only labels
+      // the new list supports are kept or added for the diets swapped for.
+      // Nutrition is worked out again when the copy is opened.
+      const dietary = changes ? analyseDietary(ingredients) : null
+      const detected = dietary ? dietary.allergens.map(allergen => allergen.id) : recipe.detected_allergens
+      const labels = dietary
+        ? dietary.suggestedLabels.filter(label =>
+          (recipe.dietary_labels || []).includes(label) || (changes?.dietary || []).includes(label)
+        )
+        : recipe.dietary_labels
+
+      const remix = await addRecipe({
+        title: changes?.title || recipe.title,
+        description: recipe.description,
+        ingredients,
+        formula: changes && formula ? formulaForIngredients(formula, ingredients) : recipe.formula,
+        instructions: normalizeInstructions(recipe.instructions),
+        prep_time: recipe.prep_time,
+        cook_time: recipe.cook_time,
+        difficulty: recipe.difficulty,
+        servings: recipe.servings,
+        image_url: recipe.image_url,
+        media_type: recipe.media_type,
+        image_urls: recipe.image_urls,
+        step_media: recipe.step_media,
+        tags: recipe.tags,
+        allergens: changes ? detected : recipe.allergens,
+        dietary_labels: labels,
+        detected_allergens: detected,
+        nutrition: changes ? null : recipe.nutrition,
+        status: 'draft',
+        forked_from: recipe.id
+      })
+
+      if (!remix) throw new Error('Remix was not saved')
+
+      addNotification({
+        title: 'Remix created',
+        message: changes
+          ? `"${changes.title}" is saved as a draft in My Recipes. Check the amounts, allergens and diet labels before you publish it.`
+          : `A draft copy of "${recipe.title}" is in My Recipes. Make it your own!`,
+        type: 'success'
+      })
+
+      await fetchMyRecipes()
+      setSelectedRecipe(null)
+      handleEditRecipe(remix)
+    } catch (error) {
+      console.error('Remix recipe error:', error)
+      addNotification({
+        title: 'Error',
+        message: 'Failed to remix recipe. Please try again.',
+        type: 'error'
+      })
+    }
+  }
+
   const handleUpdateRecipe = async (e: React.FormEvent) => {
     e.preventDefault()
     if (!user || !editingRecipe) return
 
+    if (cleanIngredients(newRecipe.ingredients).length === 0) {
+      setError('Add at least one ingredient')
+      return
+    }
+
+    const scheduleError = validateSchedule(newRecipe.status, newRecipe.publish_at)
+    if (scheduleError) {
+      setError(scheduleError)
+      return
+    }
+
     setEditLoading(true)
     setError('')
     setSuccess('')
 
     try {
       const recipeData = {
-        title: newRecipe.title,
-        description: newRecipe.description,
-        ingredients: newRecipe.ingredients.split('\n').filter(i => i.trim()),
-        instructions: newRecipe.instructions.split('\n').filter(i => i.trim()),
-        tags: newRecipe.tags.split(',').map(t => t.trim()).filter(t => t),
-        prep_time: parseInt(newRecipe.prep_time) || 0,
-        cook_time: parseInt(newRecipe.cook_time) || 0,
-        servings: parseInt(newRecipe.servings) || 1,
-        difficulty: newRecipe.difficulty.toLowerCase(),
-        image_url: newRecipe.image_url,
-        media_type: newRecipe.media_type
+        ...toRecipeData(newRecipe, storedNutrition(editingRecipe.nutrition)?.matches),
+        status: newRecipe.status,
+        publish_at: fromDateTimeLocal(newRecipe.publish_at)
       }
 
       const { error } = await supabase
@@ -317,23 +570,11 @@ export function RecipeManager() {
       if (error) throw error
 
       // Reset form and close dialog
-      setNewRecipe({
-        title: '',
-        description: '',
-        ingredients: '',
-        instructions: '',
-        prep_time: '',
-        cook_time: '',
-        servings: '',
-        difficulty: 'Easy',
-        cuisine: '',
-        tags: '',
-        image_url: '',
-        media_type: 'image'
-      })
+      setNewRecipe(createEmptyRecipeForm())
       
       setShowEditDialog(false)
       setEditingRecipe(null)
+      setIngredientsUpgraded(false)
       
       addNotification({
         title: 'Recipe Updated! ✨',
@@ -469,12 +710,6 @@ export function RecipeManager() {
     }
   }
 
-  const filteredRecipes = recipes.filter(recipe =>
-    recipe.title?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    recipe.description?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    recipe.cuisine?.toLowerCase().includes(searchTerm.toLowerCase())
-  )
-
   const getDifficultyColor = (difficulty: string) => {
     switch (difficulty) {
       case 'Easy':
@@ -490,6 +725,7 @@ export function RecipeManager() {
 
   const RecipeCard = ({ recipe, showActions = false }: { recipe: any, showActions?: boolean }) => {
     const isLiked = likedRecipes.has(recipe.id)
+    const galleryCount = recipeGallery(recipe).length
     
     return (
       <Card className="glass-card hover:shadow-lg transition-all duration-300 group overflow-hidden">
@@ -525,14 +761,32 @@ export function RecipeManager() {
                 </div>
               </div>
             )}
+            {galleryCount > 1 && (
+              <div className="absolute top-3 right-3 glass-card px-2 py-1 rounded-full">
+                <div className="flex items-center gap-1">
+                  <Images className="h-3 w-3" />
+                  <span className="text-xs font-medium">{galleryCount}</span>
+                </div>
+              </div>
+            )}
+            <RecipeDietaryBadges recipe={recipe} className="absolute bottom-3 left-3 right-3" />
           </div>
           <CardContent className="p-4">
             <div className="space-y-3">
               <div className="flex items-start justify-between">
                 <h3 className="font-semibold line-clamp-1 text-lg">{recipe.title}</h3>
-                <Badge className={getDifficultyColor(recipe.difficulty)} variant="secondary">
-                  {recipe.difficulty}
-                </Badge>
+                <div className="flex gap-1">
+                  {recipeStatus(recipe) !== 'published' && (
+                    <Badge variant="outline" className="whitespace-nowrap">
+                      {recipeStatus(recipe) === 'scheduled' && recipe.publish_at
+                        ? `Scheduled · ${new Date(recipe.publish_at).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}`
+                        : statusLabel(recipeStatus(recipe))}
+                    </Badge>
+                  )}
+                  <Badge className={getDifficultyColor(recipe.difficulty)} variant="secondary">
+                    {recipe.difficulty}
+                  </Badge>
+                </div>
               </div>
               
               <p className="text-sm text-muted-foreground line-clamp-2 leading-relaxed">
@@ -548,6 +802,12 @@ export function RecipeManager() {
                   <Users className="h-3 w-3" />
                   {recipe.servings} servings
                 </div>
+                {storedNutrition(recipe.nutrition) && (
+                  <div className="flex items-center gap-1">
+                    <Flame className="h-3 w-3" />
+                    {storedNutrition(recipe.nutrition)!.per_serving.calories} kcal
+                  </div>
+                )}
                 <div className="flex items-center gap-1">
                   <MessageCircle className="h-3 w-3" />
                   {recipe.rating_count || 0} reviews
@@ -579,6 +839,42 @@ export function RecipeManager() {
           </div>
           
           <div className="flex items-center gap-2">
+            <CollectionPicker recipe={recipe} compact />
+
+            {/* Views and engagement for the author's own recipes */}
+            {showActions && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={(e) => {
+                  e.stopPropagation()
+                  setAnalyticsRecipe(recipe)
+                }}
+                className="h-8 px-2 text-muted-foreground hover:text-primary"
+                title="Recipe analytics"
+              >
+                <ChartColumn className="h-4 w-4" />
+                <span className="ml-1 text-xs">Stats</span>
+              </Button>
+            )}
+
+            {/* Remix into the current user's drafts */}
+            {user && user.id !== recipe.author_id && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={(e) => {
+                  e.stopPropagation()
+                  handleRemixRecipe(recipe)
+                }}
+                className="h-8 px-2 text-muted-foreground hover:text-primary"
+                title="Remix this recipe"
+              >
+                <GitFork className="h-4 w-4" />
+                <span className="ml-1 text-xs">Remix</span>
+              </Button>
+            )}
+
             {/* Like button for other users' recipes */}
             {user && user.id !== recipe.author_id && (
               <Button
@@ -627,6 +923,18 @@ export function RecipeManager() {
                     <Edit className="h-4 w-4 mr-2" />
                     Edit Recipe
                   </DropdownMenuItem>
+                  {['published', 'unlisted'].includes(recipeStatus(recipe)) && (
+                    <DropdownMenuItem
+                      onClick={(e) => {
+                        e.stopPropagation()
+                        handleCopyLink(recipe)
+                      }}
+                      className="cursor-pointer hover:bg-white/10"
+                    >
+                      <Link2 className="h-4 w-4 mr-2" />
+                      Copy Link
+                    </DropdownMenuItem>
+                  )}
                   <DropdownMenuSeparator className="bg-white/10" />
                   <DropdownMenuItem
                     onClick={(e) => {
@@ -656,27 +964,9 @@ export function RecipeManager() {
     )
   }
 
-  if (loading) {
-    return (
-      <div className="space-y-6">
-        <Skeleton className="h-8 w-48" />
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {[...Array(6)].map((_, i) => (
-            <Card key={i}>
-              <Skeleton className="h-48 w-full rounded-t-lg" />
-              <CardContent className="p-4 space-y-2">
-                <Skeleton className="h-4 w-3/4" />
-                <Skeleton className="h-3 w-full" />
-                <Skeleton className="h-3 w-2/3" />
-              </CardContent>
-            </Card>
-          ))}
-        </div>
-      </div>
-    )
-  }
-
-  const CreateRecipeForm = ({ onSubmit, loading }: { onSubmit: (e: React.FormEvent) => void, loading: boolean }) => (
+  // Rendered through a plain function call rather than as <Component /> so the
+  // form keeps its identity (and input focus) across re-renders
+  const renderRecipeForm = (onSubmit: (e: React.FormEvent) => void, loading: boolean) => (
     <form onSubmit={onSubmit} className="space-y-4">
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
         <div className="space-y-2">
@@ -745,14 +1035,15 @@ export function RecipeManager() {
       </div>
 
       <div className="space-y-2">
-        <Label htmlFor="ingredients">Ingredients * (one per line)</Label>
-        <Textarea
-          id="ingredients"
+        <Label>Ingredients *</Label>
+        <IngredientEditor
           value={newRecipe.ingredients}
-          onChange={(e) => setNewRecipe(prev => ({ ...prev, ingredients: e.target.value }))}
-          placeholder="1 cup pasta&#10;2 eggs&#10;1/2 cup parmesan cheese..."
-          rows={6}
-          required
+          onChange={(ingredients) => setNewRecipe(prev => ({ ...prev, ingredients }))}
+        />
+        <FormulaEditor
+          ingredients={newRecipe.ingredients}
+          formula={newRecipe.formula}
+          onChange={(updates) => setNewRecipe(prev => ({ ...prev, ...updates }))}
         />
       </div>
 
@@ -761,11 +1052,43 @@ export function RecipeManager() {
         <Textarea
           id="instructions"
           value={newRecipe.instructions}
-          onChange={(e) => setNewRecipe(prev => ({ ...prev, instructions: e.target.value }))}
+          onChange={(e) => {
+            const instructions = e.target.value
+            setNewRecipe(prev => ({
+              ...prev,
+              instructions,
+              step_media: remapStepMedia(prev.step_media, formSteps(prev.instructions), formSteps(instructions))
+            }))
+          }}
           placeholder="Boil water in a large pot&#10;Cook pasta until al dente&#10;Mix eggs and cheese..."
           rows={8}
           required
         />
+        <Collapsible open={showStepMedia} onOpenChange={setShowStepMedia}>
+          <CollapsibleTrigger asChild>
+            <Button type="button" variant="ghost" size="sm" className="gap-1 px-2">
+              <ChevronDown className={`h-3 w-3 transition-transform ${showStepMedia ? 'rotate-180' : ''}`} />
+              Step photos and videos{newRecipe.step_media.length > 0 && ` (${newRecipe.step_media.length})`}
+            </Button>
+          </CollapsibleTrigger>
+          <CollapsibleContent className="pt-2">
+            <StepMediaEditor
+              steps={formSteps(newRecipe.instructions)}
+              value={newRecipe.step_media}
+              onChange={(step_media) => setNewRecipe(prev => ({ ...prev, step_media }))}
+            />
+          </CollapsibleContent>
+        </Collapsible>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Allergens and diet</Label>
+        <DietaryLabelEditor
+          ingredients={newRecipe.ingredients}
+          allergens={newRecipe.allergens}
+          dietaryLabels={newRecipe.dietary_labels}
+          onChange={(updates) => setNewRecipe(prev => ({ ...prev, ...updates }))}
+        />
       </div>
 
       <div className="space-y-2">
@@ -792,37 +1115,70 @@ export function RecipeManager() {
         </select>
       </div>
 
-      <OptimizedMediaUpload
-        onMediaChange={(url, mediaType) => setNewRecipe(prev => ({ 
-          ...prev, 
-          image_url: url,
-          media_type: mediaType
-        }))}
-        currentMedia={newRecipe.image_url}
-        currentMediaType={newRecipe.media_type}
-        label="Recipe Media (Auto-Optimized)"
-        bucket="recipes"
-        allowVideo={true}
-        allowImage={true}
-        enableOptimization={true}
-        targetImageWidth={1200}
-        compressionQuality={0.85}
-        maxSizeMB={5}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="status">Visibility</Label>
+          <select
+            id="status"
+            value={newRecipe.status}
+            onChange={(e) => setNewRecipe(prev => ({ ...prev, status: e.target.value as RecipeStatus }))}
+            className="flex h-10 w-full rounded-md border border-input bg-input-background px-3 py-2 text-sm text-foreground ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+          >
+            {STATUS_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          <p className="text-xs text-muted-foreground">
+            {STATUS_OPTIONS.find(option => option.value === newRecipe.status)?.description}
+          </p>
+        </div>
+        {newRecipe.status === 'scheduled' && (
+          <div className="space-y-2">
+            <Label htmlFor="publish_at">Publish at</Label>
+            <Input
+              id="publish_at"
+              type="datetime-local"
+              value={newRecipe.publish_at}
+              min={toDateTimeLocal(new Date().toISOString())}
+              onChange={(e) => setNewRecipe(prev => ({ ...prev, publish_at: e.target.value }))}
+              required
+            />
+          </div>
+        )}
+      </div>
+
+      <RecipeGalleryEditor
+        media={newRecipe.media}
+        cover={newRecipe.image_url}
+        onChange={({ media, cover }) => setNewRecipe(prev => ({ ...prev, media, image_url: cover }))}
       />
 
-      <div className="flex justify-end gap-2">
+      <div className="flex items-center justify-end gap-2">
+        {!editingRecipe && draft.state !== 'idle' && (
+          <span className="mr-auto text-xs text-muted-foreground">
+            {draft.state === 'saving' && 'Saving draft...'}
+            {draft.state === 'saved' && draft.savedAt && `Draft saved at ${draft.savedAt.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`}
+            {draft.state === 'error' && 'Draft could not be saved'}
+          </span>
+        )}
         <Button 
           type="button" 
           variant="outline" 
           onClick={() => {
-            setShowCreateDialog(false)
+            if (showCreateDialog) handleCreateDialogChange(false)
             setShowEditDialog(false)
           }}
         >
           Cancel
         </Button>
         <Button type="submit" disabled={loading}>
-          {loading ? (editingRecipe ? 'Updating...' : 'Creating...') : (editingRecipe ? 'Update Recipe' : 'Share Recipe')}
+          {loading
+            ? (editingRecipe ? 'Updating...' : 'Saving...')
+            : editingRecipe
+              ? 'Update Recipe'
+              : newRecipe.status === 'published'
+                ? 'Share Recipe'
+                : newRecipe.status === 'scheduled' ? 'Schedule Recipe' : 'Save Recipe'}
         </Button>
       </div>
     </form>
@@ -838,66 +1194,118 @@ export function RecipeManager() {
         </div>
         
         {session && (
-          <Dialog open={showCreateDialog} onOpenChange={setShowCreateDialog}>
-            <DialogTrigger asChild>
-              <Button className="gap-2">
-                <Plus className="h-4 w-4" />
-                Share Recipe
-              </Button>
-            </DialogTrigger>
-            <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto glass-modal">
-              <DialogHeader>
-                <DialogTitle>Share Your Recipe</DialogTitle>
-                <DialogDescription>
-                  Share your culinary creation with the ACWhisk community
-                </DialogDescription>
-              </DialogHeader>
-              
-              {(error || success) && (
-                <Alert className={success ? 'border-green-200 bg-green-50' : ''}>
-                  <AlertDescription className={success ? 'text-green-800' : ''}>
-                    {error || success}
-                  </AlertDescription>
-                </Alert>
-              )}
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => setShowImportDialog(true)} className="gap-2">
+              <FileUp className="h-4 w-4" />
+              Import
+            </Button>
+            <Dialog open={showCreateDialog} onOpenChange={handleCreateDialogChange}>
+              <DialogTrigger asChild>
+                <Button className="gap-2">
+                  <Plus className="h-4 w-4" />
+                  Share Recipe
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto glass-modal">
+                <DialogHeader>
+                  <DialogTitle>Share Your Recipe</DialogTitle>
+                  <DialogDescription>
+                    Share your culinary creation with the ACWhisk community
+                  </DialogDescription>
+                </DialogHeader>
+                
+                {(error || success) && (
+                  <Alert className={success ? 'border-green-200 bg-green-50' : ''}>
+                    <AlertDescription className={success ? 'text-green-800' : ''}>
+                      {error || success}
+                    </AlertDescription>
+                  </Alert>
+                )}
 
-              <CreateRecipeForm onSubmit={handleCreateRecipe} loading={createLoading} />
-            </DialogContent>
-          </Dialog>
+                {renderRecipeForm(handleCreateRecipe, createLoading)}
+              </DialogContent>
+            </Dialog>
+          </div>
         )}
       </div>
 
       {/* Search and Filter */}
-      <div className="flex flex-col sm:flex-row gap-4">
-        <div className="relative flex-1">
-          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-          <Input
-            placeholder="Search recipes, cuisine, ingredients..."
-            value={searchTerm}
-            onChange={(e) => setSearchTerm(e.target.value)}
-            className="pl-10"
-          />
+      <div className="space-y-3">
+        <div className="flex flex-col sm:flex-row gap-4">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Search recipes, tags, ingredients..."
+              value={filters.query}
+              onChange={(e) => updateFilters({ query: e.target.value })}
+              className="pl-10"
+            />
+          </div>
+          <Select value={effectiveSort(filters)} onValueChange={(value) => updateFilters({ sort: value as RecipeSort })}>
+            <SelectTrigger className="glass-input sm:w-40">
+              <SelectValue placeholder="Sort by" />
+            </SelectTrigger>
+            <SelectContent className="glass-card border-glass-border">
+              {SORT_OPTIONS.filter(option => option.value !== 'relevance' || filters.query.trim()).map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            variant={showFilters ? 'default' : 'outline'}
+            className="gap-2"
+            onClick={() => setShowFilters(prev => !prev)}
+          >
+            <Filter className="h-4 w-4" />
+            Filter
+            {countActiveFilters(filters) > 0 && (
+              <Badge variant="secondary" className="ml-1 h-5 px-1.5">
+                {countActiveFilters(filters)}
+              </Badge>
+            )}
+          </Button>
         </div>
-        <Button variant="outline" className="gap-2">
-          <Filter className="h-4 w-4" />
-          Filter
-        </Button>
+
+        {showFilters ? (
+          <RecipeFilterPanel
+            filters={filters}
+            facets={facets}
+            onChange={updateFilters}
+            onReset={resetFilters}
+          />
+        ) : (
+          <ActiveFilterChips filters={filters} onChange={updateFilters} />
+        )}
       </div>
 
       {/* Content Tabs */}
       <Tabs defaultValue="all" className="space-y-6">
         <TabsList>
-          <TabsTrigger value="all">All Recipes ({filteredRecipes.length})</TabsTrigger>
+          <TabsTrigger value="all">All Recipes ({totalRecipes})</TabsTrigger>
+          {session && <TabsTrigger value="foryou">For You</TabsTrigger>}
           {session && <TabsTrigger value="mine">My Recipes ({myRecipes.length})</TabsTrigger>}
         </TabsList>
 
         <TabsContent value="all" className="space-y-6">
-          {filteredRecipes.length === 0 ? (
+          {loading && recipes.length === 0 ? (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+              {[...Array(6)].map((_, i) => (
+                <Card key={i}>
+                  <Skeleton className="h-48 w-full rounded-t-lg" />
+                  <CardContent className="p-4 space-y-2">
+                    <Skeleton className="h-4 w-3/4" />
+                    <Skeleton className="h-3 w-full" />
+                    <Skeleton className="h-3 w-2/3" />
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          ) : recipes.length === 0 ? (
             <div className="text-center py-12">
               <ChefHat className="h-16 w-16 mx-auto text-muted-foreground mb-4" />
               <h3 className="text-lg font-semibold mb-2">No recipes found</h3>
               <p className="text-muted-foreground mb-4">
-                {searchTerm ? 'Try adjusting your search terms' : 'Be the first to share a recipe!'}
+                {hasActiveSearch(filters) ? 'Try adjusting your search terms or filters' : 'Be the first to share a recipe!'}
               </p>
               {session && (
                 <Button onClick={() => setShowCreateDialog(true)}>
@@ -906,14 +1314,23 @@ export function RecipeManager() {
               )}
             </div>
           ) : (
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-              {filteredRecipes.map((recipe) => (
-                <RecipeCard key={recipe.id} recipe={recipe} />
-              ))}
-            </div>
+            <>
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                {recipes.map((recipe) => (
+                  <RecipeCard key={recipe.id} recipe={recipe} />
+                ))}
+              </div>
+              <InfiniteScrollTrigger hasMore={hasMore} loading={loadingMore} onLoadMore={loadMore} />
+            </>
           )}
         </TabsContent>
 
+        {session && (
+          <TabsContent value="foryou" className="space-y-6">
+            <RecommendedRecipeGrid renderRecipe={(recipe) => <RecipeCard recipe={recipe} />} />
+          </TabsContent>
+        )}
+
         {session && (
           <TabsContent value="mine" className="space-y-6">
             {myRecipes.length === 0 ? (
@@ -928,11 +1345,27 @@ export function RecipeManager() {
                 </Button>
               </div>
             ) : (
-              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-                {myRecipes.map((recipe) => (
-                  <RecipeCard key={recipe.id} recipe={recipe} showActions />
+              <>
+                <div className="flex justify-end">
+                  <Button variant="outline" size="sm" onClick={handleExportAll} className="gap-2">
+                    <FileArchive className="h-4 w-4" />
+                    Export all (.zip)
+                  </Button>
+                </div>
+                {groupRecipesByStatus(myRecipes).map(group => (
+                  <section key={group.status} className="space-y-3">
+                    <h2 className="text-lg font-semibold">
+                      {STATUS_GROUP_LABELS[group.status]}
+                      <span className="ml-2 text-sm font-normal text-muted-foreground">{group.recipes.length}</span>
+                    </h2>
+                    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                      {group.recipes.map((recipe: any) => (
+                        <RecipeCard key={recipe.id} recipe={recipe} showActions />
+                      ))}
+                    </div>
+                  </section>
                 ))}
-              </div>
+              </>
             )}
           </TabsContent>
         )}
@@ -956,7 +1389,15 @@ export function RecipeManager() {
             </Alert>
           )}
 
-          <CreateRecipeForm onSubmit={handleUpdateRecipe} loading={editLoading} />
+          {ingredientsUpgraded && (
+            <Alert>
+              <AlertDescription>
+                This recipe used plain-text ingredients. They have been converted into structured rows below; review them and save to upgrade the recipe.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {renderRecipeForm(handleUpdateRecipe, editLoading)}
         </DialogContent>
       </Dialog>
 
@@ -982,115 +1423,30 @@ export function RecipeManager() {
         </AlertDialogContent>
       </AlertDialog>
 
+      {/* Import Dialog */}
+      <RecipeImportDialog
+        open={showImportDialog}
+        onOpenChange={setShowImportDialog}
+        onImport={handleImportedRecipe}
+      />
+
       {/* Recipe Detail Dialog */}
       {selectedRecipe && (
-        <Dialog open={!!selectedRecipe} onOpenChange={() => setSelectedRecipe(null)}>
-          <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto glass-modal">
-            <DialogHeader>
-              <DialogTitle className="text-2xl">{selectedRecipe.title}</DialogTitle>
-              <DialogDescription>
-                by {selectedRecipe.author} • {selectedRecipe.difficulty} • 
-                {(selectedRecipe.prep_time || 0) + (selectedRecipe.cook_time || 0)} minutes
-              </DialogDescription>
-            </DialogHeader>
-            
-            <div className="space-y-6">
-              {/* Recipe Image/Video */}
-              {selectedRecipe.image_url && (
-                <div className="aspect-video w-full rounded-lg overflow-hidden">
-                  {selectedRecipe.media_type === 'video' ? (
-                    <video
-                      src={selectedRecipe.image_url}
-                      controls
-                      className="w-full h-full object-cover"
-                    />
-                  ) : (
-                    <OptimizedImage
-                      src={selectedRecipe.image_url}
-                      alt={selectedRecipe.title}
-                      className="w-full h-full object-cover"
-                    />
-                  )}
-                </div>
-              )}
-
-              {/* Recipe Info */}
-              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                <div className="text-center p-4 glass-card rounded-lg">
-                  <Clock className="h-6 w-6 mx-auto mb-2 text-primary" />
-                  <p className="text-sm text-muted-foreground">Prep Time</p>
-                  <p className="font-semibold">{selectedRecipe.prep_time || 0} min</p>
-                </div>
-                <div className="text-center p-4 glass-card rounded-lg">
-                  <ChefHat className="h-6 w-6 mx-auto mb-2 text-primary" />
-                  <p className="text-sm text-muted-foreground">Cook Time</p>
-                  <p className="font-semibold">{selectedRecipe.cook_time || 0} min</p>
-                </div>
-                <div className="text-center p-4 glass-card rounded-lg">
-                  <Users className="h-6 w-6 mx-auto mb-2 text-primary" />
-                  <p className="text-sm text-muted-foreground">Servings</p>
-                  <p className="font-semibold">{selectedRecipe.servings || 1}</p>
-                </div>
-              </div>
-
-              {/* Description */}
-              <div>
-                <h3 className="text-lg font-semibold mb-2">Description</h3>
-                <p className="text-muted-foreground">{selectedRecipe.description}</p>
-              </div>
-
-              {/* Tags */}
-              {selectedRecipe.tags && selectedRecipe.tags.length > 0 && (
-                <div>
-                  <h3 className="text-lg font-semibold mb-2">Tags</h3>
-                  <div className="flex flex-wrap gap-2">
-                    {selectedRecipe.tags.map((tag: string, index: number) => (
-                      <Badge key={index} variant="outline">
-                        {tag}
-                      </Badge>
-                    ))}
-                  </div>
-                </div>
-              )}
-
-              {/* Ingredients */}
-              <div>
-                <h3 className="text-lg font-semibold mb-3">Ingredients</h3>
-                <ul className="space-y-2">
-                  {(Array.isArray(selectedRecipe.ingredients) ? selectedRecipe.ingredients : [selectedRecipe.ingredients]).map((ingredient: string, index: number) => (
-                    <li key={index} className="flex items-start gap-2">
-                      <span className="w-2 h-2 bg-primary rounded-full mt-2 flex-shrink-0" />
-                      <span>{ingredient}</span>
-                    </li>
-                  ))}
-                </ul>
-              </div>
-
-              {/* Instructions */}
-              <div>
-                <h3 className="text-lg font-semibold mb-3">Instructions</h3>
-                <ol className="space-y-3">
-                  {(Array.isArray(selectedRecipe.instructions) ? selectedRecipe.instructions : [selectedRecipe.instructions]).map((instruction: string, index: number) => (
-                    <li key={index} className="flex gap-3">
-                      <span className="flex-shrink-0 w-6 h-6 bg-primary text-primary-foreground rounded-full flex items-center justify-center text-sm font-medium">
-                        {index + 1}
-                      </span>
-                      <span>{instruction}</span>
-                    </li>
-                  ))}
-                </ol>
-              </div>
-
-              {/* Rating and Reviews */}
-              <RecipeRatingReview 
-                recipeId={selectedRecipe.id} 
-                currentUserId={user?.id} 
-                recipeAuthorId={selectedRecipe.author_id}
-              />
-            </div>
-          </DialogContent>
-        </Dialog>
+        <RecipeDetailDialog
+          key={selectedRecipe.id}
+          recipe={selectedRecipe}
+          onClose={closeRecipeDetail}
+          onOpenRecipe={setSelectedRecipe}
+          onRemix={user ? handleRemixRecipe : undefined}
+          onRecipeUpdated={(updated) => {
+            setSelectedRecipe(prev => prev && { ...prev, ...updated })
+            fetchRecipes()
+            fetchMyRecipes()
+          }}
+        />
       )}
+
+      <RecipeAnalyticsSheet recipe={analyticsRecipe} onClose={() => setAnalyticsRecipe(null)} />
     </div>
   )
 }
\ No newline at end of file
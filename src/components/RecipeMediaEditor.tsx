@@ -0,0 +1,204 @@
+import React, { useState } from 'react'
+import { Button } from './ui/button'
+import { Badge } from './ui/badge'
+import { Label } from './ui/label'
+import { OptimizedMediaUpload } from './OptimizedMediaUpload'
+import { RecipeCardImage } from './OptimizedImage'
+import { ChevronLeft, ChevronRight, ImagePlus, Play, Star, X } from 'lucide-react'
+import { MediaType, RecipeMedia, StepMedia, mediaForStep } from '../utils/recipes/media'
+import { moveItem } from '../utils/recipes/collections'
+
+function MediaThumbnail({ media, className = '' }: { media: { url: string; type: MediaType }; className?: string }) {
+  return (
+    <div className={`relative bg-accent overflow-hidden rounded-md ${className}`}>
+      {media.type === 'video' ? (
+        <>
+          <video src={media.url} className="w-full h-full object-cover" muted />
+          <Play className="absolute inset-0 m-auto h-6 w-6 text-white drop-shadow" />
+        </>
+      ) : (
+        <RecipeCardImage src={media.url} alt="" className="w-full h-full object-cover" />
+      )}
+    </div>
+  )
+}
+
+interface RecipeGalleryEditorProps {
+  media: RecipeMedia[]
+  cover: string
+  onChange: (updates: { media: RecipeMedia[]; cover: string }) => void
+}
+
+// Photos and videos for the recipe gallery, in display order. The cover is
+// what cards show; it defaults to the first item.
+export function RecipeGalleryEditor({ media, cover, onChange }: RecipeGalleryEditorProps) {
+  // Remounting the uploader clears it after each item is added
+  const [uploadKey, setUploadKey] = useState(0)
+
+  const addMedia = (url: string, type: MediaType) => {
+    if (!url || media.some(item => item.url === url)) return
+    onChange({ media: [...media, { url, type }], cover: cover || url })
+    setUploadKey(key => key + 1)
+  }
+
+  const removeMedia = (url: string) => {
+    const next = media.filter(item => item.url !== url)
+    onChange({ media: next, cover: cover === url ? next[0]?.url || '' : cover })
+  }
+
+  return (
+    <div className="space-y-3">
+      <Label>Recipe photos and videos</Label>
+      {media.length > 0 && (
+        <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-3">
+          {media.map((item, index) => (
+            <div key={item.url} className="space-y-1">
+              <div className="relative">
+                <MediaThumbnail media={item} className="aspect-video" />
+                {item.url === cover && (
+                  <Badge className="absolute top-1 left-1 gap-1">
+                    <Star className="h-3 w-3 fill-current" />
+                    Cover
+                  </Badge>
+                )}
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="secondary"
+                  className="absolute top-1 right-1 h-6 w-6 p-0"
+                  onClick={() => removeMedia(item.url)}
+                  aria-label="Remove media"
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              </div>
+              <div className="flex items-center justify-between">
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="ghost"
+                  className="h-7 w-7 p-0"
+                  disabled={index === 0}
+                  onClick={() => onChange({ media: moveItem(media, index, index - 1), cover })}
+                  aria-label="Move earlier"
+                >
+                  <ChevronLeft className="h-4 w-4" />
+                </Button>
+                {item.url !== cover && (
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="ghost"
+                    className="h-7 px-2 text-xs"
+                    onClick={() => onChange({ media, cover: item.url })}
+                  >
+                    Make cover
+                  </Button>
+                )}
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="ghost"
+                  className="h-7 w-7 p-0"
+                  disabled={index === media.length - 1}
+                  onClick={() => onChange({ media: moveItem(media, index, index + 1), cover })}
+                  aria-label="Move later"
+                >
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+      <OptimizedMediaUpload
+        key={uploadKey}
+        onMediaChange={addMedia}
+        label={media.length > 0 ? 'Add another photo or video' : 'Add a photo or video'}
+        bucket="recipes"
+        allowVideo={true}
+        allowImage={true}
+        enableOptimization={true}
+        targetImageWidth={1200}
+        compressionQuality={0.85}
+        maxSizeMB={5}
+      />
+    </div>
+  )
+}
+
+interface StepMediaEditorProps {
+  steps: string[]
+  value: StepMedia[]
+  onChange: (stepMedia: StepMedia[]) => void
+}
+
+// One optional technique photo or video per instruction step
+export function StepMediaEditor({ steps, value, onChange }: StepMediaEditorProps) {
+  const [activeStep, setActiveStep] = useState<number | null>(null)
+
+  const setStepMedia = (step: number, url: string, type: MediaType) => {
+    const others = value.filter(entry => entry.step !== step)
+    onChange(url ? [...others, { step, url, type }].sort((a, b) => a.step - b.step) : others)
+    setActiveStep(null)
+  }
+
+  if (steps.length === 0) {
+    return <p className="text-sm text-muted-foreground">Write the instructions first, then add photos to individual steps.</p>
+  }
+
+  return (
+    <ol className="space-y-2">
+      {steps.map((step, index) => {
+        const media = mediaForStep(value, index)
+        return (
+          <li key={index} className="rounded-md border border-input p-2 space-y-2">
+            <div className="flex items-center gap-3">
+              <span className="flex-shrink-0 w-6 h-6 bg-primary text-primary-foreground rounded-full flex items-center justify-center text-xs font-medium">
+                {index + 1}
+              </span>
+              <p className="flex-1 min-w-0 text-sm truncate">{step}</p>
+              {media && <MediaThumbnail media={media} className="w-16 h-10 flex-shrink-0" />}
+              {media ? (
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="ghost"
+                  className="h-7 w-7 p-0"
+                  onClick={() => setStepMedia(index, '', 'image')}
+                  aria-label={`Remove media from step ${index + 1}`}
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              ) : (
+                <Button
+                  type="button"
+                  size="sm"
+                  variant={activeStep === index ? 'secondary' : 'ghost'}
+                  className="h-7 gap-1 text-xs"
+                  onClick={() => setActiveStep(activeStep === index ? null : index)}
+                >
+                  <ImagePlus className="h-3 w-3" />
+                  Add
+                </Button>
+              )}
+            </div>
+            {activeStep === index && !media && (
+              <OptimizedMediaUpload
+                onMediaChange={(url, type) => setStepMedia(index, url, type)}
+                label={`Media for step ${index + 1}`}
+                bucket="recipes"
+                allowVideo={true}
+                allowImage={true}
+                enableOptimization={true}
+                targetImageWidth={1200}
+                compressionQuality={0.85}
+                maxSizeMB={5}
+              />
+            )}
+          </li>
+        )
+      })}
+    </ol>
+  )
+}
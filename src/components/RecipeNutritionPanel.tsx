@@ -0,0 +1,207 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react'
+import { Button } from './ui/button'
+import { Badge } from './ui/badge'
+import { Select, SelectContent, SelectItem, SelectSeparator, SelectTrigger, SelectValue } from './ui/select'
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from './ui/collapsible'
+import { useAuth } from './AuthContext'
+import { useNotifications } from './ui/notification'
+import { supabase } from '../utils/supabase/client'
+import { Activity, ChevronDown } from 'lucide-react'
+import { RecipeIngredient } from '../utils/recipes/ingredients'
+import { FOODS } from '../utils/recipes/foods'
+import {
+  EXCLUDED_FOOD,
+  NUTRIENTS,
+  RecipeNutrition,
+  analyseIngredients,
+  calculateNutrition,
+  formatNutrient,
+  isSameNutrition,
+  storedNutrition
+} from '../utils/recipes/nutrition'
+
+interface RecipeNutritionPanelProps {
+  recipe: any
+  // The recipe's own ingredients, before any scaling
+  ingredients: RecipeIngredient[]
+  onRecipeUpdated?: (recipe: any) => void
+}
+
+const AUTOMATIC_MATCH = 'auto'
+
+const FOOD_OPTIONS = [...FOODS].sort((a, b) => a.name.localeCompare(b.name))
+
+const STATUS_LABELS = {
+  unmatched: 'Not recognised',
+  excluded: 'Left out',
+  no_amount: 'No amount',
+  no_weight: 'Unit can\'t be weighed'
+}
+
+export function RecipeNutritionPanel({ recipe, ingredients, onRecipeUpdated }: RecipeNutritionPanelProps) {
+  const { user } = useAuth()
+  const { addNotification } = useNotifications()
+  const isAuthor = !!user && user.id === recipe.author_id
+
+  const stored = storedNutrition(recipe.nutrition)
+  const [matches, setMatches] = useState<Record<string, string>>(stored?.matches || {})
+  const [view, setView] = useState<'serving' | '100g'>('serving')
+  const [showMatches, setShowMatches] = useState(false)
+  const attemptedRef = useRef<string | null>(null)
+
+  const servings = recipe.servings || 1
+  const nutrition = useMemo(() => calculateNutrition(ingredients, servings, matches), [ingredients, servings, matches])
+  const analysis = useMemo(() => analyseIngredients(ingredients, matches), [ingredients, matches])
+
+  const saveNutrition = async (next: RecipeNutrition) => {
+    const { error } = await supabase
+      .from('recipes')
+      .update({ nutrition: next })
+      .eq('id', recipe.id)
+      .eq('author_id', user!.id)
+    if (error) throw error
+  }
+
+  // Keep the stored estimate in step for the author, so search sees recipes
+  // saved before nutrition existed, restored revisions and dataset updates
+  useEffect(() => {
+    if (!isAuthor || ingredients.length === 0 || isSameNutrition(nutrition, stored)) return
+    const snapshot = JSON.stringify(nutrition)
+    if (attemptedRef.current === snapshot) return
+    attemptedRef.current = snapshot
+
+    saveNutrition(nutrition).catch(error => {
+      console.error('Error saving recipe nutrition:', error)
+    })
+  }, [isAuthor, nutrition])
+
+  const handleMatchChange = async (key: string, value: string) => {
+    const nextMatches = { ...matches }
+    if (value === AUTOMATIC_MATCH) delete nextMatches[key]
+    else nextMatches[key] = value
+    setMatches(nextMatches)
+
+    const next = calculateNutrition(ingredients, servings, nextMatches)
+    attemptedRef.current = JSON.stringify(next)
+    try {
+      await saveNutrition(next)
+      onRecipeUpdated?.({ nutrition: next })
+    } catch (error) {
+      console.error('Error saving ingredient match:', error)
+      addNotification({
+        title: 'Error',
+        message: 'Could not save the ingredient match. Please try again.',
+        type: 'error'
+      })
+    }
+  }
+
+  if (ingredients.length === 0) return null
+
+  const values = view === 'serving' ? nutrition.per_serving : nutrition.per_100g
+  const counted = analysis.filter(entry => entry.status === 'matched').length
+  const problems = analysis.filter(entry => entry.status === 'unmatched' || entry.status === 'no_weight')
+
+  return (
+    <div className="p-4 glass-card rounded-lg space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="font-semibold flex items-center gap-2">
+          <Activity className="h-4 w-4" />
+          Nutrition
+        </h3>
+        <div className="flex gap-1">
+          <Button
+            variant={view === 'serving' ? 'default' : 'outline'}
+            size="sm"
+            className="h-8 px-3 text-xs"
+            onClick={() => setView('serving')}
+          >
+            Per serving
+          </Button>
+          <Button
+            variant={view === '100g' ? 'default' : 'outline'}
+            size="sm"
+            className="h-8 px-3 text-xs"
+            onClick={() => setView('100g')}
+            disabled={!nutrition.per_100g}
+          >
+            Per 100 g
+          </Button>
+        </div>
+      </div>
+
+      {values ? (
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+          {NUTRIENTS.map(nutrient => (
+            <div key={nutrient.key} className="rounded-lg bg-muted/40 p-3 text-center">
+              <p className="text-xs text-muted-foreground">{nutrient.label}</p>
+              <p className="font-semibold">{formatNutrient(values[nutrient.key], nutrient.key)}</p>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          None of the ingredients could be weighed, so there is no estimate yet.
+        </p>
+      )}
+
+      <p className="text-xs text-muted-foreground">
+        Estimated from {counted} of {ingredients.length} ingredients using a built-in food table.
+        {view === '100g' && nutrition.per_100g && ` Per 100 g of raw ingredients (${nutrition.total_weight.toLocaleString()} g in total).`}
+        {view === 'serving' && ` Recipe makes ${servings} ${servings === 1 ? 'serving' : 'servings'}.`}
+      </p>
+
+      {problems.length > 0 && !isAuthor && (
+        <p className="text-xs text-muted-foreground">
+          Not included: {problems.map(entry => ingredients[entry.index].item).join(', ')}
+        </p>
+      )}
+
+      {isAuthor && (
+        <Collapsible open={showMatches} onOpenChange={setShowMatches}>
+          <CollapsibleTrigger asChild>
+            <Button variant="ghost" size="sm" className="gap-1 px-2">
+              <ChevronDown className={`h-3 w-3 transition-transform ${showMatches ? 'rotate-180' : ''}`} />
+              Ingredient matches
+              {problems.length > 0 && (
+                <Badge variant="destructive" className="ml-1">{problems.length} to check</Badge>
+              )}
+            </Button>
+          </CollapsibleTrigger>
+          <CollapsibleContent className="space-y-2 pt-2">
+            {analysis.map(entry => (
+              <div key={entry.index} className="flex flex-col sm:flex-row sm:items-center gap-2 text-sm">
+                <div className="flex-1 min-w-0">
+                  <span className="truncate">{ingredients[entry.index].item}</span>
+                  {entry.status !== 'matched' && (
+                    <span className={`ml-2 text-xs ${entry.status === 'unmatched' || entry.status === 'no_weight' ? 'text-destructive' : 'text-muted-foreground'}`}>
+                      {STATUS_LABELS[entry.status]}
+                    </span>
+                  )}
+                </div>
+                <Select
+                  value={matches[entry.key] || AUTOMATIC_MATCH}
+                  onValueChange={(value) => handleMatchChange(entry.key, value)}
+                >
+                  <SelectTrigger className="sm:w-64 h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="max-h-72">
+                    <SelectItem value={AUTOMATIC_MATCH}>
+                      Automatic{!entry.manual && entry.food ? ` (${entry.food.name})` : ''}
+                    </SelectItem>
+                    <SelectItem value={EXCLUDED_FOOD}>Leave out</SelectItem>
+                    <SelectSeparator />
+                    {FOOD_OPTIONS.map(food => (
+                      <SelectItem key={food.id} value={food.id}>{food.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </CollapsibleContent>
+        </Collapsible>
+      )}
+    </div>
+  )
+}
@@ -5,22 +5,14 @@ import { Button } from './ui/button'
 import { Textarea } from './ui/textarea'
 import { Avatar, AvatarFallback, AvatarImage } from './ui/avatar'
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import { Progress } from './ui/progress'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
 import { MotionCard } from './ui/motion'
-import { Star, ThumbsUp, MessageCircle, Edit3, Trash2, Save, X } from 'lucide-react'
+import { OptimizedMediaUpload } from './OptimizedMediaUpload'
+import { OptimizedImage } from './OptimizedImage'
+import { Star, ThumbsUp, MessageCircle, Edit3, Trash2, Save, X, Reply } from 'lucide-react'
 import { useNotifications } from './ui/notification'
-
-interface Rating {
-  id: string
-  user_id: string
-  rating: number
-  review: string
-  created_at: string
-  updated_at: string
-  profiles: {
-    name: string
-    avatar_url: string
-  }
-}
+import { REVIEW_SELECT, REVIEW_SORT_LABELS, Review, ReviewSort, ratingDistribution, sortReviews, toReview } from '../utils/recipes/reviews'
 
 interface RecipeRatingReviewProps {
   recipeId: string
@@ -32,10 +24,17 @@ export function RecipeRatingReview({ recipeId, recipeTitle, authorId }: RecipeRa
   const { user } = useAuth()
   const { addNotification } = useNotifications()
   
-  const [ratings, setRatings] = useState<Rating[]>([])
-  const [userRating, setUserRating] = useState<Rating | null>(null)
+  const [ratings, setRatings] = useState<Review[]>([])
+  const [userRating, setUserRating] = useState<Review | null>(null)
   const [newRating, setNewRating] = useState(0)
   const [newReview, setNewReview] = useState('')
+  const [newPhoto, setNewPhoto] = useState('')
+  const [sort, setSort] = useState<ReviewSort>('helpful')
+  const [votedIds, setVotedIds] = useState<Set<string>>(new Set())
+  // Votes and responses need their own tables; reviews work without them
+  const [extrasAvailable, setExtrasAvailable] = useState(true)
+  const [respondingTo, setRespondingTo] = useState<string | null>(null)
+  const [responseText, setResponseText] = useState('')
   const [editingRating, setEditingRating] = useState<string | null>(null)
   const [editReview, setEditReview] = useState('')
   const [loading, setLoading] = useState(true)
@@ -46,6 +45,9 @@ export function RecipeRatingReview({ recipeId, recipeTitle, authorId }: RecipeRa
     ? ratings.reduce((sum, r) => sum + r.rating, 0) / ratings.length 
     : 0
   const totalRatings = ratings.length
+  const distribution = ratingDistribution(ratings)
+  const sortedRatings = sortReviews(ratings, sort)
+  const isRecipeAuthor = user?.id === authorId
 
   useEffect(() => {
     fetchRatings()
@@ -53,15 +55,22 @@ export function RecipeRatingReview({ recipeId, recipeTitle, authorId }: RecipeRa
 
   const fetchRatings = async () => {
     try {
-      const { data, error } = await supabase
+      const query = (columns: string) => supabase
         .from('recipe_ratings')
-        .select(`
-          *,
-          profiles (name, avatar_url)
-        `)
+        .select(columns)
         .eq('recipe_id', recipeId)
         .order('created_at', { ascending: false })
 
+      let { data, error } = await query(REVIEW_SELECT)
+
+      // Without the vote and response tables the embeds cannot resolve
+      if (error?.code === 'PGRST200') {
+        setExtrasAvailable(false)
+        const fallback = await query('*, profiles (name, avatar_url)')
+        data = fallback.data
+        error = fallback.error
+      }
+
       if (error) {
         // Handle missing tables gracefully
         if (error.code === 'PGRST205' || error.code === '42P01') {
@@ -73,16 +82,21 @@ export function RecipeRatingReview({ recipeId, recipeTitle, authorId }: RecipeRa
         return
       }
 
-      setRatings(data || [])
+      const reviews = (data || []).map(toReview)
+      setRatings(reviews)
       
       // Find user's existing rating
       if (user) {
-        const existingRating = data?.find(r => r.user_id === user.id)
+        const existingRating = reviews.find(r => r.user_id === user.id)
         if (existingRating) {
           setUserRating(existingRating)
           setNewRating(existingRating.rating)
           setNewReview(existingRating.review || '')
+          setNewPhoto(existingRating.photo_url || '')
+        } else {
+          setUserRating(null)
         }
+        await fetchVotes(reviews.map(r => r.id))
       }
     } catch (error) {
       console.error('Error fetching ratings:', error)
@@ -92,6 +106,22 @@ export function RecipeRatingReview({ recipeId, recipeTitle, authorId }: RecipeRa
     }
   }
 
+  const fetchVotes = async (ratingIds: string[]) => {
+    if (!user || ratingIds.length === 0) return
+
+    const { data, error } = await supabase
+      .from('review_votes')
+      .select('rating_id')
+      .eq('user_id', user.id)
+      .in('rating_id', ratingIds)
+
+    if (error) {
+      console.warn('Review votes not available:', error)
+      return
+    }
+    setVotedIds(new Set((data || []).map(vote => vote.rating_id)))
+  }
+
   const handleSubmitRating = async () => {
     if (!user || !newRating) return
 
@@ -105,6 +135,7 @@ export function RecipeRatingReview({ recipeId, recipeTitle, authorId }: RecipeRa
           .update({
             rating: newRating,
             review: newReview,
+            photo_url: newPhoto || null,
             updated_at: new Date().toISOString()
           })
           .eq('id', userRating.id)
@@ -124,7 +155,8 @@ export function RecipeRatingReview({ recipeId, recipeTitle, authorId }: RecipeRa
             recipe_id: recipeId,
             user_id: user.id,
             rating: newRating,
-            review: newReview
+            review: newReview,
+            photo_url: newPhoto || null
           })
 
         if (error) throw error
@@ -217,6 +249,7 @@ export function RecipeRatingReview({ recipeId, recipeTitle, authorId }: RecipeRa
       await fetchRatings()
       setNewRating(0)
       setNewReview('')
+      setNewPhoto('')
 
       addNotification({
         title: 'Rating Deleted',
@@ -233,6 +266,84 @@ export function RecipeRatingReview({ recipeId, recipeTitle, authorId }: RecipeRa
     }
   }
 
+  const handleToggleHelpful = async (rating: Review) => {
+    if (!user) return
+
+    const voted = votedIds.has(rating.id)
+    try {
+      const { error } = voted
+        ? await supabase.from('review_votes').delete().eq('rating_id', rating.id).eq('user_id', user.id)
+        : await supabase.from('review_votes').insert({ rating_id: rating.id, user_id: user.id })
+
+      if (error) throw error
+
+      setVotedIds(prev => {
+        const next = new Set(prev)
+        if (voted) next.delete(rating.id)
+        else next.add(rating.id)
+        return next
+      })
+      setRatings(prev => prev.map(r => r.id === rating.id
+        ? { ...r, helpful_count: Math.max(r.helpful_count + (voted ? -1 : 1), 0) }
+        : r))
+    } catch (error) {
+      console.error('Error voting on review:', error)
+      addNotification({
+        title: 'Error',
+        message: 'Could not record your vote. Please try again.',
+        type: 'error'
+      })
+    }
+  }
+
+  const handleStartResponse = (rating: Review) => {
+    setRespondingTo(rating.id)
+    setResponseText(rating.response?.body || '')
+  }
+
+  const handleSaveResponse = async (ratingId: string) => {
+    if (!user || !responseText.trim()) return
+
+    try {
+      const { error } = await supabase
+        .from('review_responses')
+        .upsert({ rating_id: ratingId, author_id: user.id, body: responseText.trim() })
+
+      if (error) throw error
+
+      setRespondingTo(null)
+      setResponseText('')
+      await fetchRatings()
+    } catch (error) {
+      console.error('Error saving response:', error)
+      addNotification({
+        title: 'Error',
+        message: 'Failed to save your response. Please try again.',
+        type: 'error'
+      })
+    }
+  }
+
+  const handleDeleteResponse = async (ratingId: string) => {
+    try {
+      const { error } = await supabase
+        .from('review_responses')
+        .delete()
+        .eq('rating_id', ratingId)
+
+      if (error) throw error
+
+      await fetchRatings()
+    } catch (error) {
+      console.error('Error deleting response:', error)
+      addNotification({
+        title: 'Error',
+        message: 'Failed to delete your response. Please try again.',
+        type: 'error'
+      })
+    }
+  }
+
   const renderStars = (rating: number, interactive = false, onStarClick?: (star: number) => void) => {
     return (
       <div className="flex gap-1">
@@ -287,6 +398,19 @@ export function RecipeRatingReview({ recipeId, recipeTitle, authorId }: RecipeRa
             </div>
           </CardTitle>
         </CardHeader>
+        {totalRatings > 0 && (
+          <CardContent className="space-y-1">
+            {distribution.map(row => (
+              <div key={row.stars} className="flex items-center gap-3 text-sm" aria-label={`${row.count} reviews with ${row.stars} stars`}>
+                <span className="w-12 flex items-center gap-1 text-muted-foreground">
+                  {row.stars} <Star className="w-3 h-3 fill-yellow-400 text-yellow-400" />
+                </span>
+                <Progress value={row.percent} className="h-2 flex-1" />
+                <span className="w-8 text-right text-muted-foreground">{row.count}</span>
+              </div>
+            ))}
+          </CardContent>
+        )}
       </MotionCard>
 
       {/* User Rating Form */}
@@ -323,6 +447,20 @@ export function RecipeRatingReview({ recipeId, recipeTitle, authorId }: RecipeRa
               </p>
             </div>
 
+            <OptimizedMediaUpload
+              onMediaChange={(url) => setNewPhoto(url)}
+              currentMedia={newPhoto}
+              currentMediaType="image"
+              label="Photo of your attempt (Optional)"
+              bucket="recipes"
+              allowVideo={false}
+              allowImage={true}
+              enableOptimization={true}
+              targetImageWidth={1200}
+              compressionQuality={0.85}
+              maxSizeMB={5}
+            />
+
             <div className="flex gap-3">
               <Button
                 onClick={handleSubmitRating}
@@ -360,9 +498,23 @@ export function RecipeRatingReview({ recipeId, recipeTitle, authorId }: RecipeRa
       {/* Reviews List */}
       {ratings.length > 0 && (
         <div className="space-y-4">
-          <h3 className="font-medium">All Reviews</h3>
+          <div className="flex items-center justify-between gap-3">
+            <h3 className="font-medium">All Reviews</h3>
+            <Select value={sort} onValueChange={(value) => setSort(value as ReviewSort)}>
+              <SelectTrigger className="glass-input w-40">
+                <SelectValue placeholder="Sort by" />
+              </SelectTrigger>
+              <SelectContent className="glass-card border-glass-border">
+                {(Object.keys(REVIEW_SORT_LABELS) as ReviewSort[])
+                  .filter(option => extrasAvailable || option !== 'helpful')
+                  .map(option => (
+                    <SelectItem key={option} value={option}>{REVIEW_SORT_LABELS[option]}</SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          </div>
           
-          {ratings.map((rating, index) => (
+          {sortedRatings.map((rating, index) => (
             <MotionCard 
               key={rating.id}
               className="glass-card"
@@ -453,6 +605,87 @@ export function RecipeRatingReview({ recipeId, recipeTitle, authorId }: RecipeRa
                           </p>
                         )
                       )}
+
+                      {rating.photo_url && (
+                        <a href={rating.photo_url} target="_blank" rel="noopener noreferrer" className="block w-40 aspect-square rounded-lg overflow-hidden">
+                          <OptimizedImage
+                            src={rating.photo_url}
+                            alt={`${rating.profiles?.name || 'Reviewer'}'s attempt`}
+                            className="w-full h-full object-cover"
+                          />
+                        </a>
+                      )}
+
+                      {extrasAvailable && (
+                        <div className="flex items-center gap-1 -ml-2">
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            className={`h-7 gap-1 px-2 text-xs ${votedIds.has(rating.id) ? 'text-primary' : ''}`}
+                            onClick={() => handleToggleHelpful(rating)}
+                            disabled={!user || user.id === rating.user_id}
+                            aria-pressed={votedIds.has(rating.id)}
+                          >
+                            <ThumbsUp className={`w-3 h-3 ${votedIds.has(rating.id) ? 'fill-current' : ''}`} />
+                            Helpful{rating.helpful_count > 0 && ` (${rating.helpful_count})`}
+                          </Button>
+                          {isRecipeAuthor && !rating.response && respondingTo !== rating.id && user?.id !== rating.user_id && (
+                            <Button size="sm" variant="ghost" className="h-7 gap-1 px-2 text-xs" onClick={() => handleStartResponse(rating)}>
+                              <Reply className="w-3 h-3" />
+                              Respond
+                            </Button>
+                          )}
+                        </div>
+                      )}
+
+                      {respondingTo === rating.id ? (
+                        <div className="space-y-2">
+                          <Textarea
+                            value={responseText}
+                            onChange={(e) => setResponseText(e.target.value)}
+                            className="glass-input"
+                            placeholder="Thank the reviewer or answer their question..."
+                            maxLength={1000}
+                          />
+                          <div className="flex gap-2">
+                            <Button
+                              size="sm"
+                              onClick={() => handleSaveResponse(rating.id)}
+                              disabled={!responseText.trim()}
+                              className="glass-button"
+                            >
+                              <Save className="w-3 h-3 mr-1" />
+                              Save
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => setRespondingTo(null)}
+                              className="glass-input border-glass-border"
+                            >
+                              <X className="w-3 h-3 mr-1" />
+                              Cancel
+                            </Button>
+                          </div>
+                        </div>
+                      ) : rating.response && (
+                        <div className="rounded-lg bg-muted/40 p-3 space-y-1">
+                          <div className="flex items-center justify-between gap-2">
+                            <p className="text-xs font-medium">Response from the recipe author</p>
+                            {user?.id === rating.response.author_id && (
+                              <div className="flex gap-1">
+                                <Button size="sm" variant="ghost" className="h-6 w-6 p-0" onClick={() => handleStartResponse(rating)} aria-label="Edit response">
+                                  <Edit3 className="w-3 h-3" />
+                                </Button>
+                                <Button size="sm" variant="ghost" className="h-6 w-6 p-0" onClick={() => handleDeleteResponse(rating.id)} aria-label="Delete response">
+                                  <Trash2 className="w-3 h-3" />
+                                </Button>
+                              </div>
+                            )}
+                          </div>
+                          <p className="text-sm leading-relaxed whitespace-pre-wrap">{rating.response.body}</p>
+                        </div>
+                      )}
                     </div>
                   </div>
                 </div>
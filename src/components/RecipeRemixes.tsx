@@ -0,0 +1,176 @@
+import React, { useState, useEffect } from 'react'
+import { supabase } from '../utils/supabase/client'
+import { Avatar, AvatarFallback, AvatarImage } from './ui/avatar'
+import { GitFork } from 'lucide-react'
+import { RECIPE_SELECT, enrichRecipe } from '../utils/recipes/records'
+import { recipeStatus, statusLabel } from '../utils/recipes/lifecycle'
+
+interface LineageEntry {
+  recipe_id: string
+  title: string
+  author_id: string
+  author_name: string | null
+  depth: number
+}
+
+interface RecipeRemixProps {
+  recipe: any
+  onOpenRecipe?: (recipe: any) => void
+}
+
+async function fetchRecipeById(id: string) {
+  const { data, error } = await supabase
+    .from('recipes')
+    .select(RECIPE_SELECT)
+    .eq('id', id)
+    .maybeSingle()
+
+  if (error) throw error
+  return data ? enrichRecipe(data) : null
+}
+
+// "Adapted from X by Y", followed by the rest of the chain back to the first
+// recipe the viewer can see
+export function RecipeAttribution({ recipe, onOpenRecipe }: RecipeRemixProps) {
+  const [lineage, setLineage] = useState<LineageEntry[]>([])
+
+  useEffect(() => {
+    if (!recipe.forked_from) {
+      setLineage([])
+      return
+    }
+
+    let cancelled = false
+    supabase
+      .rpc('recipe_lineage', { target_recipe_id: recipe.id })
+      .then(({ data, error }) => {
+        if (cancelled) return
+        if (error) {
+          console.warn('Recipe lineage not available. Database setup may be required.')
+          setLineage([])
+          return
+        }
+        setLineage(data || [])
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [recipe.id, recipe.forked_from])
+
+  if (!recipe.forked_from) return null
+
+  const openEntry = async (entry: LineageEntry) => {
+    try {
+      const original = await fetchRecipeById(entry.recipe_id)
+      if (original) onOpenRecipe?.(original)
+    } catch (error) {
+      console.error('Error opening original recipe:', error)
+    }
+  }
+
+  const renderEntry = (entry: LineageEntry) => (
+    <>
+      {onOpenRecipe ? (
+        <button type="button" className="font-medium text-primary hover:underline" onClick={() => openEntry(entry)}>
+          {entry.title}
+        </button>
+      ) : (
+        <span className="font-medium">{entry.title}</span>
+      )}
+      {' '}by {entry.author_name || 'Unknown Chef'}
+    </>
+  )
+
+  const [parent, ...ancestors] = lineage
+
+  return (
+    <div className="flex items-start gap-2 text-sm text-muted-foreground">
+      <GitFork className="h-4 w-4 mt-0.5 flex-shrink-0" />
+      <div>
+        {parent ? (
+          <p>Adapted from {renderEntry(parent)}</p>
+        ) : (
+          <p>Adapted from a recipe that is no longer available</p>
+        )}
+        {ancestors.length > 0 && (
+          <p className="text-xs">
+            {ancestors.map((entry, index) => (
+              <React.Fragment key={entry.recipe_id}>
+                {index > 0 && ', '}
+                {index === 0 ? 'which was adapted from ' : 'then '}
+                {renderEntry(entry)}
+              </React.Fragment>
+            ))}
+          </p>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export function RecipeRemixList({ recipe, onOpenRecipe }: RecipeRemixProps) {
+  const [remixes, setRemixes] = useState<any[]>([])
+
+  useEffect(() => {
+    fetchRemixes()
+  }, [recipe.id])
+
+  const fetchRemixes = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('recipes')
+        .select(RECIPE_SELECT)
+        .eq('forked_from', recipe.id)
+        .order('created_at', { ascending: false })
+
+      if (error) {
+        // Older databases have no forked_from column yet
+        console.warn('Recipe remixes not available. Database setup may be required.')
+        setRemixes([])
+        return
+      }
+
+      setRemixes((data || []).map(enrichRecipe))
+    } catch (error) {
+      console.error('Error fetching remixes:', error)
+      setRemixes([])
+    }
+  }
+
+  if (remixes.length === 0) return null
+
+  return (
+    <div>
+      <h3 className="text-lg font-semibold mb-3 flex items-center gap-2">
+        <GitFork className="h-4 w-4" />
+        Remixes ({remixes.length})
+      </h3>
+      <ul className="space-y-2">
+        {remixes.map(remix => (
+          <li key={remix.id}>
+            <button
+              type="button"
+              onClick={() => onOpenRecipe?.(remix)}
+              className="w-full flex items-center gap-3 p-2 rounded-md text-left hover:bg-muted"
+            >
+              <Avatar className="w-8 h-8">
+                <AvatarImage src={remix.author_avatar} />
+                <AvatarFallback className="bg-calm-gradient text-white text-xs">
+                  {remix.author.split(' ').map((n: string) => n[0]).join('').toUpperCase()}
+                </AvatarFallback>
+              </Avatar>
+              <div className="min-w-0">
+                <p className="font-medium truncate">{remix.title}</p>
+                <p className="text-xs text-muted-foreground">
+                  by {remix.author} • {new Date(remix.created_at).toLocaleDateString()}
+                  {recipeStatus(remix) !== 'published' && ` • ${statusLabel(recipeStatus(remix))}`}
+                </p>
+              </div>
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
@@ -0,0 +1,197 @@
+import React, { useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card'
+import { Button } from './ui/button'
+import { Skeleton } from './ui/skeleton'
+import { Alert, AlertDescription } from './ui/alert'
+import { useNotifications } from './ui/notification'
+import { RecipeDetailDialog } from './RecipeDetailDialog'
+import { useRecommendations } from './hooks/useRecommendations'
+import { Sparkles, Star, X } from 'lucide-react'
+import { DEFAULT_RECOMMENDATION_LIMIT, recommendationReasonText } from '../utils/recipes/recommendations'
+
+const DASHBOARD_LIMIT = 4
+
+function useDismiss(dismiss: (recipeId: string) => Promise<void>) {
+  const { addNotification } = useNotifications()
+
+  return async (recipe: any) => {
+    try {
+      await dismiss(recipe.id)
+      addNotification({
+        title: 'Recommendation hidden',
+        message: `${recipe.title} won't be suggested again.`,
+        type: 'info'
+      })
+    } catch (error) {
+      console.error('Error dismissing recommendation:', error)
+      addNotification({
+        title: 'Could not hide recipe',
+        message: 'Please try again.',
+        type: 'error'
+      })
+    }
+  }
+}
+
+interface RecommendedRecipeGridProps {
+  renderRecipe: (recipe: any) => React.ReactNode
+}
+
+// "For you" tab of the recipe browser: the recipe cards, each under the
+// reason it was picked and a button to stop suggesting it
+export function RecommendedRecipeGrid({ renderRecipe }: RecommendedRecipeGridProps) {
+  const { recommendations, preferences, loading, available, dismiss } = useRecommendations(DEFAULT_RECOMMENDATION_LIMIT)
+  const handleDismiss = useDismiss(dismiss)
+
+  if (!available) {
+    return (
+      <Alert>
+        <AlertDescription>
+          Recommendations are not set up yet. Ask an administrator to run the latest database setup script.
+        </AlertDescription>
+      </Alert>
+    )
+  }
+
+  if (loading && recommendations.length === 0) {
+    return (
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+        {[...Array(3)].map((_, i) => (
+          <div key={i} className="space-y-2">
+            <Skeleton className="h-4 w-2/3" />
+            <Skeleton className="h-72 w-full rounded-lg" />
+          </div>
+        ))}
+      </div>
+    )
+  }
+
+  if (recommendations.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <Sparkles className="h-16 w-16 mx-auto text-muted-foreground mb-4" />
+        <h3 className="text-lg font-semibold mb-2">Nothing to suggest yet</h3>
+        <p className="text-muted-foreground">
+          Like, rate and cook recipes and we'll suggest more like them.
+        </p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Picked from the recipes you like, rate and cook{preferences.length > 0 && ', matching your dietary preferences'}.
+      </p>
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+        {recommendations.map(({ recipe, recommendation }) => (
+          <div key={recipe.id} className="space-y-2">
+            <div className="flex items-center justify-between gap-2">
+              <p className="flex items-center gap-1 text-sm text-muted-foreground min-w-0">
+                <Sparkles className="h-3 w-3 shrink-0 text-primary" />
+                <span className="truncate">{recommendationReasonText(recommendation, preferences)}</span>
+              </p>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 shrink-0 gap-1 px-2 text-xs"
+                onClick={() => handleDismiss(recipe)}
+                aria-label={`Stop suggesting ${recipe.title}`}
+              >
+                <X className="h-3 w-3" />
+                Not for me
+              </Button>
+            </div>
+            {renderRecipe(recipe)}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+interface RecommendedRecipesCardProps {
+  onTabChange: (tab: string) => void
+}
+
+// Dashboard card with the top few recommendations
+export function RecommendedRecipesCard({ onTabChange }: RecommendedRecipesCardProps) {
+  const { recommendations, preferences, loading, available, dismiss } = useRecommendations(DASHBOARD_LIMIT)
+  const handleDismiss = useDismiss(dismiss)
+  const [selectedRecipe, setSelectedRecipe] = useState<any | null>(null)
+
+  if (!available || loading) return null
+
+  return (
+    <Card className="glass-card border-0 shadow-none">
+      <CardHeader>
+        <div className="flex items-center gap-3">
+          <div className="p-2 rounded-xl bg-gradient-to-r from-purple-500/20 to-blue-500/20">
+            <Sparkles className="h-5 w-5 text-purple-400" />
+          </div>
+          <div>
+            <CardTitle className="text-lg text-foreground">Recommended for You</CardTitle>
+            <CardDescription className="text-muted-foreground">
+              Based on what you like, rate and cook
+            </CardDescription>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {recommendations.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Like, rate and cook a few recipes to get suggestions.
+          </p>
+        ) : (
+          <ul className="space-y-2">
+            {recommendations.map(({ recipe, recommendation }) => (
+              <li key={recipe.id} className="flex items-start gap-2">
+                <button
+                  type="button"
+                  className="flex-1 min-w-0 text-left rounded-lg p-2 -m-2 hover:bg-white/10 transition-colors"
+                  onClick={() => setSelectedRecipe(recipe)}
+                >
+                  <span className="block truncate text-sm font-medium text-foreground">{recipe.title}</span>
+                  <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                    <span className="truncate">{recommendationReasonText(recommendation, preferences)}</span>
+                    {recipe.rating_count > 0 && (
+                      <span className="flex items-center gap-0.5 shrink-0">
+                        · <Star className="h-3 w-3 fill-yellow-400 text-yellow-400" />
+                        {recipe.average_rating.toFixed(1)}
+                      </span>
+                    )}
+                  </span>
+                </button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7 shrink-0"
+                  onClick={() => handleDismiss(recipe)}
+                  aria-label={`Stop suggesting ${recipe.title}`}
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+        <Button
+          variant="ghost"
+          className="w-full glass-input rounded-2xl text-purple-400 hover:bg-white/20 transition-colors"
+          onClick={() => onTabChange('recipes')}
+        >
+          Browse recipes
+        </Button>
+      </CardContent>
+
+      {selectedRecipe && (
+        <RecipeDetailDialog
+          key={selectedRecipe.id}
+          recipe={selectedRecipe}
+          onClose={() => setSelectedRecipe(null)}
+          onOpenRecipe={setSelectedRecipe}
+        />
+      )}
+    </Card>
+  )
+}
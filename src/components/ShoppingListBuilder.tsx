@@ -0,0 +1,262 @@
+import React, { useState, useEffect } from 'react'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { useNotifications } from './ui/notification'
+import { useCollections } from './hooks/useCollections'
+import { ShoppingListDraft } from './hooks/useShoppingLists'
+import { Library, Plus, Search, X } from 'lucide-react'
+import { supabase } from '../utils/supabase/client'
+import { ShoppingList, ShoppingSystem, buildShoppingItems, mergeShoppingItems } from '../utils/recipes/shopping'
+
+// A recipe chosen for the list and the servings to shop for
+export interface ShoppingEntry {
+  recipe: { id: string; title: string; servings: number | null; ingredients: unknown }
+  servings: number
+}
+
+interface ShoppingListBuilderProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  // Recipes to start with, e.g. a collection's or a meal plan's
+  initialEntries?: ShoppingEntry[]
+  initialTitle?: string
+  // Rebuilds this list instead of creating a new one
+  list?: ShoppingList
+  onSave: (draft: ShoppingListDraft) => Promise<void>
+}
+
+const SHOPPING_RECIPE_SELECT = 'id, title, servings, ingredients'
+
+const defaultTitle = () => `Shopping ${new Date().toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' })}`
+
+export function ShoppingListBuilder({ open, onOpenChange, initialEntries, initialTitle, list, onSave }: ShoppingListBuilderProps) {
+  const { addNotification } = useNotifications()
+  const { collections } = useCollections(open)
+  const [title, setTitle] = useState('')
+  const [entries, setEntries] = useState<ShoppingEntry[]>([])
+  const [system, setSystem] = useState<ShoppingSystem>('metric')
+  const [query, setQuery] = useState('')
+  const [results, setResults] = useState<ShoppingEntry['recipe'][]>([])
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    if (!open) return
+    setTitle(list?.title || initialTitle || defaultTitle())
+    setEntries(initialEntries || [])
+    setQuery('')
+    setResults([])
+
+    // Reload the recipes a saved list was built from
+    if (list && list.sources.length > 0) {
+      supabase
+        .from('recipes')
+        .select(SHOPPING_RECIPE_SELECT)
+        .in('id', list.sources.map(source => source.recipe_id))
+        .then(({ data, error }) => {
+          if (error) {
+            console.error('Error loading shopping list recipes:', error)
+            return
+          }
+          setEntries(list.sources
+            .map(source => {
+              const recipe = data?.find(row => row.id === source.recipe_id)
+              return recipe ? { recipe, servings: source.servings } : null
+            })
+            .filter((entry): entry is ShoppingEntry => entry !== null))
+        })
+    }
+  }, [open, list?.id])
+
+  // Title search, debounced
+  useEffect(() => {
+    if (!open || !query.trim()) {
+      setResults([])
+      return
+    }
+
+    const timer = setTimeout(async () => {
+      const { data, error } = await supabase
+        .from('recipes')
+        .select(SHOPPING_RECIPE_SELECT)
+        .ilike('title', `%${query.trim()}%`)
+        .order('title')
+        .limit(8)
+
+      if (error) {
+        console.error('Error searching recipes:', error)
+        return
+      }
+      setResults(data || [])
+    }, 300)
+
+    return () => clearTimeout(timer)
+  }, [open, query])
+
+  const addRecipes = (recipes: ShoppingEntry['recipe'][]) => {
+    setEntries(prev => [
+      ...prev,
+      ...recipes
+        .filter(recipe => !prev.some(entry => entry.recipe.id === recipe.id))
+        .map(recipe => ({ recipe, servings: recipe.servings || 1 }))
+    ])
+  }
+
+  const addCollection = async (collectionId: string) => {
+    const { data, error } = await supabase
+      .from('collection_recipes')
+      .select(`recipe:recipe_id (${SHOPPING_RECIPE_SELECT})`)
+      .eq('collection_id', collectionId)
+      .order('position', { ascending: true })
+
+    if (error) {
+      console.error('Error loading collection recipes:', error)
+      addNotification({ title: 'Error', message: 'Could not load the collection. Please try again.', type: 'error' })
+      return
+    }
+    addRecipes((data || []).map((entry: any) => entry.recipe).filter(Boolean))
+  }
+
+  const setServings = (recipeId: string, value: string) => {
+    const servings = Math.max(parseInt(value) || 1, 1)
+    setEntries(prev => prev.map(entry => entry.recipe.id === recipeId ? { ...entry, servings } : entry))
+  }
+
+  const handleSave = async () => {
+    if (!title.trim() || entries.length === 0) return
+
+    setSaving(true)
+    try {
+      const items = buildShoppingItems(entries, system)
+      await onSave({
+        title,
+        sources: entries.map(entry => ({ recipe_id: entry.recipe.id, title: entry.recipe.title, servings: entry.servings })),
+        items: list ? mergeShoppingItems(list.items, items) : items
+      })
+      onOpenChange(false)
+    } catch (error) {
+      console.error('Error saving shopping list:', error)
+      addNotification({ title: 'Error', message: 'Could not save the shopping list. Please try again.', type: 'error' })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto glass-modal">
+        <DialogHeader>
+          <DialogTitle>{list ? 'Update shopping list' : 'New shopping list'}</DialogTitle>
+          <DialogDescription>
+            Pick recipes and how many servings of each to make. Matching ingredients are added together.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <Label htmlFor="shopping-title">Title</Label>
+            <Input id="shopping-title" value={title} onChange={(e) => setTitle(e.target.value)} maxLength={120} />
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder="Find a recipe"
+                className="pl-10"
+                aria-label="Find a recipe"
+              />
+            </div>
+            <Select value="" onValueChange={addCollection} disabled={collections.length === 0}>
+              <SelectTrigger className="glass-input">
+                <span className="flex items-center gap-2 text-muted-foreground">
+                  <Library className="h-4 w-4" />
+                  <SelectValue placeholder="Add a collection" />
+                </span>
+              </SelectTrigger>
+              <SelectContent className="glass-card border-glass-border">
+                {collections.map(collection => (
+                  <SelectItem key={collection.id} value={collection.id}>{collection.title}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {results.length > 0 && (
+            <ul className="border rounded-md divide-y">
+              {results.map(recipe => {
+                const added = entries.some(entry => entry.recipe.id === recipe.id)
+                return (
+                  <li key={recipe.id} className="flex items-center justify-between gap-2 p-2">
+                    <span className="text-sm">{recipe.title}</span>
+                    <Button size="sm" variant="ghost" className="h-7 gap-1 text-xs" disabled={added} onClick={() => addRecipes([recipe])}>
+                      <Plus className="h-3 w-3" />
+                      {added ? 'Added' : 'Add'}
+                    </Button>
+                  </li>
+                )
+              })}
+            </ul>
+          )}
+
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium">
+              Recipes <span className="text-muted-foreground">({entries.length})</span>
+            </h4>
+            {entries.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No recipes yet. Search for one or add a collection.</p>
+            ) : (
+              <ul className="border rounded-md divide-y">
+                {entries.map(entry => (
+                  <li key={entry.recipe.id} className="flex items-center gap-3 p-2">
+                    <span className="flex-1 min-w-0 text-sm truncate">{entry.recipe.title}</span>
+                    <Label htmlFor={`servings-${entry.recipe.id}`} className="text-xs text-muted-foreground">Servings</Label>
+                    <Input
+                      id={`servings-${entry.recipe.id}`}
+                      type="number"
+                      min={1}
+                      value={entry.servings}
+                      onChange={(e) => setServings(entry.recipe.id, e.target.value)}
+                      className="h-8 w-16"
+                    />
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="h-7 w-7 p-0"
+                      onClick={() => setEntries(prev => prev.filter(other => other.recipe.id !== entry.recipe.id))}
+                      aria-label={`Remove ${entry.recipe.title}`}
+                    >
+                      <X className="h-3 w-3" />
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <Select value={system} onValueChange={(value) => setSystem(value as ShoppingSystem)}>
+              <SelectTrigger className="glass-input w-40" aria-label="Units">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="glass-card border-glass-border">
+                <SelectItem value="metric">Metric units</SelectItem>
+                <SelectItem value="imperial">US units</SelectItem>
+              </SelectContent>
+            </Select>
+            <div className="flex gap-2">
+              <Button variant="ghost" onClick={() => onOpenChange(false)}>Cancel</Button>
+              <Button onClick={handleSave} disabled={saving || !title.trim() || entries.length === 0}>
+                {saving ? 'Saving...' : list ? 'Update list' : 'Create list'}
+              </Button>
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
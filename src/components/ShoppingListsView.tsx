@@ -0,0 +1,303 @@
+import React, { useState } from 'react'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Checkbox } from './ui/checkbox'
+import { Progress } from './ui/progress'
+import { Card, CardContent } from './ui/card'
+import { Skeleton } from './ui/skeleton'
+import { Alert, AlertDescription } from './ui/alert'
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from './ui/alert-dialog'
+import { useNotifications } from './ui/notification'
+import { useShoppingLists, ShoppingListDraft } from './hooks/useShoppingLists'
+import { ShoppingListBuilder } from './ShoppingListBuilder'
+import { ArrowLeft, Copy, Download, Pencil, Plus, Printer, RotateCcw, ShoppingCart, Trash2 } from 'lucide-react'
+import { ShoppingList, customShoppingItem, formatShoppingAmount, groupShoppingItems, shoppingListToText } from '../utils/recipes/shopping'
+import { downloadFile, slugify } from '../utils/recipes/export'
+import { printShoppingList } from '../utils/recipes/print'
+
+export function ShoppingListsView() {
+  const { addNotification } = useNotifications()
+  const { lists, loading, available, createList, updateList, deleteList } = useShoppingLists()
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [builder, setBuilder] = useState<{ open: boolean; list?: ShoppingList }>({ open: false })
+  const [newItem, setNewItem] = useState('')
+  const [confirmDelete, setConfirmDelete] = useState(false)
+
+  const selected = lists.find(list => list.id === selectedId)
+
+  const reportError = (message: string, error: unknown) => {
+    console.error(message, error)
+    addNotification({ title: 'Error', message: 'Could not save the shopping list. Please try again.', type: 'error' })
+  }
+
+  const handleSave = async (draft: ShoppingListDraft) => {
+    if (builder.list) {
+      await updateList(builder.list.id, draft)
+    } else {
+      const list = await createList(draft)
+      setSelectedId(list.id)
+    }
+  }
+
+  const saveItems = async (list: ShoppingList, items: ShoppingList['items']) => {
+    try {
+      await updateList(list.id, { items })
+    } catch (error) {
+      reportError('Error updating shopping list:', error)
+    }
+  }
+
+  const toggleItem = (list: ShoppingList, key: string, checked: boolean) =>
+    saveItems(list, list.items.map(item => item.key === key ? { ...item, checked } : item))
+
+  const handleAddItem = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!selected || !newItem.trim()) return
+    const item = customShoppingItem(newItem)
+    saveItems(selected, [...selected.items.filter(other => other.key !== item.key || !other.custom), item])
+    setNewItem('')
+  }
+
+  const handleCopy = async (list: ShoppingList) => {
+    try {
+      await navigator.clipboard.writeText(shoppingListToText(list))
+      addNotification({ title: 'Copied', message: 'The shopping list is on your clipboard.', type: 'success' })
+    } catch (error) {
+      console.error('Failed to copy shopping list:', error)
+      addNotification({ title: 'Error', message: 'Could not copy the list. Try downloading it instead.', type: 'error' })
+    }
+  }
+
+  const handlePrint = (list: ShoppingList) => {
+    if (!printShoppingList(list)) {
+      addNotification({ title: 'Pop-up blocked', message: 'Allow pop-ups for this site to print the list.', type: 'error' })
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!selected) return
+    try {
+      await deleteList(selected.id)
+      setSelectedId(null)
+    } catch (error) {
+      console.error('Error deleting shopping list:', error)
+      addNotification({ title: 'Error', message: 'Could not delete the shopping list. Please try again.', type: 'error' })
+    } finally {
+      setConfirmDelete(false)
+    }
+  }
+
+  const renderDetail = (list: ShoppingList) => {
+    const checkedCount = list.items.filter(item => item.checked).length
+
+    return (
+      <div className="space-y-6">
+        <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4">
+          <div className="space-y-1">
+            <Button variant="ghost" size="sm" className="gap-1 -ml-2" onClick={() => setSelectedId(null)}>
+              <ArrowLeft className="h-4 w-4" />
+              All lists
+            </Button>
+            <h1 className="text-2xl font-bold">{list.title}</h1>
+            {list.sources.length > 0 && (
+              <p className="text-sm text-muted-foreground">
+                For {list.sources.map(source => `${source.title} (${source.servings})`).join(', ')}
+              </p>
+            )}
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" size="sm" className="gap-1" onClick={() => setBuilder({ open: true, list })}>
+              <Pencil className="h-3 w-3" />
+              Recipes
+            </Button>
+            <Button variant="outline" size="sm" className="gap-1" onClick={() => handleCopy(list)}>
+              <Copy className="h-3 w-3" />
+              Copy
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              className="gap-1"
+              onClick={() => downloadFile(`${slugify(list.title)}.txt`, shoppingListToText(list))}
+            >
+              <Download className="h-3 w-3" />
+              Text
+            </Button>
+            <Button variant="outline" size="sm" className="gap-1" onClick={() => handlePrint(list)}>
+              <Printer className="h-3 w-3" />
+              Print
+            </Button>
+            <Button variant="outline" size="sm" className="gap-1 text-destructive" onClick={() => setConfirmDelete(true)}>
+              <Trash2 className="h-3 w-3" />
+              Delete
+            </Button>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between text-sm text-muted-foreground">
+            <span>{checkedCount} of {list.items.length} items in the basket</span>
+            {checkedCount > 0 && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 gap-1 text-xs"
+                onClick={() => saveItems(list, list.items.map(item => ({ ...item, checked: false })))}
+              >
+                <RotateCcw className="h-3 w-3" />
+                Untick all
+              </Button>
+            )}
+          </div>
+          <Progress value={list.items.length ? (checkedCount / list.items.length) * 100 : 0} className="h-2" />
+        </div>
+
+        <form onSubmit={handleAddItem} className="flex gap-2">
+          <Input
+            value={newItem}
+            onChange={(e) => setNewItem(e.target.value)}
+            placeholder='Add an item, e.g. "2 l milk" or "foil"'
+            aria-label="Add an item"
+          />
+          <Button type="submit" variant="outline" className="gap-1" disabled={!newItem.trim()}>
+            <Plus className="h-4 w-4" />
+            Add
+          </Button>
+        </form>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {groupShoppingItems(list.items).map(({ aisle, items }) => (
+            <Card key={aisle.id} className="glass-card">
+              <CardContent className="p-4 space-y-2">
+                <h3 className="font-semibold">{aisle.label}</h3>
+                <ul className="space-y-2">
+                  {items.map(item => {
+                    const amount = formatShoppingAmount(item)
+                    return (
+                      <li key={item.key} className="flex items-start gap-3">
+                        <Checkbox
+                          id={`shopping-${item.key}`}
+                          checked={item.checked}
+                          onCheckedChange={(checked) => toggleItem(list, item.key, checked === true)}
+                          className="mt-0.5"
+                        />
+                        <label
+                          htmlFor={`shopping-${item.key}`}
+                          className={`flex-1 text-sm cursor-pointer ${item.checked ? 'line-through text-muted-foreground' : ''}`}
+                        >
+                          {amount && <span className="font-medium">{amount} </span>}
+                          {item.name}
+                          {item.recipes.length > 0 && (
+                            <span className="block text-xs text-muted-foreground">{item.recipes.join(', ')}</span>
+                          )}
+                        </label>
+                        {item.custom && (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            className="h-6 w-6 p-0"
+                            onClick={() => saveItems(list, list.items.filter(other => other !== item))}
+                            aria-label={`Remove ${item.name}`}
+                          >
+                            <Trash2 className="h-3 w-3" />
+                          </Button>
+                        )}
+                      </li>
+                    )
+                  })}
+                </ul>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      </div>
+    )
+  }
+
+  const renderLists = () => (
+    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+      {lists.map(list => {
+        const checkedCount = list.items.filter(item => item.checked).length
+        return (
+          <Card
+            key={list.id}
+            className="glass-card cursor-pointer hover:shadow-lg transition-shadow"
+            onClick={() => setSelectedId(list.id)}
+          >
+            <CardContent className="p-4 space-y-3">
+              <h3 className="font-semibold line-clamp-1">{list.title}</h3>
+              <p className="text-sm text-muted-foreground line-clamp-2">
+                {list.sources.map(source => source.title).join(', ') || 'No recipes'}
+              </p>
+              <div className="space-y-1">
+                <Progress value={list.items.length ? (checkedCount / list.items.length) * 100 : 0} className="h-1.5" />
+                <p className="text-xs text-muted-foreground">{checkedCount} of {list.items.length} items</p>
+              </div>
+            </CardContent>
+          </Card>
+        )
+      })}
+    </div>
+  )
+
+  return (
+    <div className="space-y-6">
+      {selected ? renderDetail(selected) : (
+        <>
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+            <div>
+              <h1 className="text-2xl font-bold">Shopping Lists</h1>
+              <p className="text-muted-foreground">Combine recipes into one list, grouped by aisle</p>
+            </div>
+            {available && (
+              <Button className="gap-2" onClick={() => setBuilder({ open: true })}>
+                <Plus className="h-4 w-4" />
+                New List
+              </Button>
+            )}
+          </div>
+
+          {!available ? (
+            <Alert>
+              <AlertDescription>
+                Shopping lists are not set up yet. Ask an administrator to run the latest database setup script.
+              </AlertDescription>
+            </Alert>
+          ) : loading && lists.length === 0 ? (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+              {[...Array(3)].map((_, i) => <Skeleton key={i} className="h-32 w-full" />)}
+            </div>
+          ) : lists.length === 0 ? (
+            <div className="text-center py-12">
+              <ShoppingCart className="h-16 w-16 mx-auto text-muted-foreground mb-4" />
+              <h3 className="text-lg font-semibold mb-2">No shopping lists yet</h3>
+              <p className="text-muted-foreground">Pick a few recipes and the servings you need to get a combined list.</p>
+            </div>
+          ) : renderLists()}
+        </>
+      )}
+
+      <ShoppingListBuilder
+        open={builder.open}
+        onOpenChange={(open) => setBuilder(prev => ({ ...prev, open }))}
+        list={builder.list}
+        onSave={handleSave}
+      />
+
+      <AlertDialog open={confirmDelete} onOpenChange={setConfirmDelete}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete shopping list?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{selected?.title}" will be removed from all your devices.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
@@ -0,0 +1,275 @@
+import { useState, useEffect, useCallback } from 'react'
+import { useAuth } from '../AuthContext'
+import { supabase } from '../../utils/supabase/client'
+import { RECIPE_SELECT, enrichRecipe } from '../../utils/recipes/records'
+import {
+  CollectionDraft,
+  CollectionEntry,
+  CollectionMember,
+  RecipeCollection,
+  moveItem
+} from '../../utils/recipes/collections'
+
+const COLLECTION_SELECT = `
+  *,
+  profiles:owner_id (name, avatar_url),
+  collection_recipes (count),
+  collection_members (user_id)
+`
+
+const isMissingTable = (code?: string) => code === 'PGRST205' || code === '42P01'
+
+// Every collection the current user can see: their own, ones shared with
+// them, and public ones. Mutations throw so callers can report failures.
+export function useCollections(enabled = true) {
+  const { user } = useAuth()
+  const [collections, setCollections] = useState<RecipeCollection[]>([])
+  const [loading, setLoading] = useState(enabled)
+  const [available, setAvailable] = useState(true)
+
+  const fetchCollections = useCallback(async () => {
+    if (!user) return
+
+    setLoading(true)
+    try {
+      const { data, error } = await supabase
+        .from('recipe_collections')
+        .select(COLLECTION_SELECT)
+        .order('updated_at', { ascending: false })
+        .limit(100)
+
+      if (error) {
+        if (isMissingTable(error.code)) {
+          console.warn('Recipe collections table not available. Database setup may be required.')
+          setAvailable(false)
+          setCollections([])
+          return
+        }
+        console.error('Error fetching collections:', error)
+        return
+      }
+
+      setAvailable(true)
+      setCollections(data || [])
+    } catch (error) {
+      console.error('Error fetching collections:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [user?.id])
+
+  useEffect(() => {
+    if (enabled) fetchCollections()
+  }, [enabled, fetchCollections])
+
+  const createCollection = async (draft: CollectionDraft): Promise<RecipeCollection> => {
+    if (!user) throw new Error('Not signed in')
+
+    const { data, error } = await supabase
+      .from('recipe_collections')
+      .insert({ ...draft, title: draft.title.trim(), owner_id: user.id })
+      .select(COLLECTION_SELECT)
+      .single()
+
+    if (error) throw error
+    setCollections(prev => [data, ...prev])
+    return data
+  }
+
+  const updateCollection = async (id: string, updates: Partial<CollectionDraft>) => {
+    const { data, error } = await supabase
+      .from('recipe_collections')
+      .update(updates)
+      .eq('id', id)
+      .select(COLLECTION_SELECT)
+      .single()
+
+    if (error) throw error
+    setCollections(prev => prev.map(collection => collection.id === id ? data : collection))
+    return data as RecipeCollection
+  }
+
+  const deleteCollection = async (id: string) => {
+    const { error } = await supabase.from('recipe_collections').delete().eq('id', id)
+    if (error) throw error
+    setCollections(prev => prev.filter(collection => collection.id !== id))
+  }
+
+  const addRecipeToCollection = async (collectionId: string, recipeId: string) => {
+    if (!user) throw new Error('Not signed in')
+
+    const { error } = await supabase
+      .from('collection_recipes')
+      .insert({ collection_id: collectionId, recipe_id: recipeId, added_by: user.id })
+
+    if (error) throw error
+    adjustCount(collectionId, 1)
+  }
+
+  const removeRecipeFromCollection = async (collectionId: string, recipeId: string) => {
+    const { error } = await supabase
+      .from('collection_recipes')
+      .delete()
+      .eq('collection_id', collectionId)
+      .eq('recipe_id', recipeId)
+
+    if (error) throw error
+    adjustCount(collectionId, -1)
+  }
+
+  // Which of the given collections already contain a recipe
+  const getCollectionIdsForRecipe = async (recipeId: string): Promise<Set<string>> => {
+    const { data, error } = await supabase
+      .from('collection_recipes')
+      .select('collection_id')
+      .eq('recipe_id', recipeId)
+
+    if (error) {
+      if (!isMissingTable(error.code)) console.error('Error fetching recipe collections:', error)
+      return new Set()
+    }
+    return new Set((data || []).map(entry => entry.collection_id))
+  }
+
+  const adjustCount = (collectionId: string, delta: number) => {
+    setCollections(prev => prev.map(collection => {
+      if (collection.id !== collectionId) return collection
+      const count = collection.collection_recipes?.[0]?.count ?? 0
+      return { ...collection, collection_recipes: [{ count: Math.max(0, count + delta) }] }
+    }))
+  }
+
+  return {
+    collections,
+    loading,
+    available,
+    fetchCollections,
+    createCollection,
+    updateCollection,
+    deleteCollection,
+    addRecipeToCollection,
+    removeRecipeFromCollection,
+    getCollectionIdsForRecipe
+  }
+}
+
+// Entries and members of a single collection
+export function useCollectionEntries(collectionId: string | null) {
+  const [entries, setEntries] = useState<CollectionEntry[]>([])
+  const [members, setMembers] = useState<CollectionMember[]>([])
+  const [loading, setLoading] = useState(false)
+
+  const fetchEntries = useCallback(async () => {
+    if (!collectionId) return
+
+    setLoading(true)
+    try {
+      const [entriesResponse, membersResponse] = await Promise.all([
+        supabase
+          .from('collection_recipes')
+          .select(`*, recipe:recipe_id (${RECIPE_SELECT})`)
+          .eq('collection_id', collectionId)
+          .order('position', { ascending: true }),
+        supabase
+          .from('collection_members')
+          .select('*, profiles:user_id (name, avatar_url, role, year_level)')
+          .eq('collection_id', collectionId)
+          .order('created_at', { ascending: true })
+      ])
+
+      if (entriesResponse.error) throw entriesResponse.error
+      if (membersResponse.error) throw membersResponse.error
+
+      setEntries((entriesResponse.data || []).map((entry: any) => ({
+        ...entry,
+        recipe: entry.recipe ? enrichRecipe(entry.recipe) : null
+      })))
+      setMembers(membersResponse.data || [])
+    } catch (error) {
+      console.error('Error fetching collection:', error)
+      setEntries([])
+      setMembers([])
+    } finally {
+      setLoading(false)
+    }
+  }, [collectionId])
+
+  useEffect(() => {
+    setEntries([])
+    setMembers([])
+    fetchEntries()
+  }, [fetchEntries])
+
+  // Reorders locally first so the list doesn't jump, then saves the full order
+  const moveEntry = async (from: number, to: number) => {
+    if (!collectionId) return
+    const reordered = moveItem(entries, from, to)
+    if (reordered === entries) return
+
+    setEntries(reordered)
+    const { error } = await supabase.rpc('reorder_collection', {
+      target_collection_id: collectionId,
+      recipe_ids: reordered.map(entry => entry.recipe_id)
+    })
+
+    if (error) {
+      setEntries(entries)
+      throw error
+    }
+  }
+
+  const updateNote = async (entryId: string, note: string) => {
+    const { error } = await supabase
+      .from('collection_recipes')
+      .update({ note: note.trim() || null })
+      .eq('id', entryId)
+
+    if (error) throw error
+    setEntries(prev => prev.map(entry => entry.id === entryId ? { ...entry, note: note.trim() || null } : entry))
+  }
+
+  const removeEntry = async (entryId: string) => {
+    const { error } = await supabase.from('collection_recipes').delete().eq('id', entryId)
+    if (error) throw error
+    setEntries(prev => prev.filter(entry => entry.id !== entryId))
+  }
+
+  const addMembers = async (userIds: string[]) => {
+    if (!collectionId || userIds.length === 0) return
+
+    const { error } = await supabase
+      .from('collection_members')
+      .upsert(
+        userIds.map(userId => ({ collection_id: collectionId, user_id: userId })),
+        { onConflict: 'collection_id,user_id', ignoreDuplicates: true }
+      )
+
+    if (error) throw error
+    await fetchEntries()
+  }
+
+  const removeMember = async (userId: string) => {
+    if (!collectionId) return
+
+    const { error } = await supabase
+      .from('collection_members')
+      .delete()
+      .eq('collection_id', collectionId)
+      .eq('user_id', userId)
+
+    if (error) throw error
+    setMembers(prev => prev.filter(member => member.user_id !== userId))
+  }
+
+  return {
+    entries,
+    members,
+    loading,
+    fetchEntries,
+    moveEntry,
+    updateNote,
+    removeEntry,
+    addMembers,
+    removeMember
+  }
+}
@@ -0,0 +1,165 @@
+import { useState, useEffect, useRef } from 'react'
+
+const TICK_INTERVAL = 250
+const ALARM_INTERVAL = 2000
+
+export interface CookTimer {
+  id: string
+  label: string
+  // Step the timer was started from, if any
+  step: number | null
+  duration: number
+  // Set while running; paused and finished timers keep `remaining` instead
+  endsAt: number | null
+  remaining: number
+  finished: boolean
+}
+
+let audioContext: AudioContext | null = null
+
+// Browsers only allow audio after a user gesture, so the context is created
+// (or resumed) when a timer is started rather than when it goes off.
+function primeAudio() {
+  try {
+    const AudioContextClass = window.AudioContext || (window as Window & { webkitAudioContext?: typeof AudioContext }).webkitAudioContext
+    if (!AudioContextClass) return
+    if (!audioContext) audioContext = new AudioContextClass()
+    if (audioContext.state === 'suspended') audioContext.resume()
+  } catch (error) {
+    console.warn('Timer sound unavailable:', error)
+  }
+}
+
+function playChime() {
+  if (audioContext) {
+    const start = audioContext.currentTime
+    ;[0, 0.25, 0.5].forEach(offset => {
+      const oscillator = audioContext!.createOscillator()
+      const gain = audioContext!.createGain()
+      oscillator.type = 'sine'
+      oscillator.frequency.value = 880
+      gain.gain.setValueAtTime(0.0001, start + offset)
+      gain.gain.exponentialRampToValueAtTime(0.4, start + offset + 0.02)
+      gain.gain.exponentialRampToValueAtTime(0.0001, start + offset + 0.2)
+      oscillator.connect(gain).connect(audioContext!.destination)
+      oscillator.start(start + offset)
+      oscillator.stop(start + offset + 0.22)
+    })
+  }
+  if ('vibrate' in navigator) navigator.vibrate([200, 100, 200])
+}
+
+// Several countdowns running side by side. Remaining time is worked out from
+// the end timestamp, so timers stay correct when the tab is throttled. A
+// finished timer keeps chiming until it is dismissed.
+export function useCookTimers(onFinish?: (timer: CookTimer) => void) {
+  const [timers, setTimers] = useState<CookTimer[]>([])
+  const [now, setNow] = useState(() => Date.now())
+  const onFinishRef = useRef(onFinish)
+  const timersRef = useRef(timers)
+  onFinishRef.current = onFinish
+  timersRef.current = timers
+
+  const running = timers.some(timer => timer.endsAt !== null)
+  const ringing = timers.some(timer => timer.finished)
+
+  useEffect(() => {
+    if (!running) return
+
+    const interval = setInterval(() => {
+      const current = Date.now()
+      setNow(current)
+      const done = timersRef.current
+        .filter(timer => timer.endsAt !== null && timer.endsAt <= current)
+        .map(timer => timer.id)
+      if (done.length === 0) return
+
+      setTimers(prev => prev.map(timer =>
+        done.includes(timer.id) ? { ...timer, endsAt: null, remaining: 0, finished: true } : timer
+      ))
+      timersRef.current
+        .filter(timer => done.includes(timer.id))
+        .forEach(timer => onFinishRef.current?.(timer))
+    }, TICK_INTERVAL)
+
+    return () => clearInterval(interval)
+  }, [running])
+
+  useEffect(() => {
+    if (!ringing) return
+    playChime()
+    const interval = setInterval(playChime, ALARM_INTERVAL)
+    return () => clearInterval(interval)
+  }, [ringing])
+
+  const remainingSeconds = (timer: CookTimer) =>
+    timer.endsAt !== null ? Math.max(0, (timer.endsAt - now) / 1000) : timer.remaining
+
+  const startTimer = (label: string, seconds: number, step: number | null = null) => {
+    primeAudio()
+    const current = Date.now()
+    setNow(current)
+    setTimers(prev => [
+      ...prev,
+      {
+        id: `${current}-${Math.random().toString(36).slice(2, 8)}`,
+        label,
+        step,
+        duration: seconds,
+        endsAt: current + seconds * 1000,
+        remaining: seconds,
+        finished: false
+      }
+    ])
+  }
+
+  const pauseTimer = (id: string) => {
+    const current = Date.now()
+    setTimers(prev => prev.map(timer =>
+      timer.id === id && timer.endsAt !== null
+        ? { ...timer, endsAt: null, remaining: Math.max(0, (timer.endsAt - current) / 1000) }
+        : timer
+    ))
+  }
+
+  const resumeTimer = (id: string) => {
+    primeAudio()
+    const current = Date.now()
+    setNow(current)
+    setTimers(prev => prev.map(timer =>
+      timer.id === id && timer.endsAt === null && !timer.finished
+        ? { ...timer, endsAt: current + timer.remaining * 1000 }
+        : timer
+    ))
+  }
+
+  // Adding time to a finished timer silences it and starts it again
+  const extendTimer = (id: string, seconds: number) => {
+    const current = Date.now()
+    setNow(current)
+    setTimers(prev => prev.map(timer => {
+      if (timer.id !== id) return timer
+      if (timer.endsAt !== null) return { ...timer, endsAt: timer.endsAt + seconds * 1000 }
+      if (timer.finished) return { ...timer, finished: false, remaining: seconds, endsAt: current + seconds * 1000 }
+      return { ...timer, remaining: timer.remaining + seconds }
+    }))
+  }
+
+  const dismissTimer = (id: string) => {
+    setTimers(prev => prev.filter(timer => timer.id !== id))
+  }
+
+  const clearTimers = () => setTimers([])
+
+  return {
+    timers,
+    ringing,
+    remainingSeconds,
+    startTimer,
+    pauseTimer,
+    resumeTimer,
+    extendTimer,
+    dismissTimer,
+    clearTimers
+  }
+}
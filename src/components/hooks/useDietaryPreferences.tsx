@@ -0,0 +1,66 @@
+import { useState, useEffect, useCallback } from 'react'
+import { useAuth } from '../AuthContext'
+import { supabase } from '../../utils/supabase/client'
+
+const isMissingColumn = (code?: string) => code === '42703' || code === 'PGRST204'
+
+// The diets the current user follows, as dietary label ids. Saving throws so
+// callers can report failures.
+export function useDietaryPreferences() {
+  const { user } = useAuth()
+  const [preferences, setPreferences] = useState<string[]>([])
+  const [loading, setLoading] = useState(true)
+  const [available, setAvailable] = useState(true)
+
+  const fetchPreferences = useCallback(async () => {
+    if (!user) return
+
+    try {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('dietary_preferences')
+        .eq('id', user.id)
+        .maybeSingle()
+
+      if (error) {
+        if (isMissingColumn(error.code)) {
+          console.warn('Dietary preferences not available. Database setup may be required.')
+          setAvailable(false)
+          return
+        }
+        console.error('Error fetching dietary preferences:', error)
+        return
+      }
+
+      setAvailable(true)
+      setPreferences(data?.dietary_preferences || [])
+    } catch (error) {
+      console.error('Error fetching dietary preferences:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [user?.id])
+
+  useEffect(() => {
+    fetchPreferences()
+  }, [fetchPreferences])
+
+  const savePreferences = async (labels: string[]) => {
+    if (!user) throw new Error('Not signed in')
+
+    const { error } = await supabase
+      .from('profiles')
+      .update({ dietary_preferences: labels, updated_at: new Date().toISOString() })
+      .eq('id', user.id)
+
+    if (error) throw error
+    setPreferences(labels)
+  }
+
+  return {
+    preferences,
+    loading,
+    available,
+    savePreferences
+  }
+}
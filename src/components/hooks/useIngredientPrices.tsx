@@ -0,0 +1,95 @@
+import { useState, useEffect, useCallback } from 'react'
+import { useAuth } from '../AuthContext'
+import { supabase } from '../../utils/supabase/client'
+import { IngredientPrice, IngredientPriceDraft } from '../../utils/recipes/costing'
+
+const isMissingTable = (code?: string) => code === 'PGRST205' || code === '42P01'
+
+// NUMERIC columns arrive as strings
+const toPrice = (row: any): IngredientPrice => ({
+  ...row,
+  price: Number(row.price),
+  quantity: Number(row.quantity),
+  yield_percent: Number(row.yield_percent)
+})
+
+// The shared programme price list plus the current user's own prices.
+// Instructors and admins can edit the shared list. Mutations throw so
+// callers can report failures.
+export function useIngredientPrices(enabled = true) {
+  const { user } = useAuth()
+  const [prices, setPrices] = useState<IngredientPrice[]>([])
+  const [loading, setLoading] = useState(enabled)
+  const [available, setAvailable] = useState(true)
+
+  const canEditShared = user?.role === 'instructor' || user?.role === 'admin'
+
+  const fetchPrices = useCallback(async () => {
+    if (!user) return
+
+    setLoading(true)
+    try {
+      const { data, error } = await supabase
+        .from('ingredient_prices')
+        .select('*')
+        .order('name')
+
+      if (error) {
+        if (isMissingTable(error.code)) {
+          console.warn('Ingredient prices table not available. Database setup may be required.')
+          setAvailable(false)
+          setPrices([])
+          return
+        }
+        console.error('Error fetching ingredient prices:', error)
+        return
+      }
+
+      setAvailable(true)
+      setPrices((data || []).map(toPrice))
+    } catch (error) {
+      console.error('Error fetching ingredient prices:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [user?.id])
+
+  useEffect(() => {
+    if (enabled) fetchPrices()
+  }, [enabled, fetchPrices])
+
+  // Adds a price to the user's own list, or the shared one, or updates an existing row
+  const savePrice = async (draft: IngredientPriceDraft, options: { id?: string; shared?: boolean } = {}) => {
+    if (!user) throw new Error('Not signed in')
+
+    const fields = { ...draft, name: draft.name.trim(), updated_by: user.id }
+    const { data, error } = options.id
+      ? await supabase.from('ingredient_prices').update(fields).eq('id', options.id).select().single()
+      : await supabase
+        .from('ingredient_prices')
+        .insert({ ...fields, owner_id: options.shared ? null : user.id })
+        .select()
+        .single()
+
+    if (error) throw error
+    const saved = toPrice(data)
+    setPrices(prev => [...prev.filter(price => price.id !== saved.id), saved].sort((a, b) => a.name.localeCompare(b.name)))
+    return saved
+  }
+
+  const deletePrice = async (id: string) => {
+    const { error } = await supabase.from('ingredient_prices').delete().eq('id', id)
+    if (error) throw error
+    setPrices(prev => prev.filter(price => price.id !== id))
+  }
+
+  return {
+    prices,
+    loading,
+    available,
+    canEditShared,
+    fetchPrices,
+    savePrice,
+    deletePrice
+  }
+}
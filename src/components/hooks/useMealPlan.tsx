@@ -0,0 +1,143 @@
+import { useState, useEffect, useCallback } from 'react'
+import { useAuth } from '../AuthContext'
+import { supabase } from '../../utils/supabase/client'
+import { MEAL_PLAN_SELECT, MealPlanEntry, MealPlanRecipe, MealSlot, shiftedEntries } from '../../utils/recipes/mealPlans'
+
+const isMissingTable = (code?: string) => code === 'PGRST205' || code === '42P01'
+
+const byPosition = (a: MealPlanEntry, b: MealPlanEntry) =>
+  a.position - b.position || a.created_at.localeCompare(b.created_at)
+
+// The current user's meal plan between two YYYY-MM-DD dates, inclusive.
+// Mutations throw so callers can report failures.
+export function useMealPlan(from: string, to: string) {
+  const { user } = useAuth()
+  const [entries, setEntries] = useState<MealPlanEntry[]>([])
+  const [loading, setLoading] = useState(true)
+  const [available, setAvailable] = useState(true)
+
+  const loadRange = useCallback(async (rangeFrom: string, rangeTo: string): Promise<MealPlanEntry[]> => {
+    if (!user) return []
+
+    const { data, error } = await supabase
+      .from('meal_plan_entries')
+      .select(MEAL_PLAN_SELECT)
+      .eq('owner_id', user.id)
+      .gte('plan_date', rangeFrom)
+      .lte('plan_date', rangeTo)
+      .order('plan_date', { ascending: true })
+
+    if (error) throw error
+    return ((data || []) as MealPlanEntry[]).sort(byPosition)
+  }, [user?.id])
+
+  const fetchEntries = useCallback(async () => {
+    if (!user) return
+
+    setLoading(true)
+    try {
+      setEntries(await loadRange(from, to))
+      setAvailable(true)
+    } catch (error: any) {
+      if (isMissingTable(error?.code)) {
+        console.warn('Meal plan table not available. Database setup may be required.')
+        setAvailable(false)
+      } else {
+        console.error('Error fetching meal plan:', error)
+      }
+      setEntries([])
+    } finally {
+      setLoading(false)
+    }
+  }, [from, to, loadRange])
+
+  useEffect(() => {
+    fetchEntries()
+  }, [fetchEntries])
+
+  const nextPosition = (date: string, slot: MealSlot) =>
+    entries.filter(entry => entry.plan_date === date && entry.slot === slot).length
+
+  const addEntry = async (date: string, slot: MealSlot, recipe: MealPlanRecipe) => {
+    if (!user) throw new Error('Not signed in')
+
+    const { data, error } = await supabase
+      .from('meal_plan_entries')
+      .insert({
+        owner_id: user.id,
+        plan_date: date,
+        slot,
+        recipe_id: recipe.id,
+        servings: recipe.servings || 1,
+        position: nextPosition(date, slot)
+      })
+      .select(MEAL_PLAN_SELECT)
+      .single()
+
+    if (error) throw error
+    setEntries(prev => [...prev, data as MealPlanEntry])
+  }
+
+  // Moves locally first so dropping feels instant; rolled back if the save fails
+  const moveEntry = async (entryId: string, date: string, slot: MealSlot) => {
+    const entry = entries.find(other => other.id === entryId)
+    if (!entry || (entry.plan_date === date && entry.slot === slot)) return
+
+    const previous = entries
+    const position = nextPosition(date, slot)
+    setEntries(prev => prev.map(other => other.id === entryId ? { ...other, plan_date: date, slot, position } : other))
+
+    const { error } = await supabase
+      .from('meal_plan_entries')
+      .update({ plan_date: date, slot, position })
+      .eq('id', entryId)
+
+    if (error) {
+      setEntries(previous)
+      throw error
+    }
+  }
+
+  const updateServings = async (entryId: string, servings: number) => {
+    const { error } = await supabase
+      .from('meal_plan_entries')
+      .update({ servings })
+      .eq('id', entryId)
+
+    if (error) throw error
+    setEntries(prev => prev.map(entry => entry.id === entryId ? { ...entry, servings } : entry))
+  }
+
+  const removeEntry = async (entryId: string) => {
+    const { error } = await supabase.from('meal_plan_entries').delete().eq('id', entryId)
+    if (error) throw error
+    setEntries(prev => prev.filter(entry => entry.id !== entryId))
+  }
+
+  // Adds copies of the given entries `days` later, alongside anything already
+  // planned there. Returns how many were copied.
+  const copyEntries = async (source: MealPlanEntry[], days: number) => {
+    if (!user) throw new Error('Not signed in')
+    if (source.length === 0) return 0
+
+    const rows = shiftedEntries(source, days).map(row => ({ ...row, owner_id: user.id }))
+    const { error } = await supabase.from('meal_plan_entries').insert(rows)
+
+    if (error) throw error
+    await fetchEntries()
+    return rows.length
+  }
+
+  return {
+    entries,
+    loading,
+    available,
+    fetchEntries,
+    loadRange,
+    addEntry,
+    moveEntry,
+    updateServings,
+    removeEntry,
+    copyEntries
+  }
+}
@@ -0,0 +1,98 @@
+import { useState, useEffect, useCallback } from 'react'
+import { useAuth } from '../AuthContext'
+import { supabase } from '../../utils/supabase/client'
+import { PantryDraft, PantryItem } from '../../utils/recipes/pantry'
+
+const isMissingTable = (code?: string) => code === 'PGRST205' || code === '42P01'
+
+const byName = (a: PantryItem, b: PantryItem) => a.name.localeCompare(b.name)
+
+const cleanDraft = (draft: Partial<PantryDraft>) => ({
+  ...draft,
+  ...(draft.name !== undefined && { name: draft.name.trim() }),
+  ...(draft.unit !== undefined && { unit: draft.unit?.trim() || null })
+})
+
+// The current user's pantry, sorted by name. Mutations throw so callers can
+// report failures.
+export function usePantry() {
+  const { user } = useAuth()
+  const [items, setItems] = useState<PantryItem[]>([])
+  const [loading, setLoading] = useState(true)
+  const [available, setAvailable] = useState(true)
+
+  const fetchItems = useCallback(async () => {
+    if (!user) return
+
+    try {
+      const { data, error } = await supabase
+        .from('pantry_items')
+        .select('*')
+        .eq('owner_id', user.id)
+        .order('name', { ascending: true })
+
+      if (error) {
+        if (isMissingTable(error.code)) {
+          console.warn('Pantry table not available. Database setup may be required.')
+          setAvailable(false)
+          setItems([])
+          return
+        }
+        console.error('Error fetching pantry:', error)
+        return
+      }
+
+      setAvailable(true)
+      setItems(data || [])
+    } catch (error) {
+      console.error('Error fetching pantry:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [user?.id])
+
+  useEffect(() => {
+    fetchItems()
+  }, [fetchItems])
+
+  const addItem = async (draft: PantryDraft) => {
+    if (!user) throw new Error('Not signed in')
+
+    const { data, error } = await supabase
+      .from('pantry_items')
+      .insert({ ...cleanDraft(draft), owner_id: user.id })
+      .select()
+      .single()
+
+    if (error) throw error
+    setItems(prev => [...prev, data].sort(byName))
+  }
+
+  const updateItem = async (id: string, updates: Partial<PantryDraft>) => {
+    const { data, error } = await supabase
+      .from('pantry_items')
+      .update(cleanDraft(updates))
+      .eq('id', id)
+      .select()
+      .single()
+
+    if (error) throw error
+    setItems(prev => prev.map(item => item.id === id ? data : item).sort(byName))
+  }
+
+  const removeItem = async (id: string) => {
+    const { error } = await supabase.from('pantry_items').delete().eq('id', id)
+    if (error) throw error
+    setItems(prev => prev.filter(item => item.id !== id))
+  }
+
+  return {
+    items,
+    loading,
+    available,
+    fetchItems,
+    addItem,
+    updateItem,
+    removeItem
+  }
+}
@@ -2,6 +2,15 @@ import { useState, useEffect, useCallback } from 'react'
 import { useAuth } from '../AuthContext'
 import { supabase } from '../../utils/supabase/client'
 
+// The dashboard only shows the newest few recipes; the recipe feed itself is
+// paged by useRecipeSearch
+const RECENT_RECIPE_LIMIT = 20
+const RECENT_RECIPE_COLUMNS = `
+  id, title, description, image_url, created_at, difficulty, prep_time, cook_time, servings,
+  like_count, rating_count, average_rating,
+  profiles:author_id (name, avatar_url)
+`
+
 interface RealtimeData {
   recipes: any[]
   forumPosts: any[]
@@ -13,7 +22,7 @@ interface RealtimeData {
 interface ActivityItem {
   id: string
   user_id: string
-  type: 'recipe_created' | 'post_created' | 'comment_added' | 'recipe_liked'
+  type: 'recipe_created' | 'post_created' | 'comment_added' | 'recipe_liked' | 'recipe_remixed'
   description: string
   timestamp: string
   metadata?: any
@@ -31,52 +40,48 @@ export function useRealtime() {
 
   const [connectionStatus, setConnectionStatus] = useState<'connecting' | 'connected' | 'disconnected'>('connecting')
 
+  // Newest public recipes for the dashboard and notifications
+  const loadRecentRecipes = useCallback(async () => {
+    try {
+      const { data: recipesData, error: recipesError } = await supabase
+        .from('recipes')
+        .select(RECENT_RECIPE_COLUMNS)
+        .eq('is_public', true)
+        .order('created_at', { ascending: false })
+        .limit(RECENT_RECIPE_LIMIT)
+
+      if (recipesError && (recipesError.code === 'PGRST205' || recipesError.code === '42P01')) return []
+
+      return recipesData?.map((recipe: any) => ({
+        id: recipe.id,
+        title: recipe.title,
+        author: recipe.profiles?.name || 'Unknown',
+        author_avatar: recipe.profiles?.avatar_url,
+        likes: recipe.like_count || 0,
+        rating_count: recipe.rating_count || 0,
+        average_rating: Number(recipe.average_rating) || 0,
+        image: recipe.image_url,
+        created_at: recipe.created_at,
+        difficulty: recipe.difficulty,
+        cookTime: `${(recipe.prep_time || 0) + (recipe.cook_time || 0)} min`,
+        description: recipe.description,
+        servings: recipe.servings
+      })) || []
+    } catch (error) {
+      console.warn('Recipes table not available:', error)
+      return []
+    }
+  }, [])
+
   // Load real data from Supabase
   const loadRealData = useCallback(async () => {
     if (!session) return { recipes: [], forumPosts: [], activities: [] }
 
     try {
-      let recipes = []
+      const recipes = await loadRecentRecipes()
       let forumPosts = []
       let activities = []
 
-      // Try to fetch recipes with error handling for missing tables
-      try {
-        const { data: recipesData, error: recipesError } = await supabase
-          .from('recipes')
-          .select(`
-            *,
-            profiles:author_id (name, avatar_url),
-            recipe_likes (id),
-            recipe_ratings (rating)
-          `)
-          .eq('is_public', true)
-          .order('created_at', { ascending: false })
-          .limit(20)
-
-        if (!recipesError || (recipesError.code !== 'PGRST205' && recipesError.code !== '42P01')) {
-          recipes = recipesData?.map(recipe => ({
-            id: recipe.id,
-            title: recipe.title,
-            author: recipe.profiles?.name || 'Unknown',
-            author_avatar: recipe.profiles?.avatar_url,
-            likes: recipe.recipe_likes?.length || 0,
-            rating_count: recipe.recipe_ratings?.length || 0,
-            average_rating: recipe.recipe_ratings?.length > 0 
-              ? recipe.recipe_ratings.reduce((sum: number, r: any) => sum + r.rating, 0) / recipe.recipe_ratings.length 
-              : 0,
-            image: recipe.image_url,
-            created_at: recipe.created_at,
-            difficulty: recipe.difficulty,
-            cookTime: `${(recipe.prep_time || 0) + (recipe.cook_time || 0)} min`,
-            description: recipe.description,
-            servings: recipe.servings
-          })) || []
-        }
-      } catch (error) {
-        console.warn('Recipes table not available:', error)
-      }
-
       // Try to fetch forum posts with error handling
       try {
         const { data: forumData, error: forumError } = await supabase
@@ -143,7 +148,7 @@ export function useRealtime() {
         activities: []
       }
     }
-  }, [session, user?.id])
+  }, [session, user?.id, loadRecentRecipes])
 
   // Initialize connection and load real data
   useEffect(() => {
@@ -193,8 +198,8 @@ export function useRealtime() {
       }, async (payload) => {
         console.log('Recipe updated:', payload)
         // Refresh recipes data
-        const newData = await loadRealData()
-        setData(prev => ({ ...prev, recipes: newData.recipes }))
+        const recipes = await loadRecentRecipes()
+        setData(prev => ({ ...prev, recipes }))
       })
       .on('postgres_changes', {
         event: '*',
@@ -222,32 +227,54 @@ export function useRealtime() {
     return () => {
       channel.unsubscribe()
     }
-  }, [connectionStatus, user?.id, loadRealData])
+  }, [connectionStatus, user?.id, loadRealData, loadRecentRecipes])
 
   // Functions for manual data updates
+  // Passing the id of an autosaved draft turns that draft into the recipe
+  // instead of inserting a new row.
   const addRecipe = useCallback(async (recipe: any) => {
     if (!user) return
 
     try {
-      const { data: newRecipe, error } = await supabase
-        .from('recipes')
-        .insert({
-          title: recipe.title,
-          description: recipe.description,
-          ingredients: recipe.ingredients,
-          instructions: recipe.instructions,
-          prep_time: recipe.prep_time,
-          cook_time: recipe.cook_time,
-          difficulty: recipe.difficulty,
-          servings: recipe.servings,
-          image_url: recipe.image_url,
-          image_urls: recipe.image_urls,
-          tags: recipe.tags,
-          author_id: user.id,
-          is_public: recipe.is_public ?? true
-        })
-        .select()
-        .single()
+      const fields = {
+        title: recipe.title,
+        description: recipe.description,
+        ingredients: recipe.ingredients,
+        formula: recipe.formula ?? null,
+        instructions: recipe.instructions,
+        prep_time: recipe.prep_time,
+        cook_time: recipe.cook_time,
+        difficulty: recipe.difficulty,
+        servings: recipe.servings,
+        image_url: recipe.image_url,
+        image_urls: recipe.image_urls,
+        media_type: recipe.media_type,
+        step_media: recipe.step_media,
+        tags: recipe.tags,
+        allergens: recipe.allergens,
+        dietary_labels: recipe.dietary_labels,
+        detected_allergens: recipe.detected_allergens,
+        nutrition: recipe.nutrition,
+        author_id: user.id,
+        ...(recipe.status
+          ? { status: recipe.status, publish_at: recipe.publish_at ?? null }
+          : { is_public: recipe.is_public ?? true }),
+        ...(recipe.forked_from && { forked_from: recipe.forked_from })
+      }
+
+      const { data: newRecipe, error } = recipe.id
+        ? await supabase
+          .from('recipes')
+          .update(fields)
+          .eq('id', recipe.id)
+          .eq('author_id', user.id)
+          .select()
+          .single()
+        : await supabase
+          .from('recipes')
+          .insert(fields)
+          .select()
+          .single()
 
       if (error) {
         // If table doesn't exist, handle gracefully
@@ -260,19 +287,31 @@ export function useRealtime() {
       }
 
       // Try to add activity (handle missing table gracefully)
-      try {
-        await supabase.from('activities').insert({
-          user_id: user.id,
-          type: 'recipe_created',
-          description: `You shared a new recipe: "${recipe.title}"`
-        })
-      } catch (activityError) {
-        console.warn('Activities table not available:', activityError)
+      const description = recipe.forked_from
+        ? `You remixed "${recipe.title}"`
+        : recipe.status === 'scheduled'
+          ? `You scheduled "${recipe.title}" for publishing`
+          : newRecipe.is_public
+            ? `You shared a new recipe: "${recipe.title}"`
+            : null
+
+      if (description) {
+        try {
+          await supabase.from('activities').insert({
+            user_id: user.id,
+            type: 'recipe_created',
+            description
+          })
+        } catch (activityError) {
+          console.warn('Activities table not available:', activityError)
+        }
       }
 
       // Refresh data
       const newData = await loadRealData()
       setData(prev => ({ ...prev, recipes: newData.recipes, activities: newData.activities }))
+
+      return newRecipe
     } catch (error) {
       console.error('Error adding recipe:', error)
     }
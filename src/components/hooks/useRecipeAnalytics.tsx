@@ -0,0 +1,67 @@
+import { useState, useEffect } from 'react'
+import { supabase } from '../../utils/supabase/client'
+import { RecipeAnalyticsDay, toAnalyticsDay, viewSessionKey } from '../../utils/recipes/analytics'
+
+const isMissingFunction = (code?: string) => code === 'PGRST202' || code === '42883'
+
+// Counts a view of the recipe. The database keeps one per viewer per day and
+// ignores the author's own views; failures are logged, never shown.
+export async function recordRecipeView(recipeId: string) {
+  try {
+    const { error } = await supabase.rpc('record_recipe_view', {
+      target_recipe_id: recipeId,
+      viewer_session: viewSessionKey()
+    })
+    if (error && !isMissingFunction(error.code)) {
+      console.error('Error recording recipe view:', error)
+    }
+  } catch (error) {
+    console.error('Error recording recipe view:', error)
+  }
+}
+
+// Daily activity for one of the current user's recipes over the last `days` days
+export function useRecipeAnalytics(recipeId: string | null, days: number) {
+  const [series, setSeries] = useState<RecipeAnalyticsDay[]>([])
+  const [loading, setLoading] = useState(false)
+  const [available, setAvailable] = useState(true)
+
+  useEffect(() => {
+    if (!recipeId) return
+    let cancelled = false
+
+    const fetchSeries = async () => {
+      setLoading(true)
+      try {
+        const { data, error } = await supabase.rpc('recipe_analytics', { target_recipe_id: recipeId, days })
+        if (cancelled) return
+
+        if (error) {
+          if (isMissingFunction(error.code)) {
+            console.warn('Recipe analytics not available. Database setup may be required.')
+            setAvailable(false)
+          } else {
+            console.error('Error fetching recipe analytics:', error)
+          }
+          setSeries([])
+          return
+        }
+
+        setAvailable(true)
+        setSeries((data || []).map(toAnalyticsDay))
+      } catch (error) {
+        console.error('Error fetching recipe analytics:', error)
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }
+
+    fetchSeries()
+
+    return () => {
+      cancelled = true
+    }
+  }, [recipeId, days])
+
+  return { series, loading, available }
+}
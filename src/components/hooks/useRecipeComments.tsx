@@ -0,0 +1,113 @@
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import { useAuth } from '../AuthContext'
+import { supabase } from '../../utils/supabase/client'
+import { RecipeComment, buildCommentThreads, commentWithReplies } from '../../utils/recipes/comments'
+
+const isMissingTable = (code?: string) => code === 'PGRST205' || code === '42P01'
+
+const COMMENT_SELECT = '*, profiles (name, avatar_url)'
+
+// The comment threads on one recipe, kept current while other people post.
+// Mutations throw so callers can report failures.
+export function useRecipeComments(recipeId: string) {
+  const { user } = useAuth()
+  const [comments, setComments] = useState<RecipeComment[]>([])
+  const [loading, setLoading] = useState(true)
+  const [available, setAvailable] = useState(true)
+
+  const fetchComments = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('recipe_comments')
+        .select(COMMENT_SELECT)
+        .eq('recipe_id', recipeId)
+        .order('created_at')
+
+      if (error) {
+        if (isMissingTable(error.code)) {
+          console.warn('Recipe comments table not available. Database setup may be required.')
+          setAvailable(false)
+          setComments([])
+          return
+        }
+        console.error('Error fetching comments:', error)
+        return
+      }
+
+      setAvailable(true)
+      setComments(data || [])
+    } catch (error) {
+      console.error('Error fetching comments:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [recipeId])
+
+  useEffect(() => {
+    setLoading(true)
+    fetchComments()
+
+    const channel = supabase.channel(`recipe-comments-${recipeId}`)
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'recipe_comments',
+        filter: `recipe_id=eq.${recipeId}`
+      }, () => {
+        fetchComments()
+      })
+      .subscribe()
+
+    return () => {
+      channel.unsubscribe()
+    }
+  }, [recipeId, fetchComments])
+
+  const threads = useMemo(() => buildCommentThreads(comments), [comments])
+
+  const addComment = async (body: string, parentId: string | null = null) => {
+    if (!user) throw new Error('Not signed in')
+
+    const { data, error } = await supabase
+      .from('recipe_comments')
+      .insert({ recipe_id: recipeId, author_id: user.id, parent_id: parentId, body: body.trim() })
+      .select(COMMENT_SELECT)
+      .single()
+
+    if (error) throw error
+    setComments(prev => [...prev.filter(comment => comment.id !== data.id), data])
+    return data as RecipeComment
+  }
+
+  const updateComment = async (id: string, body: string) => {
+    const { data, error } = await supabase
+      .from('recipe_comments')
+      .update({ body: body.trim() })
+      .eq('id', id)
+      .select(COMMENT_SELECT)
+      .single()
+
+    if (error) throw error
+    setComments(prev => prev.map(comment => comment.id === id ? data : comment))
+  }
+
+  // Replies go with the comment, as the database cascades the delete
+  const deleteComment = async (id: string) => {
+    const { error } = await supabase.from('recipe_comments').delete().eq('id', id)
+    if (error) throw error
+
+    const removed = commentWithReplies(comments, id)
+    setComments(prev => prev.filter(comment => !removed.has(comment.id)))
+  }
+
+  return {
+    threads,
+    count: comments.length,
+    loading,
+    available,
+    fetchComments,
+    addComment,
+    updateComment,
+    deleteComment
+  }
+}
@@ -0,0 +1,112 @@
+import { useState, useEffect, useRef } from 'react'
+import { useAuth } from '../AuthContext'
+import { supabase } from '../../utils/supabase/client'
+
+const AUTOSAVE_DELAY = 2000
+
+export type AutosaveState = 'idle' | 'saving' | 'saved' | 'error'
+
+// Keeps a server-side draft in step with the create form while it is open.
+// Pass null while there is nothing worth saving. The first save inserts a
+// draft row and later ones update it, so the author finds unfinished work
+// under Drafts in My Recipes.
+export function useRecipeDraftAutosave(recipeData: Record<string, any> | null) {
+  const { user } = useAuth()
+  const [draftId, setDraftId] = useState<string | null>(null)
+  const [state, setState] = useState<AutosaveState>('idle')
+  const [savedAt, setSavedAt] = useState<Date | null>(null)
+
+  const draftIdRef = useRef<string | null>(null)
+  const latestRef = useRef<string | null>(null)
+  const lastSavedRef = useRef<string | null>(null)
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+  const inFlightRef = useRef<Promise<void> | null>(null)
+
+  const serialized = recipeData ? JSON.stringify(recipeData) : null
+  latestRef.current = serialized
+
+  const save = (snapshot: string) => {
+    if (!user) return Promise.resolve()
+
+    const run = (async () => {
+      // Never run two saves at once, or the first insert could be duplicated
+      await inFlightRef.current
+      if (snapshot === lastSavedRef.current) return
+
+      setState('saving')
+      try {
+        const fields = { ...JSON.parse(snapshot), status: 'draft', publish_at: null }
+
+        if (draftIdRef.current) {
+          const { error } = await supabase
+            .from('recipes')
+            .update(fields)
+            .eq('id', draftIdRef.current)
+            .eq('author_id', user.id)
+          if (error) throw error
+        } else {
+          const { data, error } = await supabase
+            .from('recipes')
+            .insert({ ...fields, author_id: user.id })
+            .select('id')
+            .single()
+          if (error) throw error
+          draftIdRef.current = data.id
+          setDraftId(data.id)
+        }
+
+        lastSavedRef.current = snapshot
+        setSavedAt(new Date())
+        setState('saved')
+      } catch (error) {
+        console.error('Error autosaving recipe draft:', error)
+        setState('error')
+      }
+    })()
+
+    inFlightRef.current = run
+    return run
+  }
+
+  useEffect(() => {
+    if (!serialized || !user) return
+
+    timerRef.current = setTimeout(() => {
+      timerRef.current = null
+      save(serialized)
+    }, AUTOSAVE_DELAY)
+
+    return () => {
+      if (timerRef.current) clearTimeout(timerRef.current)
+      timerRef.current = null
+    }
+  }, [serialized, user?.id])
+
+  // Save any unsaved changes now and wait for saving to finish. Resolves to
+  // the draft id, if a draft exists.
+  const flush = async (): Promise<string | null> => {
+    if (timerRef.current) {
+      clearTimeout(timerRef.current)
+      timerRef.current = null
+    }
+    if (latestRef.current && latestRef.current !== lastSavedRef.current) {
+      await save(latestRef.current)
+    } else {
+      await inFlightRef.current
+    }
+    return draftIdRef.current
+  }
+
+  // Forget the current draft so the next edits start a new one
+  const reset = () => {
+    if (timerRef.current) clearTimeout(timerRef.current)
+    timerRef.current = null
+    draftIdRef.current = null
+    lastSavedRef.current = null
+    setDraftId(null)
+    setSavedAt(null)
+    setState('idle')
+  }
+
+  return { draftId, state, savedAt, flush, reset }
+}
@@ -0,0 +1,205 @@
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { supabase } from '../../utils/supabase/client'
+import {
+  EMPTY_SEARCH_FILTERS,
+  RECIPE_PAGE_SIZE,
+  RecipeSearchFacets,
+  RecipeSearchFilters,
+  SearchCursor,
+  effectiveSort,
+  rowSortKey,
+  toPageArgs,
+  toSearchArgs
+} from '../../utils/recipes/search'
+import { LEGACY_RECIPE_SELECT, RECIPE_SELECT, enrichRecipe } from '../../utils/recipes/records'
+
+const STORAGE_KEY = 'acwhisk-recipe-search'
+const QUERY_DEBOUNCE_MS = 300
+
+function loadStoredFilters(): RecipeSearchFilters {
+  try {
+    const stored = sessionStorage.getItem(STORAGE_KEY)
+    return stored ? { ...EMPTY_SEARCH_FILTERS, ...JSON.parse(stored) } : EMPTY_SEARCH_FILTERS
+  } catch {
+    return EMPTY_SEARCH_FILTERS
+  }
+}
+
+const isMissingFunction = (code?: string) => code === 'PGRST202' || code === '42883'
+
+// Cursor after the last row of a page, read while that row still exists
+async function cursorAfter(page: any[], filters: RecipeSearchFilters): Promise<SearchCursor | null> {
+  const last = page[page.length - 1]
+  if (!last) return null
+
+  const sort = effectiveSort(filters)
+  if (sort !== 'relevance') {
+    return { key: rowSortKey(last, sort), created_at: last.created_at, id: last.id }
+  }
+
+  const { data, error } = await supabase.rpc('recipe_search_rank', {
+    search_query: filters.query.trim(),
+    target_recipe_id: last.id
+  })
+  if (error) throw error
+  return { key: Number(data) || 0, created_at: last.created_at, id: last.id }
+}
+
+// Server-side recipe search with keyset pagination. Filters live in
+// sessionStorage so the same results come back when the user leaves the
+// Recipes tab and returns.
+export function useRecipeSearch() {
+  const [filters, setFilters] = useState<RecipeSearchFilters>(loadStoredFilters)
+  const [debouncedQuery, setDebouncedQuery] = useState(filters.query)
+  const [results, setResults] = useState<any[]>([])
+  const [facets, setFacets] = useState<RecipeSearchFacets | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [loadingMore, setLoadingMore] = useState(false)
+  const [hasMore, setHasMore] = useState(false)
+  const [cursor, setCursor] = useState<SearchCursor | null>(null)
+  const requestId = useRef(0)
+
+  useEffect(() => {
+    try {
+      sessionStorage.setItem(STORAGE_KEY, JSON.stringify(filters))
+    } catch {
+      // Storage may be unavailable in private browsing; search still works
+    }
+  }, [filters])
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedQuery(filters.query), QUERY_DEBOUNCE_MS)
+    return () => clearTimeout(timer)
+  }, [filters.query])
+
+  const fetchLegacy = async (query: string) => {
+    const { data, error } = await supabase
+      .from('recipes')
+      .select(LEGACY_RECIPE_SELECT)
+      .eq('is_public', true)
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      if (error.code === 'PGRST205' || error.code === '42P01') {
+        console.warn('Recipes table not available. Database setup may be required.')
+        return []
+      }
+      throw error
+    }
+
+    const term = query.toLowerCase()
+    return (data || []).filter((recipe: any) =>
+      recipe.title?.toLowerCase().includes(term) ||
+      recipe.description?.toLowerCase().includes(term) ||
+      recipe.cuisine?.toLowerCase().includes(term)
+    )
+  }
+
+  const activeFilters = { ...filters, query: debouncedQuery }
+
+  const search = useCallback(async () => {
+    const currentRequest = ++requestId.current
+    setLoading(true)
+    setLoadingMore(false)
+
+    try {
+      const [resultsResponse, facetsResponse] = await Promise.all([
+        supabase.rpc('search_recipes', toPageArgs(activeFilters)).select(RECIPE_SELECT),
+        supabase.rpc('recipe_search_facets', toSearchArgs(activeFilters))
+      ])
+
+      if (currentRequest !== requestId.current) return
+
+      if (isMissingFunction(resultsResponse.error?.code)) {
+        console.warn('Recipe search functions not available. Database setup may be required.')
+        const legacy = await fetchLegacy(debouncedQuery)
+        if (currentRequest !== requestId.current) return
+        setResults(legacy.map(enrichRecipe))
+        setFacets(null)
+        setHasMore(false)
+        return
+      }
+
+      if (resultsResponse.error) throw resultsResponse.error
+
+      const page = resultsResponse.data || []
+      const next = page.length === RECIPE_PAGE_SIZE ? await cursorAfter(page, activeFilters) : null
+      if (currentRequest !== requestId.current) return
+
+      setResults(page.map(enrichRecipe))
+      setCursor(next)
+      setHasMore(next !== null)
+      setFacets(facetsResponse.error ? null : facetsResponse.data as RecipeSearchFacets)
+    } catch (error) {
+      console.error('Error searching recipes:', error)
+      if (currentRequest === requestId.current) {
+        setResults([])
+        setFacets(null)
+        setHasMore(false)
+      }
+    } finally {
+      if (currentRequest === requestId.current) setLoading(false)
+    }
+  }, [debouncedQuery, filters.difficulties, filters.time, filters.tags, filters.authorRoles, filters.minRating, filters.maxCalories, filters.minProtein, filters.excludedAllergens, filters.dietaryLabels, filters.sort])
+
+  useEffect(() => {
+    search()
+  }, [search])
+
+  // Fetch the page after the last loaded recipe. A new search started in the
+  // meantime bumps requestId, and the stale page is dropped.
+  const loadMore = useCallback(async () => {
+    if (loading || loadingMore || !hasMore || !cursor) return
+
+    const currentRequest = requestId.current
+    setLoadingMore(true)
+
+    try {
+      const { data, error } = await supabase
+        .rpc('search_recipes', toPageArgs(activeFilters, cursor))
+        .select(RECIPE_SELECT)
+
+      if (currentRequest !== requestId.current) return
+      if (error) throw error
+
+      const page = data || []
+      const next = page.length === RECIPE_PAGE_SIZE ? await cursorAfter(page, activeFilters) : null
+      if (currentRequest !== requestId.current) return
+
+      setResults(prev => {
+        const seen = new Set(prev.map(recipe => recipe.id))
+        return [...prev, ...page.filter((recipe: any) => !seen.has(recipe.id)).map(enrichRecipe)]
+      })
+      setCursor(next)
+      setHasMore(next !== null)
+    } catch (error) {
+      console.error('Error loading more recipes:', error)
+      if (currentRequest === requestId.current) setHasMore(false)
+    } finally {
+      if (currentRequest === requestId.current) setLoadingMore(false)
+    }
+  }, [search, loading, loadingMore, hasMore, cursor])
+
+  const updateFilters = useCallback((updates: Partial<RecipeSearchFilters>) => {
+    setFilters(prev => ({ ...prev, ...updates }))
+  }, [])
+
+  const resetFilters = useCallback(() => {
+    setFilters(prev => ({ ...EMPTY_SEARCH_FILTERS, query: prev.query, sort: prev.sort }))
+  }, [])
+
+  return {
+    filters,
+    updateFilters,
+    resetFilters,
+    results,
+    setResults,
+    facets,
+    total: facets?.total ?? results.length,
+    loading,
+    loadingMore,
+    hasMore,
+    loadMore,
+    refresh: search
+  }
+}
@@ -0,0 +1,106 @@
+import { useState, useEffect, useCallback } from 'react'
+import { useAuth } from '../AuthContext'
+import { supabase } from '../../utils/supabase/client'
+import { useDietaryPreferences } from './useDietaryPreferences'
+import { RECIPE_SELECT, enrichRecipe } from '../../utils/recipes/records'
+import { RecommendedRecipe, toRecommendation } from '../../utils/recipes/recommendations'
+
+const isMissingFunction = (code?: string) => code === 'PGRST202' || code === '42883'
+
+// Adds to the user's cooking history, which shapes their recommendations.
+// Failures are logged, never shown.
+export async function recordRecipeCooked(recipeId: string) {
+  try {
+    const { error } = await supabase.rpc('record_recipe_cook', { target_recipe_id: recipeId })
+    if (error && !isMissingFunction(error.code)) {
+      console.error('Error recording cooked recipe:', error)
+    }
+  } catch (error) {
+    console.error('Error recording cooked recipe:', error)
+  }
+}
+
+// Recipes picked for the current user, best first, each with the reason it
+// was picked. Dismissing throws so callers can report failures.
+export function useRecommendations(limit: number) {
+  const { user } = useAuth()
+  const { preferences, loading: preferencesLoading } = useDietaryPreferences()
+  const [recommendations, setRecommendations] = useState<RecommendedRecipe[]>([])
+  const [loading, setLoading] = useState(true)
+  const [available, setAvailable] = useState(true)
+
+  const fetchRecommendations = useCallback(async () => {
+    if (!user) return
+
+    setLoading(true)
+    try {
+      const { data, error } = await supabase.rpc('recommend_recipes', { result_limit: limit })
+
+      if (error) {
+        if (isMissingFunction(error.code)) {
+          console.warn('Recommendations not available. Database setup may be required.')
+          setAvailable(false)
+          setRecommendations([])
+          return
+        }
+        console.error('Error fetching recommendations:', error)
+        return
+      }
+
+      const picks = (data || []).map(toRecommendation)
+      if (picks.length === 0) {
+        setAvailable(true)
+        setRecommendations([])
+        return
+      }
+
+      const { data: recipes, error: recipesError } = await supabase
+        .from('recipes')
+        .select(RECIPE_SELECT)
+        .in('id', picks.map(pick => pick.recipe_id))
+
+      if (recipesError) {
+        console.error('Error fetching recommended recipes:', recipesError)
+        return
+      }
+
+      const byId = new Map((recipes || []).map((recipe: any) => [recipe.id, enrichRecipe(recipe)]))
+      setAvailable(true)
+      setRecommendations(
+        picks
+          .filter(pick => byId.has(pick.recipe_id))
+          .map(pick => ({ recipe: byId.get(pick.recipe_id), recommendation: pick }))
+      )
+    } catch (error) {
+      console.error('Error fetching recommendations:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [user?.id, limit])
+
+  // Diets filter the picks, so wait for them and refetch when they change
+  const preferenceKey = preferences.join(',')
+  useEffect(() => {
+    if (!preferencesLoading) fetchRecommendations()
+  }, [fetchRecommendations, preferencesLoading, preferenceKey])
+
+  const dismiss = async (recipeId: string) => {
+    if (!user) throw new Error('Not signed in')
+
+    const { error } = await supabase
+      .from('recipe_recommendation_dismissals')
+      .insert({ user_id: user.id, recipe_id: recipeId })
+
+    if (error) throw error
+    setRecommendations(prev => prev.filter(item => item.recipe.id !== recipeId))
+  }
+
+  return {
+    recommendations,
+    preferences,
+    loading,
+    available,
+    fetchRecommendations,
+    dismiss
+  }
+}
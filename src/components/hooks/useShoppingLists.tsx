@@ -0,0 +1,125 @@
+import { useState, useEffect, useCallback } from 'react'
+import { useAuth } from '../AuthContext'
+import { supabase } from '../../utils/supabase/client'
+import { ShoppingItem, ShoppingList, ShoppingSource } from '../../utils/recipes/shopping'
+
+const isMissingTable = (code?: string) => code === 'PGRST205' || code === '42P01'
+
+export interface ShoppingListDraft {
+  title: string
+  sources: ShoppingSource[]
+  items: ShoppingItem[]
+}
+
+// The current user's shopping lists, newest first. Changes made on another
+// device arrive through realtime. Mutations throw so callers can report
+// failures.
+export function useShoppingLists(enabled = true) {
+  const { user } = useAuth()
+  const [lists, setLists] = useState<ShoppingList[]>([])
+  const [loading, setLoading] = useState(enabled)
+  const [available, setAvailable] = useState(true)
+
+  const fetchLists = useCallback(async () => {
+    if (!user) return
+
+    try {
+      const { data, error } = await supabase
+        .from('shopping_lists')
+        .select('*')
+        .eq('owner_id', user.id)
+        .order('updated_at', { ascending: false })
+        .limit(50)
+
+      if (error) {
+        if (isMissingTable(error.code)) {
+          console.warn('Shopping lists table not available. Database setup may be required.')
+          setAvailable(false)
+          setLists([])
+          return
+        }
+        console.error('Error fetching shopping lists:', error)
+        return
+      }
+
+      setAvailable(true)
+      setLists(data || [])
+    } catch (error) {
+      console.error('Error fetching shopping lists:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [user?.id])
+
+  useEffect(() => {
+    if (!enabled || !user) return
+    fetchLists()
+
+    const channel = supabase.channel(`shopping-lists-${user.id}`)
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'shopping_lists',
+        filter: `owner_id=eq.${user.id}`
+      }, () => {
+        fetchLists()
+      })
+      .subscribe()
+
+    return () => {
+      channel.unsubscribe()
+    }
+  }, [enabled, user?.id, fetchLists])
+
+  const createList = async (draft: ShoppingListDraft): Promise<ShoppingList> => {
+    if (!user) throw new Error('Not signed in')
+
+    const { data, error } = await supabase
+      .from('shopping_lists')
+      .insert({ ...draft, title: draft.title.trim(), owner_id: user.id })
+      .select()
+      .single()
+
+    if (error) throw error
+    setLists(prev => [data, ...prev.filter(list => list.id !== data.id)])
+    return data
+  }
+
+  // Applied locally first so ticking items off feels instant; rolled back
+  // if the save fails
+  const updateList = async (id: string, updates: Partial<ShoppingListDraft>) => {
+    const previous = lists
+    setLists(prev => prev.map(list => list.id === id ? { ...list, ...updates } : list))
+
+    const { data, error } = await supabase
+      .from('shopping_lists')
+      .update(updates.title !== undefined ? { ...updates, title: updates.title.trim() } : updates)
+      .eq('id', id)
+      .select()
+      .single()
+
+    if (error) {
+      setLists(previous)
+      throw error
+    }
+    // Keep any newer local edits made while this save was in flight
+    setLists(prev => prev.map(list => list.id === id ? { ...list, updated_at: data.updated_at } : list))
+    return data as ShoppingList
+  }
+
+  const deleteList = async (id: string) => {
+    const { error } = await supabase.from('shopping_lists').delete().eq('id', id)
+    if (error) throw error
+    setLists(prev => prev.filter(list => list.id !== id))
+  }
+
+  return {
+    lists,
+    loading,
+    available,
+    fetchLists,
+    createList,
+    updateList,
+    deleteList
+  }
+}
@@ -0,0 +1,61 @@
+import { useState, useEffect } from 'react'
+import { supabase } from '../../utils/supabase/client'
+import { Substitution, SubstitutionContext, substitutionKey } from '../../utils/recipes/substitutions'
+
+const isMissingFunction = (code?: string) => code === 'PGRST202' || code === '42883'
+
+export interface SubstitutionFilters {
+  context?: SubstitutionContext
+  dietary?: string
+}
+
+// Swaps for one ingredient line. Throws on failure, including when the
+// database has not been set up for substitutions yet.
+export async function findSubstitutions(item: string, filters: SubstitutionFilters = {}): Promise<Substitution[]> {
+  const { data, error } = await supabase.rpc('find_substitutions', {
+    ingredient_name: substitutionKey(item),
+    target_context: filters.context && filters.context !== 'any' ? filters.context : null,
+    target_dietary: filters.dietary || null
+  })
+
+  if (error) throw error
+  return (data || []).map((row: any) => ({ ...row, ratio: Number(row.ratio), dietary: row.dietary || [] }))
+}
+
+export function useSubstitutions(item: string | null, filters: SubstitutionFilters = {}) {
+  const [substitutions, setSubstitutions] = useState<Substitution[]>([])
+  const [loading, setLoading] = useState(false)
+  const [available, setAvailable] = useState(true)
+
+  useEffect(() => {
+    if (!item) return
+    let cancelled = false
+
+    setLoading(true)
+    findSubstitutions(item, filters)
+      .then(results => {
+        if (cancelled) return
+        setSubstitutions(results)
+        setAvailable(true)
+      })
+      .catch(error => {
+        if (cancelled) return
+        if (isMissingFunction(error?.code)) {
+          console.warn('Substitutions not available. Database setup may be required.')
+          setAvailable(false)
+        } else {
+          console.error('Error fetching substitutions:', error)
+        }
+        setSubstitutions([])
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [item, filters.context, filters.dietary])
+
+  return { substitutions, loading, available }
+}
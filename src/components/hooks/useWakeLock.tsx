@@ -0,0 +1,46 @@
+import { useState, useEffect } from 'react'
+
+// Keeps the screen on while `enabled` is true, where the Screen Wake Lock API
+// is available. Browsers drop the lock whenever the page is hidden, so it is
+// requested again when the page becomes visible.
+export function useWakeLock(enabled: boolean) {
+  const supported = typeof navigator !== 'undefined' && 'wakeLock' in navigator
+  const [active, setActive] = useState(false)
+
+  useEffect(() => {
+    if (!enabled || !supported) return
+
+    let sentinel: WakeLockSentinel | null = null
+    let cancelled = false
+
+    const request = async () => {
+      if (document.visibilityState !== 'visible' || (sentinel && !sentinel.released)) return
+      try {
+        const lock = await navigator.wakeLock.request('screen')
+        if (cancelled) {
+          lock.release()
+          return
+        }
+        sentinel = lock
+        setActive(true)
+        lock.addEventListener('release', () => setActive(false))
+      } catch (error) {
+        // Refused when the battery is low or the page is not focused
+        console.warn('Screen wake lock unavailable:', error)
+        setActive(false)
+      }
+    }
+
+    request()
+    document.addEventListener('visibilitychange', request)
+
+    return () => {
+      cancelled = true
+      document.removeEventListener('visibilitychange', request)
+      sentinel?.release().catch(() => {})
+      setActive(false)
+    }
+  }, [enabled, supported])
+
+  return { supported, active }
+}
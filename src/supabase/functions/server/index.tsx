@@ -265,6 +265,43 @@ app.get('/make-server-cfac176d/my-recipes', async (c) => {
   }
 })
 
+// Publish scheduled recipes that are due. Meant to be called every minute by
+// a scheduler (see publish_scheduled_recipes in schema.sql), so it only
+// accepts the service role key.
+app.post('/make-server-cfac176d/recipes/publish-scheduled', async (c) => {
+  try {
+    const token = c.req.header('Authorization')?.split(' ')[1]
+    if (!token || token !== Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')) {
+      return c.json({ error: 'Unauthorized' }, 401)
+    }
+
+    const { data: published, error } = await supabase.rpc('publish_scheduled_recipes')
+    if (error) {
+      console.log('Publish scheduled recipes error:', error)
+      return c.json({ error: 'Failed to publish scheduled recipes' }, 500)
+    }
+
+    if (published?.length) {
+      const { error: activityError } = await supabase.from('activities').insert(
+        published.map((recipe: { recipe_id: string; author_id: string; title: string }) => ({
+          user_id: recipe.author_id,
+          type: 'recipe_created',
+          description: `Your scheduled recipe "${recipe.title}" is now published`,
+          metadata: { recipe_id: recipe.recipe_id }
+        }))
+      )
+      if (activityError) {
+        console.log('Scheduled publish activity error:', activityError)
+      }
+    }
+
+    return c.json({ published: published?.length || 0 })
+  } catch (error) {
+    console.log('Publish scheduled recipes error:', error)
+    return c.json({ error: 'Internal server error publishing scheduled recipes' }, 500)
+  }
+})
+
 // Forum routes
 app.post('/make-server-cfac176d/forum/posts', async (c) => {
   try {
@@ -347,6 +384,32 @@ app.get('/make-server-cfac176d/resources', async (c) => {
   }
 })
 
+// Ingredient substitutions, e.g. ?ingredient=unsalted butter&context=baking&dietary=vegan.
+// Public like the substitutions table itself.
+app.get('/make-server-cfac176d/substitutions', async (c) => {
+  try {
+    const ingredient = c.req.query('ingredient')?.trim()
+    if (!ingredient) {
+      return c.json({ error: 'ingredient is required' }, 400)
+    }
+
+    const { data: substitutions, error } = await supabase.rpc('find_substitutions', {
+      ingredient_name: ingredient,
+      target_context: c.req.query('context') || null,
+      target_dietary: c.req.query('dietary') || null
+    })
+    if (error) {
+      console.log('Get substitutions error:', error)
+      return c.json({ error: 'Failed to fetch substitutions' }, 500)
+    }
+
+    return c.json({ ingredient, substitutions })
+  } catch (error) {
+    console.log('Get substitutions error:', error)
+    return c.json({ error: 'Internal server error fetching substitutions' }, 500)
+  }
+})
+
 // Admin routes
 app.get('/make-server-cfac176d/admin/users', async (c) => {
   try {
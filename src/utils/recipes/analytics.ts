@@ -0,0 +1,66 @@
+// Per-day recipe activity from the `recipe_analytics` database function,
+// and the browser session key that deduplicates anonymous views.
+
+export interface RecipeAnalyticsDay {
+  day: string
+  views: number
+  likes: number
+  ratings: number
+  // Sum of the stars given that day, for averaging over a period
+  rating_total: number
+  remixes: number
+}
+
+export interface RecipeAnalyticsTotals {
+  views: number
+  likes: number
+  ratings: number
+  averageRating: number | null
+  remixes: number
+}
+
+export const ANALYTICS_PERIODS = [
+  { days: 7, label: '7 days' },
+  { days: 30, label: '30 days' },
+  { days: 90, label: '90 days' }
+]
+
+const SESSION_KEY = 'acwhisk-view-session'
+
+export function viewSessionKey(): string {
+  let key = sessionStorage.getItem(SESSION_KEY)
+  if (!key) {
+    // randomUUID is only available in secure contexts
+    key = crypto.randomUUID?.() ?? Math.random().toString(36).slice(2)
+    sessionStorage.setItem(SESSION_KEY, key)
+  }
+  return key
+}
+
+export function toAnalyticsDay(row: any): RecipeAnalyticsDay {
+  return {
+    day: row.day,
+    views: Number(row.views) || 0,
+    likes: Number(row.likes) || 0,
+    ratings: Number(row.ratings) || 0,
+    rating_total: Number(row.rating_total) || 0,
+    remixes: Number(row.remixes) || 0
+  }
+}
+
+export function analyticsTotals(days: RecipeAnalyticsDay[]): RecipeAnalyticsTotals {
+  const sum = (key: keyof Omit<RecipeAnalyticsDay, 'day'>) => days.reduce((total, day) => total + day[key], 0)
+  const ratings = sum('ratings')
+  return {
+    views: sum('views'),
+    likes: sum('likes'),
+    ratings,
+    averageRating: ratings > 0 ? sum('rating_total') / ratings : null,
+    remixes: sum('remixes')
+  }
+}
+
+// "Oct 19" for chart axes; days are plain dates, so read them as local time
+export function formatAnalyticsDay(day: string): string {
+  return new Date(`${day}T00:00:00`).toLocaleDateString([], { month: 'short', day: 'numeric' })
+}
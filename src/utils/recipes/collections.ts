@@ -0,0 +1,76 @@
+// Recipe collections: user-curated, ordered lists of recipes that can be
+// shared with members or published, and printed as a cookbook.
+
+export type CollectionVisibility = 'private' | 'public'
+
+export interface RecipeCollection {
+  id: string
+  owner_id: string
+  title: string
+  description: string | null
+  visibility: CollectionVisibility
+  is_collaborative: boolean
+  created_at: string
+  updated_at: string
+  profiles?: { name: string; avatar_url: string | null } | null
+  collection_recipes?: { count: number }[]
+  collection_members?: { user_id: string }[]
+}
+
+export interface CollectionEntry {
+  id: string
+  collection_id: string
+  recipe_id: string
+  position: number
+  note: string | null
+  added_by: string | null
+  created_at: string
+  recipe: any | null
+}
+
+export interface CollectionMember {
+  collection_id: string
+  user_id: string
+  created_at: string
+  profiles?: { name: string; avatar_url: string | null; role: string; year_level: string | null } | null
+}
+
+export interface CollectionDraft {
+  title: string
+  description: string
+  visibility: CollectionVisibility
+  is_collaborative: boolean
+}
+
+export const EMPTY_COLLECTION_DRAFT: CollectionDraft = {
+  title: '',
+  description: '',
+  visibility: 'private',
+  is_collaborative: false
+}
+
+export const VISIBILITY_OPTIONS: { value: CollectionVisibility; label: string; description: string }[] = [
+  { value: 'private', label: 'Private', description: 'Only you and the members you add' },
+  { value: 'public', label: 'Public', description: 'Anyone on ACWhisk can view it' }
+]
+
+export function collectionRecipeCount(collection: RecipeCollection): number {
+  return collection.collection_recipes?.[0]?.count ?? 0
+}
+
+export function isCollectionMember(collection: RecipeCollection, userId: string | undefined): boolean {
+  return !!userId && (collection.collection_members || []).some(member => member.user_id === userId)
+}
+
+export function canEditCollection(collection: RecipeCollection, userId: string | undefined): boolean {
+  if (!userId) return false
+  return collection.owner_id === userId || (collection.is_collaborative && isCollectionMember(collection, userId))
+}
+
+export function moveItem<T>(items: T[], from: number, to: number): T[] {
+  if (to < 0 || to >= items.length || from === to) return items
+  const next = [...items]
+  const [item] = next.splice(from, 1)
+  next.splice(to, 0, item)
+  return next
+}
@@ -0,0 +1,65 @@
+// Recipe comments: questions, tips and cooking notes on a recipe, kept apart
+// from ratings and shown as threads of replies.
+
+export interface RecipeComment {
+  id: string
+  recipe_id: string
+  author_id: string
+  parent_id: string | null
+  body: string
+  created_at: string
+  updated_at: string
+  profiles?: { name: string; avatar_url: string | null } | null
+}
+
+export interface CommentThread extends RecipeComment {
+  replies: CommentThread[]
+}
+
+export const MAX_COMMENT_LENGTH = 2000
+
+// Replies deeper than this are shown at this depth, under the same parent
+export const MAX_THREAD_DEPTH = 3
+
+// Top-level comments newest first; replies oldest first so a conversation
+// reads down the page. Replies whose parent is missing become top-level.
+export function buildCommentThreads(comments: RecipeComment[]): CommentThread[] {
+  const byId = new Map<string, CommentThread>()
+  comments.forEach(comment => byId.set(comment.id, { ...comment, replies: [] }))
+
+  const roots: CommentThread[] = []
+  byId.forEach(thread => {
+    const parent = thread.parent_id ? byId.get(thread.parent_id) : undefined
+    if (parent) parent.replies.push(thread)
+    else roots.push(thread)
+  })
+
+  const byDate = (a: CommentThread, b: CommentThread) => a.created_at.localeCompare(b.created_at)
+  byId.forEach(thread => thread.replies.sort(byDate))
+  return roots.sort((a, b) => byDate(b, a))
+}
+
+// Ids of a comment and everything under it
+export function commentWithReplies(comments: RecipeComment[], id: string): Set<string> {
+  const ids = new Set([id])
+  let grew = true
+  while (grew) {
+    grew = false
+    comments.forEach(comment => {
+      if (comment.parent_id && ids.has(comment.parent_id) && !ids.has(comment.id)) {
+        ids.add(comment.id)
+        grew = true
+      }
+    })
+  }
+  return ids
+}
+
+// Number of comments a delete removes, the comment itself included
+export function threadSize(thread: CommentThread): number {
+  return 1 + thread.replies.reduce((sum, reply) => sum + threadSize(reply), 0)
+}
+
+export function isEdited(comment: RecipeComment): boolean {
+  return new Date(comment.updated_at).getTime() - new Date(comment.created_at).getTime() > 1000
+}
@@ -0,0 +1,218 @@
+import { RecipeIngredient, formatQuantity } from './ingredients'
+import { findDensity } from './densities'
+import { getUnit, unitLabel } from './units'
+import { ingredientKey, ingredientWeight, matchFood } from './nutrition'
+
+// Food costing from the ingredient price list. Prices are "price for
+// quantity × unit as purchased"; yield_percent is the usable share after
+// trimming and peeling, so the cost of what the recipe uses is
+// (amount needed / yield) × unit price. A price without a unit is per item.
+
+export interface IngredientPrice {
+  id: string
+  // NULL for the shared programme list maintained by instructors
+  owner_id: string | null
+  name: string
+  price: number
+  quantity: number
+  unit: string | null
+  yield_percent: number
+  updated_at?: string
+}
+
+export type IngredientPriceDraft = Pick<IngredientPrice, 'name' | 'price' | 'quantity' | 'unit' | 'yield_percent'>
+
+export type CostLineStatus = 'priced' | 'no_price' | 'no_amount' | 'no_conversion'
+
+export interface CostLine {
+  index: number
+  price: IngredientPrice | null
+  // How much of the price's unit the line uses, before yield
+  amount: number | null
+  cost: number | null
+  status: CostLineStatus
+}
+
+export interface RecipeCosting {
+  lines: CostLine[]
+  total: number
+  servings: number
+  perPortion: number
+  targetPercent: number
+  // Menu price per portion that hits the target food-cost percentage
+  menuPrice: number
+  priced: number
+}
+
+export const DEFAULT_FOOD_COST_PERCENT = 30
+
+export const DEFAULT_CURRENCY = 'USD'
+
+export const CURRENCY_OPTIONS = ['USD', 'EUR', 'GBP', 'PHP', 'AUD', 'CAD', 'SGD', 'JPY']
+
+const escapeRegex = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+// The price for an ingredient: an exact name first, otherwise the longest
+// price name found in the ingredient ("butter" prices "unsalted butter").
+// The user's own prices win over the shared list.
+export function matchPrice(item: string, prices: IngredientPrice[]): IngredientPrice | null {
+  const name = ingredientKey(item)
+  let best: IngredientPrice | null = null
+  let bestScore = 0
+
+  for (const price of prices) {
+    const key = ingredientKey(price.name)
+    if (!key) continue
+    let score = 0
+    if (key === name) score = 10000
+    else if (new RegExp(`(?:^|[^a-z])${escapeRegex(key)}(?:e?s)?(?=$|[^a-z])`).test(name)) score = key.length
+    if (score === 0) continue
+    if (price.owner_id) score += 0.5
+    if (score > bestScore) {
+      bestScore = score
+      best = price
+    }
+  }
+
+  return best
+}
+
+const isEach = (unit: string | null) => !unit || unit === 'piece'
+
+// The ingredient amount expressed in the price's unit, or null when the two
+// can't be converted. Mass and volume convert through the density table;
+// counted items go through the food table's typical weights.
+export function amountInPriceUnit(ingredient: RecipeIngredient, price: IngredientPrice): number | null {
+  if (ingredient.quantity === null) return null
+  const quantity = ingredient.quantity_max !== null
+    ? (ingredient.quantity + ingredient.quantity_max) / 2
+    : ingredient.quantity
+
+  if (isEach(ingredient.unit) && isEach(price.unit)) return quantity
+  if (ingredient.unit === price.unit) return quantity
+
+  const from = getUnit(ingredient.unit)
+  const to = getUnit(price.unit)
+  if (from?.toBase && to?.toBase && from.kind === to.kind) return quantity * from.toBase / to.toBase
+
+  const food = matchFood(ingredient.item)
+  const density = food?.gramsPerMl ?? findDensity(ingredient.item) ?? null
+  const grams = from?.kind === 'mass'
+    ? quantity * from.toBase!
+    : from?.kind === 'volume'
+      ? density !== null ? quantity * from.toBase! * density : null
+      : food ? ingredientWeight(ingredient, food) : null
+  if (grams === null) return null
+
+  if (to?.kind === 'mass') return grams / to.toBase!
+  if (to?.kind === 'volume') return density !== null ? grams / density / to.toBase! : null
+  if (isEach(price.unit) && food?.each) return grams / food.each
+  return null
+}
+
+export function calculateCosting(
+  ingredients: RecipeIngredient[],
+  prices: IngredientPrice[],
+  servings: number,
+  targetPercent = DEFAULT_FOOD_COST_PERCENT
+): RecipeCosting {
+  const lines: CostLine[] = ingredients.map((ingredient, index) => {
+    const price = matchPrice(ingredient.item, prices)
+    if (!price) return { index, price: null, amount: null, cost: null, status: 'no_price' }
+    if (ingredient.quantity === null) return { index, price, amount: null, cost: null, status: 'no_amount' }
+
+    const amount = amountInPriceUnit(ingredient, price)
+    if (amount === null) return { index, price, amount: null, cost: null, status: 'no_conversion' }
+
+    const yieldShare = Math.min(Math.max(price.yield_percent || 100, 1), 100) / 100
+    const cost = amount / yieldShare / price.quantity * price.price
+    return { index, price, amount, cost, status: 'priced' }
+  })
+
+  const total = lines.reduce((sum, line) => sum + (line.cost || 0), 0)
+  const portions = servings > 0 ? servings : 1
+  const perPortion = total / portions
+  const target = targetPercent > 0 && targetPercent <= 100 ? targetPercent : DEFAULT_FOOD_COST_PERCENT
+
+  return {
+    lines,
+    total,
+    servings: portions,
+    perPortion,
+    targetPercent: target,
+    menuPrice: perPortion / (target / 100),
+    priced: lines.filter(line => line.status === 'priced').length
+  }
+}
+
+export function formatMoney(value: number, currency: string): string {
+  try {
+    return new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(value)
+  } catch {
+    return `${value.toFixed(2)} ${currency}`
+  }
+}
+
+// "2.50 per 1 kg", "0.30 each", "3.00 for 12"
+export function formatUnitPrice(price: IngredientPrice, currency: string): string {
+  const amount = formatMoney(price.price, currency)
+  if (isEach(price.unit)) return price.quantity === 1 ? `${amount} each` : `${amount} for ${formatQuantity(price.quantity)}`
+  return `${amount} per ${formatQuantity(price.quantity)} ${unitLabel(price.unit, price.quantity)}`
+}
+
+const csvCell = (value: string | number) => {
+  const text = String(value)
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+// Costing sheet for spreadsheets: one row per ingredient, then the totals
+export function costingToCsv(
+  title: string,
+  ingredients: RecipeIngredient[],
+  costing: RecipeCosting,
+  currency: string
+): string {
+  const money = (value: number | null) => value === null ? '' : value.toFixed(2)
+  // Spreadsheets want decimals, not "1/2"
+  const decimal = (value: number) => Math.round(value * 1000) / 1000
+  const rows: (string | number)[][] = [
+    ['Recipe', title],
+    ['Currency', currency],
+    ['Portions', costing.servings],
+    [],
+    ['Ingredient', 'Quantity', 'Unit', 'Priced as', 'Purchase price', 'Purchase quantity', 'Purchase unit', 'Yield %', 'Cost', 'Note']
+  ]
+
+  costing.lines.forEach(line => {
+    const ingredient = ingredients[line.index]
+    rows.push([
+      ingredient.item,
+      ingredient.quantity === null ? '' : decimal(ingredient.quantity) + (ingredient.quantity_max !== null ? `-${decimal(ingredient.quantity_max)}` : ''),
+      ingredient.unit ? unitLabel(ingredient.unit, ingredient.quantity) : '',
+      line.price?.name || '',
+      line.price ? money(line.price.price) : '',
+      line.price ? line.price.quantity : '',
+      line.price ? (isEach(line.price.unit) ? 'each' : unitLabel(line.price.unit, line.price.quantity)) : '',
+      line.price ? line.price.yield_percent : '',
+      money(line.cost),
+      COST_STATUS_LABELS[line.status]
+    ])
+  })
+
+  rows.push(
+    [],
+    ['Total recipe cost', '', '', '', '', '', '', '', money(costing.total)],
+    ['Cost per portion', '', '', '', '', '', '', '', money(costing.perPortion)],
+    ['Target food cost %', '', '', '', '', '', '', '', costing.targetPercent],
+    ['Suggested menu price', '', '', '', '', '', '', '', money(costing.menuPrice)]
+  )
+
+  return rows.map(row => row.map(csvCell).join(',')).join('\n') + '\n'
+}
+
+export const COST_STATUS_LABELS: Record<CostLineStatus, string> = {
+  priced: '',
+  no_price: 'No price',
+  no_amount: 'No amount',
+  no_conversion: 'Units don\'t convert'
+}
@@ -0,0 +1,65 @@
+// Approximate densities (grams per millilitre) for ingredients that are
+// commonly measured by volume. Used to convert cups and spoons into weights.
+// Values are for the ingredient as usually measured in a recipe (spooned
+// flour, packed brown sugar, and so on).
+
+export interface IngredientDensity {
+  keywords: string[]
+  gramsPerMl: number
+}
+
+export const INGREDIENT_DENSITIES: IngredientDensity[] = [
+  { keywords: ['all-purpose flour', 'plain flour', 'flour'], gramsPerMl: 0.53 },
+  { keywords: ['bread flour', 'strong flour'], gramsPerMl: 0.55 },
+  { keywords: ['whole wheat flour', 'wholemeal flour'], gramsPerMl: 0.51 },
+  { keywords: ['cake flour', 'pastry flour'], gramsPerMl: 0.48 },
+  { keywords: ['almond flour', 'ground almonds'], gramsPerMl: 0.40 },
+  { keywords: ['cornstarch', 'cornflour', 'corn starch'], gramsPerMl: 0.54 },
+  { keywords: ['cocoa powder', 'cocoa'], gramsPerMl: 0.42 },
+  { keywords: ['sugar', 'granulated sugar', 'caster sugar', 'white sugar'], gramsPerMl: 0.85 },
+  { keywords: ['brown sugar'], gramsPerMl: 0.93 },
+  { keywords: ['powdered sugar', 'icing sugar', "confectioners' sugar", 'confectioners sugar'], gramsPerMl: 0.51 },
+  { keywords: ['honey'], gramsPerMl: 1.42 },
+  { keywords: ['maple syrup', 'golden syrup', 'corn syrup'], gramsPerMl: 1.33 },
+  { keywords: ['molasses', 'treacle'], gramsPerMl: 1.40 },
+  { keywords: ['butter'], gramsPerMl: 0.96 },
+  { keywords: ['oil', 'vegetable oil', 'canola oil', 'sunflower oil'], gramsPerMl: 0.92 },
+  { keywords: ['olive oil'], gramsPerMl: 0.91 },
+  { keywords: ['water', 'stock', 'broth'], gramsPerMl: 1.0 },
+  { keywords: ['milk', 'buttermilk'], gramsPerMl: 1.03 },
+  { keywords: ['cream', 'heavy cream', 'double cream', 'single cream'], gramsPerMl: 1.0 },
+  { keywords: ['yogurt', 'yoghurt', 'sour cream'], gramsPerMl: 1.03 },
+  { keywords: ['peanut butter'], gramsPerMl: 1.08 },
+  { keywords: ['salt', 'table salt', 'fine salt'], gramsPerMl: 1.2 },
+  { keywords: ['kosher salt', 'flaky salt', 'sea salt flakes'], gramsPerMl: 0.6 },
+  { keywords: ['baking soda', 'bicarbonate of soda'], gramsPerMl: 0.97 },
+  { keywords: ['baking powder'], gramsPerMl: 0.81 },
+  { keywords: ['yeast', 'instant yeast', 'active dry yeast'], gramsPerMl: 0.64 },
+  { keywords: ['rice', 'white rice', 'arborio rice'], gramsPerMl: 0.85 },
+  { keywords: ['rolled oats', 'oats'], gramsPerMl: 0.38 },
+  { keywords: ['breadcrumbs', 'panko'], gramsPerMl: 0.45 },
+  { keywords: ['chocolate chips'], gramsPerMl: 0.72 },
+  { keywords: ['grated parmesan', 'parmesan'], gramsPerMl: 0.42 },
+  { keywords: ['shredded cheese', 'grated cheese'], gramsPerMl: 0.47 },
+  { keywords: ['raisins', 'sultanas'], gramsPerMl: 0.63 },
+  { keywords: ['chopped nuts', 'walnuts', 'pecans'], gramsPerMl: 0.50 }
+]
+
+// Find the density for an ingredient name, preferring the most specific
+// (longest) keyword so "brown sugar" wins over "sugar".
+export function findDensity(item: string): number | null {
+  const name = item.toLowerCase()
+  let bestKeyword = ''
+  let bestDensity: number | null = null
+
+  for (const density of INGREDIENT_DENSITIES) {
+    for (const keyword of density.keywords) {
+      if (name.includes(keyword) && keyword.length > bestKeyword.length) {
+        bestKeyword = keyword
+        bestDensity = density.gramsPerMl
+      }
+    }
+  }
+
+  return bestDensity
+}
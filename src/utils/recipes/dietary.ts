@@ -0,0 +1,299 @@
+import { RecipeIngredient } from './ingredients'
+
+// Controlled vocabulary for allergens (the 14 major allergens of EU FIC
+// Annex II) and dietary labels, plus a keyword dictionary that suggests
+// them from ingredient names. Suggestions are only a starting point: the
+// author confirms what is saved in `recipes.allergens` and
+// `recipes.dietary_labels`. Detected allergens are also kept in
+// `recipes.detected_allergens` so allergen filters stay on the safe side for
+// recipes nobody has reviewed.
+
+export type AllergenId =
+  | 'celery' | 'gluten' | 'crustaceans' | 'eggs' | 'fish' | 'lupin' | 'milk'
+  | 'molluscs' | 'mustard' | 'nuts' | 'peanuts' | 'sesame' | 'soy' | 'sulphites'
+
+export type DietaryLabelId =
+  | 'vegetarian' | 'vegan' | 'pescatarian' | 'gluten_free' | 'dairy_free'
+  | 'egg_free' | 'nut_free' | 'halal' | 'kosher'
+
+interface KeywordRule {
+  keywords: string[]
+  // An ingredient containing any of these never matches the rule
+  except?: string[]
+}
+
+export interface AllergenDefinition extends KeywordRule {
+  id: AllergenId
+  label: string
+}
+
+export interface DietaryLabelDefinition {
+  id: DietaryLabelId
+  label: string
+  // Free-form tags that mean this label, for tidying old tags
+  aliases: string[]
+}
+
+const PLANT_BASED = ['vegan', 'vegetarian', 'veggie', 'plant-based', 'plant based', 'meat-free', 'meatless', 'dairy-free', 'non-dairy']
+
+export const ALLERGENS: AllergenDefinition[] = [
+  {
+    id: 'gluten',
+    label: 'Gluten',
+    keywords: [
+      'wheat', 'flour', 'bread', 'breadcrumbs', 'bread crumbs', 'panko', 'pasta', 'spaghetti', 'penne', 'macaroni',
+      'fettuccine', 'linguine', 'lasagne', 'lasagna', 'noodles', 'couscous', 'bulgur', 'barley', 'rye', 'spelt',
+      'semolina', 'seitan', 'tortilla', 'pastry', 'pita', 'pitta', 'croutons', 'crackers', 'biscuits', 'malt',
+      'beer', 'ale', 'stout', 'soy sauce', 'oats', 'oatmeal', 'baguette', 'brioche', 'sourdough', 'wrap', 'stock cube'
+    ],
+    except: [
+      'gluten-free', 'gluten free', 'buckwheat', 'rice flour', 'almond flour', 'coconut flour', 'chickpea flour', 'gram flour',
+      'tapioca flour', 'potato flour', 'cassava flour', 'corn flour', 'rice noodles', 'glass noodles', 'corn tortilla', 'tamari'
+    ]
+  },
+  {
+    id: 'crustaceans',
+    label: 'Crustaceans',
+    keywords: ['shrimp', 'prawn', 'crab', 'lobster', 'crayfish', 'langoustine', 'scampi', 'shellfish']
+  },
+  {
+    id: 'eggs',
+    label: 'Eggs',
+    keywords: ['egg', 'egg yolk', 'egg white', 'yolk', 'mayonnaise', 'mayo', 'aioli', 'meringue', 'custard', 'hollandaise', 'egg noodles'],
+    except: ['egg-free', 'eggless', 'egg replacer', 'flax egg', 'vegan mayo', 'vegan mayonnaise']
+  },
+  {
+    id: 'fish',
+    label: 'Fish',
+    keywords: [
+      'fish', 'salmon', 'tuna', 'cod', 'haddock', 'anchovy', 'anchovies', 'sardine', 'mackerel', 'trout', 'tilapia',
+      'halibut', 'sea bass', 'hake', 'pollock', 'snapper', 'swordfish', 'caviar', 'fish sauce', 'worcestershire'
+    ]
+  },
+  {
+    id: 'lupin',
+    label: 'Lupin',
+    keywords: ['lupin', 'lupine', 'lupini']
+  },
+  {
+    id: 'milk',
+    label: 'Milk',
+    keywords: [
+      'milk', 'butter', 'cream', 'cheese', 'yogurt', 'yoghurt', 'buttermilk', 'ghee', 'whey', 'casein', 'parmesan',
+      'parmigiano', 'pecorino', 'mozzarella', 'cheddar', 'feta', 'ricotta', 'mascarpone', 'paneer', 'halloumi', 'gruyere',
+      'gruyère', 'brie', 'creme fraiche', 'crème fraîche', 'custard', 'milk chocolate', 'white chocolate'
+    ],
+    except: [
+      ...PLANT_BASED, 'coconut milk', 'coconut cream', 'almond milk', 'oat milk', 'soy milk', 'soya milk', 'rice milk', 'cashew milk',
+      'peanut butter', 'almond butter', 'nut butter', 'cashew butter', 'cocoa butter', 'apple butter', 'butter beans', 'cream of tartar'
+    ]
+  },
+  {
+    id: 'molluscs',
+    label: 'Molluscs',
+    keywords: ['mussel', 'clam', 'oyster', 'scallop', 'squid', 'calamari', 'octopus', 'snail', 'escargot', 'cockle', 'oyster sauce'],
+    except: ['oyster mushroom']
+  },
+  {
+    id: 'mustard',
+    label: 'Mustard',
+    keywords: ['mustard', 'dijon', 'mustard seeds', 'mustard powder']
+  },
+  {
+    id: 'nuts',
+    label: 'Tree nuts',
+    keywords: [
+      'nut', 'almond', 'hazelnut', 'walnut', 'cashew', 'pecan', 'pistachio', 'macadamia', 'brazil nut', 'praline',
+      'marzipan', 'frangipane', 'nutella', 'amaretto', 'nut butter', 'mixed nuts'
+    ],
+    except: ['nutmeg', 'butternut', 'coconut', 'doughnut', 'donut', 'pine nut', 'water chestnut', 'peanut', 'nut-free', 'nut free']
+  },
+  {
+    id: 'peanuts',
+    label: 'Peanuts',
+    keywords: ['peanut', 'groundnut', 'satay', 'monkey nuts']
+  },
+  {
+    id: 'sesame',
+    label: 'Sesame',
+    keywords: ['sesame', 'tahini', 'hummus', 'houmous', 'halva', 'gomasio', 'furikake']
+  },
+  {
+    id: 'soy',
+    label: 'Soy',
+    keywords: ['soy', 'soya', 'soy sauce', 'tamari', 'tofu', 'tempeh', 'edamame', 'miso', 'soybean', 'soy milk']
+  },
+  {
+    id: 'sulphites',
+    label: 'Sulphites',
+    keywords: [
+      'wine', 'sherry', 'cider', 'beer', 'vermouth', 'marsala', 'dried apricots', 'dried fruit', 'balsamic',
+      'sulphite', 'sulfite', 'sulphites', 'sulfites'
+    ]
+  },
+  {
+    id: 'celery',
+    label: 'Celery',
+    keywords: ['celery', 'celeriac', 'celery salt', 'celery seed']
+  }
+]
+
+export const DIETARY_LABELS: DietaryLabelDefinition[] = [
+  { id: 'vegetarian', label: 'Vegetarian', aliases: ['vegetarian', 'veg', 'veggie', 'vegetarian-friendly', 'meatless', 'meat-free', 'meat free'] },
+  { id: 'vegan', label: 'Vegan', aliases: ['vegan', 'plant-based', 'plant based', 'vegan-friendly'] },
+  { id: 'pescatarian', label: 'Pescatarian', aliases: ['pescatarian', 'pescetarian'] },
+  { id: 'gluten_free', label: 'Gluten-free', aliases: ['gluten-free', 'gluten free', 'glutenfree', 'gf', 'coeliac', 'celiac'] },
+  { id: 'dairy_free', label: 'Dairy-free', aliases: ['dairy-free', 'dairy free', 'df', 'lactose-free', 'lactose free', 'no dairy'] },
+  { id: 'egg_free', label: 'Egg-free', aliases: ['egg-free', 'egg free', 'eggless', 'no eggs'] },
+  { id: 'nut_free', label: 'Nut-free', aliases: ['nut-free', 'nut free', 'no nuts'] },
+  { id: 'halal', label: 'Halal', aliases: ['halal'] },
+  { id: 'kosher', label: 'Kosher', aliases: ['kosher'] }
+]
+
+// Other ingredient groups the dietary labels depend on
+const MEAT: KeywordRule = {
+  keywords: [
+    'meat', 'chicken', 'beef', 'pork', 'lamb', 'mutton', 'veal', 'venison', 'duck', 'goose', 'turkey', 'bacon', 'ham',
+    'sausage', 'chorizo', 'salami', 'pepperoni', 'prosciutto', 'pancetta', 'mince', 'steak', 'brisket', 'meatballs',
+    'gelatin', 'gelatine', 'lard', 'suet', 'bone broth', 'oxtail', 'liver', 'rabbit', 'goat'
+  ],
+  except: [...PLANT_BASED, 'goat cheese', "goat's cheese", 'mincemeat']
+}
+
+const PORK: KeywordRule = {
+  keywords: ['pork', 'bacon', 'ham', 'lard', 'pancetta', 'prosciutto', 'chorizo', 'salami', 'pepperoni', 'gelatin', 'gelatine'],
+  except: [...PLANT_BASED, 'turkey bacon', 'beef bacon', 'halal']
+}
+
+const ALCOHOL: KeywordRule = {
+  keywords: [
+    'wine', 'beer', 'ale', 'stout', 'lager', 'rum', 'brandy', 'vodka', 'whisky', 'whiskey', 'bourbon', 'gin', 'sherry',
+    'mirin', 'liqueur', 'cognac', 'cider', 'marsala', 'sake', 'kirsch', 'amaretto', 'tequila', 'vermouth'
+  ],
+  except: ['wine vinegar', 'cider vinegar', 'rice wine vinegar', 'non-alcoholic', 'alcohol-free', 'ginger']
+}
+
+const HONEY: KeywordRule = { keywords: ['honey', 'honeycomb'], except: ['honeydew'] }
+
+const escapeRegex = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+const ruleCache = new Map<KeywordRule, RegExp[]>()
+
+function ruleMatches(rule: KeywordRule, name: string): boolean {
+  if (rule.except?.some(phrase => name.includes(phrase))) return false
+  if (!ruleCache.has(rule)) {
+    ruleCache.set(rule, rule.keywords.map(keyword =>
+      new RegExp(`(?:^|[^a-zà-ÿ])${escapeRegex(keyword)}(?:e?s)?(?=$|[^a-zà-ÿ])`)
+    ))
+  }
+  return ruleCache.get(rule)!.some(regex => regex.test(name))
+}
+
+export interface DetectedAllergen {
+  id: AllergenId
+  // Ingredient names that triggered it
+  sources: string[]
+}
+
+export interface DietaryAnalysis {
+  allergens: DetectedAllergen[]
+  meat: string[]
+  pork: string[]
+  alcohol: string[]
+  honey: string[]
+  suggestedLabels: DietaryLabelId[]
+}
+
+const ingredientName = (ingredient: RecipeIngredient) =>
+  [ingredient.item, ingredient.note].filter(Boolean).join(' ').toLowerCase()
+
+export function analyseDietary(ingredients: RecipeIngredient[]): DietaryAnalysis {
+  const names = ingredients.map(ingredientName).filter(Boolean)
+  const sourcesFor = (rule: KeywordRule) =>
+    ingredients.filter((ingredient, index) => names[index] && ruleMatches(rule, names[index])).map(ingredient => ingredient.item)
+
+  const allergens = ALLERGENS
+    .map(allergen => ({ id: allergen.id, sources: sourcesFor(allergen) }))
+    .filter(allergen => allergen.sources.length > 0)
+  const has = (id: AllergenId) => allergens.some(allergen => allergen.id === id)
+
+  const meat = sourcesFor(MEAT)
+  const pork = sourcesFor(PORK)
+  const alcohol = sourcesFor(ALCOHOL)
+  const honey = sourcesFor(HONEY)
+  const seafood = has('fish') || has('crustaceans') || has('molluscs')
+
+  // Halal and kosher depend on sourcing and preparation, so they are never suggested
+  const suggestedLabels: DietaryLabelId[] = []
+  if (names.length > 0) {
+    if (meat.length === 0 && !seafood) suggestedLabels.push('vegetarian')
+    if (meat.length === 0 && !seafood && !has('milk') && !has('eggs') && honey.length === 0) suggestedLabels.push('vegan')
+    if (meat.length === 0 && seafood) suggestedLabels.push('pescatarian')
+    if (!has('gluten')) suggestedLabels.push('gluten_free')
+    if (!has('milk')) suggestedLabels.push('dairy_free')
+    if (!has('eggs')) suggestedLabels.push('egg_free')
+    if (!has('nuts') && !has('peanuts')) suggestedLabels.push('nut_free')
+  }
+
+  return { allergens, meat, pork, alcohol, honey, suggestedLabels }
+}
+
+// Labels the author picked that the ingredients contradict
+export function labelConflicts(labels: string[], analysis: DietaryAnalysis): { label: DietaryLabelId; sources: string[] }[] {
+  const allergenSources = (...ids: AllergenId[]) =>
+    analysis.allergens.filter(allergen => ids.includes(allergen.id)).flatMap(allergen => allergen.sources)
+
+  const conflicts: Record<DietaryLabelId, string[]> = {
+    vegetarian: [...analysis.meat, ...allergenSources('fish', 'crustaceans', 'molluscs')],
+    vegan: [...analysis.meat, ...analysis.honey, ...allergenSources('fish', 'crustaceans', 'molluscs', 'milk', 'eggs')],
+    pescatarian: analysis.meat,
+    gluten_free: allergenSources('gluten'),
+    dairy_free: allergenSources('milk'),
+    egg_free: allergenSources('eggs'),
+    nut_free: allergenSources('nuts', 'peanuts'),
+    halal: [...analysis.pork, ...analysis.alcohol],
+    kosher: [...analysis.pork, ...allergenSources('crustaceans', 'molluscs')]
+  }
+
+  return labels
+    .filter((label): label is DietaryLabelId => label in conflicts)
+    .map(label => ({ label, sources: Array.from(new Set(conflicts[label])) }))
+    .filter(conflict => conflict.sources.length > 0)
+}
+
+export function allergenLabel(id: string): string {
+  return ALLERGENS.find(allergen => allergen.id === id)?.label || id
+}
+
+export function dietaryLabel(id: string): string {
+  return DIETARY_LABELS.find(label => label.id === id)?.label || id
+}
+
+// Map a free-form tag such as "Veg" or "GF" onto a dietary label
+export function normalizeDietaryTag(tag: string): DietaryLabelId | null {
+  const text = tag.trim().toLowerCase()
+  return DIETARY_LABELS.find(label => label.aliases.includes(text))?.id || null
+}
+
+// Move tags that are really dietary labels out of the free-form tags
+export function splitDietaryTags(tags: string[]): { tags: string[]; labels: DietaryLabelId[] } {
+  const labels: DietaryLabelId[] = []
+  const rest = tags.filter(tag => {
+    const label = normalizeDietaryTag(tag)
+    if (!label) return true
+    if (!labels.includes(label)) labels.push(label)
+    return false
+  })
+  return { tags: rest, labels }
+}
+
+// Keep only known ids, in vocabulary order
+export function cleanAllergens(values: unknown): AllergenId[] {
+  const list = Array.isArray(values) ? values : []
+  return ALLERGENS.map(allergen => allergen.id).filter(id => list.includes(id))
+}
+
+export function cleanDietaryLabels(values: unknown): DietaryLabelId[] {
+  const list = Array.isArray(values) ? values : []
+  return DIETARY_LABELS.map(label => label.id).filter(id => list.includes(id))
+}
@@ -0,0 +1,127 @@
+import { formatIngredient, groupIngredients } from './ingredients'
+import { PrintableRecipe, buildRecipeCardHtml } from './print'
+import { createZip } from '../zip'
+
+// Recipe exports: Markdown for notes and wikis, schema.org JSON-LD for other
+// recipe apps (the same shape the importer reads), and zip bundles of both
+// plus the printable card.
+
+export function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60) || 'recipe'
+}
+
+// Titles go inside [...] in the archive index, so brackets, parentheses and
+// backslashes in them must not end the link early
+const escapeLinkText = (text: string) => text.replace(/[\\[\]()]/g, '\\$&')
+
+const isoDuration = (minutes?: number) => minutes ? `PT${Math.floor(minutes / 60) ? `${Math.floor(minutes / 60)}H` : ''}${minutes % 60 ? `${minutes % 60}M` : ''}` : undefined
+
+export function recipeToMarkdown(recipe: PrintableRecipe): string {
+  const totalTime = (recipe.prep_time || 0) + (recipe.cook_time || 0)
+  const minutes = (value?: number) => value ? `${value} min` : '-'
+  const lines: string[] = [`# ${recipe.title}`, '']
+
+  const byline = [recipe.author && `By ${recipe.author}`, recipe.cuisine, recipe.difficulty].filter(Boolean).join(' · ')
+  if (byline) lines.push(`*${byline}*`, '')
+  if (recipe.description) lines.push(recipe.description, '')
+
+  lines.push(
+    '| Yield | Prep | Cook | Total |',
+    '| --- | --- | --- | --- |',
+    `| ${recipe.servings} servings | ${minutes(recipe.prep_time)} | ${minutes(recipe.cook_time)} | ${minutes(totalTime)} |`,
+    '',
+    '## Ingredients',
+    ''
+  )
+
+  groupIngredients(recipe.ingredients).forEach(group => {
+    if (group.group) lines.push(`### ${group.group}`, '')
+    group.items.forEach(({ ingredient }) => lines.push(`- ${formatIngredient(ingredient)}`))
+    lines.push('')
+  })
+
+  lines.push('## Method', '')
+  recipe.instructions.forEach((step, index) => lines.push(`${index + 1}. ${step}`))
+  lines.push('')
+
+  if (recipe.allergens?.length) lines.push('## Allergen notes', '', `Contains: ${recipe.allergens.join(', ')}.`, '')
+  if (recipe.tags?.length) lines.push(`Tags: ${recipe.tags.join(', ')}`, '')
+
+  return lines.join('\n')
+}
+
+export function recipeToJsonLd(recipe: PrintableRecipe): Record<string, unknown> {
+  const totalTime = (recipe.prep_time || 0) + (recipe.cook_time || 0)
+  const jsonLd: Record<string, unknown> = {
+    '@context': 'https://schema.org',
+    '@type': 'Recipe',
+    name: recipe.title,
+    description: recipe.description || undefined,
+    author: recipe.author ? { '@type': 'Person', name: recipe.author } : undefined,
+    recipeYield: `${recipe.servings} servings`,
+    prepTime: isoDuration(recipe.prep_time),
+    cookTime: isoDuration(recipe.cook_time),
+    totalTime: isoDuration(totalTime),
+    recipeCuisine: recipe.cuisine || undefined,
+    keywords: recipe.tags?.length ? recipe.tags.join(', ') : undefined,
+    recipeIngredient: recipe.ingredients.map(formatIngredient),
+    recipeInstructions: recipe.instructions.map(text => ({ '@type': 'HowToStep', text }))
+  }
+
+  // Drop empty optional properties so the output stays tidy
+  return JSON.parse(JSON.stringify(jsonLd))
+}
+
+export function recipeToJsonLdString(recipe: PrintableRecipe): string {
+  return JSON.stringify(recipeToJsonLd(recipe), null, 2)
+}
+
+// One folder per recipe holding the Markdown, JSON-LD and printable card.
+// Duplicate titles get a numeric suffix so nothing is overwritten.
+export function buildRecipeArchive(recipes: PrintableRecipe[], title = 'ACWhisk recipes'): Blob {
+  // A numbered folder can clash with a recipe whose own slug ends in a number
+  const used = new Set<string>()
+  const folders = recipes.map(recipe => {
+    const slug = slugify(recipe.title)
+    let folder = slug
+    for (let count = 2; used.has(folder); count++) folder = `${slug}-${count}`
+    used.add(folder)
+    return folder
+  })
+
+  const index = [
+    `# ${title}`,
+    '',
+    `Exported ${new Date().toLocaleString()} · ${recipes.length} recipes`,
+    '',
+    ...recipes.map((recipe, i) => `${i + 1}. [${escapeLinkText(recipe.title)}](${folders[i]}/recipe.md)`),
+    ''
+  ].join('\n')
+
+  return createZip([
+    { name: 'README.md', content: index },
+    ...recipes.flatMap((recipe, i) => [
+      { name: `${folders[i]}/recipe.md`, content: recipeToMarkdown(recipe) },
+      { name: `${folders[i]}/recipe.jsonld`, content: recipeToJsonLdString(recipe) },
+      { name: `${folders[i]}/recipe-card.html`, content: buildRecipeCardHtml(recipe) }
+    ])
+  ])
+}
+
+export function downloadFile(fileName: string, content: Blob | string, type = 'text/plain'): void {
+  const blob = typeof content === 'string' ? new Blob([content], { type: `${type};charset=utf-8` }) : content
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
@@ -0,0 +1,219 @@
+// Bundled food composition table used for offline nutrition estimates.
+// Values are per 100 g of the food as it is usually bought (raw meat, dry
+// pasta, canned beans drained), rounded from USDA FoodData Central (SR
+// Legacy). `each` is the weight of one whole item, `portions` the weight of
+// one of a count unit such as a clove or a can, and `gramsPerMl` the density
+// for foods measured by volume when the shared density table has none.
+
+export interface NutrientValues {
+  calories: number
+  protein: number
+  carbs: number
+  fat: number
+  fibre: number
+  // milligrams
+  sodium: number
+}
+
+export interface FoodEntry {
+  id: string
+  name: string
+  keywords: string[]
+  per100g: NutrientValues
+  each?: number
+  portions?: Record<string, number>
+  gramsPerMl?: number
+}
+
+export const FOOD_DATASET_VERSION = '2024.1'
+
+type NutrientRow = [calories: number, protein: number, carbs: number, fat: number, fibre: number, sodium: number]
+
+function food(
+  id: string,
+  name: string,
+  keywords: string[],
+  [calories, protein, carbs, fat, fibre, sodium]: NutrientRow,
+  extra: Pick<FoodEntry, 'each' | 'portions' | 'gramsPerMl'> = {}
+): FoodEntry {
+  return { id, name, keywords, per100g: { calories, protein, carbs, fat, fibre, sodium }, ...extra }
+}
+
+export const FOODS: FoodEntry[] = [
+  // Flours, grains and starches
+  food('flour', 'Wheat flour, all-purpose', ['flour', 'all-purpose flour', 'plain flour', 'self-raising flour', 'self-rising flour'], [364, 10.3, 76.3, 1, 2.7, 2]),
+  food('bread-flour', 'Bread flour', ['bread flour', 'strong flour'], [361, 12, 72.5, 1.7, 2.4, 2]),
+  food('wholemeal-flour', 'Whole wheat flour', ['whole wheat flour', 'wholemeal flour', 'wholewheat flour'], [340, 13.2, 72, 2.5, 10.7, 2]),
+  food('cake-flour', 'Cake flour', ['cake flour', 'pastry flour'], [362, 8.2, 78, 0.9, 1.7, 2]),
+  food('almond-flour', 'Almond flour', ['almond flour', 'ground almonds', 'almond meal'], [571, 21, 21, 50, 10.5, 1]),
+  food('cornstarch', 'Cornstarch', ['cornstarch', 'cornflour', 'corn starch'], [381, 0.3, 91, 0.1, 0.9, 9]),
+  food('cornmeal', 'Cornmeal / polenta', ['cornmeal', 'polenta'], [370, 8.1, 79, 1.8, 7.3, 35]),
+  food('rice', 'White rice, raw', ['rice', 'white rice', 'basmati rice', 'jasmine rice', 'arborio rice', 'long grain rice'], [365, 7.1, 80, 0.7, 1.3, 5]),
+  food('brown-rice', 'Brown rice, raw', ['brown rice', 'wild rice'], [370, 7.9, 77, 2.9, 3.5, 7]),
+  food('oats', 'Rolled oats', ['oats', 'rolled oats', 'porridge oats', 'oatmeal'], [379, 13.2, 67.7, 6.5, 10.1, 6]),
+  food('pasta', 'Pasta, dry', ['pasta', 'spaghetti', 'penne', 'macaroni', 'fettuccine', 'linguine', 'fusilli', 'rigatoni', 'lasagne sheets', 'lasagna noodles'], [371, 13, 75, 1.5, 3.2, 6]),
+  food('egg-noodles', 'Egg noodles, dry', ['noodles', 'egg noodles', 'ramen noodles'], [384, 14.2, 71.3, 4.4, 3.3, 21]),
+  food('rice-noodles', 'Rice noodles, dry', ['rice noodles', 'rice vermicelli'], [364, 6, 80, 0.6, 1.6, 182]),
+  food('quinoa', 'Quinoa, raw', ['quinoa'], [368, 14.1, 64.2, 6.1, 7, 5]),
+  food('couscous', 'Couscous, dry', ['couscous', 'bulgur'], [376, 12.8, 77.4, 0.6, 5, 10]),
+  food('bread', 'Bread, white', ['bread', 'white bread', 'sandwich bread', 'baguette', 'loaf'], [265, 9, 49, 3.2, 2.7, 491], { each: 400, portions: { slice: 30 } }),
+  food('wholemeal-bread', 'Bread, whole wheat', ['whole wheat bread', 'wholemeal bread', 'brown bread', 'sourdough'], [252, 12.4, 43, 3.5, 6, 450], { each: 400, portions: { slice: 33 } }),
+  food('breadcrumbs', 'Breadcrumbs', ['breadcrumbs', 'bread crumbs', 'panko'], [395, 13.4, 71.9, 5.3, 4.5, 732]),
+  food('tortilla', 'Flour tortilla', ['tortilla', 'tortillas', 'wrap', 'wraps', 'flatbread'], [306, 8.2, 50, 8, 3.5, 600], { each: 45 }),
+
+  // Sugars and sweets
+  food('sugar', 'Sugar, granulated', ['sugar', 'granulated sugar', 'caster sugar', 'white sugar', 'superfine sugar'], [387, 0, 100, 0, 0, 1]),
+  food('brown-sugar', 'Brown sugar', ['brown sugar', 'light brown sugar', 'dark brown sugar', 'muscovado sugar'], [380, 0.1, 98.1, 0, 0, 28]),
+  food('icing-sugar', 'Powdered sugar', ['powdered sugar', 'icing sugar', "confectioners' sugar", 'confectioners sugar'], [389, 0, 99.8, 0, 0, 2]),
+  food('honey', 'Honey', ['honey'], [304, 0.3, 82.4, 0, 0.2, 4]),
+  food('maple-syrup', 'Maple syrup', ['maple syrup', 'golden syrup', 'corn syrup', 'agave syrup', 'syrup'], [260, 0, 67, 0.1, 0, 12]),
+  food('molasses', 'Molasses', ['molasses', 'treacle'], [290, 0, 74.7, 0.1, 0, 37]),
+  food('dark-chocolate', 'Dark chocolate', ['chocolate', 'dark chocolate', 'bittersweet chocolate'], [598, 7.8, 45.9, 42.6, 10.9, 20]),
+  food('chocolate-chips', 'Chocolate chips, semisweet', ['chocolate chips', 'chocolate chunks', 'semisweet chocolate', 'milk chocolate'], [479, 4.2, 63.9, 24.3, 5.9, 11]),
+  food('cocoa', 'Cocoa powder', ['cocoa', 'cocoa powder', 'cacao powder'], [228, 19.6, 57.9, 13.7, 37, 21]),
+  food('jam', 'Jam', ['jam', 'jelly', 'preserves', 'marmalade'], [278, 0.4, 68.9, 0.1, 1.1, 32]),
+
+  // Fats and oils
+  food('butter', 'Butter, salted', ['butter', 'salted butter'], [717, 0.9, 0.1, 81.1, 0, 643], { portions: { stick: 113 } }),
+  food('unsalted-butter', 'Butter, unsalted', ['unsalted butter', 'ghee'], [717, 0.9, 0.1, 81.1, 0, 11], { portions: { stick: 113 } }),
+  food('oil', 'Vegetable oil', ['oil', 'vegetable oil', 'canola oil', 'sunflower oil', 'rapeseed oil', 'peanut oil', 'sesame oil', 'coconut oil', 'cooking spray'], [884, 0, 0, 100, 0, 0]),
+  food('olive-oil', 'Olive oil', ['olive oil', 'extra virgin olive oil', 'extra-virgin olive oil'], [884, 0, 0, 100, 0, 2]),
+  food('margarine', 'Margarine', ['margarine', 'vegetable shortening', 'shortening', 'lard'], [717, 0.2, 0.7, 80.7, 0, 700], { portions: { stick: 113 } }),
+
+  // Dairy and eggs
+  food('milk', 'Milk, whole', ['milk', 'whole milk'], [61, 3.2, 4.8, 3.3, 0, 43]),
+  food('skim-milk', 'Milk, skimmed', ['skim milk', 'skimmed milk', 'low-fat milk', 'semi-skimmed milk'], [34, 3.4, 5, 0.1, 0, 42]),
+  food('plant-milk', 'Plant milk, unsweetened', ['almond milk', 'oat milk', 'soy milk', 'soya milk', 'rice milk'], [17, 0.6, 0.6, 1.1, 0.2, 60]),
+  food('buttermilk', 'Buttermilk', ['buttermilk'], [40, 3.3, 4.8, 0.9, 0, 105]),
+  food('cream', 'Heavy cream', ['cream', 'heavy cream', 'double cream', 'whipping cream', 'heavy whipping cream'], [340, 2.8, 2.7, 36.1, 0, 27]),
+  food('light-cream', 'Light cream', ['light cream', 'single cream', 'half-and-half', 'half and half'], [195, 3, 3.7, 19.3, 0, 40]),
+  food('sour-cream', 'Sour cream', ['sour cream', 'creme fraiche', 'crème fraîche'], [198, 2.4, 4.6, 19.4, 0, 31]),
+  food('yogurt', 'Yogurt, plain', ['yogurt', 'yoghurt', 'plain yogurt', 'natural yogurt'], [61, 3.5, 4.7, 3.3, 0, 46]),
+  food('greek-yogurt', 'Greek yogurt', ['greek yogurt', 'greek yoghurt', 'strained yogurt'], [97, 9, 4, 5, 0, 35]),
+  food('condensed-milk', 'Sweetened condensed milk', ['condensed milk', 'sweetened condensed milk', 'evaporated milk'], [321, 7.9, 54.4, 8.7, 0, 127], { portions: { can: 397 } }),
+  food('cheddar', 'Cheddar cheese', ['cheese', 'cheddar', 'cheddar cheese', 'shredded cheese', 'grated cheese', 'gruyere', 'gruyère', 'swiss cheese', 'monterey jack'], [403, 24.9, 1.3, 33.1, 0, 621], { portions: { slice: 21 } }),
+  food('mozzarella', 'Mozzarella', ['mozzarella', 'mozzarella cheese', 'burrata'], [300, 22.2, 2.2, 22.4, 0, 627], { each: 125 }),
+  food('parmesan', 'Parmesan', ['parmesan', 'parmigiano', 'parmigiano-reggiano', 'pecorino', 'grana padano'], [392, 35.8, 3.2, 25.8, 0, 1376]),
+  food('feta', 'Feta', ['feta', 'feta cheese', 'goat cheese', "goat's cheese", 'halloumi'], [264, 14.2, 4.1, 21.3, 0, 917]),
+  food('cream-cheese', 'Cream cheese', ['cream cheese', 'mascarpone'], [342, 5.9, 4.1, 34.2, 0, 321]),
+  food('ricotta', 'Ricotta', ['ricotta', 'cottage cheese', 'paneer'], [174, 11.3, 3, 13, 0, 84]),
+  food('egg', 'Egg, whole', ['egg', 'eggs', 'large egg', 'whole egg'], [143, 12.6, 0.7, 9.5, 0, 142], { each: 50 }),
+  food('egg-white', 'Egg white', ['egg white', 'egg whites'], [52, 10.9, 0.7, 0.2, 0, 166], { each: 33 }),
+  food('egg-yolk', 'Egg yolk', ['egg yolk', 'egg yolks', 'yolk'], [322, 15.9, 3.6, 26.5, 0, 48], { each: 17 }),
+
+  // Meat, fish and protein
+  food('chicken-breast', 'Chicken breast, raw', ['chicken breast', 'chicken breasts', 'chicken fillet', 'chicken tenders'], [120, 22.5, 0, 2.6, 0, 45], { each: 175 }),
+  food('chicken-thigh', 'Chicken thigh, raw', ['chicken thigh', 'chicken thighs', 'chicken legs', 'drumsticks'], [121, 19.7, 0, 4.1, 0, 95], { each: 110 }),
+  food('chicken', 'Chicken, raw', ['chicken', 'whole chicken', 'chicken wings', 'shredded chicken'], [143, 17.4, 0, 8.1, 0, 75], { each: 1500 }),
+  food('ground-beef', 'Ground beef, 80% lean', ['ground beef', 'minced beef', 'beef mince', 'mince', 'hamburger'], [254, 17.2, 0, 20, 0, 66]),
+  food('beef', 'Beef, lean, raw', ['beef', 'steak', 'sirloin', 'chuck', 'brisket', 'stewing beef', 'flank steak'], [180, 19.4, 0, 11, 0, 65], { each: 225 }),
+  food('pork', 'Pork loin, raw', ['pork', 'pork loin', 'pork chop', 'pork chops', 'pork shoulder', 'pork tenderloin'], [143, 21, 0, 6, 0, 52], { each: 200 }),
+  food('ground-pork', 'Ground pork', ['ground pork', 'minced pork', 'pork mince'], [263, 16.9, 0, 21.2, 0, 56]),
+  food('lamb', 'Lamb, raw', ['lamb', 'lamb shoulder', 'lamb chops', 'ground lamb', 'minced lamb'], [282, 16.6, 0, 23.4, 0, 59]),
+  food('turkey', 'Turkey, ground', ['turkey', 'ground turkey', 'minced turkey', 'turkey breast'], [148, 19.7, 0, 7.7, 0, 69]),
+  food('bacon', 'Bacon, raw', ['bacon', 'pancetta', 'streaky bacon'], [417, 13, 1.4, 40, 0, 833], { portions: { slice: 25 }, each: 25 }),
+  food('ham', 'Ham', ['ham', 'prosciutto', 'cooked ham'], [145, 21, 1.5, 5.5, 0, 1200], { portions: { slice: 28 } }),
+  food('sausage', 'Pork sausage', ['sausage', 'sausages', 'chorizo', 'bratwurst', 'italian sausage'], [301, 12, 1.3, 27, 0, 731], { each: 75 }),
+  food('salmon', 'Salmon, raw', ['salmon', 'salmon fillet', 'salmon fillets', 'trout'], [208, 20.4, 0, 13.4, 0, 59], { each: 170 }),
+  food('white-fish', 'White fish, raw', ['cod', 'white fish', 'haddock', 'tilapia', 'hake', 'pollock', 'sea bass', 'fish fillet', 'fish fillets', 'fish'], [82, 17.8, 0, 0.7, 0, 54], { each: 170 }),
+  food('tuna', 'Tuna, canned in water', ['tuna', 'canned tuna', 'tinned tuna'], [116, 25.5, 0, 0.8, 0, 338], { portions: { can: 140 } }),
+  food('shrimp', 'Shrimp, raw', ['shrimp', 'prawns', 'prawn', 'king prawns'], [85, 20.1, 0, 0.5, 0, 119], { each: 12 }),
+  food('tofu', 'Tofu, firm', ['tofu', 'firm tofu', 'silken tofu', 'tempeh'], [144, 15.8, 2.8, 8.7, 2.3, 14], { portions: { package: 400 } }),
+  food('chickpeas', 'Chickpeas, canned, drained', ['chickpeas', 'garbanzo beans', 'chick peas'], [139, 7, 22.5, 2.6, 6.4, 246], { portions: { can: 240 } }),
+  food('beans', 'Beans, canned, drained', ['beans', 'black beans', 'kidney beans', 'cannellini beans', 'white beans', 'pinto beans', 'butter beans', 'borlotti beans', 'baked beans'], [91, 6, 16.6, 0.3, 6.9, 240], { portions: { can: 240 } }),
+  food('lentils', 'Lentils, dry', ['lentils', 'red lentils', 'green lentils', 'brown lentils', 'split peas'], [352, 24.6, 63.4, 1.1, 10.7, 6]),
+
+  // Vegetables
+  food('onion', 'Onion', ['onion', 'onions', 'yellow onion', 'white onion', 'red onion', 'brown onion'], [40, 1.1, 9.3, 0.1, 1.7, 4], { each: 110 }),
+  food('shallot', 'Shallot', ['shallot', 'shallots'], [72, 2.5, 16.8, 0.1, 3.2, 12], { each: 25 }),
+  food('spring-onion', 'Spring onion', ['spring onion', 'spring onions', 'green onion', 'green onions', 'scallion', 'scallions', 'leek', 'leeks'], [32, 1.8, 7.3, 0.2, 2.6, 16], { each: 15, portions: { bunch: 100 } }),
+  food('garlic', 'Garlic', ['garlic', 'garlic cloves', 'garlic clove'], [149, 6.4, 33.1, 0.5, 2.1, 17], { each: 5, portions: { clove: 5 } }),
+  food('ginger', 'Ginger, fresh', ['ginger', 'fresh ginger', 'ginger root'], [80, 1.8, 17.8, 0.8, 2, 13], { each: 15, portions: { piece: 15 } }),
+  food('tomato', 'Tomato', ['tomato', 'tomatoes', 'cherry tomatoes', 'plum tomatoes', 'roma tomatoes'], [18, 0.9, 3.9, 0.2, 1.2, 5], { each: 120 }),
+  food('canned-tomatoes', 'Tomatoes, canned', ['canned tomatoes', 'chopped tomatoes', 'crushed tomatoes', 'diced tomatoes', 'tinned tomatoes', 'whole peeled tomatoes'], [32, 1.6, 7.3, 0.3, 1.9, 132], { portions: { can: 400 } }),
+  food('tomato-paste', 'Tomato paste', ['tomato paste', 'tomato puree', 'tomato purée'], [82, 4.3, 18.9, 0.5, 4.1, 59]),
+  food('passata', 'Tomato sauce / passata', ['tomato sauce', 'passata', 'marinara sauce', 'pasta sauce'], [29, 1.3, 6, 0.2, 1.5, 260], { portions: { can: 400 } }),
+  food('potato', 'Potato', ['potato', 'potatoes', 'russet potatoes', 'new potatoes', 'baby potatoes'], [77, 2, 17.5, 0.1, 2.2, 6], { each: 213 }),
+  food('sweet-potato', 'Sweet potato', ['sweet potato', 'sweet potatoes', 'yam'], [86, 1.6, 20.1, 0.1, 3, 55], { each: 130 }),
+  food('carrot', 'Carrot', ['carrot', 'carrots'], [41, 0.9, 9.6, 0.2, 2.8, 69], { each: 61 }),
+  food('celery', 'Celery', ['celery', 'celery stalk', 'celery stalks', 'celery sticks'], [14, 0.7, 3, 0.2, 1.6, 80], { each: 40, portions: { stick: 40 } }),
+  food('bell-pepper', 'Bell pepper', ['bell pepper', 'bell peppers', 'red pepper', 'green pepper', 'yellow pepper', 'capsicum', 'peppers'], [31, 1, 6, 0.3, 2.1, 4], { each: 120 }),
+  food('chilli', 'Chilli pepper, fresh', ['chilli', 'chili', 'chillies', 'chilies', 'jalapeño', 'jalapeno', 'serrano', 'birds eye chilli'], [40, 1.9, 8.8, 0.4, 1.5, 9], { each: 15 }),
+  food('mushroom', 'Mushrooms', ['mushroom', 'mushrooms', 'button mushrooms', 'cremini', 'chestnut mushrooms', 'portobello', 'shiitake'], [22, 3.1, 3.3, 0.3, 1, 5], { each: 18 }),
+  food('spinach', 'Spinach', ['spinach', 'baby spinach', 'kale', 'chard', 'rocket', 'arugula', 'greens'], [23, 2.9, 3.6, 0.4, 2.2, 79], { portions: { handful: 30, bunch: 250 } }),
+  food('lettuce', 'Lettuce', ['lettuce', 'romaine', 'iceberg', 'salad leaves', 'mixed greens'], [15, 1.4, 2.9, 0.2, 1.3, 28], { each: 300 }),
+  food('broccoli', 'Broccoli', ['broccoli', 'broccolini', 'broccoli florets'], [34, 2.8, 6.6, 0.4, 2.6, 33], { each: 300 }),
+  food('cauliflower', 'Cauliflower', ['cauliflower', 'cauliflower florets'], [25, 1.9, 5, 0.3, 2, 30], { each: 575 }),
+  food('courgette', 'Zucchini', ['zucchini', 'courgette', 'courgettes', 'squash', 'butternut squash', 'pumpkin'], [17, 1.2, 3.1, 0.3, 1, 8], { each: 200 }),
+  food('aubergine', 'Eggplant', ['eggplant', 'aubergine', 'aubergines'], [25, 1, 5.9, 0.2, 3, 2], { each: 450 }),
+  food('cucumber', 'Cucumber', ['cucumber', 'cucumbers'], [15, 0.7, 3.6, 0.1, 0.5, 2], { each: 300 }),
+  food('cabbage', 'Cabbage', ['cabbage', 'red cabbage', 'savoy cabbage', 'bok choy', 'pak choi', 'brussels sprouts'], [25, 1.3, 5.8, 0.1, 2.5, 18], { each: 900 }),
+  food('corn', 'Sweet corn', ['corn', 'sweetcorn', 'sweet corn', 'corn kernels'], [86, 3.3, 19, 1.4, 2, 15], { each: 100, portions: { can: 285 } }),
+  food('peas', 'Green peas', ['peas', 'green peas', 'frozen peas', 'garden peas'], [81, 5.4, 14.5, 0.4, 5.7, 5]),
+  food('green-beans', 'Green beans', ['green beans', 'string beans', 'french beans', 'runner beans', 'asparagus'], [31, 1.8, 7, 0.2, 2.7, 6]),
+  food('avocado', 'Avocado', ['avocado', 'avocados'], [160, 2, 8.5, 14.7, 6.7, 7], { each: 150 }),
+
+  // Fruit
+  food('lemon', 'Lemon', ['lemon', 'lemons', 'lemon zest', 'lime', 'limes', 'lime zest'], [29, 1.1, 9.3, 0.3, 2.8, 2], { each: 84 }),
+  food('lemon-juice', 'Lemon juice', ['lemon juice', 'lime juice'], [22, 0.4, 6.9, 0.2, 0.3, 1]),
+  food('orange', 'Orange', ['orange', 'oranges', 'orange zest', 'clementine', 'mandarin'], [47, 0.9, 11.8, 0.1, 2.4, 0], { each: 130 }),
+  food('orange-juice', 'Orange juice', ['orange juice', 'apple juice', 'fruit juice', 'juice'], [45, 0.7, 10.4, 0.2, 0.2, 1]),
+  food('apple', 'Apple', ['apple', 'apples', 'pear', 'pears'], [52, 0.3, 13.8, 0.2, 2.4, 1], { each: 180 }),
+  food('banana', 'Banana', ['banana', 'bananas'], [89, 1.1, 22.8, 0.3, 2.6, 1], { each: 118 }),
+  food('berries', 'Berries', ['berries', 'strawberries', 'raspberries', 'blackberries', 'mixed berries', 'cherries'], [32, 0.7, 7.7, 0.3, 2, 1], { portions: { handful: 40 } }),
+  food('blueberries', 'Blueberries', ['blueberries', 'blueberry', 'grapes', 'mango', 'pineapple'], [57, 0.7, 14.5, 0.3, 2.4, 1], { portions: { handful: 40 } }),
+  food('dried-fruit', 'Raisins and dried fruit', ['raisins', 'sultanas', 'currants', 'dates', 'dried apricots', 'dried cranberries', 'dried fruit'], [299, 3.1, 79.2, 0.5, 3.7, 11], { portions: { handful: 30 } }),
+  food('coconut-milk', 'Coconut milk, canned', ['coconut milk', 'coconut cream'], [197, 2, 2.8, 21.3, 0, 13], { portions: { can: 400 } }),
+  food('coconut', 'Desiccated coconut', ['coconut', 'desiccated coconut', 'shredded coconut', 'coconut flakes'], [660, 6.9, 23.7, 64.5, 16.3, 37]),
+
+  // Nuts and seeds
+  food('almonds', 'Almonds', ['almonds', 'almond', 'flaked almonds', 'slivered almonds', 'hazelnuts', 'pistachios'], [579, 21.2, 21.6, 49.9, 12.5, 1], { portions: { handful: 30 } }),
+  food('walnuts', 'Walnuts', ['walnuts', 'walnut', 'pecans', 'pecan', 'chopped nuts', 'nuts', 'pine nuts', 'macadamia nuts'], [654, 15.2, 13.7, 65.2, 6.7, 2], { portions: { handful: 30 } }),
+  food('peanuts', 'Peanuts', ['peanuts', 'peanut', 'cashews', 'cashew nuts'], [567, 25.8, 16.1, 49.2, 8.5, 18], { portions: { handful: 30 } }),
+  food('peanut-butter', 'Peanut butter', ['peanut butter', 'almond butter', 'nut butter'], [588, 25, 20, 50, 6, 459]),
+  food('seeds', 'Seeds', ['sesame seeds', 'sesame seed', 'sunflower seeds', 'pumpkin seeds', 'flaxseed', 'linseed', 'chia seeds', 'poppy seeds'], [573, 17.7, 23.5, 49.7, 11.8, 11]),
+  food('tahini', 'Tahini', ['tahini', 'sesame paste'], [595, 17, 21.2, 53.8, 9.3, 115]),
+
+  // Herbs, spices and seasonings
+  food('salt', 'Salt', ['salt', 'table salt', 'sea salt', 'kosher salt', 'flaky salt', 'fine salt'], [0, 0, 0, 0, 0, 38758]),
+  food('black-pepper', 'Black pepper', ['pepper', 'black pepper', 'ground pepper', 'white pepper', 'peppercorns'], [251, 10.4, 64, 3.3, 25.3, 20]),
+  food('chilli-flakes', 'Chilli flakes and powder', ['chilli flakes', 'chili flakes', 'red pepper flakes', 'chili powder', 'chilli powder', 'cayenne', 'cayenne pepper'], [282, 13.5, 49.7, 14.3, 34.8, 1010]),
+  food('spices', 'Ground spices', [
+    'spice', 'spices', 'cumin', 'ground cumin', 'paprika', 'smoked paprika', 'cinnamon', 'turmeric', 'ground coriander',
+    'coriander seeds', 'garam masala', 'curry powder', 'nutmeg', 'cloves', 'allspice', 'cardamom', 'ground ginger',
+    'garlic powder', 'onion powder', 'dried oregano', 'dried thyme', 'dried basil', 'dried herbs', 'mixed herbs',
+    'italian seasoning', 'bay leaf', 'bay leaves', 'five spice', 'star anise', 'fennel seeds', 'mustard seeds'
+  ], [300, 12, 55, 12, 25, 60]),
+  food('herbs', 'Fresh herbs', [
+    'herbs', 'fresh herbs', 'parsley', 'basil', 'cilantro', 'coriander', 'fresh coriander', 'mint', 'dill', 'chives',
+    'thyme', 'rosemary', 'oregano', 'sage', 'tarragon'
+  ], [30, 2.8, 5, 0.6, 2.8, 40], { portions: { sprig: 1, bunch: 30, handful: 10 } }),
+  food('vanilla', 'Vanilla extract', ['vanilla', 'vanilla extract', 'vanilla essence', 'vanilla bean paste', 'almond extract'], [288, 0.1, 12.7, 0.1, 0, 9]),
+  food('baking-powder', 'Baking powder', ['baking powder'], [53, 0, 27.7, 0, 0.2, 10600]),
+  food('baking-soda', 'Baking soda', ['baking soda', 'bicarbonate of soda', 'bicarb'], [0, 0, 0, 0, 0, 27360]),
+  food('yeast', 'Yeast, dry', ['yeast', 'instant yeast', 'active dry yeast', 'dried yeast', 'fast-action yeast'], [325, 40.4, 41.2, 7.6, 26.9, 51], { portions: { package: 7 } }),
+  food('gelatin', 'Gelatin', ['gelatin', 'gelatine', 'agar'], [335, 85.6, 0, 0.1, 0, 196], { portions: { package: 7 } }),
+
+  // Sauces, liquids and condiments
+  food('water', 'Water', ['water', 'ice', 'boiling water', 'cold water', 'warm water', 'ice water'], [0, 0, 0, 0, 0, 0]),
+  food('stock', 'Stock / broth', ['stock', 'broth', 'chicken stock', 'chicken broth', 'beef stock', 'beef broth', 'vegetable stock', 'vegetable broth', 'fish stock', 'bone broth'], [6, 0.6, 0.5, 0.2, 0, 340]),
+  food('stock-cube', 'Stock cube', ['stock cube', 'stock cubes', 'bouillon', 'bouillon cube', 'stock pot'], [250, 10, 20, 15, 0, 24000], { each: 10 }),
+  food('soy-sauce', 'Soy sauce', ['soy sauce', 'tamari', 'light soy sauce', 'dark soy sauce'], [53, 8.1, 4.9, 0.6, 0.8, 5493]),
+  food('fish-sauce', 'Fish sauce', ['fish sauce', 'oyster sauce', 'hoisin sauce'], [35, 5.1, 3.6, 0, 0, 7851]),
+  food('vinegar', 'Vinegar', ['vinegar', 'white vinegar', 'red wine vinegar', 'white wine vinegar', 'cider vinegar', 'apple cider vinegar', 'rice vinegar'], [18, 0, 0.1, 0, 0, 2]),
+  food('balsamic', 'Balsamic vinegar', ['balsamic', 'balsamic vinegar', 'balsamic glaze'], [88, 0.5, 17, 0, 0, 23]),
+  food('mustard', 'Mustard', ['mustard', 'dijon mustard', 'wholegrain mustard', 'yellow mustard', 'english mustard'], [66, 4, 5.8, 3.3, 4, 1100]),
+  food('ketchup', 'Ketchup', ['ketchup', 'tomato ketchup', 'bbq sauce', 'barbecue sauce', 'sweet chilli sauce'], [101, 1, 27.4, 0.1, 0.3, 907]),
+  food('mayonnaise', 'Mayonnaise', ['mayonnaise', 'mayo', 'aioli'], [680, 1, 0.6, 75, 0, 635]),
+  food('hot-sauce', 'Hot sauce', ['hot sauce', 'sriracha', 'tabasco', 'worcestershire sauce', 'worcestershire'], [35, 1, 7, 0.5, 0.5, 2500]),
+  food('curry-paste', 'Curry paste', ['curry paste', 'red curry paste', 'green curry paste', 'harissa', 'pesto', 'miso', 'miso paste', 'gochujang'], [250, 5, 20, 15, 5, 3000]),
+  food('wine', 'Wine', ['wine', 'red wine', 'white wine', 'dry white wine', 'sherry', 'marsala', 'mirin'], [84, 0.1, 2.7, 0, 0, 5]),
+  food('beer', 'Beer', ['beer', 'ale', 'stout', 'lager', 'cider'], [43, 0.5, 3.6, 0, 0, 4], { portions: { can: 355 } }),
+  food('spirits', 'Spirits', ['rum', 'brandy', 'vodka', 'whisky', 'whiskey', 'bourbon', 'liqueur', 'cognac'], [231, 0, 0, 0, 0, 1])
+]
+
+const FOODS_BY_ID = new Map(FOODS.map(entry => [entry.id, entry]))
+
+export function getFood(id: string | null | undefined): FoodEntry | null {
+  return id ? FOODS_BY_ID.get(id) || null : null
+}
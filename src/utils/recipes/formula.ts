@@ -0,0 +1,133 @@
+import { RecipeIngredient } from './ingredients'
+import { getUnit } from './units'
+
+// Baker's percentages for recipes written as a formula. Every ingredient is
+// expressed as a percentage of the base (the flour unless the author picks
+// other ingredients), so the base always totals 100%. Only weighed lines
+// take part; cups and spoons are listed as unweighed.
+
+// Stored in the `recipes.formula` column; NULL for ordinary recipes
+export interface RecipeFormula {
+  // Ingredient names that make up 100%; empty means every flour
+  base: string[]
+  // Weight of one piece in grams, for scaling by piece count
+  piece_weight: number | null
+}
+
+export interface FormulaLine {
+  index: number
+  ingredient: RecipeIngredient
+  grams: number
+  percent: number | null
+  isBase: boolean
+}
+
+export interface FormulaAnalysis {
+  lines: FormulaLine[]
+  unweighed: RecipeIngredient[]
+  baseWeight: number
+  totalWeight: number
+  // Water as a percentage of the base, or null when nothing in the formula carries water
+  hydration: number | null
+}
+
+export const EMPTY_FORMULA: RecipeFormula = { base: [], piece_weight: null }
+
+// Approximate share of water by weight, most specific names first
+const WATER_CONTENT: [RegExp, number][] = [
+  [/\begg whites?\b/, 0.88],
+  [/\begg yolks?\b/, 0.5],
+  [/\beggs?\b/, 0.75],
+  [/\bbuttermilk\b/, 0.9],
+  [/\b(?:heavy|double|whipping) cream\b/, 0.58],
+  [/\bcream\b/, 0.7],
+  [/\bmilk\b/, 0.87],
+  [/\b(?:yogh?urt|kefir)\b/, 0.85],
+  [/\b(?:beer|ale)\b/, 0.92],
+  [/\bjuice\b/, 0.88],
+  [/\bwater\b/, 1]
+]
+
+const FLOUR = /\bflours?\b/
+
+export function storedFormula(raw: unknown): RecipeFormula | null {
+  if (!raw || typeof raw !== 'object') return null
+  const formula = raw as Partial<RecipeFormula>
+  return {
+    base: Array.isArray(formula.base) ? formula.base.filter(name => typeof name === 'string' && name.trim()) : [],
+    piece_weight: typeof formula.piece_weight === 'number' && formula.piece_weight > 0 ? formula.piece_weight : null
+  }
+}
+
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase()
+
+// Weight in grams of a line measured by weight; null for volumes and counts
+export function ingredientGrams(ingredient: RecipeIngredient): number | null {
+  const unit = getUnit(ingredient.unit)
+  if (ingredient.quantity === null || !unit || unit.kind !== 'mass') return null
+  return ingredient.quantity * (unit.toBase as number)
+}
+
+export function isBaseIngredient(ingredient: RecipeIngredient, formula: RecipeFormula): boolean {
+  return formula.base.length > 0
+    ? formula.base.some(name => sameName(name, ingredient.item))
+    : FLOUR.test(ingredient.item.toLowerCase())
+}
+
+export function waterContent(item: string): number {
+  const name = item.toLowerCase()
+  return WATER_CONTENT.find(([pattern]) => pattern.test(name))?.[1] ?? 0
+}
+
+export function analyseFormula(ingredients: RecipeIngredient[], formula: RecipeFormula): FormulaAnalysis {
+  const weighed: Omit<FormulaLine, 'percent'>[] = []
+  const unweighed: RecipeIngredient[] = []
+
+  ingredients.forEach((ingredient, index) => {
+    const grams = ingredientGrams(ingredient)
+    if (grams === null) {
+      unweighed.push(ingredient)
+    } else {
+      weighed.push({ index, ingredient, grams, isBase: isBaseIngredient(ingredient, formula) })
+    }
+  })
+
+  const baseWeight = weighed.filter(line => line.isBase).reduce((sum, line) => sum + line.grams, 0)
+  const totalWeight = weighed.reduce((sum, line) => sum + line.grams, 0)
+  const water = weighed.reduce((sum, line) => sum + line.grams * waterContent(line.ingredient.item), 0)
+
+  return {
+    lines: weighed.map(line => ({ ...line, percent: baseWeight > 0 ? line.grams / baseWeight * 100 : null })),
+    unweighed,
+    baseWeight,
+    totalWeight,
+    hydration: baseWeight > 0 && water > 0 ? water / baseWeight * 100 : null
+  }
+}
+
+// Names the author can choose as the base, in recipe order without repeats
+export function baseCandidates(ingredients: RecipeIngredient[]): string[] {
+  return ingredients
+    .filter(ingredient => ingredientGrams(ingredient) !== null)
+    .map(ingredient => ingredient.item.trim())
+    .filter((item, index, items) => items.findIndex(other => sameName(other, item)) === index)
+}
+
+// The formula after ingredients were swapped: base names no longer in the
+// list are dropped, falling back to the flours when none are left
+export function formulaForIngredients(formula: RecipeFormula, ingredients: RecipeIngredient[]): RecipeFormula {
+  return {
+    ...formula,
+    base: formula.base.filter(name => ingredients.some(ingredient => sameName(name, ingredient.item)))
+  }
+}
+
+// Small amounts such as salt and yeast keep a decimal place
+export function formatGrams(grams: number): string {
+  const rounded = grams < 10 ? Math.round(grams * 10) / 10 : Math.round(grams)
+  return `${rounded.toLocaleString()} g`
+}
+
+export function formatPercent(percent: number): string {
+  return `${percent < 10 ? percent.toFixed(1).replace(/\.0$/, '') : Math.round(percent)}%`
+}
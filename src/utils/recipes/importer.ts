@@ -0,0 +1,376 @@
+import { RecipeIngredient, parseIngredientLine, parseIngredientText } from './ingredients'
+
+// Recipe import from content the user pastes or uploads: HTML pages carrying
+// schema.org Recipe JSON-LD, bare JSON-LD files, or unstructured text.
+// Everything is parsed locally; nothing referenced by the content is fetched.
+
+export type ImportFormat = 'json-ld' | 'html' | 'text'
+
+export interface ImportedRecipe {
+  title: string
+  description: string
+  prep_time: number | null
+  cook_time: number | null
+  servings: number | null
+  cuisine: string
+  ingredients: RecipeIngredient[]
+  instructions: string[]
+  tags: string[]
+  source: string
+}
+
+export interface RecipeImportResult {
+  format: ImportFormat
+  recipe: ImportedRecipe
+  warnings: string[]
+}
+
+const createEmptyImport = (): ImportedRecipe => ({
+  title: '',
+  description: '',
+  prep_time: null,
+  cook_time: null,
+  servings: null,
+  cuisine: '',
+  ingredients: [],
+  instructions: [],
+  tags: [],
+  source: ''
+})
+
+// Parse whatever the user supplied. Returns null when no recipe could be
+// recognised at all.
+export function importRecipe(content: string): RecipeImportResult | null {
+  const trimmed = content.trim()
+  if (!trimmed) return null
+
+  let format: ImportFormat
+  let recipe: ImportedRecipe | null
+
+  if (/^[[{]/.test(trimmed)) {
+    format = 'json-ld'
+    recipe = fromJsonLd(safeJsonParse(trimmed))
+  } else if (/<(?:html|head|body|script|div|p|li|h\d)\b/i.test(trimmed)) {
+    const blocks = extractJsonLdBlocks(trimmed)
+    recipe = blocks.map(fromJsonLd).find(Boolean) || null
+    format = recipe ? 'json-ld' : 'html'
+    if (!recipe) recipe = parseRecipeText(htmlToText(trimmed))
+  } else {
+    format = 'text'
+    recipe = parseRecipeText(trimmed)
+  }
+
+  if (!recipe || (!recipe.title && recipe.ingredients.length === 0 && recipe.instructions.length === 0)) {
+    return null
+  }
+
+  const warnings: string[] = []
+  if (!recipe.title) warnings.push('No title was found.')
+  if (recipe.ingredients.length === 0) warnings.push('No ingredients were found.')
+  if (recipe.instructions.length === 0) warnings.push('No instructions were found.')
+  if (format !== 'json-ld') {
+    warnings.push('No structured recipe data was found, so fields were guessed from the text. Check them carefully.')
+  }
+
+  return { format, recipe, warnings }
+}
+
+// "PT1H30M" -> 90. Plain numbers are taken as minutes.
+export function parseIsoDuration(value: unknown): number | null {
+  if (typeof value === 'number') return Math.round(value)
+  if (typeof value !== 'string') return null
+
+  const match = value.trim().match(/^P(?:(\d+(?:\.\d+)?)D)?(?:T(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?)?$/i)
+  if (!match || match[0] === 'P' || /T$/i.test(match[0])) {
+    const minutes = parseFloat(value)
+    return isNaN(minutes) ? null : Math.round(minutes)
+  }
+
+  const [, days, hours, minutes, seconds] = match.map(part => parseFloat(part || '0'))
+  return Math.round(days * 1440 + hours * 60 + minutes + seconds / 60)
+}
+
+// "1 hour 15 minutes", "45 mins", "1.5 hrs" -> minutes
+export function parseDurationText(text: string): number | null {
+  let total = 0
+  let matched = false
+  const pattern = /(\d+(?:[.,]\d+)?)\s*(hours?|hrs?|h|minutes?|mins?|m)\b/gi
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(text)) !== null) {
+    const amount = parseFloat(match[1].replace(',', '.'))
+    total += /^h/i.test(match[2]) ? amount * 60 : amount
+    matched = true
+  }
+  if (matched) return Math.round(total)
+
+  const bare = text.match(/^\s*(\d+)\s*$/)
+  return bare ? parseInt(bare[1]) : null
+}
+
+// Pull the raw JSON of every <script type="application/ld+json"> block.
+export function extractJsonLdBlocks(html: string): unknown[] {
+  const blocks: unknown[] = []
+  const pattern = /<script\b[^>]*type\s*=\s*["']?application\/ld\+json["']?[^>]*>([\s\S]*?)<\/script>/gi
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(html)) !== null) {
+    const parsed = safeJsonParse(match[1].trim())
+    if (parsed !== null) blocks.push(parsed)
+  }
+  return blocks
+}
+
+// Find the first schema.org Recipe node, looking through arrays and @graph.
+export function findRecipeNode(data: unknown): Record<string, any> | null {
+  if (!data || typeof data !== 'object') return null
+  if (Array.isArray(data)) {
+    for (const item of data) {
+      const found = findRecipeNode(item)
+      if (found) return found
+    }
+    return null
+  }
+
+  const node = data as Record<string, any>
+  const types = Array.isArray(node['@type']) ? node['@type'] : [node['@type']]
+  if (types.some(type => typeof type === 'string' && /(?:^|[/:])Recipe$/i.test(type))) return node
+
+  return findRecipeNode(node['@graph']) || findRecipeNode(node.mainEntity)
+}
+
+function fromJsonLd(data: unknown): ImportedRecipe | null {
+  const node = findRecipeNode(data)
+  if (!node) return null
+
+  const recipe = createEmptyImport()
+  recipe.title = cleanText(firstText(node.name) || firstText(node.headline))
+  recipe.description = cleanText(firstText(node.description))
+  recipe.prep_time = parseIsoDuration(node.prepTime)
+  recipe.cook_time = parseIsoDuration(node.cookTime)
+  if (recipe.prep_time === null && recipe.cook_time === null) {
+    recipe.cook_time = parseIsoDuration(node.totalTime)
+  }
+  recipe.servings = parseServings(node.recipeYield)
+  recipe.cuisine = cleanText(toList(node.recipeCuisine)[0] || '')
+  recipe.ingredients = toList(node.recipeIngredient || node.ingredients)
+    .map(line => parseIngredientLine(cleanText(line)))
+    .filter(ingredient => ingredient.item)
+  recipe.instructions = flattenInstructions(node.recipeInstructions)
+  recipe.tags = dedupe([
+    ...toList(node.keywords).flatMap(keyword => keyword.split(',')),
+    ...toList(node.recipeCategory)
+  ].map(tag => cleanText(tag).toLowerCase()).filter(Boolean))
+  recipe.source = cleanText(authorName(node.author))
+  return recipe
+}
+
+// recipeInstructions may be a string, a list of strings, HowToStep objects or
+// HowToSection objects wrapping more steps.
+function flattenInstructions(raw: unknown): string[] {
+  if (!raw) return []
+  if (typeof raw === 'string') {
+    const text = raw.includes('<') ? htmlToText(raw) : raw
+    return text.split('\n').map(step => stripStepNumber(cleanText(step))).filter(Boolean)
+  }
+  if (Array.isArray(raw)) return raw.flatMap(flattenInstructions)
+  if (typeof raw === 'object') {
+    const node = raw as Record<string, any>
+    if (node.itemListElement) return flattenInstructions(node.itemListElement)
+    return flattenInstructions(node.text || node.name || '')
+  }
+  return []
+}
+
+function parseServings(raw: unknown): number | null {
+  for (const value of Array.isArray(raw) ? raw : [raw]) {
+    if (typeof value === 'number') return Math.round(value)
+    if (typeof value === 'string') {
+      const match = value.match(/\d+/)
+      if (match) return parseInt(match[0])
+    }
+  }
+  return null
+}
+
+function authorName(raw: unknown): string {
+  if (!raw) return ''
+  if (typeof raw === 'string') return raw
+  if (Array.isArray(raw)) return raw.map(authorName).filter(Boolean).join(', ')
+  if (typeof raw === 'object') return firstText((raw as Record<string, any>).name)
+  return ''
+}
+
+// Section headings recognised in pasted text
+const INGREDIENT_HEADING = /^(?:ingredients?|you(?:'ll)? need|what you need)\s*:?$/i
+const INSTRUCTION_HEADING = /^(?:instructions?|directions?|method|steps?|preparation|procedure)\s*:?$/i
+const NOTES_HEADING = /^(?:notes?|tips?|nutrition(?: facts)?)\s*:?$/i
+
+// Best-effort reading of a recipe written as plain text: title first, an
+// optional description, labelled times and servings, then ingredient and
+// instruction sections. Without headings, lines that start with an amount
+// are treated as ingredients and the rest as steps.
+export function parseRecipeText(text: string): ImportedRecipe {
+  const recipe = createEmptyImport()
+  const lines = text.split('\n').map(line => line.trim())
+
+  let section: 'intro' | 'ingredients' | 'instructions' | 'notes' = 'intro'
+  const intro: string[] = []
+  const ingredientLines: string[] = []
+  const instructionLines: string[] = []
+
+  for (const line of lines) {
+    if (!line) continue
+
+    if (INGREDIENT_HEADING.test(line)) {
+      section = 'ingredients'
+      continue
+    }
+    if (INSTRUCTION_HEADING.test(line)) {
+      section = 'instructions'
+      continue
+    }
+    if (NOTES_HEADING.test(line)) {
+      section = 'notes'
+      continue
+    }
+    // Only before the sections start, so steps such as "Cook the pasta for
+    // 10 minutes" stay steps
+    if (section === 'intro' && readMetadataLine(line, recipe)) continue
+
+    if (section === 'intro') intro.push(line)
+    else if (section === 'ingredients') ingredientLines.push(line)
+    else if (section === 'instructions') instructionLines.push(line)
+  }
+
+  if (ingredientLines.length === 0 && instructionLines.length === 0) {
+    // No headings: title, then guess line by line
+    recipe.title = intro.shift() || ''
+    const description: string[] = []
+    intro.forEach(line => {
+      if (/^(?:step\s*)?\d+[.):]\s/i.test(line)) {
+        instructionLines.push(line)
+      } else if (/^(?:[-*•·]\s*)?[\d¼½¾⅓⅔⅛]/.test(line) || /^[-*•·]\s/.test(line)) {
+        ingredientLines.push(line)
+      } else if (ingredientLines.length > 0) {
+        instructionLines.push(line)
+      } else {
+        description.push(line)
+      }
+    })
+    recipe.description = description.join(' ')
+  } else {
+    recipe.title = intro.shift() || ''
+    recipe.description = intro.join(' ')
+  }
+
+  recipe.title = recipe.title.replace(/^#+\s*/, '')
+  recipe.ingredients = parseIngredientText(ingredientLines.join('\n'))
+  recipe.instructions = instructionLines.map(stripStepNumber).filter(Boolean)
+  return recipe
+}
+
+// "Prep time: 15 min", "Serves 4", "Tags: pasta, quick" and similar lines.
+// Times need a colon or the word "time", so "Prep the onions" is not one.
+// Nothing is overwritten by a value that cannot be read.
+const TIME_LINE = /^(prep(?:aration)?|cook(?:ing)?|total)(\s+time)?\s*(:)?\s*(.+)$/i
+const LABELLED_LINE = /^(serves|servings|yield|makes|cuisine|tags|keywords|category)\s*:?\s+(.+)$/i
+
+function readMetadataLine(line: string, recipe: ImportedRecipe): boolean {
+  const timed = line.match(TIME_LINE)
+  if (timed && (timed[2] || timed[3])) {
+    const minutes = parseDurationText(timed[4].trim())
+    if (minutes === null) return false
+
+    const label = timed[1].toLowerCase()
+    if (label.startsWith('prep')) recipe.prep_time = minutes
+    else if (label.startsWith('cook')) recipe.cook_time = minutes
+    else if (recipe.cook_time === null) recipe.cook_time = Math.max(0, minutes - (recipe.prep_time || 0))
+    return true
+  }
+
+  const labelled = line.match(LABELLED_LINE)
+  if (!labelled) return false
+
+  const label = labelled[1].toLowerCase()
+  const value = labelled[2].trim()
+
+  if (['serves', 'servings', 'yield', 'makes'].includes(label)) {
+    const servings = parseServings(value)
+    if (servings === null) return false
+    recipe.servings = servings
+    return true
+  }
+  if (label === 'cuisine') {
+    recipe.cuisine = value
+    return true
+  }
+  recipe.tags = dedupe([...recipe.tags, ...value.split(',').map(tag => tag.trim().toLowerCase()).filter(Boolean)])
+  return true
+}
+
+// Flatten markup to text, keeping block boundaries as line breaks.
+export function htmlToText(html: string): string {
+  return decodeEntities(
+    html
+      .replace(/<(script|style|noscript|template)\b[\s\S]*?<\/\1>/gi, '')
+      .replace(/<!--[\s\S]*?-->/g, '')
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<\/?(?:p|div|li|ul|ol|h[1-6]|tr|section|article|header|footer)\b[^>]*>/gi, '\n')
+      .replace(/<[^>]+>/g, '')
+  )
+    .split('\n')
+    .map(line => line.replace(/[^\S\n]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ',
+  frac12: '½', frac14: '¼', frac34: '¾', deg: '°', ndash: '–', mdash: '—',
+  rsquo: '’', lsquo: '‘', rdquo: '”', ldquo: '“', hellip: '…'
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z0-9]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const point = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1))
+      // fromCodePoint throws outside the Unicode range; keep those as written
+      return point >= 0 && point <= 0x10ffff ? String.fromCodePoint(point) : entity
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity
+  })
+}
+
+function cleanText(value: string): string {
+  return decodeEntities(value.replace(/<[^>]+>/g, ' ')).replace(/\s+/g, ' ').trim()
+}
+
+function stripStepNumber(step: string): string {
+  return step.replace(/^(?:step\s*\d+\s*[.):-]?|\d+\s*[.)])\s*/i, '').replace(/^[-*•·]\s*/, '').trim()
+}
+
+function firstText(raw: unknown): string {
+  if (typeof raw === 'string') return raw
+  if (Array.isArray(raw)) return firstText(raw[0])
+  return ''
+}
+
+function toList(raw: unknown): string[] {
+  if (!raw) return []
+  if (typeof raw === 'string') return [raw]
+  if (Array.isArray(raw)) return raw.flatMap(toList)
+  if (typeof raw === 'object') return toList((raw as Record<string, any>).name)
+  return []
+}
+
+function dedupe(values: string[]): string[] {
+  return Array.from(new Set(values))
+}
+
+function safeJsonParse(text: string): unknown {
+  try {
+    return JSON.parse(text)
+  } catch {
+    return null
+  }
+}
@@ -0,0 +1,249 @@
+import { resolveUnit, unitLabel } from './units'
+
+// A single structured ingredient line as stored in the `recipes.ingredients`
+// JSONB column. Older recipes store plain strings instead; see
+// `normalizeIngredients` for reading either shape.
+export interface RecipeIngredient {
+  quantity: number | null
+  quantity_max: number | null
+  unit: string | null
+  item: string
+  note: string
+  group: string
+}
+
+export type StoredIngredient = RecipeIngredient | string
+
+export interface IngredientGroup {
+  group: string
+  items: { ingredient: RecipeIngredient; index: number }[]
+}
+
+const UNICODE_FRACTIONS: Record<string, string> = {
+  '¼': '1/4', '½': '1/2', '¾': '3/4',
+  '⅓': '1/3', '⅔': '2/3',
+  '⅕': '1/5', '⅖': '2/5', '⅗': '3/5', '⅘': '4/5',
+  '⅙': '1/6', '⅚': '5/6',
+  '⅛': '1/8', '⅜': '3/8', '⅝': '5/8', '⅞': '7/8'
+}
+
+const NUMBER_PATTERN = '(?:\\d+\\s+\\d+\\/\\d+|\\d+\\/\\d+|\\d+(?:[.,]\\d+)?)'
+const QUANTITY_REGEX = new RegExp(
+  `^(${NUMBER_PATTERN})(?:\\s*(?:-|–|to)\\s*(${NUMBER_PATTERN}))?\\s*`,
+  'i'
+)
+
+export function createEmptyIngredient(group = ''): RecipeIngredient {
+  return { quantity: null, quantity_max: null, unit: null, item: '', note: '', group }
+}
+
+// Parse "2", "2.5", "2,5", "1/2" or "2 1/2" into a number.
+export function parseQuantity(text: string): number | null {
+  const value = replaceUnicodeFractions(text).trim()
+  if (!value) return null
+
+  const mixed = value.match(/^(\d+)\s+(\d+)\/(\d+)$/)
+  if (mixed) {
+    const denominator = parseInt(mixed[3])
+    return denominator ? parseInt(mixed[1]) + parseInt(mixed[2]) / denominator : null
+  }
+
+  const fraction = value.match(/^(\d+)\/(\d+)$/)
+  if (fraction) {
+    const denominator = parseInt(fraction[2])
+    return denominator ? parseInt(fraction[1]) / denominator : null
+  }
+
+  const number = parseFloat(value.replace(',', '.'))
+  return isNaN(number) ? null : number
+}
+
+// Turn a free-text line such as "2 1/2 cups flour, sifted" into a
+// structured ingredient. Lines without a leading amount ("salt to taste")
+// keep the whole text as the ingredient name.
+export function parseIngredientLine(line: string, group = ''): RecipeIngredient {
+  let rest = replaceUnicodeFractions(line)
+    .replace(/^\s*(?:[-*•·]|\d+[.)](?=\s))\s*/, '')
+    .trim()
+
+  const ingredient = createEmptyIngredient(group)
+  const notes: string[] = []
+
+  const quantityMatch = rest.match(QUANTITY_REGEX)
+  if (quantityMatch) {
+    ingredient.quantity = parseQuantity(quantityMatch[1])
+    ingredient.quantity_max = quantityMatch[2] ? parseQuantity(quantityMatch[2]) : null
+    rest = rest.slice(quantityMatch[0].length)
+
+    // "1 (400 g) can tomatoes" - keep the package size as a note
+    const packageSize = rest.match(/^\(([^)]*)\)\s*/)
+    if (packageSize) {
+      notes.push(packageSize[1].trim())
+      rest = rest.slice(packageSize[0].length)
+    }
+
+    const twoWords = rest.match(/^([^\s,]+\s+[^\s,]+)(?=\s|,|$)/)
+    const oneWord = rest.match(/^([^\s,]+)(?=\s|,|$)/)
+    if (twoWords && resolveUnit(twoWords[1])) {
+      ingredient.unit = resolveUnit(twoWords[1])
+      rest = rest.slice(twoWords[0].length)
+    } else if (oneWord && resolveUnit(oneWord[1])) {
+      ingredient.unit = resolveUnit(oneWord[1])
+      rest = rest.slice(oneWord[0].length)
+    }
+
+    rest = rest.replace(/^\s*of\s+/i, '').trim()
+  }
+
+  // Parenthetical remarks ("(optional)") become part of the note
+  rest = rest.replace(/\(([^)]*)\)/g, (_, remark: string) => {
+    if (remark.trim()) notes.push(remark.trim())
+    return ''
+  }).replace(/\s{2,}/g, ' ').trim()
+
+  const commaIndex = rest.indexOf(',')
+  if (commaIndex !== -1) {
+    notes.unshift(rest.slice(commaIndex + 1).trim())
+    rest = rest.slice(0, commaIndex).trim()
+  }
+
+  ingredient.item = rest
+  ingredient.note = notes.filter(Boolean).join(', ')
+  return ingredient
+}
+
+// Headings such as "For the sauce:" or "Filling:" start a new group.
+function parseGroupHeading(line: string): string | null {
+  const trimmed = line.trim()
+  if (/^\d/.test(trimmed)) return null
+  if (trimmed.endsWith(':')) return trimmed.slice(0, -1).trim()
+  if (/^for the\s+\S+/i.test(trimmed) && trimmed.split(/\s+/).length <= 5) return trimmed
+  return null
+}
+
+// Parse a pasted block of ingredients, one per line, honouring group headings.
+export function parseIngredientText(text: string, initialGroup = ''): RecipeIngredient[] {
+  let group = initialGroup
+  const ingredients: RecipeIngredient[] = []
+
+  text.split('\n').forEach(line => {
+    if (!line.trim()) return
+    const heading = parseGroupHeading(line)
+    if (heading !== null) {
+      group = heading
+      return
+    }
+    const ingredient = parseIngredientLine(line, group)
+    if (ingredient.item) ingredients.push(ingredient)
+  })
+
+  return ingredients
+}
+
+// Read the `ingredients` column in either its structured or legacy
+// string-array form. Legacy lines are parsed on the fly.
+export function normalizeIngredients(raw: unknown): RecipeIngredient[] {
+  if (!raw) return []
+  if (typeof raw === 'string') return parseIngredientText(raw)
+  if (!Array.isArray(raw)) return []
+
+  return raw
+    .map((entry): RecipeIngredient | null => {
+      if (typeof entry === 'string') {
+        return entry.trim() ? parseIngredientLine(entry) : null
+      }
+      if (entry && typeof entry === 'object' && typeof entry.item === 'string') {
+        return {
+          quantity: typeof entry.quantity === 'number' ? entry.quantity : null,
+          quantity_max: typeof entry.quantity_max === 'number' ? entry.quantity_max : null,
+          unit: entry.unit || null,
+          item: entry.item,
+          note: entry.note || '',
+          group: entry.group || ''
+        }
+      }
+      return null
+    })
+    .filter((entry): entry is RecipeIngredient => entry !== null)
+}
+
+export function isLegacyIngredientList(raw: unknown): boolean {
+  return typeof raw === 'string' || (Array.isArray(raw) && raw.some(entry => typeof entry === 'string'))
+}
+
+// Strip empty rows and stray whitespace before saving.
+export function cleanIngredients(ingredients: RecipeIngredient[]): RecipeIngredient[] {
+  return ingredients
+    .filter(ingredient => ingredient.item.trim())
+    .map(ingredient => ({
+      ...ingredient,
+      item: ingredient.item.trim(),
+      note: ingredient.note.trim(),
+      group: ingredient.group.trim()
+    }))
+}
+
+// Group consecutive ingredients by heading, keeping each row's index in the
+// flat list so editors can write changes back.
+export function groupIngredients(ingredients: RecipeIngredient[]): IngredientGroup[] {
+  const groups: IngredientGroup[] = []
+  ingredients.forEach((ingredient, index) => {
+    const last = groups[groups.length - 1]
+    if (last && last.group === ingredient.group) {
+      last.items.push({ ingredient, index })
+    } else {
+      groups.push({ group: ingredient.group, items: [{ ingredient, index }] })
+    }
+  })
+  return groups
+}
+
+const FRACTIONS: [number, string][] = [
+  [1 / 8, '1/8'], [1 / 4, '1/4'], [1 / 3, '1/3'], [3 / 8, '3/8'], [1 / 2, '1/2'],
+  [5 / 8, '5/8'], [2 / 3, '2/3'], [3 / 4, '3/4'], [7 / 8, '7/8']
+]
+
+// Format a quantity as a kitchen-friendly mixed fraction ("2 1/2") where a
+// common fraction is close enough, otherwise as a trimmed decimal.
+export function formatQuantity(value: number | null): string {
+  if (value === null || isNaN(value)) return ''
+
+  const whole = Math.floor(value)
+  const remainder = value - whole
+  if (remainder < 0.02) return whole.toString()
+  if (remainder > 0.98) return (whole + 1).toString()
+
+  const fraction = FRACTIONS.find(([amount]) => Math.abs(amount - remainder) < 0.02)
+  if (fraction) {
+    return whole > 0 ? `${whole} ${fraction[1]}` : fraction[1]
+  }
+
+  return parseFloat(value.toFixed(2)).toString()
+}
+
+export function formatIngredientAmount(ingredient: Pick<RecipeIngredient, 'quantity' | 'quantity_max' | 'unit'>): string {
+  const parts: string[] = []
+  if (ingredient.quantity !== null) {
+    parts.push(
+      ingredient.quantity_max !== null
+        ? `${formatQuantity(ingredient.quantity)}-${formatQuantity(ingredient.quantity_max)}`
+        : formatQuantity(ingredient.quantity)
+    )
+  }
+  if (ingredient.unit) {
+    parts.push(unitLabel(ingredient.unit, ingredient.quantity_max ?? ingredient.quantity))
+  }
+  return parts.join(' ')
+}
+
+export function formatIngredient(ingredient: RecipeIngredient): string {
+  const amount = formatIngredientAmount(ingredient)
+  const text = [amount, ingredient.item].filter(Boolean).join(' ')
+  return ingredient.note ? `${text}, ${ingredient.note}` : text
+}
+
+function replaceUnicodeFractions(text: string): string {
+  return text.replace(/(\d)?\s*([¼½¾⅓⅔⅕⅖⅗⅘⅙⅚⅛⅜⅝⅞])/g, (_, whole: string | undefined, fraction: string) =>
+    whole ? `${whole} ${UNICODE_FRACTIONS[fraction]}` : UNICODE_FRACTIONS[fraction]
+  )
+}
@@ -0,0 +1,8 @@
+// Read the `instructions` JSONB column, which holds an array of step strings
+// (older rows may hold a single string).
+export function normalizeInstructions(raw: unknown): string[] {
+  if (!raw) return []
+  if (typeof raw === 'string') return raw.split('\n').map(step => step.trim()).filter(Boolean)
+  if (!Array.isArray(raw)) return []
+  return raw.filter((step): step is string => typeof step === 'string' && step.trim() !== '')
+}
@@ -0,0 +1,71 @@
+// Recipe lifecycle states. The database keeps `is_public` in sync as
+// "status = published"; rows saved before statuses existed only have
+// `is_public`, which `recipeStatus` falls back to.
+
+export type RecipeStatus = 'draft' | 'private' | 'unlisted' | 'published' | 'scheduled'
+
+export const STATUS_OPTIONS: { value: RecipeStatus; label: string; description: string }[] = [
+  { value: 'published', label: 'Published', description: 'Visible to everyone in the recipe feed' },
+  { value: 'unlisted', label: 'Unlisted', description: 'Only people with the link can view it' },
+  { value: 'private', label: 'Private', description: 'Only you can see it' },
+  { value: 'scheduled', label: 'Scheduled', description: 'Publishes automatically at a set time' },
+  { value: 'draft', label: 'Draft', description: 'Work in progress, only you can see it' }
+]
+
+// Order of the sections in My Recipes
+export const STATUS_GROUP_ORDER: RecipeStatus[] = ['draft', 'scheduled', 'published', 'unlisted', 'private']
+
+export const STATUS_GROUP_LABELS: Record<RecipeStatus, string> = {
+  draft: 'Drafts',
+  scheduled: 'Scheduled',
+  published: 'Published',
+  unlisted: 'Unlisted',
+  private: 'Private'
+}
+
+export function recipeStatus(recipe: { status?: string | null; is_public?: boolean | null }): RecipeStatus {
+  if (recipe.status && STATUS_OPTIONS.some(option => option.value === recipe.status)) {
+    return recipe.status as RecipeStatus
+  }
+  return recipe.is_public === false ? 'private' : 'published'
+}
+
+export function statusLabel(status: RecipeStatus): string {
+  return STATUS_OPTIONS.find(option => option.value === status)?.label || status
+}
+
+export function groupRecipesByStatus<T extends { status?: string | null; is_public?: boolean | null }>(
+  recipes: T[]
+): { status: RecipeStatus; recipes: T[] }[] {
+  return STATUS_GROUP_ORDER
+    .map(status => ({ status, recipes: recipes.filter(recipe => recipeStatus(recipe) === status) }))
+    .filter(group => group.recipes.length > 0)
+}
+
+// <input type="datetime-local"> works in local time without a zone
+export function toDateTimeLocal(iso: string | null | undefined): string {
+  if (!iso) return ''
+  const date = new Date(iso)
+  if (isNaN(date.getTime())) return ''
+  const offset = date.getTimezoneOffset() * 60000
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16)
+}
+
+export function fromDateTimeLocal(value: string): string | null {
+  if (!value) return null
+  const date = new Date(value)
+  return isNaN(date.getTime()) ? null : date.toISOString()
+}
+
+// Returns an error message, or null when the status can be saved
+export function validateSchedule(status: RecipeStatus, publishAt: string): string | null {
+  if (status !== 'scheduled') return null
+  const iso = fromDateTimeLocal(publishAt)
+  if (!iso) return 'Choose when the recipe should be published'
+  if (new Date(iso).getTime() <= Date.now()) return 'The publish time must be in the future'
+  return null
+}
+
+export function recipeShareLink(recipeId: string): string {
+  return `${window.location.origin}${window.location.pathname}?recipe=${recipeId}`
+}
@@ -0,0 +1,124 @@
+import { NUTRIENTS, storedNutrition } from './nutrition'
+import { NutrientValues } from './foods'
+
+// Weekly meal plans: recipes placed in a breakfast, lunch or dinner slot on a
+// date. Dates are local calendar days stored as YYYY-MM-DD so a plan does not
+// shift between time zones.
+
+export type MealSlot = 'breakfast' | 'lunch' | 'dinner'
+
+export const MEAL_SLOTS: { id: MealSlot; label: string }[] = [
+  { id: 'breakfast', label: 'Breakfast' },
+  { id: 'lunch', label: 'Lunch' },
+  { id: 'dinner', label: 'Dinner' }
+]
+
+export interface MealPlanRecipe {
+  id: string
+  title: string
+  servings: number | null
+  ingredients: unknown
+  nutrition: unknown
+}
+
+export interface MealPlanEntry {
+  id: string
+  owner_id: string
+  plan_date: string
+  slot: MealSlot
+  recipe_id: string
+  // How many servings to cook; used for shopping lists
+  servings: number
+  position: number
+  created_at: string
+  recipe: MealPlanRecipe | null
+}
+
+export const MEAL_PLAN_RECIPE_COLUMNS = 'id, title, servings, ingredients, nutrition'
+
+export const MEAL_PLAN_SELECT = `*, recipe:recipe_id (${MEAL_PLAN_RECIPE_COLUMNS})`
+
+export function toDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+export function fromDateKey(key: string): Date {
+  const [year, month, day] = key.split('-').map(Number)
+  return new Date(year, month - 1, day)
+}
+
+export function addDays(date: Date, days: number): Date {
+  const next = new Date(date.getFullYear(), date.getMonth(), date.getDate())
+  next.setDate(next.getDate() + days)
+  return next
+}
+
+// Weeks start on Monday
+export function startOfWeek(date: Date): Date {
+  return addDays(date, -((date.getDay() + 6) % 7))
+}
+
+export function weekDays(weekStart: Date): Date[] {
+  return Array.from({ length: 7 }, (_, i) => addDays(weekStart, i))
+}
+
+export function formatDayRange(from: Date, to: Date): string {
+  const options: Intl.DateTimeFormatOptions = { month: 'short', day: 'numeric' }
+  return `${from.toLocaleDateString(undefined, options)} – ${to.toLocaleDateString(undefined, options)}`
+}
+
+export interface DailyNutrition {
+  // One serving of every planned recipe that has an estimate
+  totals: NutrientValues
+  estimated: number
+  missing: number
+}
+
+export function dailyNutrition(entries: MealPlanEntry[]): DailyNutrition {
+  const totals = NUTRIENTS.reduce((values, { key }) => ({ ...values, [key]: 0 }), {} as NutrientValues)
+  let estimated = 0
+  let missing = 0
+
+  entries.forEach(entry => {
+    const nutrition = storedNutrition(entry.recipe?.nutrition)
+    if (!nutrition) {
+      missing += 1
+      return
+    }
+    estimated += 1
+    NUTRIENTS.forEach(({ key }) => { totals[key] += nutrition.per_serving[key] || 0 })
+  })
+
+  return { totals, estimated, missing }
+}
+
+// Planned recipes as shopping list entries; a recipe planned more than once
+// is listed once with the servings added together
+export function mealPlanShoppingEntries(entries: MealPlanEntry[]): { recipe: MealPlanRecipe; servings: number }[] {
+  const byRecipe = new Map<string, { recipe: MealPlanRecipe; servings: number }>()
+
+  entries.forEach(entry => {
+    if (!entry.recipe) return
+    const existing = byRecipe.get(entry.recipe.id)
+    if (existing) {
+      existing.servings += entry.servings
+    } else {
+      byRecipe.set(entry.recipe.id, { recipe: entry.recipe, servings: entry.servings })
+    }
+  })
+
+  return Array.from(byRecipe.values())
+}
+
+// Rows for the following week, keeping slots, servings and order
+export function shiftedEntries(entries: MealPlanEntry[], days: number) {
+  return entries.map(entry => ({
+    plan_date: toDateKey(addDays(fromDateKey(entry.plan_date), days)),
+    slot: entry.slot,
+    recipe_id: entry.recipe_id,
+    servings: entry.servings,
+    position: entry.position
+  }))
+}
@@ -0,0 +1,76 @@
+// Recipe photos and videos. `image_urls` holds the whole gallery in display
+// order and `image_url` / `media_type` the cover, which older views and
+// cards still read. `step_media` attaches one photo or video to an
+// instruction step by its index.
+
+export type MediaType = 'image' | 'video'
+
+export interface RecipeMedia {
+  url: string
+  type: MediaType
+}
+
+export interface StepMedia {
+  step: number
+  url: string
+  type: MediaType
+}
+
+const VIDEO_PATTERN = /\.(mp4|webm|ogg|mov|avi)(\?|#|$)/i
+
+export function mediaTypeOf(url: string): MediaType {
+  return VIDEO_PATTERN.test(url) ? 'video' : 'image'
+}
+
+// The gallery of a stored recipe, cover included even for rows saved
+// before galleries existed
+export function recipeGallery(recipe: any): RecipeMedia[] {
+  const urls: string[] = Array.isArray(recipe.image_urls)
+    ? recipe.image_urls.filter((url: unknown): url is string => typeof url === 'string' && url !== '')
+    : []
+  if (recipe.image_url && !urls.includes(recipe.image_url)) urls.unshift(recipe.image_url)
+
+  return urls.map(url => ({
+    url,
+    type: url === recipe.image_url && recipe.media_type ? recipe.media_type : mediaTypeOf(url)
+  }))
+}
+
+export function normalizeStepMedia(raw: unknown): StepMedia[] {
+  if (!Array.isArray(raw)) return []
+  const seen = new Set<number>()
+  return raw
+    .filter((entry): entry is StepMedia =>
+      !!entry && typeof entry.url === 'string' && entry.url !== '' && Number.isInteger(entry.step) && entry.step >= 0)
+    .filter(entry => !seen.has(entry.step) && !!seen.add(entry.step))
+    .map(entry => ({ step: entry.step, url: entry.url, type: entry.type === 'video' ? 'video' : 'image' }))
+    .sort((a, b) => a.step - b.step)
+}
+
+export function mediaForStep(stepMedia: StepMedia[], step: number): StepMedia | undefined {
+  return stepMedia.find(entry => entry.step === step)
+}
+
+// Keep step media on the right steps while the instructions are edited as
+// text. When steps are added or removed, media follows its step's text;
+// media whose step was rewritten stays at the same position.
+export function remapStepMedia(stepMedia: StepMedia[], previous: string[], next: string[]): StepMedia[] {
+  if (previous.length === next.length) return stepMedia
+
+  const taken = new Set<number>()
+  const followed: StepMedia[] = []
+  const stayed: StepMedia[] = []
+  stepMedia.forEach(entry => {
+    const text = previous[entry.step]
+    const index = next.findIndex((step, i) => step === text && !taken.has(i))
+    if (index >= 0) {
+      taken.add(index)
+      followed.push({ ...entry, step: index })
+    } else {
+      stayed.push(entry)
+    }
+  })
+
+  // Media that found its step wins if both land on the same one
+  return normalizeStepMedia([...followed, ...stayed].filter(entry => entry.step < next.length))
+}
@@ -0,0 +1,211 @@
+import { RecipeIngredient } from './ingredients'
+import { findDensity } from './densities'
+import { getUnit } from './units'
+import { FOODS, FOOD_DATASET_VERSION, FoodEntry, NutrientValues, getFood } from './foods'
+
+// Nutrition estimates from structured ingredients and the bundled food table.
+// The result is saved with the recipe in the `nutrition` JSONB column so
+// search can filter on it; `matches` holds the author's manual choices for
+// ingredients the automatic matching gets wrong or misses.
+
+export interface RecipeNutrition {
+  per_serving: NutrientValues
+  // Per 100 g of the raw ingredients; null when no weight could be worked out
+  per_100g: NutrientValues | null
+  total_weight: number
+  servings: number
+  // Normalized ingredient name -> food id, or EXCLUDED_FOOD
+  matches: Record<string, string>
+  unmatched: string[]
+  dataset: string
+}
+
+export type IngredientNutritionStatus = 'matched' | 'unmatched' | 'excluded' | 'no_amount' | 'no_weight'
+
+export interface IngredientNutrition {
+  index: number
+  key: string
+  food: FoodEntry | null
+  grams: number | null
+  status: IngredientNutritionStatus
+  manual: boolean
+}
+
+// Manual match meaning "leave this ingredient out" (water for boiling, oil for deep frying)
+export const EXCLUDED_FOOD = 'none'
+
+export const NUTRIENTS: { key: keyof NutrientValues; label: string; unit: string }[] = [
+  { key: 'calories', label: 'Calories', unit: 'kcal' },
+  { key: 'protein', label: 'Protein', unit: 'g' },
+  { key: 'carbs', label: 'Carbohydrates', unit: 'g' },
+  { key: 'fat', label: 'Fat', unit: 'g' },
+  { key: 'fibre', label: 'Fibre', unit: 'g' },
+  { key: 'sodium', label: 'Sodium', unit: 'mg' }
+]
+
+// Weights for count units when the food has no specific portion
+const DEFAULT_PORTIONS: Record<string, number> = {
+  pinch: 0.35,
+  dash: 0.6,
+  clove: 5,
+  can: 400,
+  slice: 30,
+  stick: 113,
+  bunch: 50,
+  sprig: 1,
+  handful: 30,
+  package: 250
+}
+
+const EMPTY_VALUES: NutrientValues = { calories: 0, protein: 0, carbs: 0, fat: 0, fibre: 0, sodium: 0 }
+
+const escapeRegex = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+const KEYWORD_PATTERNS = FOODS.flatMap(entry =>
+  entry.keywords.map(keyword => ({
+    food: entry,
+    length: keyword.length,
+    regex: new RegExp(`(?:^|[^a-z])${escapeRegex(keyword)}(?:e?s)?(?=$|[^a-z])`)
+  }))
+)
+
+export function ingredientKey(item: string): string {
+  return item.toLowerCase().replace(/\([^)]*\)/g, ' ').replace(/\s+/g, ' ').trim()
+}
+
+// Pick the food whose keyword best describes the ingredient name. A keyword
+// at the end of the name wins ("sesame oil" is an oil, "chicken stock" is a
+// stock), then the longest keyword ("brown sugar" over "sugar").
+export function matchFood(item: string): FoodEntry | null {
+  const name = ingredientKey(item)
+  let best: FoodEntry | null = null
+  let bestScore = 0
+
+  for (const pattern of KEYWORD_PATTERNS) {
+    const match = pattern.regex.exec(name)
+    if (!match) continue
+    const atEnd = match.index + match[0].length === name.length
+    const score = pattern.length + (atEnd ? 1000 : 0)
+    if (score > bestScore) {
+      bestScore = score
+      best = pattern.food
+    }
+  }
+
+  return best
+}
+
+// Weight in grams of an ingredient line, or null when its unit can't be
+// weighed for this food. Ranges use the midpoint.
+export function ingredientWeight(ingredient: RecipeIngredient, food: FoodEntry): number | null {
+  if (ingredient.quantity === null) return null
+  const quantity = ingredient.quantity_max !== null
+    ? (ingredient.quantity + ingredient.quantity_max) / 2
+    : ingredient.quantity
+
+  const unit = getUnit(ingredient.unit)
+  if (!ingredient.unit || unit?.key === 'piece') {
+    return food.each !== undefined ? quantity * food.each : null
+  }
+  if (!unit) return null
+
+  if (unit.kind === 'mass') return quantity * unit.toBase!
+  if (unit.kind === 'volume') {
+    const density = food.gramsPerMl ?? findDensity(ingredient.item) ?? 1
+    return quantity * unit.toBase! * density
+  }
+
+  const portion = food.portions?.[unit.key] ?? DEFAULT_PORTIONS[unit.key]
+  return portion !== undefined ? quantity * portion : null
+}
+
+export function analyseIngredients(
+  ingredients: RecipeIngredient[],
+  matches: Record<string, string> = {}
+): IngredientNutrition[] {
+  return ingredients.map((ingredient, index) => {
+    const key = ingredientKey(ingredient.item)
+    const manualId = matches[key]
+
+    if (manualId === EXCLUDED_FOOD) {
+      return { index, key, food: null, grams: null, status: 'excluded', manual: true }
+    }
+
+    const food = getFood(manualId) || matchFood(ingredient.item)
+    const manual = !!getFood(manualId)
+    if (!food) return { index, key, food: null, grams: null, status: 'unmatched', manual }
+    // "Salt to taste" and the like contribute nothing measurable
+    if (ingredient.quantity === null) return { index, key, food, grams: null, status: 'no_amount', manual }
+
+    const grams = ingredientWeight(ingredient, food)
+    return { index, key, food, grams, status: grams === null ? 'no_weight' : 'matched', manual }
+  })
+}
+
+const round = (value: number, digits = 1) => Math.round(value * 10 ** digits) / 10 ** digits
+
+function roundValues(values: NutrientValues): NutrientValues {
+  return {
+    calories: Math.round(values.calories),
+    protein: round(values.protein),
+    carbs: round(values.carbs),
+    fat: round(values.fat),
+    fibre: round(values.fibre),
+    sodium: Math.round(values.sodium)
+  }
+}
+
+function scaleValues(values: NutrientValues, factor: number): NutrientValues {
+  return NUTRIENTS.reduce((scaled, { key }) => ({ ...scaled, [key]: values[key] * factor }), { ...EMPTY_VALUES })
+}
+
+export function calculateNutrition(
+  ingredients: RecipeIngredient[],
+  servings: number,
+  matches: Record<string, string> = {}
+): RecipeNutrition {
+  const analysis = analyseIngredients(ingredients, matches)
+  const totals = { ...EMPTY_VALUES }
+  let totalWeight = 0
+
+  analysis.forEach(({ food, grams, status }) => {
+    if (status !== 'matched' || !food || grams === null) return
+    totalWeight += grams
+    NUTRIENTS.forEach(({ key }) => { totals[key] += food.per100g[key] * grams / 100 })
+  })
+
+  const portions = servings > 0 ? servings : 1
+  // Only keep choices for ingredients still in the recipe
+  const keys = new Set(analysis.map(entry => entry.key))
+
+  return {
+    per_serving: roundValues(scaleValues(totals, 1 / portions)),
+    per_100g: totalWeight > 0 ? roundValues(scaleValues(totals, 100 / totalWeight)) : null,
+    total_weight: Math.round(totalWeight),
+    servings: portions,
+    matches: Object.fromEntries(Object.entries(matches).filter(([key]) => keys.has(key))),
+    unmatched: analysis
+      .filter(entry => entry.status === 'unmatched' || entry.status === 'no_weight')
+      .map(entry => ingredients[entry.index].item),
+    dataset: FOOD_DATASET_VERSION
+  }
+}
+
+// Read the stored column, tolerating rows saved before nutrition existed
+export function storedNutrition(raw: unknown): RecipeNutrition | null {
+  if (!raw || typeof raw !== 'object') return null
+  const nutrition = raw as RecipeNutrition
+  return nutrition.per_serving ? { ...nutrition, matches: nutrition.matches || {}, unmatched: nutrition.unmatched || [] } : null
+}
+
+export function formatNutrient(value: number, key: keyof NutrientValues): string {
+  const unit = NUTRIENTS.find(nutrient => nutrient.key === key)?.unit || ''
+  const rounded = key === 'calories' || key === 'sodium' ? Math.round(value) : round(value)
+  return `${rounded.toLocaleString()} ${unit}`
+}
+
+export function isSameNutrition(a: RecipeNutrition | null, b: RecipeNutrition | null): boolean {
+  if (!a || !b) return a === b
+  return JSON.stringify([a.per_serving, a.per_100g, a.matches, a.unmatched]) ===
+    JSON.stringify([b.per_serving, b.per_100g, b.matches, b.unmatched])
+}
@@ -0,0 +1,106 @@
+import { normalizeIngredients } from './ingredients'
+import { shoppingKey } from './shopping'
+import { fromDateKey, toDateKey } from './mealPlans'
+
+// The user's pantry: ingredients on hand with an optional amount and expiry
+// date, and matching recipes against it by ingredient name.
+
+export interface PantryItem {
+  id: string
+  owner_id: string
+  name: string
+  quantity: number | null
+  unit: string | null
+  expires_on: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface PantryDraft {
+  name: string
+  quantity: number | null
+  unit: string | null
+  expires_on: string | null
+}
+
+export const EMPTY_PANTRY_DRAFT: PantryDraft = { name: '', quantity: null, unit: null, expires_on: null }
+
+// Kept in most kitchens; optionally counted as on hand without listing them.
+// Matched exactly so "pepper" does not cover "red pepper".
+export const PANTRY_BASICS = ['salt', 'pepper', 'black pepper', 'water', 'oil', 'vegetable oil', 'olive oil']
+
+const BASIC_KEYS = new Set(PANTRY_BASICS.map(shoppingKey))
+
+// Items expiring within this many days are shown as expiring soon
+export const EXPIRING_SOON_DAYS = 3
+
+const words = (key: string) => ` ${key} `
+
+// "flour" covers "plain flour", but "peanut butter" does not cover "butter";
+// matching whole words keeps "egg" from covering "eggplant"
+function covers(pantryKey: string, ingredientKey: string): boolean {
+  return words(ingredientKey).includes(words(pantryKey))
+}
+
+export function pantryKeys(items: Pick<PantryItem, 'name'>[]): string[] {
+  return Array.from(new Set(items.map(item => shoppingKey(item.name)).filter(Boolean)))
+}
+
+export interface PantryMatch {
+  have: string[]
+  missing: string[]
+  // Share of the recipe's ingredients already on hand, 0 to 1
+  coverage: number
+}
+
+export function matchPantry(ingredients: unknown, keys: string[], includeBasics = false): PantryMatch {
+  const have: string[] = []
+  const missing: string[] = []
+  const seen = new Set<string>()
+
+  normalizeIngredients(ingredients).forEach(ingredient => {
+    const key = shoppingKey(ingredient.item)
+    if (!key || seen.has(key)) return
+    seen.add(key)
+    if ((includeBasics && BASIC_KEYS.has(key)) || keys.some(pantryKey => covers(pantryKey, key))) {
+      have.push(ingredient.item)
+    } else {
+      missing.push(ingredient.item)
+    }
+  })
+
+  const total = have.length + missing.length
+  return { have, missing, coverage: total ? have.length / total : 0 }
+}
+
+// Recipes that use at least one pantry item, best covered first; ties go to
+// the recipe with fewer things to buy
+export function rankByPantry<T extends { ingredients: unknown }>(
+  recipes: T[],
+  keys: string[],
+  includeBasics = false
+): (T & { match: PantryMatch })[] {
+  return recipes
+    .map(recipe => ({ ...recipe, match: matchPantry(recipe.ingredients, keys, includeBasics) }))
+    .filter(recipe => recipe.match.have.some(item => !BASIC_KEYS.has(shoppingKey(item))))
+    .sort((a, b) => b.match.coverage - a.match.coverage || a.match.missing.length - b.match.missing.length)
+}
+
+// Whole days from today until the expiry date; negative once expired
+export function daysUntil(dateKey: string, today = new Date()): number {
+  return Math.round((fromDateKey(dateKey).getTime() - fromDateKey(toDateKey(today)).getTime()) / 86400000)
+}
+
+export function expiringSoon<T extends Pick<PantryItem, 'expires_on'>>(items: T[], days = EXPIRING_SOON_DAYS, today = new Date()): T[] {
+  return items
+    .filter(item => item.expires_on && daysUntil(item.expires_on, today) <= days)
+    .sort((a, b) => a.expires_on!.localeCompare(b.expires_on!))
+}
+
+export function expiryLabel(dateKey: string, today = new Date()): string {
+  const days = daysUntil(dateKey, today)
+  if (days < 0) return days === -1 ? 'Expired yesterday' : `Expired ${-days} days ago`
+  if (days === 0) return 'Expires today'
+  if (days === 1) return 'Expires tomorrow'
+  return `Expires in ${days} days`
+}
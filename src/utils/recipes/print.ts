@@ -0,0 +1,335 @@
+import { RecipeIngredient, formatIngredientAmount, formatQuantity, groupIngredients, normalizeIngredients } from './ingredients'
+import { unitLabel } from './units'
+import { normalizeInstructions } from './instructions'
+import { allergenLabel, cleanAllergens, cleanDietaryLabels, dietaryLabel } from './dietary'
+import { ShoppingList, formatShoppingAmount, groupShoppingItems } from './shopping'
+import { MiseEnPlaceItem, Station, TimelineTask, formatClock, stationLabel } from './timeline'
+import { formatDuration } from './timers'
+
+export interface PrintableRecipe {
+  title: string
+  author?: string
+  description?: string
+  servings: number
+  prep_time?: number
+  cook_time?: number
+  ingredients: RecipeIngredient[]
+  instructions: string[]
+  difficulty?: string
+  cuisine?: string
+  tags?: string[]
+  allergens?: string[]
+}
+
+// A stored recipe row as printed at its original size
+export function toPrintableRecipe(recipe: any): PrintableRecipe {
+  return {
+    title: recipe.title,
+    author: recipe.author,
+    description: recipe.description,
+    servings: recipe.servings || 1,
+    prep_time: recipe.prep_time,
+    cook_time: recipe.cook_time,
+    ingredients: normalizeIngredients(recipe.ingredients),
+    instructions: normalizeInstructions(recipe.instructions),
+    difficulty: recipe.difficulty,
+    cuisine: recipe.cuisine,
+    tags: [
+      ...cleanDietaryLabels(recipe.dietary_labels).map(dietaryLabel),
+      ...(Array.isArray(recipe.tags) ? recipe.tags : [])
+    ],
+    // Unconfirmed detections are printed too; a card should never look safer than the recipe
+    allergens: cleanAllergens([...(recipe.allergens || []), ...(recipe.detected_allergens || [])]).map(allergenLabel)
+  }
+}
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+function renderIngredients(ingredients: RecipeIngredient[]): string {
+  return groupIngredients(ingredients).map(group => `
+    ${group.group ? `<h3>${escapeHtml(group.group)}</h3>` : ''}
+    <table class="ingredients">
+      ${group.items.map(({ ingredient }) => `
+        <tr>
+          <td class="amount">${escapeHtml(formatIngredientAmount(ingredient))}</td>
+          <td>${escapeHtml(ingredient.item)}${ingredient.note ? `<span class="note">, ${escapeHtml(ingredient.note)}</span>` : ''}</td>
+        </tr>
+      `).join('')}
+    </table>
+  `).join('')
+}
+
+export interface PrintableCookbook {
+  title: string
+  description?: string
+  owner?: string
+  entries: { recipe: PrintableRecipe; note?: string }[]
+}
+
+const PRINT_STYLES = `
+    body { font-family: Georgia, 'Times New Roman', serif; color: #111; max-width: 760px; margin: 2rem auto; padding: 0 1.5rem; line-height: 1.5; }
+    h1 { margin-bottom: 0.25rem; }
+    h2 { border-bottom: 1px solid #ccc; padding-bottom: 0.25rem; margin-top: 1.75rem; }
+    h3 { margin: 1rem 0 0.25rem; font-size: 1rem; }
+    .meta { color: #555; font-size: 0.9rem; }
+    .ingredients { border-collapse: collapse; width: 100%; }
+    .ingredients td { padding: 0.2rem 0.5rem 0.2rem 0; vertical-align: top; }
+    .amount { white-space: nowrap; font-weight: bold; width: 8rem; }
+    .note { color: #555; }
+    .entry-note { border-left: 3px solid #ccc; padding-left: 0.75rem; color: #444; font-style: italic; }
+    .toc { list-style: none; padding: 0; }
+    .toc li { display: flex; gap: 0.5rem; padding: 0.25rem 0; border-bottom: 1px dotted #ccc; }
+    .toc a { color: inherit; text-decoration: none; }
+    .recipe-page { page-break-before: always; }
+    ol li { margin-bottom: 0.5rem; }
+    @media print { body { margin: 0; } }
+`
+
+// Standardized recipe card: fixed fact strip, tabular ingredients, method
+// and allergen notes, sized to fit an A4 page when saved as PDF.
+const CARD_STYLES = `
+    body { font-family: Helvetica, Arial, sans-serif; max-width: 720px; }
+    .card { border: 2px solid #111; padding: 1.25rem 1.5rem; }
+    .card h1 { margin: 0; font-size: 1.6rem; }
+    .card h2 { font-size: 1.05rem; text-transform: uppercase; letter-spacing: 0.05em; margin-top: 1.25rem; }
+    .facts, .card-ingredients { border-collapse: collapse; width: 100%; margin-top: 0.75rem; }
+    .facts th, .facts td, .card-ingredients th, .card-ingredients td { border: 1px solid #999; padding: 0.3rem 0.5rem; text-align: left; vertical-align: top; }
+    .facts th, .card-ingredients th { background: #f0f0f0; font-size: 0.75rem; text-transform: uppercase; }
+    .card-ingredients .qty { white-space: nowrap; width: 4.5rem; }
+    .card-ingredients .group td { background: #fafafa; font-weight: bold; }
+    .allergens { border: 1px solid #c33; background: #fff5f5; padding: 0.5rem 0.75rem; }
+    .card-footer { margin-top: 1.25rem; font-size: 0.75rem; color: #666; display: flex; justify-content: space-between; gap: 1rem; }
+    @page { size: A4; margin: 12mm; }
+`
+
+function renderDocument(title: string, body: string, extraStyles = ''): string {
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8" />
+  <title>${escapeHtml(title)}</title>
+  <style>${PRINT_STYLES}${extraStyles}</style>
+</head>
+<body>
+${body}
+</body>
+</html>`
+}
+
+function renderRecipe(recipe: PrintableRecipe, headingId?: string): string {
+  const totalTime = (recipe.prep_time || 0) + (recipe.cook_time || 0)
+
+  return `
+  <h1${headingId ? ` id="${headingId}"` : ''}>${escapeHtml(recipe.title)}</h1>
+  <p class="meta">
+    ${recipe.author ? `By ${escapeHtml(recipe.author)} &middot; ` : ''}Serves ${recipe.servings}
+    ${recipe.prep_time ? ` &middot; Prep ${recipe.prep_time} min` : ''}
+    ${recipe.cook_time ? ` &middot; Cook ${recipe.cook_time} min` : ''}
+    ${totalTime ? ` &middot; Total ${totalTime} min` : ''}
+  </p>
+  ${recipe.description ? `<p>${escapeHtml(recipe.description)}</p>` : ''}
+  <h2>Ingredients</h2>
+  ${renderIngredients(recipe.ingredients)}
+  <h2>Method</h2>
+  <ol>
+    ${recipe.instructions.map(step => `<li>${escapeHtml(step)}</li>`).join('')}
+  </ol>`
+}
+
+export function buildPrintableRecipeHtml(recipe: PrintableRecipe): string {
+  return renderDocument(recipe.title, renderRecipe(recipe))
+}
+
+const formatMinutes = (minutes?: number) => minutes ? `${minutes} min` : '&ndash;'
+
+export function buildRecipeCardHtml(recipe: PrintableRecipe): string {
+  const totalTime = (recipe.prep_time || 0) + (recipe.cook_time || 0)
+
+  const rows = groupIngredients(recipe.ingredients).map(group => `
+      ${group.group ? `<tr class="group"><td colspan="4">${escapeHtml(group.group)}</td></tr>` : ''}
+      ${group.items.map(({ ingredient }) => `
+      <tr>
+        <td class="qty">${ingredient.quantity_max !== null
+          ? `${formatQuantity(ingredient.quantity)}-${formatQuantity(ingredient.quantity_max)}`
+          : formatQuantity(ingredient.quantity)}</td>
+        <td>${escapeHtml(ingredient.unit ? unitLabel(ingredient.unit, ingredient.quantity_max ?? ingredient.quantity) : '')}</td>
+        <td>${escapeHtml(ingredient.item)}</td>
+        <td>${escapeHtml(ingredient.note)}</td>
+      </tr>`).join('')}`).join('')
+
+  const allergens = recipe.allergens?.length
+    ? `Contains: ${recipe.allergens.map(escapeHtml).join(', ')}.`
+    : 'No allergen information recorded. Check every ingredient label before serving.'
+
+  return renderDocument(recipe.title, `
+  <div class="card">
+    <h1>${escapeHtml(recipe.title)}</h1>
+    <p class="meta">${[recipe.author && `By ${escapeHtml(recipe.author)}`, recipe.cuisine && escapeHtml(recipe.cuisine)].filter(Boolean).join(' &middot; ')}</p>
+    <table class="facts">
+      <tr><th>Yield</th><th>Prep</th><th>Cook</th><th>Total</th><th>Difficulty</th></tr>
+      <tr>
+        <td>${recipe.servings} ${recipe.servings === 1 ? 'serving' : 'servings'}</td>
+        <td>${formatMinutes(recipe.prep_time)}</td>
+        <td>${formatMinutes(recipe.cook_time)}</td>
+        <td>${formatMinutes(totalTime)}</td>
+        <td>${recipe.difficulty ? escapeHtml(recipe.difficulty) : '&ndash;'}</td>
+      </tr>
+    </table>
+    ${recipe.description ? `<p>${escapeHtml(recipe.description)}</p>` : ''}
+    <h2>Ingredients</h2>
+    <table class="card-ingredients">
+      <thead><tr><th>Qty</th><th>Unit</th><th>Ingredient</th><th>Preparation</th></tr></thead>
+      <tbody>${rows}</tbody>
+    </table>
+    <h2>Method</h2>
+    <ol>
+      ${recipe.instructions.map(step => `<li>${escapeHtml(step)}</li>`).join('')}
+    </ol>
+    <h2>Allergen notes</h2>
+    <p class="allergens">${allergens}</p>
+    <div class="card-footer">
+      <span>${(recipe.tags || []).map(escapeHtml).join(', ')}</span>
+      <span>ACWhisk recipe card &middot; ${new Date().toLocaleDateString()}</span>
+    </div>
+  </div>`, CARD_STYLES)
+}
+
+// A title page with a table of contents, then one page per recipe
+export function buildCookbookHtml(cookbook: PrintableCookbook): string {
+  const contents = cookbook.entries.map(({ recipe }, index) => `
+    <li><span>${index + 1}.</span><a href="#recipe-${index + 1}">${escapeHtml(recipe.title)}</a></li>
+  `).join('')
+
+  const pages = cookbook.entries.map(({ recipe, note }, index) => `
+  <section class="recipe-page">
+    ${renderRecipe(recipe, `recipe-${index + 1}`)}
+    ${note ? `<p class="entry-note">${escapeHtml(note)}</p>` : ''}
+  </section>`).join('')
+
+  return renderDocument(cookbook.title, `
+  <h1>${escapeHtml(cookbook.title)}</h1>
+  ${cookbook.owner ? `<p class="meta">Compiled by ${escapeHtml(cookbook.owner)}</p>` : ''}
+  ${cookbook.description ? `<p>${escapeHtml(cookbook.description)}</p>` : ''}
+  <h2>Contents</h2>
+  <ol class="toc">${contents}</ol>
+  ${pages}`)
+}
+
+const SHOPPING_STYLES = `
+    .aisle { break-inside: avoid; }
+    .checklist { list-style: none; padding: 0; margin: 0; }
+    .checklist li { padding: 0.3rem 0; border-bottom: 1px dotted #ccc; display: flex; gap: 0.6rem; }
+    .box { display: inline-block; width: 0.9rem; height: 0.9rem; border: 1px solid #111; flex-shrink: 0; margin-top: 0.2rem; }
+    .done { color: #888; text-decoration: line-through; }
+    @media print { .shopping { columns: 2; column-gap: 2rem; } }
+`
+
+// Tick boxes grouped by aisle; items already checked off are struck through
+export function buildShoppingListHtml(list: Pick<ShoppingList, 'title' | 'items' | 'sources'>): string {
+  const aisles = groupShoppingItems(list.items).map(({ aisle, items }) => `
+    <section class="aisle">
+      <h3>${escapeHtml(aisle.label)}</h3>
+      <ul class="checklist">
+        ${items.map(item => {
+          const amount = formatShoppingAmount(item)
+          return `<li${item.checked ? ' class="done"' : ''}><span class="box"></span><span>${amount ? `<strong>${escapeHtml(amount)}</strong> ` : ''}${escapeHtml(item.name)}</span></li>`
+        }).join('')}
+      </ul>
+    </section>
+  `).join('')
+
+  return renderDocument(list.title, `
+  <h1>${escapeHtml(list.title)}</h1>
+  ${list.sources.length ? `<p class="meta">For ${list.sources.map(source => `${escapeHtml(source.title)} (${source.servings})`).join(', ')}</p>` : ''}
+  <div class="shopping">${aisles}</div>`, SHOPPING_STYLES)
+}
+
+export interface PrintableProductionPlan {
+  title: string
+  serveAt: Date
+  tasks: TimelineTask[]
+  miseEnPlace: { station: Station; items: MiseEnPlaceItem[] }[]
+}
+
+const PRODUCTION_STYLES = `
+    .schedule { border-collapse: collapse; width: 100%; font-size: 0.9rem; }
+    .schedule th, .schedule td { border-bottom: 1px solid #ccc; padding: 0.3rem 0.5rem 0.3rem 0; text-align: left; vertical-align: top; }
+    .schedule .time { white-space: nowrap; font-weight: bold; }
+    .schedule .passive td { color: #555; font-style: italic; }
+    .tag { font-size: 0.75rem; border: 1px solid #999; border-radius: 3px; padding: 0 0.25rem; margin-left: 0.25rem; font-style: normal; }
+    .station { break-inside: avoid; }
+`
+
+// Schedule in start order, then the mise en place checklist by station
+export function buildProductionPlanHtml(plan: PrintableProductionPlan): string {
+  const rows = plan.tasks.map(task => `
+      <tr${task.passive ? ' class="passive"' : ''}>
+        <td class="time">${escapeHtml(formatClock(task.start))}&ndash;${escapeHtml(formatClock(task.end))}</td>
+        <td>${escapeHtml(task.recipeTitle)}</td>
+        <td>${task.step + 1}. ${escapeHtml(task.text)}${task.passive ? '<span class="tag">hands-off</span>' : ''}${task.parallel ? '<span class="tag">in parallel</span>' : ''}</td>
+        <td>${escapeHtml(stationLabel(task.station))}</td>
+        <td>${task.estimated ? '~' : ''}${escapeHtml(formatDuration(task.seconds))}</td>
+      </tr>`).join('')
+
+  const stations = plan.miseEnPlace.map(({ station, items }) => `
+    <section class="station">
+      <h3>${escapeHtml(station.label)}</h3>
+      <ul class="checklist">
+        ${items.map(item => `<li><span class="box"></span><span>${escapeHtml(item.text)} <span class="note">(${escapeHtml(item.recipeTitle)})</span></span></li>`).join('')}
+      </ul>
+    </section>
+  `).join('')
+
+  return renderDocument(plan.title, `
+  <h1>${escapeHtml(plan.title)}</h1>
+  <p class="meta">Serve at ${escapeHtml(plan.serveAt.toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' }))}</p>
+  <h2>Mise en place</h2>
+  ${stations}
+  <h2>Timeline</h2>
+  <table class="schedule">
+    <thead><tr><th>Time</th><th>Recipe</th><th>Step</th><th>Station</th><th>Takes</th></tr></thead>
+    <tbody>${rows}</tbody>
+  </table>`, SHOPPING_STYLES + PRODUCTION_STYLES)
+}
+
+// Open the document in a new window and bring up the browser print dialog.
+function openPrintWindow(html: string): boolean {
+  const printWindow = window.open('', '_blank')
+  if (!printWindow) return false
+
+  printWindow.document.open()
+  printWindow.document.write(html)
+  printWindow.document.close()
+  printWindow.focus()
+  // Give the new document a moment to lay out before printing
+  setTimeout(() => printWindow.print(), 250)
+  return true
+}
+
+export function printRecipe(recipe: PrintableRecipe): boolean {
+  return openPrintWindow(buildPrintableRecipeHtml(recipe))
+}
+
+// Users pick "Save as PDF" in the print dialog to get the card as a PDF
+export function printRecipeCard(recipe: PrintableRecipe): boolean {
+  return openPrintWindow(buildRecipeCardHtml(recipe))
+}
+
+export function printCookbook(cookbook: PrintableCookbook): boolean {
+  return openPrintWindow(buildCookbookHtml(cookbook))
+}
+
+export function printShoppingList(list: Pick<ShoppingList, 'title' | 'items' | 'sources'>): boolean {
+  return openPrintWindow(buildShoppingListHtml(list))
+}
+
+export function printProductionPlan(plan: PrintableProductionPlan): boolean {
+  return openPrintWindow(buildProductionPlanHtml(plan))
+}
@@ -0,0 +1,55 @@
+import { dietaryLabel } from './dietary'
+
+// "For you" picks from the `recommend_recipes` database function, and the
+// sentence that explains each one.
+
+export type RecommendationReason = 'liked' | 'rated' | 'cooked' | 'tag' | 'diet' | 'popular'
+
+export interface RecipeRecommendation {
+  recipe_id: string
+  score: number
+  reason: RecommendationReason
+  // The liked, rated or cooked recipe behind the pick
+  reason_recipe_id: string | null
+  reason_recipe_title: string | null
+  reason_tag: string | null
+}
+
+export interface RecommendedRecipe {
+  recipe: any
+  recommendation: RecipeRecommendation
+}
+
+export const DEFAULT_RECOMMENDATION_LIMIT = 24
+
+export function toRecommendation(row: any): RecipeRecommendation {
+  return {
+    recipe_id: row.recipe_id,
+    score: Number(row.score) || 0,
+    reason: row.reason || 'popular',
+    reason_recipe_id: row.reason_recipe_id ?? null,
+    reason_recipe_title: row.reason_recipe_title ?? null,
+    reason_tag: row.reason_tag ?? null
+  }
+}
+
+// "Because you liked Shakshuka"; diet picks name the user's diets
+export function recommendationReasonText(recommendation: RecipeRecommendation, dietaryPreferences: string[] = []): string {
+  const title = recommendation.reason_recipe_title
+  switch (recommendation.reason) {
+    case 'liked':
+      return title ? `Because you liked ${title}` : 'Similar to recipes you liked'
+    case 'rated':
+      return title ? `Because you rated ${title} highly` : 'Similar to recipes you rated highly'
+    case 'cooked':
+      return title ? `Because you cooked ${title}` : 'Similar to recipes you cooked'
+    case 'tag':
+      return recommendation.reason_tag ? `Because you enjoy ${recommendation.reason_tag} recipes` : 'Matches your tastes'
+    case 'diet':
+      return dietaryPreferences.length > 0
+        ? `Fits your diet: ${dietaryPreferences.map(dietaryLabel).join(', ')}`
+        : 'Fits your diet'
+    default:
+      return 'Popular in the community'
+  }
+}
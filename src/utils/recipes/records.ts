@@ -0,0 +1,31 @@
+// Shapes recipe rows from the REST API into the objects the recipe views use.
+
+// Like and rating counts come from counter columns on the recipe row
+export const RECIPE_SELECT = `
+  *,
+  profiles:author_id (name, avatar_url)
+`
+
+// Databases set up before the counter columns still need the child rows
+export const LEGACY_RECIPE_SELECT = `
+  *,
+  profiles:author_id (name, avatar_url),
+  recipe_likes (id),
+  recipe_ratings (rating)
+`
+
+export function enrichRecipe(recipe: any) {
+  const ratings = recipe.recipe_ratings
+  return {
+    ...recipe,
+    author: recipe.profiles?.name || 'Unknown Chef',
+    author_avatar: recipe.profiles?.avatar_url,
+    likes_count: recipe.like_count ?? recipe.recipe_likes?.length ?? 0,
+    rating_count: recipe.rating_count ?? ratings?.length ?? 0,
+    average_rating: recipe.average_rating !== undefined
+      ? Number(recipe.average_rating)
+      : ratings?.length > 0
+        ? ratings.reduce((sum: number, r: any) => sum + r.rating, 0) / ratings.length
+        : 0
+  }
+}
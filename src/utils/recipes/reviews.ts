@@ -0,0 +1,69 @@
+// Recipe reviews: a rating with optional text and photo, helpful votes from
+// other users and one response from the recipe author.
+
+export interface ReviewResponse {
+  rating_id: string
+  author_id: string
+  body: string
+  created_at: string
+  updated_at: string
+}
+
+export interface Review {
+  id: string
+  recipe_id: string
+  user_id: string
+  rating: number
+  review: string | null
+  photo_url: string | null
+  created_at: string
+  updated_at: string
+  profiles?: { name: string; avatar_url: string | null } | null
+  helpful_count: number
+  response: ReviewResponse | null
+}
+
+export type ReviewSort = 'helpful' | 'newest' | 'highest' | 'lowest'
+
+export const REVIEW_SORT_LABELS: Record<ReviewSort, string> = {
+  helpful: 'Most helpful',
+  newest: 'Newest',
+  highest: 'Highest rated',
+  lowest: 'Lowest rated'
+}
+
+export const REVIEW_SELECT = '*, profiles (name, avatar_url), review_votes (count), review_responses (*)'
+
+// Rows from REVIEW_SELECT. The vote count arrives as [{ count }], and the
+// one-to-one response as an object or a one-item array depending on how
+// PostgREST reads the relationship.
+export function toReview(row: any): Review {
+  const { review_votes, review_responses, ...rest } = row
+  const response = Array.isArray(review_responses) ? review_responses[0] : review_responses
+  return {
+    ...rest,
+    photo_url: rest.photo_url ?? null,
+    helpful_count: Array.isArray(review_votes) ? review_votes[0]?.count ?? 0 : 0,
+    response: response || null
+  }
+}
+
+const newestFirst = (a: Review, b: Review) => b.created_at.localeCompare(a.created_at)
+
+export function sortReviews(reviews: Review[], sort: ReviewSort): Review[] {
+  const compare: Record<ReviewSort, (a: Review, b: Review) => number> = {
+    helpful: (a, b) => b.helpful_count - a.helpful_count || newestFirst(a, b),
+    newest: newestFirst,
+    highest: (a, b) => b.rating - a.rating || newestFirst(a, b),
+    lowest: (a, b) => a.rating - b.rating || newestFirst(a, b)
+  }
+  return [...reviews].sort(compare[sort])
+}
+
+// Number of reviews at each star value, five stars first
+export function ratingDistribution(reviews: Pick<Review, 'rating'>[]): { stars: number; count: number; percent: number }[] {
+  return [5, 4, 3, 2, 1].map(stars => {
+    const count = reviews.filter(review => review.rating === stars).length
+    return { stars, count, percent: reviews.length ? (count / reviews.length) * 100 : 0 }
+  })
+}
@@ -0,0 +1,120 @@
+import { formatIngredient, normalizeIngredients } from './ingredients'
+import { normalizeInstructions } from './instructions'
+
+// Snapshots of a recipe's content written by the `record_recipe_revision`
+// trigger, and helpers to compare two of them.
+
+export interface RecipeRevision {
+  id: string
+  recipe_id: string
+  revision_number: number
+  editor_id: string | null
+  snapshot: Record<string, any>
+  restored_from: number | null
+  created_at: string
+  profiles?: { name: string; avatar_url: string | null } | null
+}
+
+export type DiffKind = 'same' | 'added' | 'removed' | 'changed'
+
+// One row of a side-by-side diff; `before` is empty for additions and
+// `after` is empty for removals
+export interface DiffRow {
+  kind: DiffKind
+  before: string | null
+  after: string | null
+}
+
+export interface FieldChange {
+  field: string
+  label: string
+  before: string
+  after: string
+}
+
+const COMPARED_FIELDS: { field: string; label: string }[] = [
+  { field: 'title', label: 'Title' },
+  { field: 'description', label: 'Description' },
+  { field: 'prep_time', label: 'Prep time' },
+  { field: 'cook_time', label: 'Cook time' },
+  { field: 'servings', label: 'Servings' },
+  { field: 'difficulty', label: 'Difficulty' },
+  { field: 'cuisine', label: 'Cuisine' },
+  { field: 'tags', label: 'Tags' },
+  { field: 'image_url', label: 'Image' }
+]
+
+function fieldText(value: unknown): string {
+  if (value === null || value === undefined) return ''
+  if (Array.isArray(value)) return value.join(', ')
+  return String(value)
+}
+
+export function ingredientLines(snapshot: Record<string, any>): string[] {
+  return normalizeIngredients(snapshot.ingredients).map(ingredient =>
+    ingredient.group ? `${ingredient.group}: ${formatIngredient(ingredient)}` : formatIngredient(ingredient)
+  )
+}
+
+export function instructionLines(snapshot: Record<string, any>): string[] {
+  return normalizeInstructions(snapshot.instructions)
+}
+
+export function diffFields(before: Record<string, any>, after: Record<string, any>): FieldChange[] {
+  return COMPARED_FIELDS
+    .map(({ field, label }) => ({ field, label, before: fieldText(before[field]), after: fieldText(after[field]) }))
+    .filter(change => change.before !== change.after)
+}
+
+// Line diff via longest common subsequence. Runs of removals followed by
+// additions are paired into changed rows so edits line up side by side.
+export function diffLines(before: string[], after: string[]): DiffRow[] {
+  const lengths: number[][] = Array.from({ length: before.length + 1 }, () => new Array(after.length + 1).fill(0))
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lengths[i][j] = before[i] === after[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1])
+    }
+  }
+
+  const rows: DiffRow[] = []
+  let i = 0
+  let j = 0
+  while (i < before.length || j < after.length) {
+    if (i < before.length && j < after.length && before[i] === after[j]) {
+      rows.push({ kind: 'same', before: before[i++], after: after[j++] })
+    } else if (j < after.length && (i === before.length || lengths[i][j + 1] > lengths[i + 1][j])) {
+      rows.push({ kind: 'added', before: null, after: after[j++] })
+    } else {
+      rows.push({ kind: 'removed', before: before[i++], after: null })
+    }
+  }
+
+  const merged: DiffRow[] = []
+  let index = 0
+  while (index < rows.length) {
+    if (rows[index].kind !== 'removed') {
+      merged.push(rows[index++])
+      continue
+    }
+
+    const removed: DiffRow[] = []
+    const added: DiffRow[] = []
+    while (index < rows.length && rows[index].kind === 'removed') removed.push(rows[index++])
+    while (index < rows.length && rows[index].kind === 'added') added.push(rows[index++])
+
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      if (k < removed.length && k < added.length) {
+        merged.push({ kind: 'changed', before: removed[k].before, after: added[k].after })
+      } else {
+        merged.push(removed[k] || added[k])
+      }
+    }
+  }
+  return merged
+}
+
+export function hasChanges(rows: DiffRow[]): boolean {
+  return rows.some(row => row.kind !== 'same')
+}
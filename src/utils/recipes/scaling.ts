@@ -0,0 +1,120 @@
+import { RecipeIngredient } from './ingredients'
+import { findDensity } from './densities'
+import { UNITS, getUnit } from './units'
+
+export type MeasurementSystem = 'original' | 'metric' | 'imperial'
+
+export interface ScaleOptions {
+  factor: number
+  system: MeasurementSystem
+  // Convert volume measures to weight where the density is known
+  preferWeight: boolean
+}
+
+// Multiply an ingredient's amount and express it in the requested system.
+// Ingredients without a quantity ("salt to taste") pass through unchanged.
+export function scaleIngredient(ingredient: RecipeIngredient, options: ScaleOptions): RecipeIngredient {
+  if (ingredient.quantity === null) return ingredient
+  if (options.factor === 1 && options.system === 'original' && !options.preferWeight) return ingredient
+
+  const scaled: RecipeIngredient = {
+    ...ingredient,
+    quantity: ingredient.quantity * options.factor,
+    quantity_max: ingredient.quantity_max !== null ? ingredient.quantity_max * options.factor : null
+  }
+
+  const converted = convertIngredient(scaled, options)
+  return roundIngredient(converted)
+}
+
+export function scaleIngredients(ingredients: RecipeIngredient[], options: ScaleOptions): RecipeIngredient[] {
+  return ingredients.map(ingredient => scaleIngredient(ingredient, options))
+}
+
+function convertIngredient(ingredient: RecipeIngredient, options: ScaleOptions): RecipeIngredient {
+  const unit = getUnit(ingredient.unit)
+  if (!unit || unit.toBase === null || (options.system === 'original' && !options.preferWeight)) {
+    return ingredient
+  }
+
+  let kind = unit.kind
+  let baseFactor = unit.toBase
+
+  if (options.preferWeight && kind === 'volume') {
+    const density = findDensity(ingredient.item)
+    if (density !== null) {
+      kind = 'mass'
+      baseFactor = unit.toBase * density
+    }
+  }
+
+  const system = options.system === 'original'
+    ? (unit.system === 'metric' ? 'metric' : 'imperial')
+    : options.system
+
+  // Small spoon measures are used in both systems, so leave them alone
+  // unless they are being turned into a weight.
+  if (kind === 'volume' && (unit.key === 'tsp' || unit.key === 'tbsp') && system === 'metric') {
+    return ingredient
+  }
+
+  const baseAmount = (ingredient.quantity as number) * baseFactor
+  const target = pickUnit(kind as 'volume' | 'mass', system, baseAmount)
+  if (target === unit.key && kind === unit.kind) return ingredient
+
+  const targetFactor = UNITS[target].toBase as number
+  return {
+    ...ingredient,
+    unit: target,
+    quantity: baseAmount / targetFactor,
+    quantity_max: ingredient.quantity_max !== null ? ingredient.quantity_max * baseFactor / targetFactor : null
+  }
+}
+
+// Choose the most readable unit for an amount in millilitres or grams.
+export function pickUnit(kind: 'volume' | 'mass', system: 'metric' | 'imperial', baseAmount: number): string {
+  if (kind === 'mass') {
+    if (system === 'metric') return baseAmount >= 1000 ? 'kg' : 'g'
+    return baseAmount >= (UNITS.lb.toBase as number) ? 'lb' : 'oz'
+  }
+
+  // Allow a little slack so 3 tsp becomes 1 tbsp despite rounding error
+  if (system === 'metric') return baseAmount >= 1000 ? 'l' : 'ml'
+  if (baseAmount < (UNITS.tbsp.toBase as number) * 0.98) return 'tsp'
+  if (baseAmount < (UNITS.cup.toBase as number) / 4 * 0.98) return 'tbsp'
+  return 'cup'
+}
+
+// Round to amounts that can actually be measured: eighths for cups and
+// spoons, whole grams or millilitres for metric, halves for counted items.
+export function roundQuantity(value: number, unitKey: string | null): number {
+  const unit = getUnit(unitKey)
+
+  if (!unit || unit.kind === 'count') {
+    return value < 1 ? roundTo(value, 1 / 8) : roundTo(value, value < 10 ? 1 / 4 : 1 / 2)
+  }
+
+  if (unit.system === 'metric') {
+    if (unit.key === 'kg' || unit.key === 'l') return roundTo(value, 0.05)
+    if (value < 10) return roundTo(value, 0.5)
+    if (value < 100) return Math.round(value)
+    if (value < 1000) return roundTo(value, 5)
+    return roundTo(value, 10)
+  }
+
+  if (value < 1 / 8) return parseFloat(value.toFixed(2))
+  return roundTo(value, unit.key === 'oz' || unit.key === 'lb' ? 1 / 4 : 1 / 8)
+}
+
+function roundIngredient(ingredient: RecipeIngredient): RecipeIngredient {
+  return {
+    ...ingredient,
+    quantity: ingredient.quantity !== null ? roundQuantity(ingredient.quantity, ingredient.unit) : null,
+    quantity_max: ingredient.quantity_max !== null ? roundQuantity(ingredient.quantity_max, ingredient.unit) : null
+  }
+}
+
+function roundTo(value: number, step: number): number {
+  const rounded = Math.round(value / step) * step
+  return rounded === 0 ? step : parseFloat(rounded.toFixed(4))
+}
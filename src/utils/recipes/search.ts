@@ -0,0 +1,159 @@
+// Filter state for the recipe browser and its mapping onto the
+// `search_recipes` / `recipe_search_facets` database functions.
+
+export type TimeBucket = 'under_30' | '30_60' | '60_120' | 'over_120'
+
+export type RecipeSort = 'relevance' | 'newest' | 'top_rated' | 'popular'
+
+export interface RecipeSearchFilters {
+  query: string
+  difficulties: string[]
+  time: TimeBucket | null
+  tags: string[]
+  authorRoles: string[]
+  minRating: number | null
+  // Per serving, from the stored nutrition estimate
+  maxCalories: number | null
+  minProtein: number | null
+  // Allergen ids to leave out and dietary labels every result must carry
+  excludedAllergens: string[]
+  dietaryLabels: string[]
+  sort: RecipeSort
+}
+
+export interface RecipeSearchFacets {
+  total: number
+  difficulty: Record<string, number>
+  time: Record<TimeBucket, number>
+  tags: Record<string, number>
+  author_role: Record<string, number>
+  rating: Record<string, number>
+  calories?: Record<string, number>
+  protein?: Record<string, number>
+  dietary?: Record<string, number>
+}
+
+export const EMPTY_SEARCH_FILTERS: RecipeSearchFilters = {
+  query: '',
+  difficulties: [],
+  time: null,
+  tags: [],
+  authorRoles: [],
+  minRating: null,
+  maxCalories: null,
+  minProtein: null,
+  excludedAllergens: [],
+  dietaryLabels: [],
+  sort: 'newest'
+}
+
+export const RECIPE_PAGE_SIZE = 24
+
+export const DIFFICULTY_OPTIONS = [
+  { value: 'easy', label: 'Easy' },
+  { value: 'medium', label: 'Medium' },
+  { value: 'hard', label: 'Hard' },
+  { value: 'expert', label: 'Expert' }
+]
+
+export const TIME_BUCKETS: { value: TimeBucket; label: string; min: number | null; max: number | null }[] = [
+  { value: 'under_30', label: 'Under 30 min', min: null, max: 30 },
+  { value: '30_60', label: '30–60 min', min: 30, max: 60 },
+  { value: '60_120', label: '1–2 hours', min: 60, max: 120 },
+  { value: 'over_120', label: 'Over 2 hours', min: 120, max: null }
+]
+
+export const AUTHOR_ROLE_OPTIONS = [
+  { value: 'student', label: 'Students' },
+  { value: 'instructor', label: 'Instructors' },
+  { value: 'admin', label: 'Admins' }
+]
+
+export const RATING_OPTIONS = [4, 3, 2]
+
+export const CALORIE_OPTIONS = [300, 500, 800]
+
+export const PROTEIN_OPTIONS = [15, 30]
+
+export const SORT_OPTIONS: { value: RecipeSort; label: string }[] = [
+  { value: 'relevance', label: 'Best match' },
+  { value: 'newest', label: 'Newest' },
+  { value: 'top_rated', label: 'Top rated' },
+  { value: 'popular', label: 'Most liked' }
+]
+
+// Relevance only means something when there is a query to rank against
+export function effectiveSort(filters: RecipeSearchFilters): RecipeSort {
+  return filters.sort === 'relevance' && !filters.query.trim() ? 'newest' : filters.sort
+}
+
+// Arguments shared by both database functions
+export function toSearchArgs(filters: RecipeSearchFilters) {
+  const bucket = TIME_BUCKETS.find(option => option.value === filters.time)
+  return {
+    search_query: filters.query.trim() || null,
+    difficulties: filters.difficulties.length > 0 ? filters.difficulties : null,
+    min_total_time: bucket?.min ?? null,
+    max_total_time: bucket?.max ?? null,
+    required_tags: filters.tags.length > 0 ? filters.tags : null,
+    author_roles: filters.authorRoles.length > 0 ? filters.authorRoles : null,
+    min_rating: filters.minRating,
+    max_calories: filters.maxCalories,
+    min_protein: filters.minProtein,
+    excluded_allergens: filters.excludedAllergens.length > 0 ? filters.excludedAllergens : null,
+    required_labels: filters.dietaryLabels.length > 0 ? filters.dietaryLabels : null
+  }
+}
+
+// Where the next page of `search_recipes` starts: the last loaded row's sort
+// key, created_at and id
+export interface SearchCursor {
+  key: number
+  created_at: string
+  id: string
+}
+
+// Sort key of a loaded row, matching the database function. Relevance depends
+// on the query and comes from `recipe_search_rank` instead.
+export function rowSortKey(recipe: any, sort: Exclude<RecipeSort, 'relevance'>): number {
+  switch (sort) {
+    case 'newest':
+      return new Date(recipe.published_at || recipe.created_at).getTime()
+    case 'top_rated':
+      return Number(recipe.average_rating) || 0
+    case 'popular':
+      return recipe.like_count ?? 0
+  }
+}
+
+// Arguments for one page of `search_recipes`, continuing after the cursor
+export function toPageArgs(filters: RecipeSearchFilters, cursor: SearchCursor | null = null) {
+  return {
+    ...toSearchArgs(filters),
+    sort_by: effectiveSort(filters),
+    after_key: cursor?.key ?? null,
+    after_created_at: cursor?.created_at ?? null,
+    after_id: cursor?.id ?? null,
+    result_limit: RECIPE_PAGE_SIZE
+  }
+}
+
+export function countActiveFilters(filters: RecipeSearchFilters): number {
+  return filters.difficulties.length +
+    filters.tags.length +
+    filters.authorRoles.length +
+    filters.excludedAllergens.length +
+    filters.dietaryLabels.length +
+    (filters.time ? 1 : 0) +
+    (filters.minRating ? 1 : 0) +
+    (filters.maxCalories ? 1 : 0) +
+    (filters.minProtein ? 1 : 0)
+}
+
+export function hasActiveSearch(filters: RecipeSearchFilters): boolean {
+  return filters.query.trim() !== '' || countActiveFilters(filters) > 0
+}
+
+export function toggleValue<T>(values: T[], value: T): T[] {
+  return values.includes(value) ? values.filter(v => v !== value) : [...values, value]
+}
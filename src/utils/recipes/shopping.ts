@@ -0,0 +1,324 @@
+import { RecipeIngredient, formatIngredientAmount, normalizeIngredients, parseIngredientLine } from './ingredients'
+import { ingredientKey } from './nutrition'
+import { findDensity } from './densities'
+import { pickUnit, roundQuantity } from './scaling'
+import { getUnit } from './units'
+
+// Shopping lists: the ingredients of several recipes, each at its own
+// number of servings, merged into one list grouped by store aisle. Lists
+// are saved with their checked items so they follow the user between
+// devices.
+
+export type AisleId =
+  | 'produce' | 'meat_seafood' | 'dairy_eggs' | 'bakery' | 'pantry'
+  | 'spices' | 'frozen' | 'drinks' | 'other'
+
+export interface AisleDefinition {
+  id: AisleId
+  label: string
+  keywords: string[]
+}
+
+export interface ShoppingSource {
+  recipe_id: string
+  title: string
+  servings: number
+}
+
+export interface ShoppingAmount {
+  quantity: number
+  unit: string | null
+}
+
+export interface ShoppingItem {
+  key: string
+  name: string
+  // One amount per kind of measure that could not be combined, e.g. a
+  // weight and a count of the same ingredient
+  amounts: ShoppingAmount[]
+  aisle: AisleId
+  // Titles of the recipes that need it
+  recipes: string[]
+  checked: boolean
+  // Added by hand rather than from a recipe
+  custom?: boolean
+}
+
+export interface ShoppingList {
+  id: string
+  owner_id: string
+  title: string
+  sources: ShoppingSource[]
+  items: ShoppingItem[]
+  created_at: string
+  updated_at: string
+}
+
+export type ShoppingSystem = 'metric' | 'imperial'
+
+// In store order. Checked in a single pass where a keyword at the end of the
+// name wins ("chicken stock" is pantry, "chicken" is meat), then the longest.
+export const AISLES: AisleDefinition[] = [
+  {
+    id: 'produce',
+    label: 'Fruit & vegetables',
+    keywords: [
+      'onion', 'shallot', 'garlic', 'ginger', 'potato', 'sweet potato', 'carrot', 'celery', 'leek', 'tomato', 'cherry tomato',
+      'pepper', 'bell pepper', 'chilli', 'chili', 'jalapeno', 'cucumber', 'courgette', 'zucchini', 'aubergine', 'eggplant',
+      'mushroom', 'spinach', 'kale', 'lettuce', 'cabbage', 'broccoli', 'cauliflower', 'pea', 'green bean', 'asparagus',
+      'corn', 'squash', 'pumpkin', 'beetroot', 'radish', 'fennel', 'avocado', 'lemon', 'lime', 'orange', 'apple', 'pear',
+      'banana', 'berry', 'strawberry', 'blueberry', 'raspberry', 'grape', 'mango', 'pineapple', 'peach', 'plum', 'cherry',
+      'spring onion', 'scallion', 'herb', 'parsley', 'coriander', 'cilantro', 'basil', 'mint', 'dill', 'chive', 'thyme',
+      'rosemary', 'sage', 'lemongrass', 'bok choy', 'rocket', 'arugula', 'watercress', 'sprout'
+    ]
+  },
+  {
+    id: 'meat_seafood',
+    label: 'Meat & seafood',
+    keywords: [
+      'chicken', 'chicken breast', 'chicken thigh', 'beef', 'steak', 'mince', 'ground beef', 'pork', 'bacon', 'ham',
+      'sausage', 'lamb', 'veal', 'turkey', 'duck', 'chorizo', 'pancetta', 'prosciutto', 'salami', 'fish', 'salmon',
+      'tuna steak', 'cod', 'haddock', 'trout', 'mackerel', 'sea bass', 'prawn', 'shrimp', 'crab', 'lobster', 'mussel',
+      'clam', 'oyster', 'scallop', 'squid', 'octopus', 'anchovy fillet'
+    ]
+  },
+  {
+    id: 'dairy_eggs',
+    label: 'Dairy & eggs',
+    keywords: [
+      'milk', 'whole milk', 'butter', 'unsalted butter', 'cream', 'double cream', 'heavy cream', 'single cream',
+      'sour cream', 'creme fraiche', 'yoghurt', 'yogurt', 'cheese', 'cheddar', 'parmesan', 'mozzarella', 'feta',
+      'ricotta', 'mascarpone', 'cream cheese', 'goat cheese', 'halloumi', 'egg', 'egg yolk', 'egg white', 'buttermilk'
+    ]
+  },
+  {
+    id: 'bakery',
+    label: 'Bakery',
+    keywords: ['bread', 'baguette', 'brioche', 'sourdough', 'roll', 'bun', 'pita', 'pitta', 'tortilla', 'wrap', 'naan', 'croissant']
+  },
+  {
+    id: 'pantry',
+    label: 'Pantry',
+    keywords: [
+      'flour', 'sugar', 'brown sugar', 'icing sugar', 'caster sugar', 'baking powder', 'baking soda', 'bicarbonate of soda',
+      'yeast', 'rice', 'pasta', 'spaghetti', 'penne', 'noodle', 'couscous', 'quinoa', 'oat', 'lentil', 'chickpea', 'bean',
+      'kidney bean', 'black bean', 'oil', 'olive oil', 'vinegar', 'stock', 'broth', 'stock cube', 'soy sauce', 'fish sauce',
+      'worcestershire sauce', 'sauce', 'ketchup', 'mayonnaise', 'mustard', 'honey', 'maple syrup', 'syrup', 'jam',
+      'peanut butter', 'tahini', 'coconut milk', 'tomato paste', 'tomato puree', 'passata', 'chopped tomato', 'canned tomato',
+      'tinned tomato', 'tuna', 'anchovy', 'olive', 'caper', 'nut', 'almond', 'walnut', 'cashew', 'peanut', 'pine nut',
+      'seed', 'sesame seed', 'raisin', 'sultana', 'chocolate', 'cocoa', 'vanilla', 'vanilla extract', 'cornstarch',
+      'cornflour', 'gelatine', 'breadcrumb', 'panko', 'cracker', 'biscuit', 'cereal', 'dried fruit', 'cornmeal', 'polenta'
+    ]
+  },
+  {
+    id: 'spices',
+    label: 'Herbs & spices',
+    keywords: [
+      'salt', 'sea salt', 'black pepper', 'peppercorn', 'cumin', 'paprika', 'smoked paprika', 'turmeric', 'cinnamon',
+      'nutmeg', 'clove', 'cardamom', 'coriander seed', 'chilli flake', 'chili powder', 'chilli powder', 'cayenne',
+      'curry powder', 'garam masala', 'oregano', 'dried thyme', 'dried oregano', 'dried basil', 'bay leaf', 'allspice',
+      'star anise', 'fennel seed', 'mustard seed', 'saffron', 'five spice', 'spice', 'seasoning', 'salt and pepper'
+    ]
+  },
+  {
+    id: 'frozen',
+    label: 'Frozen',
+    keywords: ['frozen', 'frozen pea', 'ice cream', 'puff pastry', 'filo', 'phyllo', 'pastry']
+  },
+  {
+    id: 'drinks',
+    label: 'Drinks',
+    keywords: ['wine', 'red wine', 'white wine', 'beer', 'cider', 'juice', 'orange juice', 'coffee', 'tea', 'water', 'sparkling water', 'rum', 'brandy', 'vodka']
+  },
+  { id: 'other', label: 'Other', keywords: [] }
+]
+
+const escapeRegex = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+const AISLE_PATTERNS = AISLES.flatMap(aisle => aisle.keywords.map(keyword => ({
+  aisle: aisle.id,
+  length: keyword.length,
+  regex: new RegExp(`(?:^|[^a-z])${escapeRegex(keyword)}(?:e?s)?(?=$|[^a-z])`)
+})))
+
+export function aisleFor(item: string): AisleId {
+  const name = ingredientKey(item)
+  let best: AisleId = 'other'
+  let bestScore = 0
+
+  for (const pattern of AISLE_PATTERNS) {
+    const match = pattern.regex.exec(name)
+    if (!match) continue
+    const atEnd = match.index + match[0].length === name.length
+    const score = pattern.length + (atEnd ? 1000 : 0)
+    if (score > bestScore) {
+      bestScore = score
+      best = pattern.aisle
+    }
+  }
+
+  return best
+}
+
+export function aisleLabel(id: AisleId): string {
+  return AISLES.find(aisle => aisle.id === id)?.label || 'Other'
+}
+
+// Words that describe how an ingredient is prepared or sized rather than
+// what to buy, so "2 large eggs" and "1 egg" land on the same line
+const DESCRIPTORS = new Set([
+  'fresh', 'large', 'small', 'medium', 'extra', 'ripe', 'chopped', 'diced', 'minced', 'sliced', 'grated',
+  'finely', 'roughly', 'thinly', 'peeled', 'crushed', 'softened', 'melted', 'beaten', 'whole', 'good', 'quality'
+])
+
+function singular(word: string): string {
+  if (/ies$/.test(word) && word.length > 4) return word.slice(0, -3) + 'y'
+  if (/(?:ch|sh|x|ss|o)es$/.test(word)) return word.slice(0, -2)
+  if (/[^s]s$/.test(word) && word.length > 3) return word.slice(0, -1)
+  return word
+}
+
+export function shoppingKey(item: string): string {
+  const words = ingredientKey(item)
+    .replace(/[^a-zà-ÿ\s-]/g, ' ')
+    .split(/\s+/)
+    .filter(word => word && !DESCRIPTORS.has(word))
+  if (words.length === 0) return ingredientKey(item)
+  words[words.length - 1] = singular(words[words.length - 1])
+  return words.join(' ')
+}
+
+interface Tally {
+  name: string
+  grams: number
+  millilitres: number
+  counts: Map<string, number>
+  recipes: Set<string>
+}
+
+// Counted units that are the same thing bought whole
+const countUnit = (unit: string | null) => !unit || unit === 'piece' ? '' : unit
+
+function toAmounts(tally: Tally, system: ShoppingSystem): ShoppingAmount[] {
+  const amounts: ShoppingAmount[] = []
+  let { grams, millilitres } = tally
+
+  // Weigh volume measures where the density is known so they merge
+  if (grams > 0 && millilitres > 0) {
+    const density = findDensity(tally.name)
+    if (density !== null) {
+      grams += millilitres * density
+      millilitres = 0
+    }
+  }
+
+  const measured = (kind: 'mass' | 'volume', base: number) => {
+    const unit = pickUnit(kind, system, base)
+    amounts.push({ quantity: roundQuantity(base / (getUnit(unit)!.toBase as number), unit), unit })
+  }
+  if (grams > 0) measured('mass', grams)
+  if (millilitres > 0) measured('volume', millilitres)
+  tally.counts.forEach((quantity, unit) => {
+    amounts.push({ quantity: roundQuantity(quantity, unit || null), unit: unit || null })
+  })
+
+  return amounts
+}
+
+// Merge the scaled ingredients of the chosen recipes. Ranges count at their
+// upper end so there is enough; ingredients without an amount ("salt to
+// taste") appear once with no amount.
+export function buildShoppingItems(
+  entries: { recipe: { title: string; servings?: number | null; ingredients: unknown }; servings: number }[],
+  system: ShoppingSystem = 'metric'
+): ShoppingItem[] {
+  const tallies = new Map<string, Tally>()
+
+  entries.forEach(({ recipe, servings }) => {
+    const factor = servings / (recipe.servings || 1)
+    normalizeIngredients(recipe.ingredients).forEach((ingredient: RecipeIngredient) => {
+      if (!ingredient.item.trim()) return
+      const key = shoppingKey(ingredient.item)
+      if (!tallies.has(key)) {
+        tallies.set(key, { name: ingredient.item.trim(), grams: 0, millilitres: 0, counts: new Map(), recipes: new Set() })
+      }
+      const tally = tallies.get(key)!
+      tally.recipes.add(recipe.title)
+
+      const amount = ingredient.quantity_max ?? ingredient.quantity
+      if (amount === null) return
+      const quantity = amount * factor
+      const unit = getUnit(ingredient.unit)
+
+      if (unit?.kind === 'mass') tally.grams += quantity * (unit.toBase as number)
+      else if (unit?.kind === 'volume') tally.millilitres += quantity * (unit.toBase as number)
+      else {
+        const countKey = countUnit(ingredient.unit)
+        tally.counts.set(countKey, (tally.counts.get(countKey) || 0) + quantity)
+      }
+    })
+  })
+
+  return Array.from(tallies.entries()).map(([key, tally]) => ({
+    key,
+    name: tally.name,
+    amounts: toAmounts(tally, system),
+    aisle: aisleFor(tally.name),
+    recipes: Array.from(tally.recipes),
+    checked: false
+  }))
+}
+
+// A fresh build of the list keeps what was already ticked off and anything
+// added by hand
+export function mergeShoppingItems(previous: ShoppingItem[], next: ShoppingItem[]): ShoppingItem[] {
+  const checked = new Set(previous.filter(item => item.checked).map(item => item.key))
+  return [
+    ...next.map(item => ({ ...item, checked: checked.has(item.key) })),
+    ...previous.filter(item => item.custom && !next.some(other => other.key === item.key))
+  ]
+}
+
+// An item typed in by the user, e.g. "2 l milk" or "kitchen foil"
+export function customShoppingItem(text: string): ShoppingItem {
+  const ingredient = parseIngredientLine(text)
+  const name = ingredient.item || text.trim()
+  return {
+    key: shoppingKey(name),
+    name,
+    amounts: ingredient.quantity !== null ? [{ quantity: ingredient.quantity, unit: ingredient.unit }] : [],
+    aisle: aisleFor(name),
+    recipes: [],
+    checked: false,
+    custom: true
+  }
+}
+
+export function formatShoppingAmount(item: Pick<ShoppingItem, 'amounts'>): string {
+  return item.amounts
+    .map(amount => formatIngredientAmount({ quantity: amount.quantity, quantity_max: null, unit: amount.unit }))
+    .join(' + ')
+}
+
+export function groupShoppingItems(items: ShoppingItem[]): { aisle: AisleDefinition; items: ShoppingItem[] }[] {
+  return AISLES
+    .map(aisle => ({
+      aisle,
+      items: items
+        .filter(item => (AISLES.some(known => known.id === item.aisle) ? item.aisle : 'other') === aisle.id)
+        .sort((a, b) => a.name.localeCompare(b.name))
+    }))
+    .filter(group => group.items.length > 0)
+}
+
+// Plain text for pasting into notes or messages, one aisle per block
+export function shoppingListToText(list: Pick<ShoppingList, 'title' | 'items'>): string {
+  const sections = groupShoppingItems(list.items).map(({ aisle, items }) => [
+    aisle.label.toUpperCase(),
+    ...items.map(item => {
+      const amount = formatShoppingAmount(item)
+      return `${item.checked ? '[x]' : '[ ]'} ${amount ? `${amount} ` : ''}${item.name}`
+    })
+  ].join('\n'))
+  return [list.title, '', sections.join('\n\n')].join('\n') + '\n'
+}
@@ -0,0 +1,142 @@
+import { RecipeIngredient, formatIngredientAmount, formatQuantity } from './ingredients'
+import { getUnit, resolveUnit, unitLabel } from './units'
+import { shoppingKey } from './shopping'
+
+// Ingredient swaps from the `ingredient_substitutions` table, looked up with
+// the `find_substitutions` function, and applying them to a recipe.
+
+export type SubstitutionContext = 'any' | 'baking' | 'cooking' | 'sauce' | 'raw'
+
+export interface Substitution {
+  id: string
+  ingredient: string
+  substitute: string
+  // Substitute per one of the original: a multiplier of the original amount
+  // when unit is null, otherwise an amount in unit per counted original
+  ratio: number
+  unit: string | null
+  context: SubstitutionContext
+  dietary: string[]
+  notes: string | null
+}
+
+export const SUBSTITUTION_CONTEXTS: { value: SubstitutionContext; label: string }[] = [
+  { value: 'any', label: 'Anywhere' },
+  { value: 'baking', label: 'Baking' },
+  { value: 'cooking', label: 'Cooking' },
+  { value: 'sauce', label: 'Sauces' },
+  { value: 'raw', label: 'Uncooked' }
+]
+
+export const contextLabel = (context: SubstitutionContext) =>
+  SUBSTITUTION_CONTEXTS.find(option => option.value === context)?.label || context
+
+// The name sent to find_substitutions; matches the table's ingredient format
+export const substitutionKey = (item: string) => shoppingKey(item)
+
+const isCounted = (unit: string | null) => !unit || getUnit(unit)?.kind === 'count'
+
+// "¾ × the amount" or "¼ cup per egg"
+export function describeRatio(substitution: Pick<Substitution, 'ratio' | 'unit' | 'ingredient'>): string {
+  if (!substitution.unit) {
+    return substitution.ratio === 1 ? 'Same amount' : `${formatQuantity(substitution.ratio)} × the amount`
+  }
+  const unit = resolveUnit(substitution.unit)
+  const label = unit ? unitLabel(unit, substitution.ratio) : substitution.unit
+  return `${formatQuantity(substitution.ratio)} ${label} per ${substitution.ingredient}`
+}
+
+// The ingredient line rewritten to use the substitute. The original's
+// preparation note is dropped since it rarely fits the substitute. Amounts
+// per counted original can't be worked out from a weighed or measured line,
+// so those keep the ratio in the note instead.
+export function applySubstitution(ingredient: RecipeIngredient, substitution: Substitution): RecipeIngredient {
+  const original = `instead of ${ingredient.item}`
+  const scale = (value: number | null) => value === null ? null : value * substitution.ratio
+
+  if (!substitution.unit) {
+    return {
+      ...ingredient,
+      quantity: scale(ingredient.quantity),
+      quantity_max: scale(ingredient.quantity_max),
+      item: substitution.substitute,
+      note: original
+    }
+  }
+
+  if (isCounted(ingredient.unit) && ingredient.quantity !== null) {
+    return {
+      ...ingredient,
+      quantity: scale(ingredient.quantity),
+      quantity_max: scale(ingredient.quantity_max),
+      unit: resolveUnit(substitution.unit) || substitution.unit,
+      item: substitution.substitute,
+      note: original
+    }
+  }
+
+  return {
+    ...ingredient,
+    quantity: null,
+    quantity_max: null,
+    unit: null,
+    item: substitution.substitute,
+    note: `${describeRatio(substitution)}, instead of ${[formatIngredientAmount(ingredient), ingredient.item].filter(Boolean).join(' ')}`
+  }
+}
+
+// The recipe's ingredients with the chosen swaps, keyed by ingredient index
+export function adaptIngredients(ingredients: RecipeIngredient[], swaps: Record<number, Substitution>): RecipeIngredient[] {
+  return ingredients.map((ingredient, index) => swaps[index] ? applySubstitution(ingredient, swaps[index]) : ingredient)
+}
+
+// Dietary labels every chosen swap helps with, for the adapted copy's title
+export function sharedDietary(swaps: Substitution[]): string[] {
+  if (swaps.length === 0) return []
+  return swaps[0].dietary.filter(label => swaps.every(swap => swap.dietary.includes(label)))
+}
+
+export interface SubstitutionQuestion {
+  ingredient: string | null
+  context?: SubstitutionContext
+  dietary?: string
+}
+
+const ASKS_FOR_SUBSTITUTE = /\b(substitut\w*|replace\w*|swap\w*|alternatives?|instead of)\b/
+const INGREDIENT_PATTERNS = [
+  /\b(?:substitut\w*|replacements?|alternatives?|swaps?)\s+(?:for|to)\s+([^?.!,;]+)/,
+  /\b(?:replace|swap(?: out)?|instead of|out of|without|no)\s+([^?.!,;]+)/
+]
+// Where the ingredient name ends: "butter in cookies", "eggs when baking"
+const TRAILING_WORDS = /\s+(?:in|when|for|with|to|if|so|because|on|that|which|while)\b.*$/
+const LEADING_WORDS = /^(?:the|a|an|some|my|any)\s+/
+
+const CONTEXT_WORDS: [RegExp, SubstitutionContext][] = [
+  [/\b(bak\w*|cakes?|cookies?|muffins?|bread|brownies?|pastry)\b/, 'baking'],
+  [/\b(sauces?|gravy|soups?|stews?|curry)\b/, 'sauce'],
+  [/\b(raw|dressings?|dips?|salads?|no[- ]cook)\b/, 'raw'],
+  [/\b(fry\w*|roast\w*|saut\w*|stir[- ]fry|cooking)\b/, 'cooking']
+]
+
+// Reads "what can I use instead of butter in vegan cookies?" as butter,
+// baking, vegan. Returns null when the message isn't about substitutes.
+export function parseSubstitutionQuestion(message: string, dietaryIds: string[] = []): SubstitutionQuestion | null {
+  const text = message.toLowerCase()
+  if (!ASKS_FOR_SUBSTITUTE.test(text)) return null
+
+  let ingredient: string | null = null
+  for (const pattern of INGREDIENT_PATTERNS) {
+    const match = text.match(pattern)
+    const name = match?.[1].replace(TRAILING_WORDS, '').replace(LEADING_WORDS, '').trim()
+    if (name) {
+      ingredient = name
+      break
+    }
+  }
+
+  // Ignore the ingredient itself so "soy sauce" doesn't read as a sauce
+  const rest = ingredient ? text.replace(ingredient, ' ') : text
+  const context = CONTEXT_WORDS.find(([pattern]) => pattern.test(rest))?.[1]
+  const dietary = dietaryIds.find(id => new RegExp(`\\b${id.replace('_', '[- ]?')}\\b`).test(text))
+  return { ingredient, context, dietary }
+}
@@ -0,0 +1,222 @@
+import { RecipeIngredient, formatIngredient, normalizeIngredients } from './ingredients'
+import { normalizeInstructions } from './instructions'
+import { detectStepDurations, ingredientsInStep } from './timers'
+
+// Production timelines: every step of one or more recipes scheduled back
+// from a serve time, and the mise en place each station needs first.
+// Durations come from the step text; steps without one share what is left
+// of the recipe's prep and cook time.
+
+export type StationId = 'prep' | 'cold' | 'stove' | 'oven' | 'pass'
+
+export interface Station {
+  id: StationId
+  label: string
+}
+
+export const STATIONS: Station[] = [
+  { id: 'prep', label: 'Prep bench' },
+  { id: 'cold', label: 'Fridge & freezer' },
+  { id: 'stove', label: 'Stove' },
+  { id: 'oven', label: 'Oven' },
+  { id: 'pass', label: 'Pass & plating' }
+]
+
+export interface TimelineRecipe {
+  id: string
+  title: string
+  prep_time: number | null
+  cook_time: number | null
+  ingredients: RecipeIngredient[]
+  instructions: string[]
+}
+
+export interface TimelineTask {
+  id: string
+  recipeId: string
+  recipeTitle: string
+  step: number
+  text: string
+  seconds: number
+  // No duration in the step text, so the time is a share of prep and cook time
+  estimated: boolean
+  // Hands-off time such as baking or chilling
+  passive: boolean
+  // Runs at the same time as a step from another recipe
+  parallel: boolean
+  station: StationId
+  start: Date
+  end: Date
+}
+
+export interface MiseEnPlaceItem {
+  recipeTitle: string
+  text: string
+}
+
+export interface TimelineOptions {
+  // One cook can only work on one hands-on step at a time
+  singleCook: boolean
+}
+
+export const TIMELINE_RECIPE_COLUMNS = 'id, title, prep_time, cook_time, ingredients, instructions'
+
+const DEFAULT_STEP_SECONDS = 5 * 60
+const MIN_STEP_SECONDS = 2 * 60
+const MAX_ESTIMATED_SECONDS = 30 * 60
+// Ovens rarely say how long they take to heat
+const PREHEAT_SECONDS = 15 * 60
+
+// Checked in order: "preheat the oven" belongs to the oven, "serve with" to the pass
+const STATION_WORDS: [RegExp, StationId][] = [
+  [/\b(serve|serving|garnish\w*|plate|plating|to finish)\b/, 'pass'],
+  [/\b(chill\w*|refrigerat\w*|fridge|freez\w*|marinat\w*)\b/, 'cold'],
+  [/\b(bake\w*|baking|roast\w*|oven|broil\w*)\b/, 'oven'],
+  [/\b(simmer\w*|boil\w*|saut\w*|fry\w*|fried|sear\w*|poach\w*|blanch\w*|steam\w*|braise\w*|melt\w*|reduce\w*|heat\w*|pan|pot|skillet|saucepan|wok)\b/, 'stove']
+]
+
+const PASSIVE_WORDS = /\b(bake\w*|baking|roast\w*|simmer\w*|boil\w*|braise\w*|rest\w*|chill\w*|refrigerat\w*|freez\w*|marinat\w*|prove|proving|proof\w*|rise|rising|ferment\w*|cool\w*|soak\w*|steep\w*|infuse\w*|preheat\w*|set aside|stand|sit)\b/
+
+export function stationFor(step: string): StationId {
+  const text = step.toLowerCase()
+  return STATION_WORDS.find(([pattern]) => pattern.test(text))?.[1] ?? 'prep'
+}
+
+export const stationLabel = (id: StationId) => STATIONS.find(station => station.id === id)?.label || id
+
+export function isPassiveStep(step: string): boolean {
+  return PASSIVE_WORDS.test(step.toLowerCase())
+}
+
+export function toTimelineRecipe(recipe: any): TimelineRecipe {
+  return {
+    id: recipe.id,
+    title: recipe.title,
+    prep_time: recipe.prep_time ?? null,
+    cook_time: recipe.cook_time ?? null,
+    ingredients: normalizeIngredients(recipe.ingredients),
+    instructions: normalizeInstructions(recipe.instructions)
+  }
+}
+
+// Planned from the top of any range so there is time to spare
+function stepSeconds(recipe: TimelineRecipe): { seconds: number; estimated: boolean }[] {
+  const detected = recipe.instructions.map(step =>
+    detectStepDurations(step).reduce((sum, duration) => sum + (duration.maxSeconds ?? duration.seconds), 0)
+  )
+  const undated = detected.filter(seconds => seconds === 0).length
+  const listed = ((recipe.prep_time || 0) + (recipe.cook_time || 0)) * 60
+  const remaining = listed - detected.reduce((sum, seconds) => sum + seconds, 0)
+  const share = undated && remaining > 0
+    ? Math.min(Math.max(Math.round(remaining / undated / 60) * 60, MIN_STEP_SECONDS), MAX_ESTIMATED_SECONDS)
+    : DEFAULT_STEP_SECONDS
+
+  return detected.map((seconds, step) => {
+    if (seconds > 0) return { seconds, estimated: false }
+    return { seconds: /\bpreheat/i.test(recipe.instructions[step]) ? PREHEAT_SECONDS : share, estimated: true }
+  })
+}
+
+// The latest end at or before `end` that leaves `seconds` free of busy intervals
+function latestFreeEnd(busy: [number, number][], end: number, seconds: number): number {
+  let candidate = end
+  let moved = true
+  while (moved) {
+    moved = false
+    for (const [start, finish] of busy) {
+      if (start < candidate && finish > candidate - seconds * 1000) {
+        candidate = start
+        moved = true
+      }
+    }
+  }
+  return candidate
+}
+
+// Works backwards from the serve time, always placing the step whose recipe
+// can finish latest, so every recipe is ready together and hands-on work
+// moves earlier only where it would clash.
+export function buildTimeline(recipes: TimelineRecipe[], serveAt: Date, options: TimelineOptions): TimelineTask[] {
+  const queues = recipes.map(recipe => {
+    const durations = stepSeconds(recipe)
+    return recipe.instructions.map((text, step) => ({
+      recipe,
+      step,
+      text,
+      ...durations[step],
+      passive: isPassiveStep(text),
+      station: stationFor(text)
+    }))
+  })
+  const latestEnd = recipes.map(() => serveAt.getTime())
+  const busy: [number, number][] = []
+  const tasks: TimelineTask[] = []
+
+  while (queues.some(queue => queue.length > 0)) {
+    let next = -1
+    queues.forEach((queue, index) => {
+      if (queue.length > 0 && (next === -1 || latestEnd[index] > latestEnd[next])) next = index
+    })
+
+    const item = queues[next].pop()!
+    const end = !item.passive && options.singleCook
+      ? latestFreeEnd(busy, latestEnd[next], item.seconds)
+      : latestEnd[next]
+    const start = end - item.seconds * 1000
+    if (!item.passive) busy.push([start, end])
+    latestEnd[next] = start
+
+    tasks.push({
+      id: `${item.recipe.id}-${item.step}`,
+      recipeId: item.recipe.id,
+      recipeTitle: item.recipe.title,
+      step: item.step,
+      text: item.text,
+      seconds: item.seconds,
+      estimated: item.estimated,
+      passive: item.passive,
+      parallel: false,
+      station: item.station,
+      start: new Date(start),
+      end: new Date(end)
+    })
+  }
+
+  return tasks
+    .map(task => ({
+      ...task,
+      parallel: tasks.some(other =>
+        other.recipeId !== task.recipeId && other.start < task.end && other.end > task.start
+      )
+    }))
+    .sort((a, b) => a.start.getTime() - b.start.getTime() || a.recipeTitle.localeCompare(b.recipeTitle) || a.step - b.step)
+}
+
+// Each ingredient goes to the station of the first step that uses it;
+// ingredients no step mentions are set out on the prep bench.
+export function buildMiseEnPlace(recipes: TimelineRecipe[]): { station: Station; items: MiseEnPlaceItem[] }[] {
+  const byStation = new Map<StationId, MiseEnPlaceItem[]>()
+
+  recipes.forEach(recipe => {
+    const firstUse = new Map<number, StationId>()
+    recipe.instructions.forEach(step => {
+      ingredientsInStep(step, recipe.ingredients).forEach(index => {
+        if (!firstUse.has(index)) firstUse.set(index, stationFor(step))
+      })
+    })
+
+    recipe.ingredients.forEach((ingredient, index) => {
+      if (!ingredient.item.trim()) return
+      const station = firstUse.get(index) || 'prep'
+      byStation.set(station, [...(byStation.get(station) || []), { recipeTitle: recipe.title, text: formatIngredient(ingredient) }])
+    })
+  })
+
+  return STATIONS
+    .filter(station => byStation.has(station.id))
+    .map(station => ({ station, items: byStation.get(station.id)! }))
+}
+
+export function formatClock(date: Date): string {
+  return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+}
@@ -0,0 +1,124 @@
+import { RecipeIngredient, parseQuantity } from './ingredients'
+
+// Durations written into step text ("simmer 20 minutes", "bake for 1 hour
+// 15 min", "rest 5-10 mins") and helpers for cook mode's countdowns.
+
+export interface StepDuration {
+  // The words matched in the step, e.g. "20-25 minutes"
+  text: string
+  label: string
+  // Timers start at the lower end of a range so the cook checks early
+  seconds: number
+  maxSeconds: number | null
+}
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6,
+  seven: 7, eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12,
+  fifteen: 15, twenty: 20, thirty: 30, forty: 40, 'forty-five': 45, sixty: 60
+}
+
+const NUMBER = `(?:\\d+\\s+\\d+\\/\\d+|\\d+\\/\\d+|\\d+(?:[.,]\\d+)?\\s*[¼½¾⅓⅔]?|[¼½¾⅓⅔]|${Object.keys(NUMBER_WORDS).sort((a, b) => b.length - a.length).join('|')})`
+const UNIT = '(hours?|hrs?|minutes?|mins?|seconds?|secs?)'
+
+const DURATION_REGEX = new RegExp(
+  `\\b(${NUMBER})(?:\\s*(?:-|–|to|or)\\s*(${NUMBER}))?[\\s-]*${UNIT}\\b` +
+    `(?:,?\\s*(?:and\\s+)?(${NUMBER})[\\s-]*(minutes?|mins?|seconds?|secs?)\\b)?` +
+    '|\\bhalf an hour\\b',
+  'gi'
+)
+
+function parseAmount(text: string): number | null {
+  const word = NUMBER_WORDS[text.toLowerCase()]
+  return word !== undefined ? word : parseQuantity(text)
+}
+
+function unitSeconds(unit: string): number {
+  if (/^h/i.test(unit)) return 3600
+  if (/^m/i.test(unit)) return 60
+  return 1
+}
+
+export function formatDuration(seconds: number): string {
+  const hours = Math.floor(seconds / 3600)
+  const minutes = Math.floor((seconds % 3600) / 60)
+  const rest = Math.round(seconds % 60)
+  const parts: string[] = []
+  if (hours) parts.push(`${hours} hr`)
+  if (minutes) parts.push(`${minutes} min`)
+  if (rest || parts.length === 0) parts.push(`${rest} sec`)
+  return parts.join(' ')
+}
+
+// "5–10 min" when both ends share a unit, otherwise "45 min – 1 hr"
+function formatRange(low: number, high: number): string {
+  const lowLabel = formatDuration(low)
+  const highLabel = formatDuration(high)
+  const lowParts = lowLabel.split(' ')
+  const highParts = highLabel.split(' ')
+  if (lowParts.length === 2 && highParts.length === 2 && lowParts[1] === highParts[1]) {
+    return `${lowParts[0]}–${highLabel}`
+  }
+  return `${lowLabel} – ${highLabel}`
+}
+
+// Clock-style countdown: "4:05" or "1:02:30"
+export function formatCountdown(seconds: number): string {
+  const total = Math.max(0, Math.ceil(seconds))
+  const hours = Math.floor(total / 3600)
+  const minutes = Math.floor((total % 3600) / 60)
+  const rest = String(total % 60).padStart(2, '0')
+  return hours ? `${hours}:${String(minutes).padStart(2, '0')}:${rest}` : `${minutes}:${rest}`
+}
+
+export function detectStepDurations(step: string): StepDuration[] {
+  const durations: StepDuration[] = []
+  let match: RegExpExecArray | null
+  DURATION_REGEX.lastIndex = 0
+
+  while ((match = DURATION_REGEX.exec(step)) !== null) {
+    const [text, amount, maxAmount, unit, extraAmount, extraUnit] = match
+
+    if (!amount) {
+      durations.push({ text, label: formatDuration(1800), seconds: 1800, maxSeconds: null })
+      continue
+    }
+
+    const low = parseAmount(amount)
+    if (low === null || low <= 0) continue
+    const high = maxAmount ? parseAmount(maxAmount) : null
+    const extra = extraAmount ? (parseAmount(extraAmount) || 0) * unitSeconds(extraUnit) : 0
+
+    const seconds = Math.round(low * unitSeconds(unit) + extra)
+    const maxSeconds = high !== null && high > low ? Math.round(high * unitSeconds(unit) + extra) : null
+    const label = maxSeconds ? formatRange(seconds, maxSeconds) : formatDuration(seconds)
+
+    durations.push({ text: text.trim(), label, seconds, maxSeconds })
+  }
+
+  return durations
+}
+
+// Heuristic: an ingredient is mentioned when the step names it in full or
+// names its last word ("onion" for "yellow onion"), allowing plurals.
+export function ingredientsInStep(step: string, ingredients: RecipeIngredient[]): number[] {
+  const text = step.toLowerCase()
+  const mentions: number[] = []
+
+  ingredients.forEach((ingredient, index) => {
+    const name = ingredient.item.toLowerCase().replace(/\([^)]*\)/g, '').trim()
+    if (!name) return
+    if (text.includes(name)) {
+      mentions.push(index)
+      return
+    }
+
+    const words = name.split(/[^a-z]+/).filter(word => word.length > 2)
+    const head = words[words.length - 1]
+    if (!head) return
+    const stem = head.replace(/(?:es|s)$/, '')
+    if (stem.length > 2 && new RegExp(`\\b${stem}(?:e?s)?\\b`).test(text)) mentions.push(index)
+  })
+
+  return mentions
+}
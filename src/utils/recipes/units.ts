@@ -0,0 +1,71 @@
+// Measurement units understood by the ingredient parser and editor.
+// `toBase` converts one of the unit into millilitres (volume) or grams (mass);
+// count-style units such as "clove" or "can" have no base conversion.
+
+export type UnitKind = 'volume' | 'mass' | 'count'
+export type UnitSystem = 'metric' | 'imperial' | 'neutral'
+
+export interface UnitDefinition {
+  key: string
+  label: string
+  plural: string
+  kind: UnitKind
+  system: UnitSystem
+  toBase: number | null
+  aliases: string[]
+}
+
+export const UNITS: Record<string, UnitDefinition> = {
+  tsp: { key: 'tsp', label: 'tsp', plural: 'tsp', kind: 'volume', system: 'imperial', toBase: 4.92892, aliases: ['teaspoon', 'teaspoons', 'tsp', 'tsps', 'tspn'] },
+  tbsp: { key: 'tbsp', label: 'tbsp', plural: 'tbsp', kind: 'volume', system: 'imperial', toBase: 14.7868, aliases: ['tablespoon', 'tablespoons', 'tbsp', 'tbsps', 'tbs', 'tbl', 'tblsp'] },
+  fl_oz: { key: 'fl_oz', label: 'fl oz', plural: 'fl oz', kind: 'volume', system: 'imperial', toBase: 29.5735, aliases: ['fl oz', 'fl. oz', 'fluid ounce', 'fluid ounces', 'floz'] },
+  cup: { key: 'cup', label: 'cup', plural: 'cups', kind: 'volume', system: 'imperial', toBase: 236.588, aliases: ['cup', 'cups', 'c'] },
+  pint: { key: 'pint', label: 'pint', plural: 'pints', kind: 'volume', system: 'imperial', toBase: 473.176, aliases: ['pint', 'pints', 'pt', 'pts'] },
+  quart: { key: 'quart', label: 'quart', plural: 'quarts', kind: 'volume', system: 'imperial', toBase: 946.353, aliases: ['quart', 'quarts', 'qt', 'qts'] },
+  gallon: { key: 'gallon', label: 'gallon', plural: 'gallons', kind: 'volume', system: 'imperial', toBase: 3785.41, aliases: ['gallon', 'gallons', 'gal'] },
+  ml: { key: 'ml', label: 'ml', plural: 'ml', kind: 'volume', system: 'metric', toBase: 1, aliases: ['ml', 'millilitre', 'millilitres', 'milliliter', 'milliliters', 'mls'] },
+  cl: { key: 'cl', label: 'cl', plural: 'cl', kind: 'volume', system: 'metric', toBase: 10, aliases: ['cl', 'centilitre', 'centilitres', 'centiliter', 'centiliters'] },
+  dl: { key: 'dl', label: 'dl', plural: 'dl', kind: 'volume', system: 'metric', toBase: 100, aliases: ['dl', 'decilitre', 'decilitres', 'deciliter', 'deciliters'] },
+  l: { key: 'l', label: 'l', plural: 'l', kind: 'volume', system: 'metric', toBase: 1000, aliases: ['l', 'litre', 'litres', 'liter', 'liters', 'ltr'] },
+  mg: { key: 'mg', label: 'mg', plural: 'mg', kind: 'mass', system: 'metric', toBase: 0.001, aliases: ['mg', 'milligram', 'milligrams'] },
+  g: { key: 'g', label: 'g', plural: 'g', kind: 'mass', system: 'metric', toBase: 1, aliases: ['g', 'gr', 'gram', 'grams', 'gramme', 'grammes', 'gm', 'gms'] },
+  kg: { key: 'kg', label: 'kg', plural: 'kg', kind: 'mass', system: 'metric', toBase: 1000, aliases: ['kg', 'kgs', 'kilogram', 'kilograms', 'kilo', 'kilos'] },
+  oz: { key: 'oz', label: 'oz', plural: 'oz', kind: 'mass', system: 'imperial', toBase: 28.3495, aliases: ['oz', 'ounce', 'ounces'] },
+  lb: { key: 'lb', label: 'lb', plural: 'lb', kind: 'mass', system: 'imperial', toBase: 453.592, aliases: ['lb', 'lbs', 'pound', 'pounds'] },
+  pinch: { key: 'pinch', label: 'pinch', plural: 'pinches', kind: 'count', system: 'neutral', toBase: null, aliases: ['pinch', 'pinches'] },
+  dash: { key: 'dash', label: 'dash', plural: 'dashes', kind: 'count', system: 'neutral', toBase: null, aliases: ['dash', 'dashes'] },
+  clove: { key: 'clove', label: 'clove', plural: 'cloves', kind: 'count', system: 'neutral', toBase: null, aliases: ['clove', 'cloves'] },
+  can: { key: 'can', label: 'can', plural: 'cans', kind: 'count', system: 'neutral', toBase: null, aliases: ['can', 'cans', 'tin', 'tins'] },
+  slice: { key: 'slice', label: 'slice', plural: 'slices', kind: 'count', system: 'neutral', toBase: null, aliases: ['slice', 'slices'] },
+  piece: { key: 'piece', label: 'piece', plural: 'pieces', kind: 'count', system: 'neutral', toBase: null, aliases: ['piece', 'pieces', 'pc', 'pcs'] },
+  bunch: { key: 'bunch', label: 'bunch', plural: 'bunches', kind: 'count', system: 'neutral', toBase: null, aliases: ['bunch', 'bunches'] },
+  sprig: { key: 'sprig', label: 'sprig', plural: 'sprigs', kind: 'count', system: 'neutral', toBase: null, aliases: ['sprig', 'sprigs'] },
+  stick: { key: 'stick', label: 'stick', plural: 'sticks', kind: 'count', system: 'neutral', toBase: null, aliases: ['stick', 'sticks'] },
+  handful: { key: 'handful', label: 'handful', plural: 'handfuls', kind: 'count', system: 'neutral', toBase: null, aliases: ['handful', 'handfuls'] },
+  package: { key: 'package', label: 'package', plural: 'packages', kind: 'count', system: 'neutral', toBase: null, aliases: ['package', 'packages', 'pkg', 'packet', 'packets'] }
+}
+
+const UNIT_ALIASES: Record<string, string> = Object.values(UNITS).reduce((map, unit) => {
+  unit.aliases.forEach(alias => { map[alias] = unit.key })
+  return map
+}, {} as Record<string, string>)
+
+// Resolve a written unit ("Tbsp.", "grams", "fl oz") to its unit key.
+// A bare capital "T" is the conventional shorthand for tablespoon and a
+// lower-case "t" for teaspoon, so those two are matched case-sensitively.
+export function resolveUnit(token: string): string | null {
+  const trimmed = token.trim().replace(/\.$/, '')
+  if (trimmed === 'T') return 'tbsp'
+  if (trimmed === 't') return 'tsp'
+  return UNIT_ALIASES[trimmed.toLowerCase().replace(/\./g, '')] || null
+}
+
+export function getUnit(key: string | null | undefined): UnitDefinition | null {
+  return key ? UNITS[key] || null : null
+}
+
+export function unitLabel(key: string | null | undefined, quantity: number | null = 1): string {
+  const unit = getUnit(key)
+  if (!unit) return key || ''
+  return quantity !== null && quantity > 1 ? unit.plural : unit.label
+}
@@ -285,4 +285,1842 @@ $$;
 -- Create trigger for new user registration
 CREATE TRIGGER on_auth_user_created
   AFTER INSERT ON auth.users
-  FOR EACH ROW EXECUTE FUNCTION handle_new_user();
\ No newline at end of file
+  FOR EACH ROW EXECUTE FUNCTION handle_new_user();
+
+-- Recipe full-text search
+-- Weighted document: title (A), tags (B), ingredient names (C), description (D)
+ALTER TABLE recipes ADD COLUMN IF NOT EXISTS search_vector tsvector;
+
+CREATE OR REPLACE FUNCTION recipe_ingredient_text(ingredients JSONB)
+RETURNS TEXT
+LANGUAGE sql IMMUTABLE
+AS $$
+  SELECT COALESCE(string_agg(
+    CASE WHEN jsonb_typeof(entry) = 'string' THEN entry #>> '{}' ELSE entry->>'item' END,
+    ' '
+  ), '')
+  FROM jsonb_array_elements(
+    CASE WHEN jsonb_typeof(ingredients) = 'array' THEN ingredients ELSE '[]'::jsonb END
+  ) AS entry;
+$$;
+
+CREATE OR REPLACE FUNCTION update_recipe_search_vector()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.search_vector :=
+    setweight(to_tsvector('english', COALESCE(NEW.title, '')), 'A') ||
+    setweight(to_tsvector('english', COALESCE(array_to_string(NEW.tags, ' '), '')), 'B') ||
+    setweight(to_tsvector('english', recipe_ingredient_text(NEW.ingredients)), 'C') ||
+    setweight(to_tsvector('english', COALESCE(NEW.description, '')), 'D');
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS update_recipes_search_vector ON recipes;
+CREATE TRIGGER update_recipes_search_vector BEFORE INSERT OR UPDATE ON recipes FOR EACH ROW WHEN (pg_trigger_depth() < 1) EXECUTE FUNCTION update_recipe_search_vector();
+CREATE INDEX IF NOT EXISTS recipes_search_vector_idx ON recipes USING GIN (search_vector);
+
+-- Backfill existing rows through the trigger
+UPDATE recipes SET title = title WHERE search_vector IS NULL;
+
+-- Recipe counters
+-- Like and rating aggregates live on the recipe row so lists can sort and
+-- paginate on them without reading every child row.
+ALTER TABLE recipes ADD COLUMN IF NOT EXISTS like_count INTEGER DEFAULT 0 NOT NULL;
+ALTER TABLE recipes ADD COLUMN IF NOT EXISTS rating_count INTEGER DEFAULT 0 NOT NULL;
+ALTER TABLE recipes ADD COLUMN IF NOT EXISTS average_rating NUMERIC(3,2) DEFAULT 0 NOT NULL;
+
+CREATE OR REPLACE FUNCTION refresh_recipe_counters(target_recipe_id UUID)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER SET search_path = public
+AS $$
+  UPDATE recipes SET
+    like_count = (SELECT COUNT(*) FROM recipe_likes WHERE recipe_id = target_recipe_id),
+    rating_count = (SELECT COUNT(*) FROM recipe_ratings WHERE recipe_id = target_recipe_id),
+    average_rating = COALESCE((SELECT ROUND(AVG(rating), 2) FROM recipe_ratings WHERE recipe_id = target_recipe_id), 0)
+  WHERE id = target_recipe_id;
+$$;
+
+CREATE OR REPLACE FUNCTION update_recipe_counters()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM refresh_recipe_counters(OLD.recipe_id);
+  END IF;
+  IF TG_OP = 'INSERT' OR (TG_OP = 'UPDATE' AND NEW.recipe_id IS DISTINCT FROM OLD.recipe_id) THEN
+    PERFORM refresh_recipe_counters(NEW.recipe_id);
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS update_recipe_like_counters ON recipe_likes;
+CREATE TRIGGER update_recipe_like_counters AFTER INSERT OR UPDATE OR DELETE ON recipe_likes FOR EACH ROW EXECUTE FUNCTION update_recipe_counters();
+DROP TRIGGER IF EXISTS update_recipe_rating_counters ON recipe_ratings;
+CREATE TRIGGER update_recipe_rating_counters AFTER INSERT OR UPDATE OR DELETE ON recipe_ratings FOR EACH ROW EXECUTE FUNCTION update_recipe_counters();
+
+-- Counter refreshes run inside the triggers above and must not bump updated_at
+DROP TRIGGER IF EXISTS update_recipes_updated_at ON recipes;
+CREATE TRIGGER update_recipes_updated_at BEFORE UPDATE ON recipes FOR EACH ROW WHEN (pg_trigger_depth() < 1) EXECUTE FUNCTION update_updated_at_column();
+
+-- Backfill existing counters without touching updated_at or the search document
+ALTER TABLE recipes DISABLE TRIGGER USER;
+UPDATE recipes r SET
+  like_count = (SELECT COUNT(*) FROM recipe_likes rl WHERE rl.recipe_id = r.id),
+  rating_count = (SELECT COUNT(*) FROM recipe_ratings rr WHERE rr.recipe_id = r.id),
+  average_rating = COALESCE((SELECT ROUND(AVG(rr.rating), 2) FROM recipe_ratings rr WHERE rr.recipe_id = r.id), 0);
+ALTER TABLE recipes ENABLE TRIGGER USER;
+
+CREATE INDEX IF NOT EXISTS recipes_public_created_idx ON recipes(created_at DESC, id DESC) WHERE is_public = true;
+CREATE INDEX IF NOT EXISTS recipes_public_rating_idx ON recipes(average_rating DESC, id DESC) WHERE is_public = true;
+CREATE INDEX IF NOT EXISTS recipes_public_likes_idx ON recipes(like_count DESC, id DESC) WHERE is_public = true;
+
+-- When a recipe first went live; newest-first feeds sort on it so scheduled
+-- recipes surface when they publish (see the lifecycle section)
+ALTER TABLE recipes ADD COLUMN IF NOT EXISTS published_at TIMESTAMP WITH TIME ZONE;
+
+-- Nutrition estimated by the app from its bundled food table (see the
+-- nutrition section); search filters on the per-serving values
+ALTER TABLE recipes ADD COLUMN IF NOT EXISTS nutrition JSONB;
+
+-- Allergens and dietary labels (see the dietary section). allergens and
+-- dietary_labels are confirmed by the author; detected_allergens is what the
+-- app found in the ingredients, so allergen filters also leave out recipes
+-- whose author has not reviewed the suggestions
+ALTER TABLE recipes ADD COLUMN IF NOT EXISTS allergens TEXT[] NOT NULL DEFAULT '{}';
+ALTER TABLE recipes ADD COLUMN IF NOT EXISTS detected_allergens TEXT[] NOT NULL DEFAULT '{}';
+ALTER TABLE recipes ADD COLUMN IF NOT EXISTS dietary_labels TEXT[] NOT NULL DEFAULT '{}';
+
+-- Shared filter used by search_recipes and recipe_search_facets.
+-- Empty arrays and NULLs mean "no filter" for that dimension. Recipes without
+-- a nutrition estimate never match the nutrition filters. A recipe is left
+-- out by excluded_allergens if it lists or was detected to contain any of them.
+DROP FUNCTION IF EXISTS filter_recipes(TEXT, TEXT[], INTEGER, INTEGER, TEXT[], TEXT[], NUMERIC);
+DROP FUNCTION IF EXISTS filter_recipes(TEXT, TEXT[], INTEGER, INTEGER, TEXT[], TEXT[], NUMERIC, NUMERIC, NUMERIC);
+CREATE OR REPLACE FUNCTION filter_recipes(
+  search_query TEXT DEFAULT NULL,
+  difficulties TEXT[] DEFAULT NULL,
+  min_total_time INTEGER DEFAULT NULL,
+  max_total_time INTEGER DEFAULT NULL,
+  required_tags TEXT[] DEFAULT NULL,
+  author_roles TEXT[] DEFAULT NULL,
+  min_rating NUMERIC DEFAULT NULL,
+  max_calories NUMERIC DEFAULT NULL,
+  min_protein NUMERIC DEFAULT NULL,
+  excluded_allergens TEXT[] DEFAULT NULL,
+  required_labels TEXT[] DEFAULT NULL
+)
+RETURNS TABLE (recipe_id UUID, rank REAL)
+LANGUAGE sql STABLE
+AS $$
+  SELECT
+    r.id,
+    CASE WHEN query.q IS NULL THEN 0 ELSE ts_rank(r.search_vector, query.q) END
+  FROM recipes r
+  LEFT JOIN profiles p ON p.id = r.author_id
+  CROSS JOIN (
+    SELECT CASE
+      WHEN COALESCE(trim(search_query), '') = '' THEN NULL
+      ELSE websearch_to_tsquery('english', search_query)
+    END AS q
+  ) query
+  WHERE r.is_public = true
+    AND (query.q IS NULL OR r.search_vector @@ query.q)
+    AND (COALESCE(cardinality(difficulties), 0) = 0 OR r.difficulty::text = ANY(difficulties))
+    AND (min_total_time IS NULL OR COALESCE(r.prep_time, 0) + COALESCE(r.cook_time, 0) >= min_total_time)
+    AND (max_total_time IS NULL OR COALESCE(r.prep_time, 0) + COALESCE(r.cook_time, 0) < max_total_time)
+    AND (COALESCE(cardinality(required_tags), 0) = 0 OR
+      ARRAY(SELECT lower(t) FROM unnest(r.tags) t) @> ARRAY(SELECT lower(t) FROM unnest(required_tags) t))
+    AND (COALESCE(cardinality(author_roles), 0) = 0 OR p.role::text = ANY(author_roles))
+    AND (min_rating IS NULL OR r.average_rating >= min_rating)
+    AND (max_calories IS NULL OR (r.nutrition->'per_serving'->>'calories')::numeric <= max_calories)
+    AND (min_protein IS NULL OR (r.nutrition->'per_serving'->>'protein')::numeric >= min_protein)
+    AND (COALESCE(cardinality(excluded_allergens), 0) = 0 OR
+      NOT (r.allergens && excluded_allergens OR r.detected_allergens && excluded_allergens))
+    AND (COALESCE(cardinality(required_labels), 0) = 0 OR r.dietary_labels @> required_labels);
+$$;
+
+-- Keyset-paginated search results. Returns recipes rows so callers can embed
+-- related tables through the REST API. sort_by is one of relevance, newest,
+-- top_rated or popular. To fetch the next page, pass the last loaded row's
+-- sort key, created_at and id as after_key, after_created_at and after_id; the
+-- cursor does not depend on that row still matching, or still existing.
+-- Sort keys: newest is the publish time in epoch milliseconds, top_rated the
+-- average rating, popular the like count and relevance recipe_search_rank.
+DROP FUNCTION IF EXISTS search_recipes(TEXT, TEXT[], INTEGER, INTEGER, TEXT[], TEXT[], NUMERIC, INTEGER, INTEGER);
+DROP FUNCTION IF EXISTS search_recipes(TEXT, TEXT[], INTEGER, INTEGER, TEXT[], TEXT[], NUMERIC, TEXT, UUID, INTEGER);
+DROP FUNCTION IF EXISTS search_recipes(TEXT, TEXT[], INTEGER, INTEGER, TEXT[], TEXT[], NUMERIC, NUMERIC, NUMERIC, TEXT, UUID, INTEGER);
+DROP FUNCTION IF EXISTS search_recipes(TEXT, TEXT[], INTEGER, INTEGER, TEXT[], TEXT[], NUMERIC, NUMERIC, NUMERIC, TEXT[], TEXT[], TEXT, UUID, INTEGER);
+CREATE OR REPLACE FUNCTION search_recipes(
+  search_query TEXT DEFAULT NULL,
+  difficulties TEXT[] DEFAULT NULL,
+  min_total_time INTEGER DEFAULT NULL,
+  max_total_time INTEGER DEFAULT NULL,
+  required_tags TEXT[] DEFAULT NULL,
+  author_roles TEXT[] DEFAULT NULL,
+  min_rating NUMERIC DEFAULT NULL,
+  max_calories NUMERIC DEFAULT NULL,
+  min_protein NUMERIC DEFAULT NULL,
+  excluded_allergens TEXT[] DEFAULT NULL,
+  required_labels TEXT[] DEFAULT NULL,
+  sort_by TEXT DEFAULT 'relevance',
+  after_key DOUBLE PRECISION DEFAULT NULL,
+  after_created_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  after_id UUID DEFAULT NULL,
+  result_limit INTEGER DEFAULT 24
+)
+RETURNS SETOF recipes
+LANGUAGE sql STABLE
+AS $$
+  WITH keyed AS (
+    SELECT
+      r.id,
+      r.created_at,
+      CASE sort_by
+        WHEN 'newest' THEN floor(extract(epoch FROM COALESCE(r.published_at, r.created_at)) * 1000)::double precision
+        WHEN 'top_rated' THEN r.average_rating::double precision
+        WHEN 'popular' THEN r.like_count::double precision
+        ELSE f.rank::double precision
+      END AS sort_key
+    FROM filter_recipes(search_query, difficulties, min_total_time, max_total_time, required_tags, author_roles, min_rating, max_calories, min_protein, excluded_allergens, required_labels) f
+    JOIN recipes r ON r.id = f.recipe_id
+  )
+  SELECT r.*
+  FROM keyed k
+  JOIN recipes r ON r.id = k.id
+  WHERE after_id IS NULL
+    OR (k.sort_key, k.created_at, k.id) < (after_key, after_created_at, after_id)
+  ORDER BY k.sort_key DESC, k.created_at DESC, k.id DESC
+  LIMIT result_limit;
+$$;
+
+-- The relevance sort key of one recipe for a search, read when its page is
+-- loaded so the client can continue after it. Same rank as filter_recipes.
+CREATE OR REPLACE FUNCTION recipe_search_rank(search_query TEXT, target_recipe_id UUID)
+RETURNS DOUBLE PRECISION
+LANGUAGE sql STABLE
+AS $$
+  SELECT CASE
+    WHEN COALESCE(trim(search_query), '') = '' THEN 0
+    ELSE ts_rank(r.search_vector, websearch_to_tsquery('english', search_query))::double precision
+  END
+  FROM recipes r
+  WHERE r.id = target_recipe_id;
+$$;
+
+-- Facet counts for the filter panel. Each dimension is counted with its own
+-- filter lifted so the panel can show how many results every option would give.
+DROP FUNCTION IF EXISTS recipe_search_facets(TEXT, TEXT[], INTEGER, INTEGER, TEXT[], TEXT[], NUMERIC);
+DROP FUNCTION IF EXISTS recipe_search_facets(TEXT, TEXT[], INTEGER, INTEGER, TEXT[], TEXT[], NUMERIC, NUMERIC, NUMERIC);
+CREATE OR REPLACE FUNCTION recipe_search_facets(
+  search_query TEXT DEFAULT NULL,
+  difficulties TEXT[] DEFAULT NULL,
+  min_total_time INTEGER DEFAULT NULL,
+  max_total_time INTEGER DEFAULT NULL,
+  required_tags TEXT[] DEFAULT NULL,
+  author_roles TEXT[] DEFAULT NULL,
+  min_rating NUMERIC DEFAULT NULL,
+  max_calories NUMERIC DEFAULT NULL,
+  min_protein NUMERIC DEFAULT NULL,
+  excluded_allergens TEXT[] DEFAULT NULL,
+  required_labels TEXT[] DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE sql STABLE
+AS $$
+  SELECT jsonb_build_object(
+    'total', (
+      SELECT COUNT(*) FROM filter_recipes(search_query, difficulties, min_total_time, max_total_time, required_tags, author_roles, min_rating, max_calories, min_protein, excluded_allergens, required_labels)
+    ),
+    'difficulty', (
+      SELECT COALESCE(jsonb_object_agg(difficulty, total), '{}'::jsonb)
+      FROM (
+        SELECT r.difficulty::text AS difficulty, COUNT(*) AS total
+        FROM filter_recipes(search_query, NULL, min_total_time, max_total_time, required_tags, author_roles, min_rating, max_calories, min_protein, excluded_allergens, required_labels) f
+        JOIN recipes r ON r.id = f.recipe_id
+        GROUP BY r.difficulty
+      ) d
+    ),
+    'time', (
+      SELECT jsonb_build_object(
+        'under_30', COUNT(*) FILTER (WHERE total_time < 30),
+        '30_60', COUNT(*) FILTER (WHERE total_time >= 30 AND total_time < 60),
+        '60_120', COUNT(*) FILTER (WHERE total_time >= 60 AND total_time < 120),
+        'over_120', COUNT(*) FILTER (WHERE total_time >= 120)
+      )
+      FROM (
+        SELECT COALESCE(r.prep_time, 0) + COALESCE(r.cook_time, 0) AS total_time
+        FROM filter_recipes(search_query, difficulties, NULL, NULL, required_tags, author_roles, min_rating, max_calories, min_protein, excluded_allergens, required_labels) f
+        JOIN recipes r ON r.id = f.recipe_id
+      ) t
+    ),
+    'tags', (
+      SELECT COALESCE(jsonb_object_agg(tag, total), '{}'::jsonb)
+      FROM (
+        SELECT lower(tag) AS tag, COUNT(*) AS total
+        FROM filter_recipes(search_query, difficulties, min_total_time, max_total_time, required_tags, author_roles, min_rating, max_calories, min_protein, excluded_allergens, required_labels) f
+        JOIN recipes r ON r.id = f.recipe_id
+        CROSS JOIN unnest(r.tags) AS tag
+        GROUP BY lower(tag)
+        ORDER BY COUNT(*) DESC
+        LIMIT 20
+      ) tg
+    ),
+    'author_role', (
+      SELECT COALESCE(jsonb_object_agg(role, total), '{}'::jsonb)
+      FROM (
+        SELECT p.role::text AS role, COUNT(*) AS total
+        FROM filter_recipes(search_query, difficulties, min_total_time, max_total_time, required_tags, NULL, min_rating, max_calories, min_protein, excluded_allergens, required_labels) f
+        JOIN recipes r ON r.id = f.recipe_id
+        JOIN profiles p ON p.id = r.author_id
+        GROUP BY p.role
+      ) ar
+    ),
+    'rating', (
+      SELECT jsonb_build_object(
+        '4', COUNT(*) FILTER (WHERE average_rating >= 4),
+        '3', COUNT(*) FILTER (WHERE average_rating >= 3),
+        '2', COUNT(*) FILTER (WHERE average_rating >= 2)
+      )
+      FROM (
+        SELECT r.average_rating
+        FROM filter_recipes(search_query, difficulties, min_total_time, max_total_time, required_tags, author_roles, NULL, max_calories, min_protein, excluded_allergens, required_labels) f
+        JOIN recipes r ON r.id = f.recipe_id
+      ) rt
+    ),
+    'calories', (
+      SELECT jsonb_build_object(
+        '300', COUNT(*) FILTER (WHERE calories <= 300),
+        '500', COUNT(*) FILTER (WHERE calories <= 500),
+        '800', COUNT(*) FILTER (WHERE calories <= 800)
+      )
+      FROM (
+        SELECT (r.nutrition->'per_serving'->>'calories')::numeric AS calories
+        FROM filter_recipes(search_query, difficulties, min_total_time, max_total_time, required_tags, author_roles, min_rating, NULL, min_protein, excluded_allergens, required_labels) f
+        JOIN recipes r ON r.id = f.recipe_id
+      ) cal
+    ),
+    'protein', (
+      SELECT jsonb_build_object(
+        '15', COUNT(*) FILTER (WHERE protein >= 15),
+        '30', COUNT(*) FILTER (WHERE protein >= 30)
+      )
+      FROM (
+        SELECT (r.nutrition->'per_serving'->>'protein')::numeric AS protein
+        FROM filter_recipes(search_query, difficulties, min_total_time, max_total_time, required_tags, author_roles, min_rating, max_calories, NULL, excluded_allergens, required_labels) f
+        JOIN recipes r ON r.id = f.recipe_id
+      ) pr
+    ),
+    'dietary', (
+      SELECT COALESCE(jsonb_object_agg(label, total), '{}'::jsonb)
+      FROM (
+        SELECT label, COUNT(*) AS total
+        FROM filter_recipes(search_query, difficulties, min_total_time, max_total_time, required_tags, author_roles, min_rating, max_calories, min_protein, excluded_allergens, required_labels) f
+        JOIN recipes r ON r.id = f.recipe_id
+        CROSS JOIN unnest(r.dietary_labels) AS label
+        GROUP BY label
+      ) dl
+    )
+  );
+$$;
+
+-- Recipe revision history
+-- Every save is kept as an immutable snapshot. Rows are only written by the
+-- trigger below, so there are no insert, update or delete policies.
+CREATE TABLE IF NOT EXISTS recipe_revisions (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  recipe_id UUID REFERENCES recipes(id) ON DELETE CASCADE NOT NULL,
+  revision_number INTEGER NOT NULL,
+  editor_id UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  snapshot JSONB NOT NULL,
+  restored_from INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(recipe_id, revision_number)
+);
+
+ALTER TABLE recipe_revisions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view revisions of visible recipes" ON recipe_revisions;
+CREATE POLICY "Users can view revisions of visible recipes" ON recipe_revisions FOR SELECT USING (
+  EXISTS (SELECT 1 FROM recipes WHERE recipes.id = recipe_revisions.recipe_id)
+);
+DROP POLICY IF EXISTS "Instructors can view all revisions" ON recipe_revisions;
+CREATE POLICY "Instructors can view all revisions" ON recipe_revisions FOR SELECT USING (
+  EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role IN ('instructor', 'admin'))
+);
+
+-- Content columns only; bookkeeping, counters and visibility are not versioned
+CREATE OR REPLACE FUNCTION recipe_snapshot(recipe recipes)
+RETURNS JSONB
+LANGUAGE sql IMMUTABLE
+AS $$
+  SELECT to_jsonb(recipe) - ARRAY[
+    'id', 'author_id', 'is_public', 'created_at', 'updated_at', 'search_vector',
+    'like_count', 'rating_count', 'average_rating'
+  ];
+$$;
+
+CREATE OR REPLACE FUNCTION record_recipe_revision()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  next_snapshot JSONB := recipe_snapshot(NEW);
+BEGIN
+  IF TG_OP = 'UPDATE' AND next_snapshot = recipe_snapshot(OLD) THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO recipe_revisions (recipe_id, revision_number, editor_id, snapshot, restored_from)
+  SELECT
+    NEW.id,
+    COALESCE(MAX(revision_number), 0) + 1,
+    COALESCE(auth.uid(), NEW.author_id),
+    next_snapshot,
+    NULLIF(current_setting('acwhisk.restored_from', true), '')::INTEGER
+  FROM recipe_revisions
+  WHERE recipe_id = NEW.id;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS record_recipe_revision ON recipes;
+CREATE TRIGGER record_recipe_revision AFTER INSERT OR UPDATE ON recipes FOR EACH ROW WHEN (pg_trigger_depth() < 1) EXECUTE FUNCTION record_recipe_revision();
+
+-- Existing recipes start their history from their current content
+INSERT INTO recipe_revisions (recipe_id, revision_number, editor_id, snapshot, created_at)
+SELECT r.id, 1, r.author_id, recipe_snapshot(r), COALESCE(r.updated_at, r.created_at)
+FROM recipes r
+WHERE NOT EXISTS (SELECT 1 FROM recipe_revisions rv WHERE rv.recipe_id = r.id);
+
+-- Copies a revision back onto its recipe. Runs with the caller's rights, so
+-- only the author can restore, and the update records a new revision that
+-- points at the one it was restored from.
+CREATE OR REPLACE FUNCTION restore_recipe_revision(target_revision_id UUID)
+RETURNS SETOF recipes
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  revision recipe_revisions%ROWTYPE;
+BEGIN
+  SELECT * INTO revision FROM recipe_revisions WHERE id = target_revision_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Revision not found';
+  END IF;
+
+  PERFORM set_config('acwhisk.restored_from', revision.revision_number::text, true);
+
+  RETURN QUERY
+  UPDATE recipes r SET
+    title = s.title,
+    description = s.description,
+    ingredients = s.ingredients,
+    instructions = s.instructions,
+    prep_time = s.prep_time,
+    cook_time = s.cook_time,
+    difficulty = s.difficulty,
+    servings = s.servings,
+    image_url = s.image_url,
+    image_urls = s.image_urls,
+    tags = s.tags
+  FROM jsonb_populate_record(NULL::recipes, revision.snapshot) s
+  WHERE r.id = revision.recipe_id
+  RETURNING r.*;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only the recipe author can restore a revision';
+  END IF;
+
+  PERFORM set_config('acwhisk.restored_from', '', true);
+END;
+$$;
+
+-- Recipe remixes
+-- A remix links to the recipe it was adapted from. The link is cleared rather
+-- than cascading when the original is deleted.
+ALTER TABLE recipes ADD COLUMN IF NOT EXISTS forked_from UUID REFERENCES recipes(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS recipes_forked_from_idx ON recipes(forked_from);
+
+ALTER TYPE activity_type ADD VALUE IF NOT EXISTS 'recipe_remixed';
+
+-- Tell the original author about a remix. Runs as definer because activities
+-- can otherwise only be written for yourself.
+CREATE OR REPLACE FUNCTION notify_recipe_remixed()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  original recipes%ROWTYPE;
+  remixer_name TEXT;
+BEGIN
+  SELECT * INTO original FROM recipes WHERE id = NEW.forked_from;
+  IF NOT FOUND OR original.author_id = NEW.author_id THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT name INTO remixer_name FROM profiles WHERE id = NEW.author_id;
+
+  INSERT INTO activities (user_id, type, description, metadata)
+  VALUES (
+    original.author_id,
+    'recipe_remixed',
+    COALESCE(remixer_name, 'Someone') || ' remixed your recipe "' || original.title || '"',
+    jsonb_build_object('recipe_id', NEW.id, 'forked_from', original.id)
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS notify_recipe_remixed ON recipes;
+CREATE TRIGGER notify_recipe_remixed AFTER INSERT ON recipes FOR EACH ROW WHEN (NEW.forked_from IS NOT NULL) EXECUTE FUNCTION notify_recipe_remixed();
+
+-- Ancestors of a recipe, nearest first. Runs with the caller's rights, so the
+-- chain stops at the first recipe the caller cannot see.
+CREATE OR REPLACE FUNCTION recipe_lineage(target_recipe_id UUID)
+RETURNS TABLE (recipe_id UUID, title TEXT, author_id UUID, author_name TEXT, depth INTEGER)
+LANGUAGE sql STABLE
+AS $$
+  WITH RECURSIVE chain AS (
+    SELECT r.forked_from AS id, 1 AS depth FROM recipes r WHERE r.id = target_recipe_id
+    UNION ALL
+    SELECT r.forked_from, chain.depth + 1
+    FROM chain
+    JOIN recipes r ON r.id = chain.id
+    WHERE chain.depth < 20
+  )
+  SELECT r.id, r.title, r.author_id, p.name, chain.depth
+  FROM chain
+  JOIN recipes r ON r.id = chain.id
+  LEFT JOIN profiles p ON p.id = r.author_id
+  ORDER BY chain.depth;
+$$;
+
+-- Recipe collections
+-- Ordered, annotated lists of recipes. Members can always view a collection;
+-- on a collaborative collection they can also add, remove, reorder and
+-- annotate its entries.
+CREATE TABLE IF NOT EXISTS recipe_collections (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  owner_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  title TEXT NOT NULL,
+  description TEXT,
+  visibility TEXT DEFAULT 'private' NOT NULL CHECK (visibility IN ('private', 'public')),
+  is_collaborative BOOLEAN DEFAULT false NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS collection_recipes (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  collection_id UUID REFERENCES recipe_collections(id) ON DELETE CASCADE NOT NULL,
+  recipe_id UUID REFERENCES recipes(id) ON DELETE CASCADE NOT NULL,
+  position INTEGER,
+  note TEXT,
+  added_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(collection_id, recipe_id)
+);
+
+CREATE TABLE IF NOT EXISTS collection_members (
+  collection_id UUID REFERENCES recipe_collections(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (collection_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS collection_recipes_collection_idx ON collection_recipes(collection_id, position);
+CREATE INDEX IF NOT EXISTS collection_members_user_idx ON collection_members(user_id);
+
+DROP TRIGGER IF EXISTS update_recipe_collections_updated_at ON recipe_collections;
+CREATE TRIGGER update_recipe_collections_updated_at BEFORE UPDATE ON recipe_collections FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- New entries go to the end of the collection
+CREATE OR REPLACE FUNCTION set_collection_entry_position()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.position IS NULL THEN
+    SELECT COALESCE(MAX(position), 0) + 1 INTO NEW.position
+    FROM collection_recipes
+    WHERE collection_id = NEW.collection_id;
+  END IF;
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS set_collection_entry_position ON collection_recipes;
+CREATE TRIGGER set_collection_entry_position BEFORE INSERT ON collection_recipes FOR EACH ROW EXECUTE FUNCTION set_collection_entry_position();
+
+-- Access checks run as definer so the policies on the three tables can refer
+-- to each other without recursing
+CREATE OR REPLACE FUNCTION can_view_collection(target_collection_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM recipe_collections c
+    WHERE c.id = target_collection_id
+      AND (
+        c.visibility = 'public' OR
+        c.owner_id = auth.uid() OR
+        EXISTS (SELECT 1 FROM collection_members m WHERE m.collection_id = c.id AND m.user_id = auth.uid())
+      )
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION can_edit_collection(target_collection_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM recipe_collections c
+    WHERE c.id = target_collection_id
+      AND (
+        c.owner_id = auth.uid() OR
+        (c.is_collaborative AND EXISTS (
+          SELECT 1 FROM collection_members m WHERE m.collection_id = c.id AND m.user_id = auth.uid()
+        ))
+      )
+  );
+$$;
+
+ALTER TABLE recipe_collections ENABLE ROW LEVEL SECURITY;
+ALTER TABLE collection_recipes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE collection_members ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view accessible collections" ON recipe_collections;
+CREATE POLICY "Users can view accessible collections" ON recipe_collections FOR SELECT USING (can_view_collection(id));
+DROP POLICY IF EXISTS "Users can create collections" ON recipe_collections;
+CREATE POLICY "Users can create collections" ON recipe_collections FOR INSERT WITH CHECK (auth.uid() = owner_id);
+DROP POLICY IF EXISTS "Users can update own collections" ON recipe_collections;
+CREATE POLICY "Users can update own collections" ON recipe_collections FOR UPDATE USING (auth.uid() = owner_id);
+DROP POLICY IF EXISTS "Users can delete own collections" ON recipe_collections;
+CREATE POLICY "Users can delete own collections" ON recipe_collections FOR DELETE USING (auth.uid() = owner_id);
+
+DROP POLICY IF EXISTS "Users can view entries of accessible collections" ON collection_recipes;
+CREATE POLICY "Users can view entries of accessible collections" ON collection_recipes FOR SELECT USING (can_view_collection(collection_id));
+DROP POLICY IF EXISTS "Editors can add collection entries" ON collection_recipes;
+CREATE POLICY "Editors can add collection entries" ON collection_recipes FOR INSERT WITH CHECK (
+  auth.uid() = added_by AND can_edit_collection(collection_id)
+);
+DROP POLICY IF EXISTS "Editors can update collection entries" ON collection_recipes;
+CREATE POLICY "Editors can update collection entries" ON collection_recipes FOR UPDATE USING (can_edit_collection(collection_id));
+DROP POLICY IF EXISTS "Editors can remove collection entries" ON collection_recipes;
+CREATE POLICY "Editors can remove collection entries" ON collection_recipes FOR DELETE USING (can_edit_collection(collection_id));
+
+DROP POLICY IF EXISTS "Users can view members of accessible collections" ON collection_members;
+CREATE POLICY "Users can view members of accessible collections" ON collection_members FOR SELECT USING (can_view_collection(collection_id));
+DROP POLICY IF EXISTS "Owners can add collection members" ON collection_members;
+CREATE POLICY "Owners can add collection members" ON collection_members FOR INSERT WITH CHECK (
+  EXISTS (SELECT 1 FROM recipe_collections WHERE id = collection_id AND owner_id = auth.uid())
+);
+DROP POLICY IF EXISTS "Owners and members can remove members" ON collection_members;
+CREATE POLICY "Owners and members can remove members" ON collection_members FOR DELETE USING (
+  auth.uid() = user_id OR
+  EXISTS (SELECT 1 FROM recipe_collections WHERE id = collection_id AND owner_id = auth.uid())
+);
+
+-- Save a new order in one statement; recipe_ids lists the whole collection
+CREATE OR REPLACE FUNCTION reorder_collection(target_collection_id UUID, recipe_ids UUID[])
+RETURNS VOID
+LANGUAGE sql
+AS $$
+  UPDATE collection_recipes cr
+  SET position = ordered.position
+  FROM unnest(recipe_ids) WITH ORDINALITY AS ordered(recipe_id, position)
+  WHERE cr.collection_id = target_collection_id
+    AND cr.recipe_id = ordered.recipe_id;
+$$;
+
+-- Recipe lifecycle
+-- status drives visibility: draft and private recipes are only visible to
+-- their author, unlisted ones to anyone holding the link, published ones
+-- everywhere, and scheduled ones go live at publish_at. is_public is kept in
+-- sync as "status = published" so feeds, search and older clients keep working.
+ALTER TABLE recipes ADD COLUMN IF NOT EXISTS status TEXT CHECK (status IN ('draft', 'private', 'unlisted', 'published', 'scheduled'));
+ALTER TABLE recipes ADD COLUMN IF NOT EXISTS publish_at TIMESTAMP WITH TIME ZONE;
+
+CREATE OR REPLACE FUNCTION sync_recipe_status()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Clients that only know about is_public still get a matching status
+  IF NEW.status IS NULL OR (TG_OP = 'UPDATE' AND NEW.status = OLD.status AND NEW.is_public IS DISTINCT FROM OLD.is_public) THEN
+    NEW.status := CASE WHEN NEW.is_public THEN 'published' ELSE 'private' END;
+  END IF;
+
+  IF NEW.status = 'scheduled' AND NEW.publish_at IS NULL THEN
+    RAISE EXCEPTION 'Scheduled recipes need a publish time';
+  END IF;
+  IF NEW.status <> 'scheduled' THEN
+    NEW.publish_at := NULL;
+  END IF;
+
+  NEW.is_public := NEW.status = 'published';
+  IF NEW.is_public AND NEW.published_at IS NULL THEN
+    NEW.published_at := NOW();
+  END IF;
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS sync_recipe_status ON recipes;
+CREATE TRIGGER sync_recipe_status BEFORE INSERT OR UPDATE ON recipes FOR EACH ROW EXECUTE FUNCTION sync_recipe_status();
+
+-- Existing recipes keep their visibility; unpublished remixes become drafts
+ALTER TABLE recipes DISABLE TRIGGER USER;
+UPDATE recipes SET
+  status = CASE
+    WHEN is_public THEN 'published'
+    WHEN forked_from IS NOT NULL THEN 'draft'
+    ELSE 'private'
+  END,
+  published_at = CASE WHEN is_public THEN COALESCE(published_at, created_at) END
+WHERE status IS NULL;
+ALTER TABLE recipes ENABLE TRIGGER USER;
+
+ALTER TABLE recipes ALTER COLUMN status SET NOT NULL;
+CREATE INDEX IF NOT EXISTS recipes_author_status_idx ON recipes(author_id, status);
+CREATE INDEX IF NOT EXISTS recipes_scheduled_idx ON recipes(publish_at) WHERE status = 'scheduled';
+
+-- Unlisted recipes have no read policy, so they can't be listed through the
+-- API; get_recipe opens one by id for anyone holding the link. Their
+-- revisions and comments stay with the author.
+DROP POLICY IF EXISTS "Anyone can view unlisted recipes" ON recipes;
+
+CREATE OR REPLACE FUNCTION get_recipe(target_recipe_id UUID)
+RETURNS SETOF recipes
+LANGUAGE sql STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT * FROM recipes
+  WHERE id = target_recipe_id
+    AND (is_public = true OR status = 'unlisted' OR author_id = auth.uid());
+$$;
+
+GRANT EXECUTE ON FUNCTION get_recipe(UUID) TO anon, authenticated;
+
+-- Lifecycle columns are not content, so changing them records no revision
+CREATE OR REPLACE FUNCTION recipe_snapshot(recipe recipes)
+RETURNS JSONB
+LANGUAGE sql IMMUTABLE
+AS $$
+  SELECT to_jsonb(recipe) - ARRAY[
+    'id', 'author_id', 'is_public', 'created_at', 'updated_at', 'search_vector',
+    'like_count', 'rating_count', 'average_rating',
+    'status', 'publish_at', 'published_at'
+  ];
+$$;
+
+-- Autosaved drafts don't build up history; it starts with the first save
+-- outside the draft state
+CREATE OR REPLACE FUNCTION record_recipe_revision()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  next_snapshot JSONB := recipe_snapshot(NEW);
+BEGIN
+  IF NEW.status = 'draft' THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND next_snapshot = recipe_snapshot(OLD)
+    AND EXISTS (SELECT 1 FROM recipe_revisions WHERE recipe_id = NEW.id) THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO recipe_revisions (recipe_id, revision_number, editor_id, snapshot, restored_from)
+  SELECT
+    NEW.id,
+    COALESCE(MAX(revision_number), 0) + 1,
+    COALESCE(auth.uid(), NEW.author_id),
+    next_snapshot,
+    NULLIF(current_setting('acwhisk.restored_from', true), '')::INTEGER
+  FROM recipe_revisions
+  WHERE recipe_id = NEW.id;
+
+  RETURN NULL;
+END;
+$$;
+
+-- Publishes every scheduled recipe that is due. Called by the edge function's
+-- scheduler endpoint with the service role; returns the recipes it published.
+CREATE OR REPLACE FUNCTION publish_scheduled_recipes()
+RETURNS TABLE (recipe_id UUID, author_id UUID, title TEXT)
+LANGUAGE sql
+SECURITY DEFINER SET search_path = public
+AS $$
+  UPDATE recipes r SET status = 'published'
+  WHERE r.status = 'scheduled' AND r.publish_at <= NOW()
+  RETURNING r.id, r.author_id, r.title;
+$$;
+
+REVOKE EXECUTE ON FUNCTION publish_scheduled_recipes() FROM PUBLIC, anon, authenticated;
+
+-- To run the scheduler every minute with pg_cron and pg_net:
+-- SELECT cron.schedule('publish-scheduled-recipes', '* * * * *', $cron$
+--   SELECT net.http_post(
+--     url := 'https://<project-ref>.supabase.co/functions/v1/make-server-cfac176d/recipes/publish-scheduled',
+--     headers := jsonb_build_object('Authorization', 'Bearer <service-role-key>')
+--   );
+-- $cron$);
+
+-- Recipe nutrition
+-- The app estimates calories, macros, fibre and sodium from the structured
+-- ingredients and saves them in recipes.nutrition together with the author's
+-- manual ingredient matches. The column is added next to the search
+-- functions, which filter on it.
+CREATE INDEX IF NOT EXISTS recipes_public_calories_idx ON recipes(((nutrition->'per_serving'->>'calories')::numeric)) WHERE is_public = true;
+
+-- Nutrition follows from the ingredients, so recalculating it records no revision
+CREATE OR REPLACE FUNCTION recipe_snapshot(recipe recipes)
+RETURNS JSONB
+LANGUAGE sql IMMUTABLE
+AS $$
+  SELECT to_jsonb(recipe) - ARRAY[
+    'id', 'author_id', 'is_public', 'created_at', 'updated_at', 'search_vector',
+    'like_count', 'rating_count', 'average_rating',
+    'status', 'publish_at', 'published_at',
+    'nutrition'
+  ];
+$$;
+
+-- Recipe allergens and dietary labels
+-- allergens uses the 14 major allergens, dietary_labels a fixed set of diets.
+-- The app suggests both from the ingredients and the author confirms them.
+-- The columns are added next to the search functions, which filter on them.
+ALTER TABLE recipes DROP CONSTRAINT IF EXISTS recipes_allergens_check;
+ALTER TABLE recipes ADD CONSTRAINT recipes_allergens_check CHECK (
+  allergens <@ ARRAY['celery', 'gluten', 'crustaceans', 'eggs', 'fish', 'lupin', 'milk', 'molluscs', 'mustard', 'nuts', 'peanuts', 'sesame', 'soy', 'sulphites']
+  AND detected_allergens <@ ARRAY['celery', 'gluten', 'crustaceans', 'eggs', 'fish', 'lupin', 'milk', 'molluscs', 'mustard', 'nuts', 'peanuts', 'sesame', 'soy', 'sulphites']
+);
+ALTER TABLE recipes DROP CONSTRAINT IF EXISTS recipes_dietary_labels_check;
+ALTER TABLE recipes ADD CONSTRAINT recipes_dietary_labels_check CHECK (
+  dietary_labels <@ ARRAY['vegetarian', 'vegan', 'pescatarian', 'gluten_free', 'dairy_free', 'egg_free', 'nut_free', 'halal', 'kosher']
+);
+
+CREATE INDEX IF NOT EXISTS recipes_allergens_idx ON recipes USING GIN(allergens);
+CREATE INDEX IF NOT EXISTS recipes_detected_allergens_idx ON recipes USING GIN(detected_allergens);
+CREATE INDEX IF NOT EXISTS recipes_dietary_labels_idx ON recipes USING GIN(dietary_labels);
+
+-- Free-form tags that name a dietary label, matching the aliases in the app
+CREATE OR REPLACE FUNCTION dietary_label_for_tag(tag TEXT)
+RETURNS TEXT
+LANGUAGE sql IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN lower(trim(tag)) IN ('vegetarian', 'veg', 'veggie', 'vegetarian-friendly', 'meatless', 'meat-free', 'meat free') THEN 'vegetarian'
+    WHEN lower(trim(tag)) IN ('vegan', 'plant-based', 'plant based', 'vegan-friendly') THEN 'vegan'
+    WHEN lower(trim(tag)) IN ('pescatarian', 'pescetarian') THEN 'pescatarian'
+    WHEN lower(trim(tag)) IN ('gluten-free', 'gluten free', 'glutenfree', 'gf', 'coeliac', 'celiac') THEN 'gluten_free'
+    WHEN lower(trim(tag)) IN ('dairy-free', 'dairy free', 'df', 'lactose-free', 'lactose free', 'no dairy') THEN 'dairy_free'
+    WHEN lower(trim(tag)) IN ('egg-free', 'egg free', 'eggless', 'no eggs') THEN 'egg_free'
+    WHEN lower(trim(tag)) IN ('nut-free', 'nut free', 'no nuts') THEN 'nut_free'
+    WHEN lower(trim(tag)) = 'halal' THEN 'halal'
+    WHEN lower(trim(tag)) = 'kosher' THEN 'kosher'
+  END;
+$$;
+
+-- Existing dietary tags become labels and leave the free-form tags
+ALTER TABLE recipes DISABLE TRIGGER USER;
+UPDATE recipes r SET
+  dietary_labels = ARRAY(
+    SELECT DISTINCT label FROM unnest(
+      r.dietary_labels || ARRAY(SELECT dietary_label_for_tag(t) FROM unnest(r.tags) t)
+    ) label
+    WHERE label IS NOT NULL
+  ),
+  tags = ARRAY(SELECT t FROM unnest(r.tags) t WHERE dietary_label_for_tag(t) IS NULL)
+WHERE EXISTS (SELECT 1 FROM unnest(r.tags) t WHERE dietary_label_for_tag(t) IS NOT NULL);
+ALTER TABLE recipes ENABLE TRIGGER USER;
+
+-- Detected allergens follow from the ingredients, so refreshing them records
+-- no revision; the confirmed allergens and labels are part of the content
+CREATE OR REPLACE FUNCTION recipe_snapshot(recipe recipes)
+RETURNS JSONB
+LANGUAGE sql IMMUTABLE
+AS $$
+  SELECT to_jsonb(recipe) - ARRAY[
+    'id', 'author_id', 'is_public', 'created_at', 'updated_at', 'search_vector',
+    'like_count', 'rating_count', 'average_rating',
+    'status', 'publish_at', 'published_at',
+    'nutrition', 'detected_allergens'
+  ];
+$$;
+
+-- Restoring also brings back the labels; revisions saved before labels
+-- existed keep the current ones
+CREATE OR REPLACE FUNCTION restore_recipe_revision(target_revision_id UUID)
+RETURNS SETOF recipes
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  revision recipe_revisions%ROWTYPE;
+BEGIN
+  SELECT * INTO revision FROM recipe_revisions WHERE id = target_revision_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Revision not found';
+  END IF;
+
+  PERFORM set_config('acwhisk.restored_from', revision.revision_number::text, true);
+
+  RETURN QUERY
+  UPDATE recipes r SET
+    title = s.title,
+    description = s.description,
+    ingredients = s.ingredients,
+    instructions = s.instructions,
+    prep_time = s.prep_time,
+    cook_time = s.cook_time,
+    difficulty = s.difficulty,
+    servings = s.servings,
+    image_url = s.image_url,
+    image_urls = s.image_urls,
+    tags = s.tags,
+    allergens = COALESCE(s.allergens, r.allergens),
+    dietary_labels = COALESCE(s.dietary_labels, r.dietary_labels)
+  FROM jsonb_populate_record(NULL::recipes, revision.snapshot) s
+  WHERE r.id = revision.recipe_id
+  RETURNING r.*;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only the recipe author can restore a revision';
+  END IF;
+
+  PERFORM set_config('acwhisk.restored_from', '', true);
+END;
+$$;
+
+-- Ingredient prices for food costing
+-- Rows without an owner form the shared programme price list, which only
+-- instructors and admins maintain; everyone can keep personal prices, which
+-- the app prefers over the shared ones. A price is for quantity x unit as
+-- purchased (unit NULL means per item); yield_percent is the usable share
+-- after trimming.
+CREATE TABLE IF NOT EXISTS ingredient_prices (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  owner_id UUID REFERENCES profiles(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  price NUMERIC(12, 2) NOT NULL CHECK (price >= 0),
+  quantity NUMERIC NOT NULL DEFAULT 1 CHECK (quantity > 0),
+  unit TEXT,
+  yield_percent NUMERIC NOT NULL DEFAULT 100 CHECK (yield_percent > 0 AND yield_percent <= 100),
+  updated_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- One price per ingredient name in each list
+CREATE UNIQUE INDEX IF NOT EXISTS ingredient_prices_name_idx ON ingredient_prices(
+  COALESCE(owner_id, '00000000-0000-0000-0000-000000000000'::uuid), lower(trim(name))
+);
+
+ALTER TABLE ingredient_prices ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view shared and own prices" ON ingredient_prices;
+CREATE POLICY "Users can view shared and own prices" ON ingredient_prices FOR SELECT USING (
+  owner_id IS NULL OR owner_id = auth.uid()
+);
+DROP POLICY IF EXISTS "Users can add prices" ON ingredient_prices;
+CREATE POLICY "Users can add prices" ON ingredient_prices FOR INSERT WITH CHECK (
+  owner_id = auth.uid() OR
+  (owner_id IS NULL AND EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role IN ('instructor', 'admin')))
+);
+DROP POLICY IF EXISTS "Users can update prices" ON ingredient_prices;
+CREATE POLICY "Users can update prices" ON ingredient_prices FOR UPDATE USING (
+  owner_id = auth.uid() OR
+  (owner_id IS NULL AND EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role IN ('instructor', 'admin')))
+);
+DROP POLICY IF EXISTS "Users can delete prices" ON ingredient_prices;
+CREATE POLICY "Users can delete prices" ON ingredient_prices FOR DELETE USING (
+  owner_id = auth.uid() OR
+  (owner_id IS NULL AND EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role IN ('instructor', 'admin')))
+);
+
+DROP TRIGGER IF EXISTS update_ingredient_prices_updated_at ON ingredient_prices;
+CREATE TRIGGER update_ingredient_prices_updated_at BEFORE UPDATE ON ingredient_prices FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Recipe galleries and step media
+-- image_urls holds every photo and video in display order; image_url and
+-- media_type describe the cover. step_media attaches one photo or video to
+-- an instruction step: [{"step": 0, "url": "...", "type": "image"}]
+ALTER TABLE recipes ADD COLUMN IF NOT EXISTS media_type TEXT NOT NULL DEFAULT 'image';
+ALTER TABLE recipes ADD COLUMN IF NOT EXISTS step_media JSONB NOT NULL DEFAULT '[]';
+
+ALTER TABLE recipes DROP CONSTRAINT IF EXISTS recipes_media_type_check;
+ALTER TABLE recipes ADD CONSTRAINT recipes_media_type_check CHECK (media_type IN ('image', 'video'));
+ALTER TABLE recipes DROP CONSTRAINT IF EXISTS recipes_step_media_check;
+ALTER TABLE recipes ADD CONSTRAINT recipes_step_media_check CHECK (jsonb_typeof(step_media) = 'array');
+
+-- Existing covers start their recipe's gallery
+ALTER TABLE recipes DISABLE TRIGGER USER;
+UPDATE recipes SET image_urls = array_prepend(image_url, COALESCE(image_urls, '{}'))
+WHERE image_url IS NOT NULL AND image_url <> ''
+  AND (image_urls IS NULL OR NOT image_url = ANY(image_urls));
+ALTER TABLE recipes ENABLE TRIGGER USER;
+
+-- Restoring also brings back the cover type and step media
+CREATE OR REPLACE FUNCTION restore_recipe_revision(target_revision_id UUID)
+RETURNS SETOF recipes
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  revision recipe_revisions%ROWTYPE;
+BEGIN
+  SELECT * INTO revision FROM recipe_revisions WHERE id = target_revision_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Revision not found';
+  END IF;
+
+  PERFORM set_config('acwhisk.restored_from', revision.revision_number::text, true);
+
+  RETURN QUERY
+  UPDATE recipes r SET
+    title = s.title,
+    description = s.description,
+    ingredients = s.ingredients,
+    instructions = s.instructions,
+    prep_time = s.prep_time,
+    cook_time = s.cook_time,
+    difficulty = s.difficulty,
+    servings = s.servings,
+    image_url = s.image_url,
+    image_urls = s.image_urls,
+    media_type = COALESCE(s.media_type, 'image'),
+    step_media = COALESCE(s.step_media, '[]'::jsonb),
+    tags = s.tags,
+    allergens = COALESCE(s.allergens, r.allergens),
+    dietary_labels = COALESCE(s.dietary_labels, r.dietary_labels)
+  FROM jsonb_populate_record(NULL::recipes, revision.snapshot) s
+  WHERE r.id = revision.recipe_id
+  RETURNING r.*;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only the recipe author can restore a revision';
+  END IF;
+
+  PERFORM set_config('acwhisk.restored_from', '', true);
+END;
+$$;
+
+-- Recipe comments
+-- Threaded discussion on a recipe, separate from the one rating per user.
+-- Anyone who can see the recipe can read and join its thread; authors edit
+-- and delete their own comments, and the recipe author can remove comments
+-- from their recipe. Deleting a comment removes its replies.
+CREATE TABLE IF NOT EXISTS recipe_comments (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  recipe_id UUID REFERENCES recipes(id) ON DELETE CASCADE NOT NULL,
+  author_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  parent_id UUID REFERENCES recipe_comments(id) ON DELETE CASCADE,
+  body TEXT NOT NULL CHECK (char_length(trim(body)) BETWEEN 1 AND 2000),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS recipe_comments_recipe_idx ON recipe_comments(recipe_id, created_at);
+CREATE INDEX IF NOT EXISTS recipe_comments_parent_idx ON recipe_comments(parent_id);
+
+DROP TRIGGER IF EXISTS update_recipe_comments_updated_at ON recipe_comments;
+CREATE TRIGGER update_recipe_comments_updated_at BEFORE UPDATE ON recipe_comments FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Replies stay on their parent's recipe, and edits only change the text
+CREATE OR REPLACE FUNCTION check_recipe_comment()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    NEW.recipe_id := OLD.recipe_id;
+    NEW.author_id := OLD.author_id;
+    NEW.parent_id := OLD.parent_id;
+    NEW.created_at := OLD.created_at;
+  ELSIF NEW.parent_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM recipe_comments WHERE id = NEW.parent_id AND recipe_id = NEW.recipe_id
+  ) THEN
+    RAISE EXCEPTION 'A reply must belong to the same recipe as its comment';
+  END IF;
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS check_recipe_comment ON recipe_comments;
+CREATE TRIGGER check_recipe_comment BEFORE INSERT OR UPDATE ON recipe_comments FOR EACH ROW EXECUTE FUNCTION check_recipe_comment();
+
+ALTER TABLE recipe_comments ENABLE ROW LEVEL SECURITY;
+
+-- The recipes subqueries run with the caller's rights, so a comment is only
+-- visible while its recipe is
+DROP POLICY IF EXISTS "Users can view comments on visible recipes" ON recipe_comments;
+CREATE POLICY "Users can view comments on visible recipes" ON recipe_comments FOR SELECT USING (
+  EXISTS (SELECT 1 FROM recipes r WHERE r.id = recipe_id)
+);
+DROP POLICY IF EXISTS "Users can comment on visible recipes" ON recipe_comments;
+CREATE POLICY "Users can comment on visible recipes" ON recipe_comments FOR INSERT WITH CHECK (
+  auth.uid() = author_id AND EXISTS (SELECT 1 FROM recipes r WHERE r.id = recipe_id)
+);
+DROP POLICY IF EXISTS "Users can update own comments" ON recipe_comments;
+CREATE POLICY "Users can update own comments" ON recipe_comments FOR UPDATE USING (auth.uid() = author_id);
+DROP POLICY IF EXISTS "Users and recipe authors can delete comments" ON recipe_comments;
+CREATE POLICY "Users and recipe authors can delete comments" ON recipe_comments FOR DELETE USING (
+  auth.uid() = author_id OR
+  EXISTS (SELECT 1 FROM recipes r WHERE r.id = recipe_id AND r.author_id = auth.uid())
+);
+
+-- Tell the recipe author about a new comment, and the parent comment's
+-- author about a reply. Runs as definer because activities can otherwise
+-- only be written for yourself.
+CREATE OR REPLACE FUNCTION notify_recipe_comment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  recipe recipes%ROWTYPE;
+  parent_author UUID;
+  commenter_name TEXT;
+BEGIN
+  SELECT * INTO recipe FROM recipes WHERE id = NEW.recipe_id;
+  SELECT name INTO commenter_name FROM profiles WHERE id = NEW.author_id;
+  IF NEW.parent_id IS NOT NULL THEN
+    SELECT author_id INTO parent_author FROM recipe_comments WHERE id = NEW.parent_id;
+  END IF;
+
+  IF recipe.author_id IS DISTINCT FROM NEW.author_id THEN
+    INSERT INTO activities (user_id, type, description, metadata)
+    VALUES (
+      recipe.author_id,
+      'comment_added',
+      COALESCE(commenter_name, 'Someone') || ' commented on your recipe "' || recipe.title || '"',
+      jsonb_build_object('recipe_id', recipe.id, 'comment_id', NEW.id)
+    );
+  END IF;
+
+  IF parent_author IS NOT NULL AND parent_author <> NEW.author_id AND parent_author IS DISTINCT FROM recipe.author_id THEN
+    INSERT INTO activities (user_id, type, description, metadata)
+    VALUES (
+      parent_author,
+      'comment_added',
+      COALESCE(commenter_name, 'Someone') || ' replied to your comment on "' || recipe.title || '"',
+      jsonb_build_object('recipe_id', recipe.id, 'comment_id', NEW.id)
+    );
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS notify_recipe_comment ON recipe_comments;
+CREATE TRIGGER notify_recipe_comment AFTER INSERT ON recipe_comments FOR EACH ROW EXECUTE FUNCTION notify_recipe_comment();
+
+-- Review photos, helpful votes and author responses
+-- A review can carry a photo of the reviewer's attempt. Other users mark
+-- reviews as helpful, one vote each; the recipe author can answer each
+-- review once, and editing the answer replaces it.
+ALTER TABLE recipe_ratings ADD COLUMN IF NOT EXISTS photo_url TEXT;
+
+CREATE TABLE IF NOT EXISTS review_votes (
+  rating_id UUID REFERENCES recipe_ratings(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (rating_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS review_votes_user_idx ON review_votes(user_id);
+
+CREATE TABLE IF NOT EXISTS review_responses (
+  rating_id UUID PRIMARY KEY REFERENCES recipe_ratings(id) ON DELETE CASCADE,
+  author_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  body TEXT NOT NULL CHECK (char_length(trim(body)) BETWEEN 1 AND 1000),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+DROP TRIGGER IF EXISTS update_review_responses_updated_at ON review_responses;
+CREATE TRIGGER update_review_responses_updated_at BEFORE UPDATE ON review_responses FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Whether the current user wrote the recipe a review belongs to
+CREATE OR REPLACE FUNCTION is_review_recipe_author(target_rating_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM recipe_ratings rr
+    JOIN recipes r ON r.id = rr.recipe_id
+    WHERE rr.id = target_rating_id AND r.author_id = auth.uid()
+  );
+$$;
+
+ALTER TABLE review_votes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE review_responses ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view review votes" ON review_votes;
+CREATE POLICY "Anyone can view review votes" ON review_votes FOR SELECT USING (true);
+DROP POLICY IF EXISTS "Users can vote on others' reviews" ON review_votes;
+CREATE POLICY "Users can vote on others' reviews" ON review_votes FOR INSERT WITH CHECK (
+  auth.uid() = user_id AND
+  NOT EXISTS (SELECT 1 FROM recipe_ratings rr WHERE rr.id = rating_id AND rr.user_id = auth.uid())
+);
+DROP POLICY IF EXISTS "Users can remove own review votes" ON review_votes;
+CREATE POLICY "Users can remove own review votes" ON review_votes FOR DELETE USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Anyone can view review responses" ON review_responses;
+CREATE POLICY "Anyone can view review responses" ON review_responses FOR SELECT USING (true);
+DROP POLICY IF EXISTS "Recipe authors can respond to reviews" ON review_responses;
+CREATE POLICY "Recipe authors can respond to reviews" ON review_responses FOR INSERT WITH CHECK (
+  auth.uid() = author_id AND is_review_recipe_author(rating_id)
+);
+DROP POLICY IF EXISTS "Recipe authors can update own responses" ON review_responses;
+CREATE POLICY "Recipe authors can update own responses" ON review_responses FOR UPDATE USING (auth.uid() = author_id);
+DROP POLICY IF EXISTS "Recipe authors can delete own responses" ON review_responses;
+CREATE POLICY "Recipe authors can delete own responses" ON review_responses FOR DELETE USING (auth.uid() = author_id);
+
+-- Tell the reviewer when the author answers. Runs as definer because
+-- activities can otherwise only be written for yourself.
+CREATE OR REPLACE FUNCTION notify_review_response()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  review recipe_ratings%ROWTYPE;
+  recipe_title TEXT;
+BEGIN
+  SELECT * INTO review FROM recipe_ratings WHERE id = NEW.rating_id;
+  IF NOT FOUND OR review.user_id = NEW.author_id THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT title INTO recipe_title FROM recipes WHERE id = review.recipe_id;
+
+  INSERT INTO activities (user_id, type, description, metadata)
+  VALUES (
+    review.user_id,
+    'comment_added',
+    'The author of "' || COALESCE(recipe_title, 'a recipe') || '" responded to your review',
+    jsonb_build_object('recipe_id', review.recipe_id, 'rating_id', review.id)
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS notify_review_response ON review_responses;
+CREATE TRIGGER notify_review_response AFTER INSERT ON review_responses FOR EACH ROW EXECUTE FUNCTION notify_review_response();
+
+-- Shopping lists
+-- Generated from recipes at chosen servings and saved per user, so ticked
+-- items follow the user between devices. sources records the recipes and
+-- servings the list was built from; items holds the merged lines.
+CREATE TABLE IF NOT EXISTS shopping_lists (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  owner_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  title TEXT NOT NULL CHECK (char_length(trim(title)) BETWEEN 1 AND 120),
+  sources JSONB NOT NULL DEFAULT '[]' CHECK (jsonb_typeof(sources) = 'array'),
+  items JSONB NOT NULL DEFAULT '[]' CHECK (jsonb_typeof(items) = 'array'),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS shopping_lists_owner_idx ON shopping_lists(owner_id, updated_at DESC);
+
+DROP TRIGGER IF EXISTS update_shopping_lists_updated_at ON shopping_lists;
+CREATE TRIGGER update_shopping_lists_updated_at BEFORE UPDATE ON shopping_lists FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE shopping_lists ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own shopping lists" ON shopping_lists;
+CREATE POLICY "Users can view own shopping lists" ON shopping_lists FOR SELECT USING (auth.uid() = owner_id);
+DROP POLICY IF EXISTS "Users can create own shopping lists" ON shopping_lists;
+CREATE POLICY "Users can create own shopping lists" ON shopping_lists FOR INSERT WITH CHECK (auth.uid() = owner_id);
+DROP POLICY IF EXISTS "Users can update own shopping lists" ON shopping_lists;
+CREATE POLICY "Users can update own shopping lists" ON shopping_lists FOR UPDATE USING (auth.uid() = owner_id);
+DROP POLICY IF EXISTS "Users can delete own shopping lists" ON shopping_lists;
+CREATE POLICY "Users can delete own shopping lists" ON shopping_lists FOR DELETE USING (auth.uid() = owner_id);
+
+-- Meal plans
+-- Recipes placed in breakfast, lunch and dinner slots on a calendar day.
+-- plan_date is the user's local date; servings is how much to cook and
+-- feeds shopping lists built from the plan.
+CREATE TABLE IF NOT EXISTS meal_plan_entries (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  owner_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  plan_date DATE NOT NULL,
+  slot TEXT NOT NULL CHECK (slot IN ('breakfast', 'lunch', 'dinner')),
+  recipe_id UUID REFERENCES recipes(id) ON DELETE CASCADE NOT NULL,
+  servings INTEGER NOT NULL DEFAULT 1 CHECK (servings BETWEEN 1 AND 100),
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS meal_plan_entries_owner_date_idx ON meal_plan_entries(owner_id, plan_date);
+
+ALTER TABLE meal_plan_entries ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own meal plan" ON meal_plan_entries;
+CREATE POLICY "Users can view own meal plan" ON meal_plan_entries FOR SELECT USING (auth.uid() = owner_id);
+-- Only recipes the user can see may be planned
+DROP POLICY IF EXISTS "Users can add to own meal plan" ON meal_plan_entries;
+CREATE POLICY "Users can add to own meal plan" ON meal_plan_entries FOR INSERT WITH CHECK (
+  auth.uid() = owner_id AND EXISTS (SELECT 1 FROM recipes r WHERE r.id = recipe_id)
+);
+DROP POLICY IF EXISTS "Users can update own meal plan" ON meal_plan_entries;
+CREATE POLICY "Users can update own meal plan" ON meal_plan_entries FOR UPDATE USING (auth.uid() = owner_id) WITH CHECK (auth.uid() = owner_id);
+DROP POLICY IF EXISTS "Users can delete from own meal plan" ON meal_plan_entries;
+CREATE POLICY "Users can delete from own meal plan" ON meal_plan_entries FOR DELETE USING (auth.uid() = owner_id);
+
+-- Pantry
+-- Ingredients each user has on hand, with an optional amount and expiry
+-- date. Recipes are matched against item names in the browser.
+CREATE TABLE IF NOT EXISTS pantry_items (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  owner_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL CHECK (char_length(trim(name)) BETWEEN 1 AND 100),
+  quantity NUMERIC CHECK (quantity IS NULL OR quantity > 0),
+  unit TEXT,
+  expires_on DATE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS pantry_items_owner_idx ON pantry_items(owner_id, expires_on);
+
+DROP TRIGGER IF EXISTS update_pantry_items_updated_at ON pantry_items;
+CREATE TRIGGER update_pantry_items_updated_at BEFORE UPDATE ON pantry_items FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE pantry_items ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own pantry" ON pantry_items;
+CREATE POLICY "Users can view own pantry" ON pantry_items FOR SELECT USING (auth.uid() = owner_id);
+DROP POLICY IF EXISTS "Users can add to own pantry" ON pantry_items;
+CREATE POLICY "Users can add to own pantry" ON pantry_items FOR INSERT WITH CHECK (auth.uid() = owner_id);
+DROP POLICY IF EXISTS "Users can update own pantry" ON pantry_items;
+CREATE POLICY "Users can update own pantry" ON pantry_items FOR UPDATE USING (auth.uid() = owner_id) WITH CHECK (auth.uid() = owner_id);
+DROP POLICY IF EXISTS "Users can delete from own pantry" ON pantry_items;
+CREATE POLICY "Users can delete from own pantry" ON pantry_items FOR DELETE USING (auth.uid() = owner_id);
+
+-- The best covered public recipes that use at least one pantry item, so the
+-- finder never downloads the whole catalogue. Pantry keys match whole words
+-- of an ingredient, plurals included; basics only match an ingredient named
+-- exactly that. Ties go to the recipe with fewer things to buy.
+CREATE OR REPLACE FUNCTION find_pantry_recipes(
+  pantry_keys TEXT[],
+  basic_keys TEXT[] DEFAULT '{}',
+  result_limit INTEGER DEFAULT 30
+)
+RETURNS TABLE (recipe_id UUID, have_count INTEGER, ingredient_count INTEGER)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH patterns AS (
+    -- Keys are matched as words, with regex metacharacters escaped
+    SELECT '\m' || regexp_replace(lower(trim(key)), '([.^$*+?()\[\]{}|\\])', '\\\1', 'g') || '(e?s)?\M' AS pattern
+    FROM unnest(pantry_keys) AS key
+    WHERE trim(key) <> ''
+  ),
+  lines AS (
+    SELECT DISTINCT
+      r.id,
+      lower(trim(CASE WHEN jsonb_typeof(entry) = 'string' THEN entry #>> '{}' ELSE entry->>'item' END)) AS item
+    FROM recipes r
+    CROSS JOIN LATERAL jsonb_array_elements(
+      CASE WHEN jsonb_typeof(r.ingredients) = 'array' THEN r.ingredients ELSE '[]'::jsonb END
+    ) AS entry
+    WHERE r.is_public = true
+  ),
+  matched AS (
+    SELECT l.id, l.item, EXISTS (SELECT 1 FROM patterns p WHERE l.item ~ p.pattern) AS in_pantry
+    FROM lines l
+    WHERE COALESCE(l.item, '') <> ''
+  ),
+  scored AS (
+    SELECT
+      id,
+      (COUNT(*) FILTER (WHERE in_pantry OR item = ANY(basic_keys)))::INTEGER AS have_count,
+      COUNT(*)::INTEGER AS ingredient_count
+    FROM matched
+    GROUP BY id
+    HAVING bool_or(in_pantry)
+  )
+  SELECT id, have_count, ingredient_count
+  FROM scored
+  ORDER BY have_count::FLOAT / ingredient_count DESC, ingredient_count - have_count, id
+  LIMIT LEAST(GREATEST(result_limit, 1), 100);
+$$;
+
+GRANT EXECUTE ON FUNCTION find_pantry_recipes(TEXT[], TEXT[], INTEGER) TO authenticated;
+
+-- Ingredient substitutions
+-- A shared knowledge base of swaps. ingredient is the normalized name being
+-- replaced (lower case, singular, e.g. 'egg'). ratio is how much substitute
+-- to use for one of the original: with unit NULL it multiplies the original
+-- amount in the original unit; with a unit it is the amount per one counted
+-- original (1 egg -> 0.25 cup applesauce). context limits where the swap
+-- works and dietary lists the labels it helps a recipe meet.
+CREATE TABLE IF NOT EXISTS ingredient_substitutions (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  ingredient TEXT NOT NULL CHECK (ingredient = lower(trim(ingredient)) AND char_length(ingredient) > 0),
+  substitute TEXT NOT NULL CHECK (char_length(trim(substitute)) > 0),
+  ratio NUMERIC NOT NULL DEFAULT 1 CHECK (ratio > 0),
+  unit TEXT,
+  context TEXT NOT NULL DEFAULT 'any' CHECK (context IN ('any', 'baking', 'cooking', 'sauce', 'raw')),
+  dietary TEXT[] NOT NULL DEFAULT '{}',
+  notes TEXT,
+  created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (ingredient, substitute, context)
+);
+
+CREATE INDEX IF NOT EXISTS ingredient_substitutions_ingredient_idx ON ingredient_substitutions(ingredient);
+
+ALTER TABLE ingredient_substitutions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view substitutions" ON ingredient_substitutions;
+CREATE POLICY "Anyone can view substitutions" ON ingredient_substitutions FOR SELECT USING (true);
+DROP POLICY IF EXISTS "Instructors can manage substitutions" ON ingredient_substitutions;
+CREATE POLICY "Instructors can manage substitutions" ON ingredient_substitutions FOR ALL USING (
+  EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role IN ('instructor', 'admin'))
+) WITH CHECK (
+  EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role IN ('instructor', 'admin'))
+);
+
+-- Swaps for an ingredient line, matched on whole words (plurals included)
+-- so 'butter' covers 'unsalted butter' but not 'buttermilk', and 'egg'
+-- covers 'eggs'. Only the most specific match is
+-- used, so 'chicken stock' gets stock swaps rather than ones for chicken.
+-- Swaps for the given context come before general ones.
+CREATE OR REPLACE FUNCTION find_substitutions(
+  ingredient_name TEXT,
+  target_context TEXT DEFAULT NULL,
+  target_dietary TEXT DEFAULT NULL
+)
+RETURNS SETOF ingredient_substitutions
+LANGUAGE sql
+STABLE
+AS $$
+  WITH matched AS (
+    SELECT s.*
+    FROM ingredient_substitutions s
+    -- Entries are matched as words, with regex metacharacters escaped
+    WHERE lower(trim(ingredient_name)) ~ ('(^|\s)' || regexp_replace(s.ingredient, '([.^$*+?()\[\]{}|\\])', '\\\1', 'g') || '(e?s)?(\s|$)')
+      AND lower(s.substitute) <> lower(trim(ingredient_name))
+  )
+  SELECT m.*
+  FROM matched m
+  WHERE m.ingredient = (SELECT ingredient FROM matched ORDER BY length(ingredient) DESC LIMIT 1)
+    AND (target_context IS NULL OR m.context IN ('any', target_context))
+    AND (target_dietary IS NULL OR target_dietary = ANY (m.dietary))
+  ORDER BY m.context = 'any', m.substitute
+  LIMIT 20;
+$$;
+
+GRANT EXECUTE ON FUNCTION find_substitutions(TEXT, TEXT, TEXT) TO anon, authenticated;
+
+INSERT INTO ingredient_substitutions (ingredient, substitute, ratio, unit, context, dietary, notes) VALUES
+  ('butter', 'coconut oil', 1, NULL, 'baking', '{dairy_free,vegan}', 'Use solid coconut oil where butter is creamed.'),
+  ('butter', 'unsweetened applesauce', 0.5, NULL, 'baking', '{dairy_free,vegan}', 'Cuts the fat; cakes and muffins come out denser and moister.'),
+  ('butter', 'olive oil', 0.75, NULL, 'cooking', '{dairy_free,vegan}', NULL),
+  ('butter', 'vegan butter', 1, NULL, 'any', '{dairy_free,vegan}', NULL),
+  ('egg', 'flax egg', 1, NULL, 'baking', '{egg_free,vegan}', 'Each flax egg is 1 tbsp ground flaxseed stirred into 3 tbsp water and left for 5 minutes. Best in muffins, cookies and quick breads.'),
+  ('egg', 'unsweetened applesauce', 0.25, 'cup', 'baking', '{egg_free,vegan}', 'Adds moisture but no lift; add 1/4 tsp baking powder per egg replaced.'),
+  ('egg', 'mashed banana', 0.25, 'cup', 'baking', '{egg_free,vegan}', 'Banana flavour will come through.'),
+  ('egg', 'aquafaba', 3, 'tbsp', 'baking', '{egg_free,vegan}', 'The liquid from a can of chickpeas; whips like egg white.'),
+  ('egg white', 'aquafaba', 2, 'tbsp', 'any', '{egg_free,vegan}', NULL),
+  ('milk', 'oat milk', 1, NULL, 'any', '{dairy_free,vegan,nut_free}', NULL),
+  ('milk', 'soy milk', 1, NULL, 'any', '{dairy_free,vegan,nut_free}', 'Closest to dairy milk in protein, so sauces still thicken.'),
+  ('buttermilk', 'milk with lemon juice', 1, NULL, 'baking', '{}', 'Stir 1 tbsp lemon juice or white vinegar into each cup of milk and leave for 5 minutes.'),
+  ('buttermilk', 'plant milk with lemon juice', 1, NULL, 'baking', '{dairy_free,vegan}', 'Stir 1 tbsp lemon juice into each cup of soy or oat milk and leave for 5 minutes.'),
+  ('heavy cream', 'milk and melted butter', 1, NULL, 'any', '{}', 'Three parts milk to one part melted butter. Works in sauces and baking but will not whip.'),
+  ('heavy cream', 'full-fat coconut milk', 1, NULL, 'sauce', '{dairy_free,vegan}', NULL),
+  ('double cream', 'full-fat coconut milk', 1, NULL, 'sauce', '{dairy_free,vegan}', NULL),
+  ('sour cream', 'greek yogurt', 1, NULL, 'any', '{}', 'Stir into hot dishes off the heat so it does not split.'),
+  ('greek yogurt', 'coconut yogurt', 1, NULL, 'any', '{dairy_free,vegan}', NULL),
+  ('parmesan', 'nutritional yeast', 0.5, NULL, 'any', '{dairy_free,vegan}', 'Gives the savoury flavour but not the melt.'),
+  ('flour', 'gluten-free flour blend', 1, NULL, 'baking', '{gluten_free}', 'Choose a blend with xanthan gum, or add 1/2 tsp per cup for cakes.'),
+  ('flour', 'cornstarch', 0.5, NULL, 'sauce', '{gluten_free}', 'Mix with cold water before adding to hot liquid.'),
+  ('self-raising flour', 'plain flour and baking powder', 1, NULL, 'baking', '{}', 'Add 2 tsp baking powder to every 150 g (1 cup) of plain flour.'),
+  ('cornstarch', 'plain flour', 2, NULL, 'sauce', '{}', 'Simmer a few minutes longer to cook out the raw flour taste.'),
+  ('cornstarch', 'arrowroot', 1, NULL, 'sauce', '{gluten_free}', 'Add at the end of cooking; it thins if boiled for long.'),
+  ('breadcrumb', 'crushed rolled oats', 1, NULL, 'any', '{gluten_free}', 'Use oats labelled gluten-free if that matters.'),
+  ('soy sauce', 'tamari', 1, NULL, 'any', '{gluten_free}', NULL),
+  ('soy sauce', 'coconut aminos', 1, NULL, 'any', '{gluten_free}', 'Sweeter and less salty; season to taste.'),
+  ('fish sauce', 'soy sauce', 1, NULL, 'any', '{vegetarian,vegan}', 'Add a squeeze of lime for the missing brightness.'),
+  ('honey', 'maple syrup', 1, NULL, 'any', '{vegan}', NULL),
+  ('sugar', 'honey', 0.75, NULL, 'baking', '{}', 'Reduce the other liquid by 1/4 and the oven by 15 °C; honey browns faster.'),
+  ('brown sugar', 'white sugar and molasses', 1, NULL, 'baking', '{}', 'Add 1 tbsp molasses per cup of white sugar.'),
+  ('baking powder', 'baking soda and cream of tartar', 0.75, NULL, 'baking', '{}', 'One part baking soda to two parts cream of tartar.'),
+  ('baking soda', 'baking powder', 3, NULL, 'baking', '{}', 'Leaves a slightly more bitter taste; reduce salt a little.'),
+  ('garlic', 'garlic powder', 0.125, 'tsp', 'any', '{}', 'Per clove of fresh garlic.'),
+  ('lemon juice', 'lime juice', 1, NULL, 'any', '{}', NULL),
+  ('lemon juice', 'white wine vinegar', 0.5, NULL, 'any', '{}', 'Sharper than lemon; taste as you go.'),
+  ('white wine', 'vegetable stock', 1, NULL, 'cooking', '{halal}', 'Add 1 tsp white wine vinegar per cup for acidity.'),
+  ('red wine', 'beef stock', 1, NULL, 'cooking', '{halal}', 'Add 1 tbsp red wine vinegar per cup for acidity.'),
+  ('chicken stock', 'vegetable stock', 1, NULL, 'any', '{vegetarian,vegan}', NULL),
+  ('beef stock', 'mushroom stock', 1, NULL, 'any', '{vegetarian,vegan}', NULL),
+  ('ground beef', 'cooked brown lentils', 1, NULL, 'cooking', '{vegetarian,vegan}', 'Works in ragù, chilli and tacos; add a little soy sauce for depth.'),
+  ('chicken', 'firm tofu', 1, NULL, 'cooking', '{vegetarian,vegan}', 'Press the tofu for 15 minutes before cooking so it browns.'),
+  ('gelatin', 'agar agar powder', 0.33, NULL, 'any', '{vegetarian,vegan,halal}', 'Agar must boil for a minute to set, and sets firmer.'),
+  ('peanut butter', 'sunflower seed butter', 1, NULL, 'any', '{nut_free}', 'May turn green in baking with baking soda; harmless.'),
+  ('almond flour', 'sunflower seed flour', 1, NULL, 'baking', '{nut_free}', NULL),
+  ('almond milk', 'oat milk', 1, NULL, 'any', '{nut_free,dairy_free,vegan}', NULL),
+  ('mayonnaise', 'greek yogurt', 1, NULL, 'raw', '{egg_free}', 'Tangier; loosen with a little olive oil for dressings.')
+ON CONFLICT (ingredient, substitute, context) DO NOTHING;
+
+-- Baker's formulas
+-- formula marks a recipe whose ingredients are weighed and shown as baker's
+-- percentages: {"base": ["bread flour"], "piece_weight": 80}. An empty base
+-- means every flour; piece_weight is in grams. NULL for ordinary recipes.
+ALTER TABLE recipes ADD COLUMN IF NOT EXISTS formula JSONB;
+
+ALTER TABLE recipes DROP CONSTRAINT IF EXISTS recipes_formula_check;
+ALTER TABLE recipes ADD CONSTRAINT recipes_formula_check CHECK (formula IS NULL OR jsonb_typeof(formula) = 'object');
+
+-- Restoring also brings back the formula settings
+CREATE OR REPLACE FUNCTION restore_recipe_revision(target_revision_id UUID)
+RETURNS SETOF recipes
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  revision recipe_revisions%ROWTYPE;
+BEGIN
+  SELECT * INTO revision FROM recipe_revisions WHERE id = target_revision_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Revision not found';
+  END IF;
+
+  PERFORM set_config('acwhisk.restored_from', revision.revision_number::text, true);
+
+  RETURN QUERY
+  UPDATE recipes r SET
+    title = s.title,
+    description = s.description,
+    ingredients = s.ingredients,
+    formula = s.formula,
+    instructions = s.instructions,
+    prep_time = s.prep_time,
+    cook_time = s.cook_time,
+    difficulty = s.difficulty,
+    servings = s.servings,
+    image_url = s.image_url,
+    image_urls = s.image_urls,
+    media_type = COALESCE(s.media_type, 'image'),
+    step_media = COALESCE(s.step_media, '[]'::jsonb),
+    tags = s.tags,
+    allergens = COALESCE(s.allergens, r.allergens),
+    dietary_labels = COALESCE(s.dietary_labels, r.dietary_labels)
+  FROM jsonb_populate_record(NULL::recipes, revision.snapshot) s
+  WHERE r.id = revision.recipe_id
+  RETURNING r.*;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only the recipe author can restore a revision';
+  END IF;
+
+  PERFORM set_config('acwhisk.restored_from', '', true);
+END;
+$$;
+
+-- Recipe views
+-- One row per viewer per recipe per day: signed-in viewers are counted by
+-- user, everyone else by a random key kept for the browser session. Authors
+-- viewing their own recipes are not counted. Rows are written only through
+-- record_recipe_view; authors read their recipes' views through
+-- recipe_analytics, and admins can read every row for site totals. Views by
+-- deleted users are kept with no viewer, so past totals do not change.
+CREATE TABLE IF NOT EXISTS recipe_views (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  recipe_id UUID REFERENCES recipes(id) ON DELETE CASCADE NOT NULL,
+  viewer_id UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  session_key TEXT,
+  viewed_on DATE NOT NULL DEFAULT CURRENT_DATE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Earlier setups required a viewer or session key, which blocked deleting
+-- any profile that had viewed a recipe while signed in
+ALTER TABLE recipe_views DROP CONSTRAINT IF EXISTS recipe_views_check;
+
+CREATE UNIQUE INDEX IF NOT EXISTS recipe_views_viewer_day_idx ON recipe_views(
+  recipe_id, viewed_on, COALESCE(viewer_id::text, session_key)
+);
+CREATE INDEX IF NOT EXISTS recipe_views_recipe_day_idx ON recipe_views(recipe_id, viewed_on);
+
+ALTER TABLE recipe_views ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view recipe views" ON recipe_views;
+CREATE POLICY "Admins can view recipe views" ON recipe_views FOR SELECT USING (
+  EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+);
+
+CREATE OR REPLACE FUNCTION record_recipe_view(target_recipe_id UUID, viewer_session TEXT DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL AND COALESCE(viewer_session, '') = '' THEN
+    RETURN;
+  END IF;
+
+  -- Only recipes the caller could open, and never the author's own views
+  IF NOT EXISTS (
+    SELECT 1 FROM recipes
+    WHERE id = target_recipe_id
+      AND author_id IS DISTINCT FROM auth.uid()
+      AND (is_public = true OR status = 'unlisted')
+  ) THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO recipe_views (recipe_id, viewer_id, session_key)
+  VALUES (target_recipe_id, auth.uid(), CASE WHEN auth.uid() IS NULL THEN left(viewer_session, 64) END)
+  ON CONFLICT DO NOTHING;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION record_recipe_view(UUID, TEXT) TO anon, authenticated;
+
+-- Daily views, likes, ratings and remixes of one recipe for its author,
+-- oldest day first. Remixes count every copy, including private drafts.
+CREATE OR REPLACE FUNCTION recipe_analytics(target_recipe_id UUID, days INTEGER DEFAULT 30)
+RETURNS TABLE (day DATE, views BIGINT, likes BIGINT, ratings BIGINT, rating_total BIGINT, remixes BIGINT)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM recipes WHERE id = target_recipe_id AND author_id = auth.uid()
+  ) AND NOT EXISTS (
+    SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Only the recipe author can see its analytics';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    d.day::date,
+    (SELECT COUNT(*) FROM recipe_views v WHERE v.recipe_id = target_recipe_id AND v.viewed_on = d.day::date),
+    (SELECT COUNT(*) FROM recipe_likes l WHERE l.recipe_id = target_recipe_id AND l.created_at::date = d.day::date),
+    (SELECT COUNT(*) FROM recipe_ratings r WHERE r.recipe_id = target_recipe_id AND r.created_at::date = d.day::date),
+    (SELECT COALESCE(SUM(r.rating), 0) FROM recipe_ratings r WHERE r.recipe_id = target_recipe_id AND r.created_at::date = d.day::date),
+    (SELECT COUNT(*) FROM recipes f WHERE f.forked_from = target_recipe_id AND f.created_at::date = d.day::date)
+  FROM generate_series(CURRENT_DATE - (LEAST(GREATEST(days, 1), 365) - 1), CURRENT_DATE, INTERVAL '1 day') AS d(day)
+  ORDER BY 1;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION recipe_analytics(UUID, INTEGER) TO authenticated;
+
+-- Personalised recommendations
+-- Diets a user follows; recommendations only include recipes labelled with
+-- all of them. Same ids as recipes.dietary_labels.
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS dietary_preferences TEXT[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE profiles DROP CONSTRAINT IF EXISTS profiles_dietary_preferences_check;
+ALTER TABLE profiles ADD CONSTRAINT profiles_dietary_preferences_check CHECK (
+  dietary_preferences <@ ARRAY['vegetarian', 'vegan', 'pescatarian', 'gluten_free', 'dairy_free', 'egg_free', 'nut_free', 'halal', 'kosher']
+);
+
+-- One row each time a user finishes cook mode for a recipe
+CREATE TABLE IF NOT EXISTS recipe_cooks (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  recipe_id UUID REFERENCES recipes(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  cooked_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS recipe_cooks_user_idx ON recipe_cooks(user_id, cooked_at DESC);
+
+ALTER TABLE recipe_cooks ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own cooks" ON recipe_cooks;
+CREATE POLICY "Users can view own cooks" ON recipe_cooks FOR SELECT USING (auth.uid() = user_id);
+DROP POLICY IF EXISTS "Users can delete own cooks" ON recipe_cooks;
+CREATE POLICY "Users can delete own cooks" ON recipe_cooks FOR DELETE USING (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION record_recipe_cook(target_recipe_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN;
+  END IF;
+
+  -- Repeated finishes of the same recipe within an hour count once
+  IF EXISTS (
+    SELECT 1 FROM recipe_cooks
+    WHERE recipe_id = target_recipe_id AND user_id = auth.uid() AND cooked_at > NOW() - INTERVAL '1 hour'
+  ) THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO recipe_cooks (recipe_id, user_id)
+  SELECT id, auth.uid() FROM recipes
+  WHERE id = target_recipe_id AND (is_public = true OR status = 'unlisted' OR author_id = auth.uid());
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION record_recipe_cook(UUID) TO authenticated;
+
+-- Recipes a user has hidden from their recommendations
+CREATE TABLE IF NOT EXISTS recipe_recommendation_dismissals (
+  user_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  recipe_id UUID REFERENCES recipes(id) ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (user_id, recipe_id)
+);
+
+ALTER TABLE recipe_recommendation_dismissals ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own dismissals" ON recipe_recommendation_dismissals;
+CREATE POLICY "Users can view own dismissals" ON recipe_recommendation_dismissals FOR SELECT USING (auth.uid() = user_id);
+DROP POLICY IF EXISTS "Users can create own dismissals" ON recipe_recommendation_dismissals;
+CREATE POLICY "Users can create own dismissals" ON recipe_recommendation_dismissals FOR INSERT WITH CHECK (auth.uid() = user_id);
+DROP POLICY IF EXISTS "Users can delete own dismissals" ON recipe_recommendation_dismissals;
+CREATE POLICY "Users can delete own dismissals" ON recipe_recommendation_dismissals FOR DELETE USING (auth.uid() = user_id);
+
+-- Published recipes ranked for the calling user. Likes, ratings and cooks
+-- weight the tags of those recipes; tags that often appear alongside them on
+-- published recipes count at half weight. Scores add a small popularity and
+-- freshness prior, so users with no history still get the community's best.
+-- Recipes the user wrote, has already liked, rated or cooked, or dismissed
+-- are left out. reason is liked, rated, cooked, tag, diet or popular, with
+-- the recipe or tag it refers to.
+CREATE OR REPLACE FUNCTION recommend_recipes(result_limit INTEGER DEFAULT 20)
+RETURNS TABLE (
+  recipe_id UUID,
+  score DOUBLE PRECISION,
+  reason TEXT,
+  reason_recipe_id UUID,
+  reason_recipe_title TEXT,
+  reason_tag TEXT
+)
+LANGUAGE sql STABLE
+SET search_path = public
+AS $$
+  WITH signals AS (
+    SELECT l.recipe_id, 3.0::float8 AS weight, 'liked' AS kind
+    FROM recipe_likes l WHERE l.user_id = auth.uid()
+    UNION ALL
+    -- 4 and 5 stars pull towards similar recipes, 1 and 2 push away; 3 stars
+    -- weigh nothing but still mark the recipe as rated
+    SELECT r.recipe_id, (r.rating - 3) * 1.5, 'rated'
+    FROM recipe_ratings r WHERE r.user_id = auth.uid()
+    UNION ALL
+    SELECT c.recipe_id, LEAST(COUNT(*), 3) * 2.0, 'cooked'
+    FROM recipe_cooks c WHERE c.user_id = auth.uid()
+    GROUP BY c.recipe_id
+  ),
+  seeds AS (
+    SELECT s.recipe_id, SUM(s.weight) AS weight, (array_agg(s.kind ORDER BY s.weight DESC))[1] AS kind
+    FROM signals s
+    GROUP BY s.recipe_id
+  ),
+  seed_recipes AS (
+    SELECT s.recipe_id, s.weight, s.kind, r.title,
+      ARRAY(SELECT DISTINCT lower(trim(t)) FROM unnest(r.tags) t WHERE trim(t) <> '') AS tags
+    FROM seeds s
+    JOIN recipes r ON r.id = s.recipe_id
+  ),
+  published AS (
+    SELECT r.id, ARRAY(SELECT DISTINCT lower(trim(t)) FROM unnest(r.tags) t WHERE trim(t) <> '') AS tags
+    FROM recipes r
+    WHERE r.is_public = true
+  ),
+  tag_counts AS (
+    SELECT t AS tag, COUNT(*) AS recipes
+    FROM published p CROSS JOIN unnest(p.tags) t
+    GROUP BY t
+  ),
+  direct_tags AS (
+    SELECT t AS tag, SUM(sr.weight) AS weight
+    FROM seed_recipes sr CROSS JOIN unnest(sr.tags) t
+    GROUP BY t
+  ),
+  -- Each liked tag passes half its weight on to the tags published recipes
+  -- pair it with, in proportion to how often they appear together
+  related_tags AS (
+    SELECT pair.tag, SUM(d.weight * pair.together / tc.recipes) * 0.5 AS weight
+    FROM direct_tags d
+    JOIN tag_counts tc ON tc.tag = d.tag
+    CROSS JOIN LATERAL (
+      SELECT other AS tag, COUNT(*)::float8 AS together
+      FROM published p CROSS JOIN unnest(p.tags) other
+      WHERE d.tag = ANY(p.tags) AND other <> d.tag
+      GROUP BY other
+    ) pair
+    WHERE d.weight > 0
+    GROUP BY pair.tag
+  ),
+  tag_weights AS (
+    SELECT w.tag, SUM(w.weight) AS weight
+    FROM (SELECT * FROM direct_tags UNION ALL SELECT * FROM related_tags) w
+    GROUP BY w.tag
+  ),
+  preferences AS (
+    SELECT COALESCE((SELECT dietary_preferences FROM profiles WHERE id = auth.uid()), '{}') AS labels
+  ),
+  scored AS (
+    SELECT
+      p.id,
+      p.tags,
+      COALESCE((SELECT SUM(tw.weight) FROM tag_weights tw WHERE tw.tag = ANY(p.tags)), 0)
+        / sqrt(GREATEST(cardinality(p.tags), 1)) AS affinity,
+      0.5 * ln(1 + r.like_count) + 0.3 * r.average_rating * LEAST(r.rating_count, 5) / 5.0 AS popularity,
+      1.0 / (1 + EXTRACT(EPOCH FROM NOW() - COALESCE(r.published_at, r.created_at)) / 86400 / 30) AS freshness
+    FROM published p
+    JOIN recipes r ON r.id = p.id
+    CROSS JOIN preferences pref
+    WHERE r.author_id IS DISTINCT FROM auth.uid()
+      AND r.dietary_labels @> pref.labels
+      AND NOT EXISTS (SELECT 1 FROM seeds s WHERE s.recipe_id = p.id)
+      AND NOT EXISTS (
+        SELECT 1 FROM recipe_recommendation_dismissals d
+        WHERE d.user_id = auth.uid() AND d.recipe_id = p.id
+      )
+  )
+  SELECT
+    s.id,
+    (s.affinity + s.popularity + s.freshness)::float8,
+    CASE
+      WHEN because.recipe_id IS NOT NULL THEN because.kind
+      WHEN top_tag.tag IS NOT NULL THEN 'tag'
+      WHEN cardinality(pref.labels) > 0 THEN 'diet'
+      ELSE 'popular'
+    END,
+    because.recipe_id,
+    because.title,
+    top_tag.tag
+  FROM scored s
+  CROSS JOIN preferences pref
+  -- The liked recipe sharing the most tags explains the pick
+  LEFT JOIN LATERAL (
+    SELECT sr.recipe_id, sr.title, sr.kind
+    FROM seed_recipes sr
+    WHERE sr.weight > 0 AND sr.tags && s.tags
+    ORDER BY cardinality(ARRAY(SELECT unnest(sr.tags) INTERSECT SELECT unnest(s.tags))) * sr.weight DESC, sr.title
+    LIMIT 1
+  ) because ON true
+  LEFT JOIN LATERAL (
+    SELECT tw.tag FROM tag_weights tw
+    WHERE tw.tag = ANY(s.tags) AND tw.weight > 0
+    ORDER BY tw.weight DESC, tw.tag
+    LIMIT 1
+  ) top_tag ON true
+  ORDER BY 2 DESC, s.id
+  LIMIT LEAST(GREATEST(result_limit, 1), 100);
+$$;
+
+GRANT EXECUTE ON FUNCTION recommend_recipes(INTEGER) TO authenticated;
@@ -0,0 +1,89 @@
+// Minimal ZIP writer for client-side downloads. Files are stored without
+// compression, which keeps this dependency-free; exports are small text files.
+
+export interface ZipEntry {
+  name: string
+  content: string | Uint8Array
+  modified?: Date
+}
+
+let crcTable: Uint32Array | null = null
+
+function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256)
+    for (let n = 0; n < 256; n++) {
+      let c = n
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+      crcTable[n] = c >>> 0
+    }
+  }
+
+  let crc = 0xffffffff
+  for (let i = 0; i < data.length; i++) crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8)
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+function dosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  }
+}
+
+export function createZip(entries: ZipEntry[]): Blob {
+  const encoder = new TextEncoder()
+  const chunks: Uint8Array[] = []
+  const central: Uint8Array[] = []
+  let offset = 0
+
+  entries.forEach(entry => {
+    const name = encoder.encode(entry.name)
+    const data = typeof entry.content === 'string' ? encoder.encode(entry.content) : entry.content
+    const crc = crc32(data)
+    const stamp = dosDateTime(entry.modified || new Date())
+
+    // Local file header
+    const local = new DataView(new ArrayBuffer(30))
+    local.setUint32(0, 0x04034b50, true)
+    local.setUint16(4, 20, true)
+    local.setUint16(6, 0x0800, true) // UTF-8 names
+    local.setUint16(8, 0, true) // stored
+    local.setUint16(10, stamp.time, true)
+    local.setUint16(12, stamp.date, true)
+    local.setUint32(14, crc, true)
+    local.setUint32(18, data.length, true)
+    local.setUint32(22, data.length, true)
+    local.setUint16(26, name.length, true)
+    local.setUint16(28, 0, true)
+    chunks.push(new Uint8Array(local.buffer), name, data)
+
+    // Central directory record
+    const record = new DataView(new ArrayBuffer(46))
+    record.setUint32(0, 0x02014b50, true)
+    record.setUint16(4, 20, true)
+    record.setUint16(6, 20, true)
+    record.setUint16(8, 0x0800, true)
+    record.setUint16(10, 0, true)
+    record.setUint16(12, stamp.time, true)
+    record.setUint16(14, stamp.date, true)
+    record.setUint32(16, crc, true)
+    record.setUint32(20, data.length, true)
+    record.setUint32(24, data.length, true)
+    record.setUint16(28, name.length, true)
+    record.setUint32(42, offset, true)
+    central.push(new Uint8Array(record.buffer), name)
+
+    offset += 30 + name.length + data.length
+  })
+
+  const centralSize = central.reduce((size, chunk) => size + chunk.length, 0)
+  const end = new DataView(new ArrayBuffer(22))
+  end.setUint32(0, 0x06054b50, true)
+  end.setUint16(8, entries.length, true)
+  end.setUint16(10, entries.length, true)
+  end.setUint32(12, centralSize, true)
+  end.setUint32(16, offset, true)
+
+  return new Blob([...chunks, ...central, new Uint8Array(end.buffer)], { type: 'application/zip' })
+}